@@ -0,0 +1,201 @@
+// scripts/mock-idp.mjs
+//
+// A throwaway OpenID Connect provider for testing single sign-on locally.
+// Node built-ins only; keys and codes live in memory.
+//
+//   npm run mock-idp
+//
+// then start the app with
+//
+//   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=appatize \
+//   OIDC_CLIENT_SECRET=appatize-secret OIDC_PROVIDER_NAME="Mock IdP" npm run dev
+//
+// The authorize page asks for any email and name and signs in as that
+// person; tick "unverified" to test how the app treats unverified emails.
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 4010;
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || "appatize";
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || "appatize-secret";
+const CODE_TTL_MS = 60_000;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const KID = randomBytes(8).toString("hex");
+const JWK = { ...publicKey.export({ format: "jwk" }), kid: KID, alg: "RS256", use: "sig" };
+
+/** code → what the token endpoint needs to redeem it */
+const codes = new Map();
+
+const base64url = (value) => Buffer.from(value).toString("base64url");
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+function escapeHtml(value) {
+  return String(value ?? "").replace(
+    /[&<>"']/g,
+    (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch]
+  );
+}
+
+function send(res, status, body, headers = {}) {
+  const isJson = typeof body !== "string";
+  res.writeHead(status, {
+    "Content-Type": isJson ? "application/json" : "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+    ...headers,
+  });
+  res.end(isJson ? JSON.stringify(body) : body);
+}
+
+async function readForm(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+function authorizePage(params) {
+  const hidden = [...params.entries()]
+    .map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`)
+    .join("\n");
+  return `<!doctype html>
+<title>Mock IdP</title>
+<style>body{font:14px system-ui;max-width:320px;margin:60px auto}label{display:block;margin:8px 0}input[type=text],input[type=email]{width:100%}</style>
+<h1>Mock IdP</h1>
+<p>Signing in to <code>${escapeHtml(params.get("client_id"))}</code></p>
+<form method="post" action="/authorize">
+${hidden}
+<label>Email <input type="email" name="email" required value="${escapeHtml(params.get("login_hint"))}"></label>
+<label>Name <input type="text" name="name"></label>
+<label><input type="checkbox" name="unverified"> Email is unverified</label>
+<button type="submit">Sign in</button>
+</form>`;
+}
+
+function checkAuthorizeParams(params) {
+  if (params.get("client_id") !== CLIENT_ID) return "unknown client_id";
+  if (params.get("response_type") !== "code") return "response_type must be code";
+  if (!params.get("redirect_uri")) return "redirect_uri is required";
+  if (!(params.get("scope") ?? "").split(" ").includes("openid")) return "scope must include openid";
+  if (params.get("code_challenge_method") !== "S256") return "PKCE S256 is required";
+  return null;
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  const basic = req.headers.authorization?.match(/^Basic\s+(.+)$/i)?.[1];
+  const [basicId, basicSecret] = basic
+    ? Buffer.from(basic, "base64").toString().split(":").map(decodeURIComponent)
+    : [];
+  const clientId = form.get("client_id") ?? basicId;
+  const clientSecret = form.get("client_secret") ?? basicSecret;
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return send(res, 401, { error: "invalid_client" });
+  }
+  if (form.get("grant_type") !== "authorization_code") {
+    return send(res, 400, { error: "unsupported_grant_type" });
+  }
+
+  const grant = codes.get(form.get("code"));
+  codes.delete(form.get("code"));
+  const verifier = form.get("code_verifier") ?? "";
+  if (
+    !grant ||
+    grant.expiresAt < Date.now() ||
+    grant.redirectUri !== form.get("redirect_uri") ||
+    createHash("sha256").update(verifier).digest("base64url") !== grant.codeChallenge
+  ) {
+    return send(res, 400, { error: "invalid_grant" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const subject = createHash("sha256").update(grant.email).digest("hex").slice(0, 16);
+  send(res, 200, {
+    token_type: "Bearer",
+    expires_in: 3600,
+    access_token: randomBytes(24).toString("base64url"),
+    id_token: signIdToken({
+      iss: ISSUER,
+      sub: subject,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + 300,
+      nonce: grant.nonce,
+      email: grant.email,
+      email_verified: grant.emailVerified,
+      ...(grant.name ? { name: grant.name } : {}),
+    }),
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+
+  try {
+    if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        scopes_supported: ["openid", "email", "profile"],
+        token_endpoint_auth_methods_supported: ["client_secret_post", "client_secret_basic"],
+        code_challenge_methods_supported: ["S256"],
+      });
+    }
+
+    if (req.method === "GET" && url.pathname === "/jwks") {
+      return send(res, 200, { keys: [JWK] });
+    }
+
+    if (req.method === "GET" && url.pathname === "/authorize") {
+      const problem = checkAuthorizeParams(url.searchParams);
+      if (problem) return send(res, 400, `<p>${escapeHtml(problem)}</p>`);
+      return send(res, 200, authorizePage(url.searchParams));
+    }
+
+    if (req.method === "POST" && url.pathname === "/authorize") {
+      const form = await readForm(req);
+      const problem = checkAuthorizeParams(form);
+      if (problem) return send(res, 400, `<p>${escapeHtml(problem)}</p>`);
+
+      const code = randomBytes(24).toString("base64url");
+      codes.set(code, {
+        redirectUri: form.get("redirect_uri"),
+        codeChallenge: form.get("code_challenge"),
+        nonce: form.get("nonce") ?? undefined,
+        email: (form.get("email") ?? "").trim().toLowerCase(),
+        name: (form.get("name") ?? "").trim(),
+        emailVerified: !form.get("unverified"),
+        expiresAt: Date.now() + CODE_TTL_MS,
+      });
+
+      const redirect = new URL(form.get("redirect_uri"));
+      redirect.searchParams.set("code", code);
+      if (form.get("state")) redirect.searchParams.set("state", form.get("state"));
+      return send(res, 302, "", { Location: redirect.toString() });
+    }
+
+    if (req.method === "POST" && url.pathname === "/token") return await handleToken(req, res);
+
+    send(res, 404, { error: "not_found" });
+  } catch (error) {
+    console.error("[mock-idp]", error);
+    send(res, 500, { error: "server_error" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock IdP at ${ISSUER} (client_id ${CLIENT_ID}, secret ${CLIENT_SECRET})`);
+});
@@ -0,0 +1,31 @@
+// src/app/api/auth/login/route.ts
+import { NextResponse } from "next/server";
+import { createSession, setSessionCookie } from "@/lib/auth/sessions";
+import { authenticateLocalUser, publicUser, recordSignIn } from "@/lib/auth/users";
+import { LoginRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+
+/**
+ * POST /api/auth/login  { email, password } → { user }
+ * One 401 message for every failure, so it doesn't reveal which emails
+ * have accounts.
+ */
+export async function POST(req: Request) {
+  try {
+    const parsedBody = await parseJsonBody(req, LoginRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const user = await authenticateLocalUser(parsedBody.data.email, parsedBody.data.password);
+    if (!user) {
+      return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
+    }
+
+    const { token, session } = await createSession(user.id, "password");
+    const res = NextResponse.json({ user: publicUser((await recordSignIn(user.id)) ?? user) });
+    setSessionCookie(res, token, session);
+    return res;
+  } catch (error) {
+    console.error("[/api/auth/login] Error:", error);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
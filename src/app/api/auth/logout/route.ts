@@ -0,0 +1,22 @@
+// src/app/api/auth/logout/route.ts
+import { NextResponse } from "next/server";
+import { sessionToken } from "@/lib/auth/guard";
+import { clearSessionCookie, deleteSession } from "@/lib/auth/sessions";
+
+/**
+ * POST /api/auth/logout → 204. Ends the session server-side too, so a
+ * copied cookie stops working.
+ */
+export async function POST(req: Request) {
+  try {
+    const token = sessionToken(req);
+    if (token) await deleteSession(token);
+
+    const res = new NextResponse(null, { status: 204 });
+    clearSessionCookie(res);
+    return res;
+  } catch (error) {
+    console.error("[/api/auth/logout] Error:", error);
+    return NextResponse.json({ error: "Failed to sign out" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/auth/oidc/callback/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { currentSession } from "@/lib/auth/guard";
+import { JwtError } from "@/lib/auth/jwt";
+import {
+  completeOidcLogin,
+  decodeFlowState,
+  OIDC_FLOW_COOKIE,
+  OidcError,
+  oidcConfig,
+} from "@/lib/auth/oidc";
+import { createSession, setSessionCookie } from "@/lib/auth/sessions";
+import {
+  AccountLinkRequiredError,
+  EmailTakenError,
+  recordSignIn,
+  upsertOidcUser,
+} from "@/lib/auth/users";
+
+/**
+ * GET /api/auth/oidc/callback?code=…&state=…
+ *
+ * Checks state against the login cookie, redeems the code, verifies the
+ * id_token and signs the user in. Arriving signed in to a password account
+ * links the identity to it. Failures land on /login?error=<reason>.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const cookieStore = await cookies();
+  const flow = decodeFlowState(cookieStore.get(OIDC_FLOW_COOKIE)?.value);
+
+  const fail = (reason: string) => {
+    const res = NextResponse.redirect(new URL(`/login?error=${reason}`, req.url));
+    res.cookies.set(OIDC_FLOW_COOKIE, "", { path: "/api/auth/oidc", maxAge: 0 });
+    return res;
+  };
+
+  const config = oidcConfig();
+  if (!config) return fail("sso_unavailable");
+  if (searchParams.get("error")) return fail("sso_denied");
+
+  const code = searchParams.get("code");
+  if (!code || !flow || searchParams.get("state") !== flow.state) return fail("sso_state");
+
+  try {
+    const identity = await completeOidcLogin(config, req, code, flow);
+    const current = await currentSession(req);
+    const user = await upsertOidcUser(identity, { signedInAs: current?.user.id });
+    await recordSignIn(user.id);
+    const { token, session } = await createSession(user.id, "oidc");
+
+    const res = NextResponse.redirect(new URL(flow.returnTo, req.url));
+    res.cookies.set(OIDC_FLOW_COOKIE, "", { path: "/api/auth/oidc", maxAge: 0 });
+    setSessionCookie(res, token, session);
+    return res;
+  } catch (error) {
+    if (error instanceof EmailTakenError) return fail("sso_email_taken");
+    if (error instanceof AccountLinkRequiredError) return fail("sso_link_required");
+    if (error instanceof OidcError || error instanceof JwtError) {
+      console.warn("[/api/auth/oidc/callback] Rejected:", error.message);
+      return fail("sso_failed");
+    }
+    console.error("[/api/auth/oidc/callback] Error:", error);
+    return fail("sso_failed");
+  }
+}
@@ -0,0 +1,40 @@
+// src/app/api/auth/oidc/login/route.ts
+import { NextResponse } from "next/server";
+import {
+  beginOidcLogin,
+  encodeFlowState,
+  OIDC_FLOW_COOKIE,
+  OIDC_FLOW_TTL_SECONDS,
+  oidcConfig,
+} from "@/lib/auth/oidc";
+
+/**
+ * GET /api/auth/oidc/login?returnTo=/briefs
+ *
+ * Redirects to the identity provider. State, nonce and the PKCE verifier
+ * ride along in a short-lived httpOnly cookie scoped to the callback.
+ */
+export async function GET(req: Request) {
+  const config = oidcConfig();
+  if (!config) {
+    return NextResponse.json({ error: "Single sign-on is not configured" }, { status: 404 });
+  }
+
+  try {
+    const returnTo = new URL(req.url).searchParams.get("returnTo") ?? "/";
+    const { url, flow } = await beginOidcLogin(config, req, returnTo);
+
+    const res = NextResponse.redirect(url);
+    res.cookies.set(OIDC_FLOW_COOKIE, encodeFlowState(flow), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/auth/oidc",
+      maxAge: OIDC_FLOW_TTL_SECONDS,
+    });
+    return res;
+  } catch (error) {
+    console.error("[/api/auth/oidc/login] Error:", error);
+    return NextResponse.redirect(new URL("/login?error=sso_unavailable", req.url));
+  }
+}
@@ -0,0 +1,22 @@
+// src/app/api/auth/session/route.ts
+import { NextResponse } from "next/server";
+import { currentSession } from "@/lib/auth/guard";
+import { oidcConfig } from "@/lib/auth/oidc";
+import { publicUser } from "@/lib/auth/users";
+
+/**
+ * GET /api/auth/session → { user | null, sso: { enabled, providerName? } }
+ */
+export async function GET(req: Request) {
+  try {
+    const current = await currentSession(req);
+    const config = oidcConfig();
+    return NextResponse.json({
+      user: current ? publicUser(current.user) : null,
+      sso: config ? { enabled: true, providerName: config.providerName } : { enabled: false },
+    });
+  } catch (error) {
+    console.error("[/api/auth/session] Error:", error);
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/api/auth/signup/route.ts
+import { NextResponse } from "next/server";
+import { createSession, setSessionCookie } from "@/lib/auth/sessions";
+import { createLocalUser, EmailTakenError, publicUser } from "@/lib/auth/users";
+import { SignupRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+
+/**
+ * POST /api/auth/signup  { email, password, name? } → 201 { user }
+ * Creates a local account and signs it in.
+ */
+export async function POST(req: Request) {
+  try {
+    const parsedBody = await parseJsonBody(req, SignupRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const user = await createLocalUser(parsedBody.data);
+    const { token, session } = await createSession(user.id, "password");
+
+    const res = NextResponse.json({ user: publicUser(user) }, { status: 201 });
+    setSessionCookie(res, token, session);
+    return res;
+  } catch (error) {
+    if (error instanceof EmailTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[/api/auth/signup] Error:", error);
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+  }
+}
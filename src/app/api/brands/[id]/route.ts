@@ -0,0 +1,66 @@
+// src/app/api/brands/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { deleteBrand, getBrand, updateBrand } from "@/lib/brands/repository";
+import { BrandPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Brand "${id}" not found` }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const brand = inWorkspace(await getBrand(id), auth.workspace.id);
+    return brand ? NextResponse.json({ brand }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/brands/${id}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load brand" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getBrand(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, BrandPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const brand = await updateBrand(id, parsedBody.data);
+    return brand ? NextResponse.json({ brand }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    console.error(`[/api/brands/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update brand" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getBrand(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteBrand(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/brands/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete brand" }, { status: 500 });
+  }
+}
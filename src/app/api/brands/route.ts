@@ -0,0 +1,46 @@
+// src/app/api/brands/route.ts
+import { NextResponse } from "next/server";
+import { createBrand, listBrands } from "@/lib/brands/repository";
+import { BrandCreateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/brands — the workspace's Brand Memory profiles, by name.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const brands = await listBrands(auth.workspace.id);
+    return NextResponse.json({ brands });
+  } catch (error) {
+    console.error("[/api/brands] List error:", error);
+    return NextResponse.json({ error: "Failed to list brands" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/brands — body is a profile without timestamps; `id` is
+ * optional and derived from the name when omitted.
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, BrandCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const brand = await createBrand({ ...parsedBody.data, workspaceId: auth.workspace.id });
+    return NextResponse.json({ brand }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[/api/brands] Create error:", error);
+    return NextResponse.json({ error: "Failed to create brand" }, { status: 500 });
+  }
+}
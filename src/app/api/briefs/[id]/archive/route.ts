@@ -0,0 +1,38 @@
+// src/app/api/briefs/[id]/archive/route.ts
+import { NextResponse } from "next/server";
+import { getBrief } from "@/lib/briefs/repository";
+import { moveBrief, workflowErrorResponse } from "@/lib/workflow/move";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/briefs/[id]/archive
+ * Shorthand for moving the brief to "Archived" through the workflow.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const current = inWorkspace(await getBrief(id), auth.workspace.id);
+    if (!current) {
+      return NextResponse.json({ error: `Brief "${id}" not found` }, { status: 404 });
+    }
+
+    const result = await moveBrief(
+      current,
+      "Archived",
+      { userId: auth.user.id, role: auth.role },
+      auth.workspace.approvalPolicy
+    );
+    return NextResponse.json({ brief: result.record ?? current, moved: result.moved });
+  } catch (error) {
+    const response = workflowErrorResponse(error);
+    if (response) return response;
+    console.error(`[/api/briefs/${id}/archive] Error:`, error);
+    return NextResponse.json({ error: "Failed to archive brief" }, { status: 500 });
+  }
+}
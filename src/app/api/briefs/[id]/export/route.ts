@@ -0,0 +1,84 @@
+// src/app/api/briefs/[id]/export/route.ts
+import { NextResponse } from "next/server";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import {
+  renderBriefHtml,
+  renderBriefJson,
+  renderBriefMarkdown,
+  type BriefExportFormat,
+} from "@/lib/briefs/export";
+import { getBrief } from "@/lib/briefs/repository";
+import { BriefExportQuerySchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const FORMATS: Record<BriefExportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+};
+
+function fileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "brief"}.${extension}`;
+}
+
+/**
+ * GET /api/briefs/[id]/export?format=html&template=editorial&download=1
+ *
+ * Markdown, self-contained HTML (open and print to PDF) or canonical
+ * JSON. HTML uses the brief's brand template unless `template` is given.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = validate(
+      BriefExportQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid export options"
+    );
+    if (!query.ok) return query.response;
+
+    const brief = inWorkspace(await getBrief(id), auth.workspace.id);
+    if (!brief) {
+      return NextResponse.json({ error: `Brief "${id}" not found` }, { status: 404 });
+    }
+
+    const { format, template, download } = query.data;
+    // A brand deleted since (or from another workspace) renders unbranded
+    const brand = await resolveBrand(brief.brandId, auth.workspace.id).catch((error) => {
+      if (error instanceof BrandNotFoundError) return null;
+      throw error;
+    });
+    const body =
+      format === "json"
+        ? renderBriefJson(brief)
+        : format === "markdown"
+        ? renderBriefMarkdown(brief, { brand })
+        : renderBriefHtml(brief, { brand, template });
+
+    const { contentType, extension } = FORMATS[format];
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${fileName(
+          brief.title,
+          extension
+        )}"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error(`[/api/briefs/${id}/export] Error:`, error);
+    return NextResponse.json({ error: "Failed to export brief" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/briefs/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { deleteBrief, getBrief, updateBrief } from "@/lib/briefs/repository";
+import { BriefPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Brief "${id}" not found` }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const brief = inWorkspace(await getBrief(id), auth.workspace.id);
+    return brief ? NextResponse.json({ brief }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/briefs/${id}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load brief" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getBrief(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, BriefPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const brief = await updateBrief(id, parsedBody.data, { by: auth.user.id });
+    return brief ? NextResponse.json({ brief }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    console.error(`[/api/briefs/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update brief" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getBrief(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteBrief(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/briefs/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete brief" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/briefs/[id]/versions/[version]/restore/route.ts
+import { NextResponse } from "next/server";
+import { getBrief, restoreBriefVersion } from "@/lib/briefs/repository";
+import { BriefVersionParamsSchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string; version: string }> };
+
+/**
+ * POST /api/briefs/[id]/versions/2/restore — the restored brief becomes
+ * the newest version.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id, version } = await params;
+
+  try {
+    const parsed = validate(BriefVersionParamsSchema, { version }, "Invalid version");
+    if (!parsed.ok) return parsed.response;
+
+    const brief = inWorkspace(await getBrief(id), auth.workspace.id)
+      ? await restoreBriefVersion(id, parsed.data.version, auth.user.id)
+      : null;
+    if (!brief) {
+      return NextResponse.json(
+        { error: `Brief "${id}" has no version ${parsed.data.version}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ brief });
+  } catch (error) {
+    console.error(`[/api/briefs/${id}/versions/${version}/restore] Error:`, error);
+    return NextResponse.json({ error: "Failed to restore brief version" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/briefs/[id]/versions/[version]/route.ts
+import { NextResponse } from "next/server";
+import { diffBriefs } from "@/lib/briefs/diff";
+import { getBrief } from "@/lib/briefs/repository";
+import { getBriefVersion } from "@/lib/briefs/versions";
+import { BriefVersionParamsSchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string; version: string }> };
+
+/**
+ * GET /api/briefs/[id]/versions/3?compare=2
+ *
+ * The version plus `changes`: its diff from `compare` (another version
+ * number) or, by default, to the current brief.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id, version } = await params;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = validate(
+      BriefVersionParamsSchema,
+      { version, compare: searchParams.get("compare") || undefined },
+      "Invalid version"
+    );
+    if (!parsed.ok) return parsed.response;
+
+    const [target, stored] = await Promise.all([
+      getBriefVersion(id, parsed.data.version),
+      getBrief(id),
+    ]);
+    const current = inWorkspace(stored, auth.workspace.id);
+    if (!target || !current) {
+      return NextResponse.json(
+        { error: `Brief "${id}" has no version ${parsed.data.version}` },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.compare === undefined) {
+      return NextResponse.json({ version: target, changes: diffBriefs(target.brief, current) });
+    }
+
+    const base = await getBriefVersion(id, parsed.data.compare);
+    if (!base) {
+      return NextResponse.json(
+        { error: `Brief "${id}" has no version ${parsed.data.compare}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ version: target, changes: diffBriefs(base.brief, target.brief) });
+  } catch (error) {
+    console.error(`[/api/briefs/${id}/versions/${version}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load brief version" }, { status: 500 });
+  }
+}
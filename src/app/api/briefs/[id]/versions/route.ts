@@ -0,0 +1,29 @@
+// src/app/api/briefs/[id]/versions/route.ts
+import { NextResponse } from "next/server";
+import { getBrief } from "@/lib/briefs/repository";
+import { listBriefVersions } from "@/lib/briefs/versions";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/briefs/[id]/versions — newest first, each with its full
+ * snapshot so any two can be diffed client-side.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getBrief(id), auth.workspace.id)) {
+      return NextResponse.json({ error: `Brief "${id}" not found` }, { status: 404 });
+    }
+    const versions = await listBriefVersions(id);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error(`[/api/briefs/${id}/versions] List error:`, error);
+    return NextResponse.json({ error: "Failed to list brief versions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/briefs/[id]/workflow/route.ts
+import { NextResponse } from "next/server";
+import { getBrief } from "@/lib/briefs/repository";
+import { BriefTransitionRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { moveBrief, workflowErrorResponse } from "@/lib/workflow/move";
+import { workflowState } from "@/lib/workflow/repository";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Brief "${id}" not found` }, { status: 404 });
+}
+
+/**
+ * GET /api/briefs/[id]/workflow
+ * The current stage, the moves from it with their sign-off rules and
+ * progress, and the brief's approval history.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const brief = inWorkspace(await getBrief(id), auth.workspace.id);
+    if (!brief) return notFound(id);
+
+    return NextResponse.json(
+      await workflowState("brief", id, brief.status, auth.workspace.approvalPolicy)
+    );
+  } catch (error) {
+    console.error(`[/api/briefs/${id}/workflow] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load workflow" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/briefs/[id]/workflow  { to, note? }
+ * Any member may ask; the workspace's approval policy decides whether
+ * their role is enough and whether this is the move or one sign-off
+ * towards it (`moved: false`).
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const parsedBody = await parseJsonBody(req, BriefTransitionRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const current = inWorkspace(await getBrief(id), auth.workspace.id);
+    if (!current) return notFound(id);
+
+    const { to, note } = parsedBody.data;
+    const result = await moveBrief(
+      current,
+      to,
+      { userId: auth.user.id, role: auth.role },
+      auth.workspace.approvalPolicy,
+      note
+    );
+    return NextResponse.json({
+      brief: result.record ?? current,
+      moved: result.moved,
+      signOffs: result.signOffs,
+    });
+  } catch (error) {
+    const response = workflowErrorResponse(error);
+    if (response) return response;
+    console.error(`[/api/briefs/${id}/workflow] Move error:`, error);
+    return NextResponse.json({ error: "Failed to move brief" }, { status: 500 });
+  }
+}
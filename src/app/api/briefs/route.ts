@@ -0,0 +1,67 @@
+// src/app/api/briefs/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createBrief, listBriefs } from "@/lib/briefs/repository";
+import { BriefStatusSchema } from "@/lib/schema/engine";
+import { IncomingBriefSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validate } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/briefs?status=Draft&trendId=trend-street_pov
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const filters = validate(
+      z.object({
+        status: BriefStatusSchema.optional(),
+        trendId: z.string().optional(),
+      }),
+      {
+        status: searchParams.get("status") || undefined,
+        trendId: searchParams.get("trendId") || undefined,
+      },
+      "Invalid filters"
+    );
+    if (!filters.ok) return filters.response;
+
+    const briefs = await listBriefs({ ...filters.data, workspaceId: auth.workspace.id });
+
+    return NextResponse.json({ briefs });
+  } catch (error) {
+    console.error("[/api/briefs] List error:", error);
+    return NextResponse.json({ error: "Failed to list briefs" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/briefs — body is a Brief (older shapes are upgraded).
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, IncomingBriefSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const brief = await createBrief({
+      ...parsedBody.data,
+      workspaceId: auth.workspace.id,
+      createdBy: auth.user.id,
+    });
+    return NextResponse.json({ brief }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[/api/briefs] Create error:", error);
+    return NextResponse.json({ error: "Failed to create brief" }, { status: 500 });
+  }
+}
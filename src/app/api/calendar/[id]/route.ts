@@ -0,0 +1,77 @@
+// src/app/api/calendar/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import {
+  CalendarLinkError,
+  deleteCalendarEntry,
+  getCalendarEntry,
+  updateCalendarEntry,
+} from "@/lib/calendar/repository";
+import { CalendarEntryPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Calendar entry "${id}" not found` }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const entry = inWorkspace(await getCalendarEntry(id), auth.workspace.id);
+    return entry ? NextResponse.json({ entry }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/calendar/${id}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load calendar entry" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH — any subset of fields; rescheduling is `{ dueDate }`.
+ */
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getCalendarEntry(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, CalendarEntryPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const entry = await updateCalendarEntry(id, parsedBody.data);
+    return entry ? NextResponse.json({ entry }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    if (error instanceof CalendarLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error(`[/api/calendar/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update calendar entry" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getCalendarEntry(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteCalendarEntry(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/calendar/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete calendar entry" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+// src/app/api/calendar/feed/route.ts
+import { NextResponse } from "next/server";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { calendarFeedToken } from "@/lib/workspaces/repository";
+
+/**
+ * GET /api/calendar/feed → { path }
+ * The active workspace's iCal subscription path. Anyone with it can read
+ * the calendar, so it is only handed to members.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const token = await calendarFeedToken(auth.workspace.id);
+    if (!token) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      path: `/api/calendar/ics?feed=${encodeURIComponent(token)}`,
+    });
+  } catch (error) {
+    console.error("[/api/calendar/feed] Error:", error);
+    return NextResponse.json({ error: "Failed to load calendar feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// src/app/api/calendar/ics/route.ts
+import { NextResponse } from "next/server";
+import { renderICalendar } from "@/lib/calendar/ical";
+import { listCalendarEntries } from "@/lib/calendar/repository";
+import { platformLabel } from "@/lib/generators/platformScript";
+import { CalendarQuerySchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { findWorkspaceByFeedToken } from "@/lib/workspaces/repository";
+
+/**
+ * The workspace named by the feed token (what calendar apps send, see
+ * /api/calendar/feed), else the signed-in user's active one.
+ */
+async function feedWorkspaceId(
+  req: Request,
+  token: string | null
+): Promise<{ ok: true; workspaceId: string } | { ok: false; response: NextResponse }> {
+  if (token) {
+    const workspace = await findWorkspaceByFeedToken(token);
+    return workspace
+      ? { ok: true, workspaceId: workspace.id }
+      : {
+          ok: false,
+          response: NextResponse.json({ error: "Unknown calendar feed" }, { status: 404 }),
+        };
+  }
+
+  const auth = await requireWorkspace(req, "viewer");
+  return auth.ok ? { ok: true, workspaceId: auth.workspace.id } : auth;
+}
+
+/**
+ * GET /api/calendar/ics — a workspace's calendar as an iCalendar file.
+ * Takes the same filters as /api/calendar, e.g. `?owner=sam` for a
+ * personal feed, plus `feed=<token>` for subscribers without a session.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+
+  const scope = await feedWorkspaceId(req, searchParams.get("feed"));
+  if (!scope.ok) return scope.response;
+
+  try {
+    const filters = validate(
+      CalendarQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(
+          ([name, value]) => name !== "feed" && value.trim() !== ""
+        )
+      ),
+      "Invalid filters"
+    );
+    if (!filters.ok) return filters.response;
+
+    const entries = await listCalendarEntries({
+      ...filters.data,
+      workspaceId: scope.workspaceId,
+    });
+    const body = renderICalendar(entries, {
+      labelFor: (entry) => platformLabel(entry.platform),
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="appatize-calendar.ics"',
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("[/api/calendar/ics] Error:", error);
+    return NextResponse.json({ error: "Failed to export calendar" }, { status: 500 });
+  }
+}
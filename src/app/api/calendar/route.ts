@@ -0,0 +1,76 @@
+// src/app/api/calendar/route.ts
+import { NextResponse } from "next/server";
+import {
+  CalendarLinkError,
+  createCalendarEntry,
+  listCalendarEntries,
+} from "@/lib/calendar/repository";
+import {
+  CalendarEntryCreateRequestSchema,
+  CalendarQuerySchema,
+} from "@/lib/schema/requests";
+import { parseJsonBody, validate } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/calendar?from=2026-11-01&to=2026-11-30&owner=sam&platform=tiktok&status=planned
+ *
+ * Entries by due date, each with its computed `saturation` check.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const filters = validate(
+      CalendarQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid filters"
+    );
+    if (!filters.ok) return filters.response;
+
+    const entries = await listCalendarEntries({
+      ...filters.data,
+      workspaceId: auth.workspace.id,
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("[/api/calendar] List error:", error);
+    return NextResponse.json({ error: "Failed to list calendar entries" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calendar — body is an entry without timestamps; `id` is
+ * optional. The brief (and script, if given) must already be stored.
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, CalendarEntryCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const entry = await createCalendarEntry({
+      ...parsedBody.data,
+      workspaceId: auth.workspace.id,
+    });
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CalendarLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[/api/calendar] Create error:", error);
+    return NextResponse.json({ error: "Failed to create calendar entry" }, { status: 500 });
+  }
+}
@@ -1,73 +1,45 @@
 // src/app/api/generateBrief/route.ts
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import { authorizeCaller, deniedResponse } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import { generateBrief } from "@/lib/generators/brief";
+import { LLMOutputError } from "@/lib/llm";
+import { GenerateBriefRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const { trend } = body;
+    const caller = await authorizeCaller(req, { allowSession: true });
+    if (!caller.ok) return deniedResponse(caller.denial);
 
-    if (!trend) {
-      return NextResponse.json({ error: "Missing trend" }, { status: 400 });
-    }
-
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("OPENAI_API_KEY is not set");
-      return NextResponse.json(
-        { error: "Server configuration error" },
-        { status: 500 }
-      );
-    }
-
-    const client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-
-    const prompt = `
-You are the Cultural Intelligence Engine inside Appatize.
+    const parsedBody = await parseJsonBody(req, GenerateBriefRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
 
-Your job is to generate a clear, sharp CREATIVE BRIEF from this trend.
+    const { trend, angle, brandId, provider, model, seed } = parsedBody.data;
+    const brand = await resolveBrand(brandId, caller.workspaceId);
 
-Trend details:
-Title: ${trend.title}
-Summary: ${trend.summary}
-Format: ${trend.format}
-State: ${trend.state}
-Momentum: ${trend.momentum}
+    const { brief, meta } = await generateBrief(
+      trend,
+      angle,
+      { provider, model, seed },
+      { brand }
+    );
+    await recordUsage("/api/generateBrief", caller, meta);
 
-Return ONLY valid JSON in the following structure:
-
-{
-  "title": "string",
-  "objective": "string",
-  "insight": "string",
-  "creativeDirection": "string",
-  "hooks": ["string", "string", "string"],
-  "cta": "string",
-  "deliverables": ["string", "string"]
-}
-`;
-
-    const completion = await client.responses.create({
-      model: "gpt-4.1",
-      input: prompt,
-    });
-
-    const resultText = completion.output_text;
-
-    let parsed;
-    try {
-      parsed = JSON.parse(resultText);
-    } catch (e) {
-      console.error("Failed to parse brief JSON:", resultText);
+    return NextResponse.json(brief);
+  } catch (err) {
+    if (err instanceof BrandNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    if (err instanceof LLMOutputError) {
+      console.error("[generateBrief] Unusable model output:", err.raw);
       return NextResponse.json(
-        { error: "Model returned invalid JSON" },
+        { error: err.message, issues: err.issues },
         { status: 500 }
       );
     }
 
-    return NextResponse.json(parsed);
-  } catch (err) {
     console.error("Error generating brief:", err);
     return NextResponse.json({ error: "Server error" }, { status: 500 });
   }
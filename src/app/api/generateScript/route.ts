@@ -1,104 +1,56 @@
+// src/app/api/generateScript/route.ts
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import { authorizeCaller, deniedResponse } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import { generateScriptEngine } from "@/lib/generators/scriptEngine";
+import { generateVariants } from "@/lib/generators/variants";
+import { LLMOutputError } from "@/lib/llm";
+import { GenerateScriptRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const { brief, platform = "TikTok", angles = 1 } = body;
+    const caller = await authorizeCaller(req, { allowSession: true });
+    if (!caller.ok) return deniedResponse(caller.denial);
 
-    if (!brief) {
-      return NextResponse.json({ error: "Missing brief" }, { status: 400 });
-    }
-
-    const client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!,
-    });
-
-    // Platform-specific guidance
-    const platformGuidance = {
-      TikTok: `
-- Fast hook within 0-2 seconds
-- High-energy edits
-- Text overlays recommended
-- POV-style moments encouraged
-- Ending CTA should be short + punchy
-`,
-      "Instagram Reels": `
-- Aesthetic visuals + smoother pacing
-- Use elegant text overlays
-- Hooks should be curiosity-based
-- Allow for slightly more storytelling
-- Ending CTA can be softer
-`,
-      "YouTube Shorts": `
-- Story-driven approach
-- Clear beats, linear flow
-- Strong explanatory voiceover or captions
-- Ending CTA should be direct
-`,
-    };
-
-    const prompt = `
-You are the CultureOS Script Engine.
-
-Your goal: turn this brief into a ${platform}-native video script.
-
-Platform rules:
-${platformGuidance[platform] || platformGuidance["TikTok"]}
-
-Brief:
-${JSON.stringify(brief, null, 2)}
-
-OUTPUT FORMAT (strict JSON):
+    const parsedBody = await parseJsonBody(req, GenerateScriptRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
 
-If "angles" = 1:
-{
-  "script": {
-    "hook": "...",
-    "beat1": "...",
-    "beat2": "...",
-    "beat3": "...",
-    "ending": "...",
-    "captions": ["...", "..."]
-  }
-}
+    const { brief, platform, angles, variants, brandId, provider, model, seed } =
+      parsedBody.data;
+    const brand = await resolveBrand(brandId ?? brief.brandId, caller.workspaceId);
 
-If "angles" > 1:
-{
-  "angles": [
-    {
-      "hook": "...",
-      "beat1": "...",
-      "beat2": "...",
-      "beat3": "...",
-      "ending": "..."
-    },
-    { ... },
-    { ... }
-  ]
-}
-`;
-
-    const completion = await client.responses.create({
-      model: "gpt-4.1",
-      input: prompt,
+    const selection = { provider, model, seed };
+    const { result, meta } = await generateScriptEngine(brief, platform, angles, selection, {
+      brand,
     });
 
-    const raw = completion.output_text;
+    // Variants apply to a single script, not to multi-angle output
+    if (variants && "script" in result) {
+      const { variants: sets, meta: variantsMeta } = await generateVariants(
+        { brief, hook: result.script.hook, ending: result.script.ending },
+        variants,
+        selection
+      );
+      await recordUsage("/api/generateScript", caller, [meta, variantsMeta]);
+      return NextResponse.json({ ...result, variants: sets });
+    }
 
-    let json;
-    try {
-      json = JSON.parse(raw);
-    } catch (e) {
-      console.error("AI returned invalid JSON:", raw);
+    await recordUsage("/api/generateScript", caller, meta);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof BrandNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof LLMOutputError) {
+      console.error("AI returned invalid JSON:", error.raw);
       return NextResponse.json(
-        { error: "Invalid JSON from AI", raw },
+        { error: "Invalid JSON from AI", raw: error.raw },
         { status: 500 }
       );
     }
 
-    return NextResponse.json(json);
-  } catch (error) {
     console.error("Script Engine error:", error);
     return NextResponse.json({ error: "Server error" }, { status: 500 });
   }
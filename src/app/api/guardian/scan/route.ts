@@ -0,0 +1,37 @@
+// src/app/api/guardian/scan/route.ts
+import { NextResponse } from "next/server";
+import { loadLexicon } from "@/lib/guardian/lexicon";
+import { scanAngle, scanBrief, scanScript } from "@/lib/guardian/scan";
+import { GuardianScanRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+
+/**
+ * POST /api/guardian/scan
+ *
+ * `{ kind: "angle", angle, trend?, guardrails? }`
+ * `{ kind: "brief", brief }`
+ * `{ kind: "script", script, brief? }`
+ *
+ * Returns `{ guardian }`: flagged spans with a reason and a safer rewrite.
+ */
+export async function POST(req: Request) {
+  try {
+    const parsedBody = await parseJsonBody(req, GuardianScanRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const body = parsedBody.data;
+    const lexicon = await loadLexicon();
+
+    const guardian =
+      body.kind === "angle"
+        ? scanAngle(body.angle, { trend: body.trend, guardrails: body.guardrails }, lexicon)
+        : body.kind === "brief"
+        ? scanBrief(body.brief, lexicon)
+        : scanScript(body.script, body.brief ?? null, lexicon);
+
+    return NextResponse.json({ guardian });
+  } catch (error) {
+    console.error("[/api/guardian/scan] Error:", error);
+    return NextResponse.json({ error: "Failed to scan" }, { status: 500 });
+  }
+}
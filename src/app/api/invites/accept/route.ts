@@ -0,0 +1,30 @@
+// src/app/api/invites/accept/route.ts
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth/guard";
+import { InviteAcceptRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { acceptInvite, InviteError, publicWorkspace } from "@/lib/workspaces/repository";
+
+/**
+ * POST /api/invites/accept  { token } → { workspace }
+ * The signed-in user must have the invited email; 422 otherwise, and for
+ * used, expired or unknown links.
+ */
+export async function POST(req: Request) {
+  const auth = await requireSession(req);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, InviteAcceptRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { workspace, role } = await acceptInvite(parsedBody.data.token, auth.user);
+    return NextResponse.json({ workspace: { ...publicWorkspace(workspace), role } });
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[/api/invites/accept] Error:", error);
+    return NextResponse.json({ error: "Failed to accept invite" }, { status: 500 });
+  }
+}
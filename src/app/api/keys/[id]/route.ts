@@ -0,0 +1,30 @@
+// src/app/api/keys/[id]/route.ts
+import { NextResponse } from "next/server";
+import { resetBucket } from "@/lib/apiKeys/rateLimit";
+import { listApiKeys, revokeApiKey } from "@/lib/apiKeys/repository";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/keys/[id] — revokes the key. The record stays, so its
+ * usage history keeps a name.
+ */
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const owned = (await listApiKeys(auth.workspace.id)).some((key) => key.id === id);
+    const key = owned ? await revokeApiKey(id) : null;
+    if (!key) {
+      return NextResponse.json({ error: `API key "${id}" not found` }, { status: 404 });
+    }
+    resetBucket(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`[/api/keys/${id}] Revoke error:`, error);
+    return NextResponse.json({ error: "Failed to revoke API key" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+// src/app/api/keys/route.ts
+import { NextResponse } from "next/server";
+import { issueApiKey, listApiKeys } from "@/lib/apiKeys/repository";
+import { ApiKeyCreateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import type { ApiKey, PublicApiKey } from "@/types/engine";
+
+/**
+ * Allow-listed, so the hash never leaves the server.
+ */
+function publicKey(key: ApiKey): PublicApiKey {
+  const { id, name, prefix, rateLimit, createdAt, lastUsedAt, revokedAt } = key;
+  return { id, name, prefix, rateLimit, createdAt, lastUsedAt, revokedAt };
+}
+
+/**
+ * GET /api/keys — the workspace's keys, revoked included, newest first.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const keys = await listApiKeys(auth.workspace.id);
+    return NextResponse.json({ keys: keys.map(publicKey) });
+  } catch (error) {
+    console.error("[/api/keys] List error:", error);
+    return NextResponse.json({ error: "Failed to list API keys" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/keys  { name, rateLimit? } → 201 { key, secret }
+ * The secret is only ever returned here.
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, ApiKeyCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { key, secret } = await issueApiKey(parsedBody.data, auth.workspace.id);
+    return NextResponse.json({ key: publicKey(key), secret }, { status: 201 });
+  } catch (error) {
+    console.error("[/api/keys] Issue error:", error);
+    return NextResponse.json({ error: "Failed to issue API key" }, { status: 500 });
+  }
+}
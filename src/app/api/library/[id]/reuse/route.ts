@@ -0,0 +1,47 @@
+// src/app/api/library/[id]/reuse/route.ts
+import { NextResponse } from "next/server";
+import { ReuseError, reuseSavedItem } from "@/lib/library/reuse";
+import { ReuseRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { ScriptLinkError } from "@/lib/scripts/repository";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/library/[id]/reuse
+ * Saved brief: { trendId } → { kind: "brief", brief }
+ * Saved script: { platform?, briefId? } → { kind: "script", script }
+ *
+ * The clone is stored as a new draft.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const parsedBody = await parseJsonBody(req, ReuseRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const result = await reuseSavedItem(id, parsedBody.data, {
+      workspaceId: auth.workspace.id,
+      createdBy: auth.user.id,
+    });
+    if (!result) {
+      return NextResponse.json({ error: `Saved item "${id}" not found` }, { status: 404 });
+    }
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReuseError || error instanceof ScriptLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`[/api/library/${id}/reuse] Error:`, error);
+    return NextResponse.json({ error: "Failed to reuse saved item" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+// src/app/api/library/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import {
+  deleteSavedItem,
+  getSavedItem,
+  UnknownCollectionError,
+  updateSavedItem,
+} from "@/lib/library/repository";
+import { SavedItemPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Saved item "${id}" not found` }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const item = inWorkspace(await getSavedItem(id), auth.workspace.id);
+    return item ? NextResponse.json({ item }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/library/${id}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load saved item" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/library/[id] — { title?, tags?, collectionIds?, note? }
+ */
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getSavedItem(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, SavedItemPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const item = await updateSavedItem(id, parsedBody.data);
+    return item ? NextResponse.json({ item }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    if (error instanceof UnknownCollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error(`[/api/library/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update saved item" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getSavedItem(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteSavedItem(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/library/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete saved item" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/library/collections/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { deleteCollection, getCollection, updateCollection } from "@/lib/library/repository";
+import { SavedCollectionPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Collection "${id}" not found` }, { status: 404 });
+}
+
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getCollection(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, SavedCollectionPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const collection = await updateCollection(id, parsedBody.data);
+    return collection ? NextResponse.json({ collection }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    console.error(`[/api/library/collections/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update collection" }, { status: 500 });
+  }
+}
+
+/**
+ * Items filed in the collection stay in the library, unfiled.
+ */
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getCollection(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteCollection(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/library/collections/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete collection" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+// src/app/api/library/collections/route.ts
+import { NextResponse } from "next/server";
+import { createCollection, listCollections } from "@/lib/library/repository";
+import { SavedCollectionCreateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const collections = await listCollections(auth.workspace.id);
+    return NextResponse.json({ collections });
+  } catch (error) {
+    console.error("[/api/library/collections] List error:", error);
+    return NextResponse.json({ error: "Failed to list collections" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/library/collections — { name, description? }
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, SavedCollectionCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const collection = await createCollection(parsedBody.data, auth.workspace.id);
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[/api/library/collections] Create error:", error);
+    return NextResponse.json({ error: "Failed to create collection" }, { status: 500 });
+  }
+}
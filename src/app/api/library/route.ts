@@ -0,0 +1,74 @@
+// src/app/api/library/route.ts
+import { NextResponse } from "next/server";
+import {
+  listLibraryTags,
+  listSavedItems,
+  saveItem,
+  UnknownCollectionError,
+} from "@/lib/library/repository";
+import { LibraryQuerySchema, SavedItemCreateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validate } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/library?q=pov&kind=script&tag=evergreen&collectionId=collection-q4-123
+ *
+ * Responds with { items, tags } — `tags` covers the workspace's whole
+ * library.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const filters = validate(
+      LibraryQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid filters"
+    );
+    if (!filters.ok) return filters.response;
+
+    const [items, tags] = await Promise.all([
+      listSavedItems({ ...filters.data, workspaceId: auth.workspace.id }),
+      listLibraryTags(auth.workspace.id),
+    ]);
+
+    return NextResponse.json({ items, tags });
+  } catch (error) {
+    console.error("[/api/library] List error:", error);
+    return NextResponse.json({ error: "Failed to list saved items" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/library — body is { kind, item, title?, tags?, collectionIds?, note? }.
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, SavedItemCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const item = await saveItem(parsedBody.data, {
+      workspaceId: auth.workspace.id,
+      createdBy: auth.user.id,
+    });
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof UnknownCollectionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[/api/library] Save error:", error);
+    return NextResponse.json({ error: "Failed to save item" }, { status: 500 });
+  }
+}
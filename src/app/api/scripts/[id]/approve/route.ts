@@ -0,0 +1,44 @@
+// src/app/api/scripts/[id]/approve/route.ts
+import { NextResponse } from "next/server";
+import { getScript } from "@/lib/scripts/repository";
+import { moveScript, workflowErrorResponse } from "@/lib/workflow/move";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/scripts/[id]/approve
+ * Shorthand for moving an in-review script to "approved" through the
+ * workflow. 409 with the unresolved flags while the Brand Guardian
+ * blocks it, or with the allowed moves when it isn't in review.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const current = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!current) {
+      return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+    }
+
+    const result = await moveScript(
+      current,
+      "approved",
+      { userId: auth.user.id, role: auth.role },
+      auth.workspace.approvalPolicy
+    );
+    return NextResponse.json({
+      script: result.record ?? current,
+      moved: result.moved,
+      signOffs: result.signOffs,
+    });
+  } catch (error) {
+    const response = workflowErrorResponse(error);
+    if (response) return response;
+    console.error(`[/api/scripts/${id}/approve] Error:`, error);
+    return NextResponse.json({ error: "Failed to approve script" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+// src/app/api/scripts/[id]/export/route.ts
+import { NextResponse } from "next/server";
+import { getBrief } from "@/lib/briefs/repository";
+import {
+  renderScriptExport,
+  SCRIPT_EXPORTS,
+  scriptExportFileName,
+} from "@/lib/scripts/export";
+import { getScript } from "@/lib/scripts/repository";
+import { ScriptExportQuerySchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/scripts/[id]/export?format=srt|vtt|fountain|csv&download=1
+ *
+ * Caption timings are estimated from the beat durations. Exports are
+ * for production, so they wait until the script's brief is approved (409).
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = validate(
+      ScriptExportQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid export options"
+    );
+    if (!query.ok) return query.response;
+
+    const script = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!script) {
+      return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+    }
+
+    // A brief from another workspace counts as missing, whatever its status
+    const brief = inWorkspace(await getBrief(script.briefId), auth.workspace.id);
+    if (brief?.status !== "Approved") {
+      return NextResponse.json(
+        {
+          error: "Scripts can be exported once their brief is approved",
+          briefStatus: brief?.status ?? null,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { format, download } = query.data;
+    const body = renderScriptExport(script, format, brief);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": `${SCRIPT_EXPORTS[format].contentType}; charset=utf-8`,
+        "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${scriptExportFileName(
+          script,
+          format
+        )}"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error(`[/api/scripts/${id}/export] Error:`, error);
+    return NextResponse.json({ error: "Failed to export script" }, { status: 500 });
+  }
+}
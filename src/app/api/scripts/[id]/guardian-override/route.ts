@@ -0,0 +1,46 @@
+// src/app/api/scripts/[id]/guardian-override/route.ts
+import { NextResponse } from "next/server";
+import { getScript, overrideGuardian } from "@/lib/scripts/repository";
+import { GuardianOverrideRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/scripts/[id]/guardian-override
+ * Body: `{ reason }`. Records why the current flags were accepted, under
+ * the signed-in member; the script can then be approved.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const parsedBody = await parseJsonBody(req, GuardianOverrideRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const current = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!current) {
+      return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+    }
+    if (!current.guardian?.flagged) {
+      return NextResponse.json(
+        { error: "Script has no Brand Guardian flags to override" },
+        { status: 409 }
+      );
+    }
+
+    const script = await overrideGuardian(id, {
+      by: auth.user.name || auth.user.email,
+      userId: auth.user.id,
+      reason: parsedBody.data.reason,
+    });
+    return NextResponse.json({ script });
+  } catch (error) {
+    console.error(`[/api/scripts/${id}/guardian-override] Error:`, error);
+    return NextResponse.json({ error: "Failed to record override" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/scripts/[id]/route.ts
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { deleteScript, getScript, updateScript } from "@/lib/scripts/repository";
+import { ScriptPatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, validationErrorResponse } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const script = inWorkspace(await getScript(id), auth.workspace.id);
+    return script ? NextResponse.json({ script }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/scripts/${id}] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load script" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getScript(id), auth.workspace.id)) return notFound(id);
+
+    const parsedBody = await parseJsonBody(req, ScriptPatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const script = await updateScript(id, parsedBody.data, { by: auth.user.id });
+    return script ? NextResponse.json({ script }) : notFound(id);
+  } catch (error) {
+    if (error instanceof ZodError) return validationErrorResponse(error);
+    console.error(`[/api/scripts/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update script" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!inWorkspace(await getScript(id), auth.workspace.id)) return notFound(id);
+
+    const deleted = await deleteScript(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error(`[/api/scripts/${id}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to delete script" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/scripts/[id]/ship/route.ts
+import { NextResponse } from "next/server";
+import { getScript, markShipped } from "@/lib/scripts/repository";
+import { ScriptShipRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody, type FieldIssue } from "@/lib/schema/validate";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/scripts/[id]/ship
+ * Body: `{ hookVariantId?, endingVariantId? }` — the pairing that went out.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const parsedBody = await parseJsonBody(req, ScriptShipRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { hookVariantId, endingVariantId } = parsedBody.data;
+
+    const script = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!script) {
+      return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+    }
+
+    const issues: FieldIssue[] = [];
+    if (hookVariantId && !script.variants.hooks.some((v) => v.id === hookVariantId)) {
+      issues.push({ path: "hookVariantId", message: "Unknown hook variant" });
+    }
+    if (
+      endingVariantId &&
+      !script.variants.endings.some((v) => v.id === endingVariantId)
+    ) {
+      issues.push({ path: "endingVariantId", message: "Unknown ending variant" });
+    }
+    if (issues.length) {
+      return NextResponse.json(
+        { error: "Invalid request body", issues },
+        { status: 422 }
+      );
+    }
+
+    const updated = await markShipped(id, { hookVariantId, endingVariantId }, auth.user.id);
+    return NextResponse.json({ script: updated });
+  } catch (error) {
+    console.error(`[/api/scripts/${id}/ship] Error:`, error);
+    return NextResponse.json({ error: "Failed to record shipped variant" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+// src/app/api/scripts/[id]/variants/route.ts
+import { NextResponse } from "next/server";
+import { authorizeCaller, deniedResponse } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { getBrief } from "@/lib/briefs/repository";
+import { generateVariants } from "@/lib/generators/variants";
+import { LLMOutputError } from "@/lib/llm";
+import { getScript, updateScript } from "@/lib/scripts/repository";
+import { ScriptVariantsRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { inWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/scripts/[id]/variants
+ *
+ * (Re)generates the hook / ending variant sets for a saved script.
+ * Replaces the previous sets; a recorded shipped pairing is cleared
+ * because its variant ids no longer exist, and an approved script goes
+ * back for changes.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    const caller = await authorizeCaller(req, { allowSession: true });
+    if (!caller.ok) return deniedResponse(caller.denial);
+
+    const parsedBody = await parseJsonBody(req, ScriptVariantsRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { hooks, endings, provider, model, seed } = parsedBody.data;
+
+    const script = inWorkspace(await getScript(id), caller.workspaceId);
+    if (!script) {
+      return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+    }
+
+    const brief = parsedBody.data.brief ?? (await getBrief(script.briefId));
+    if (!brief) {
+      return NextResponse.json(
+        { error: `Brief "${script.briefId}" not found` },
+        { status: 404 }
+      );
+    }
+
+    const { variants, meta } = await generateVariants(
+      { brief, hook: script.hook, ending: script.cta },
+      { hooks, endings },
+      { provider, model, seed }
+    );
+    await recordUsage(`/api/scripts/${id}/variants`, caller, meta);
+
+    const updated = await updateScript(
+      id,
+      { variants, shipped: undefined },
+      { by: caller.actorId }
+    );
+    return NextResponse.json({ script: updated });
+  } catch (error) {
+    if (error instanceof LLMOutputError) {
+      console.error(`[/api/scripts/${id}/variants] Unusable model output:`, error.raw);
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 500 }
+      );
+    }
+
+    console.error(`[/api/scripts/${id}/variants] Error:`, error);
+    return NextResponse.json({ error: "Failed to generate variants" }, { status: 500 });
+  }
+}
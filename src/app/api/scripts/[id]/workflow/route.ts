@@ -0,0 +1,79 @@
+// src/app/api/scripts/[id]/workflow/route.ts
+import { NextResponse } from "next/server";
+import { getScript } from "@/lib/scripts/repository";
+import { ScriptTransitionRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { moveScript, workflowErrorResponse } from "@/lib/workflow/move";
+import { workflowState } from "@/lib/workflow/repository";
+import { inWorkspace, requireWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Script "${id}" not found` }, { status: 404 });
+}
+
+/**
+ * GET /api/scripts/[id]/workflow
+ * The current stage, the moves from it with their sign-off rules and
+ * progress, and the script's approval history.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const script = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!script) return notFound(id);
+
+    return NextResponse.json(
+      await workflowState("script", id, script.status, auth.workspace.approvalPolicy)
+    );
+  } catch (error) {
+    console.error(`[/api/scripts/${id}/workflow] Get error:`, error);
+    return NextResponse.json({ error: "Failed to load workflow" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/scripts/[id]/workflow  { to, note? }
+ * Any member may ask; the workspace's approval policy decides whether
+ * their role is enough and whether this is the move or one sign-off
+ * towards it (`moved: false`). Approving a script the Brand Guardian
+ * blocks is a 409 with the unresolved flags.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    const parsedBody = await parseJsonBody(req, ScriptTransitionRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const current = inWorkspace(await getScript(id), auth.workspace.id);
+    if (!current) return notFound(id);
+
+    const { to, note } = parsedBody.data;
+    const result = await moveScript(
+      current,
+      to,
+      { userId: auth.user.id, role: auth.role },
+      auth.workspace.approvalPolicy,
+      note
+    );
+    return NextResponse.json({
+      script: result.record ?? current,
+      moved: result.moved,
+      signOffs: result.signOffs,
+    });
+  } catch (error) {
+    const response = workflowErrorResponse(error);
+    if (response) return response;
+    console.error(`[/api/scripts/${id}/workflow] Move error:`, error);
+    return NextResponse.json({ error: "Failed to move script" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/scripts/adapt/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeCaller, deniedResponse } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import { generateAllPlatformScripts } from "@/lib/generators/platformScript";
+import { LLMOutputError } from "@/lib/llm";
+import { ScriptAdaptRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { eventStreamResponse, wantsEventStream } from "@/lib/stream/server";
+
+function failure(err: unknown): { status: number; body: Record<string, unknown> } {
+  if (err instanceof BrandNotFoundError) {
+    return { status: 404, body: { error: err.message } };
+  }
+  if (err instanceof LLMOutputError) {
+    console.error("[/api/scripts/adapt] Unusable model output:", err.raw);
+    return { status: 500, body: { error: err.message, issues: err.issues } };
+  }
+
+  console.error("[/api/scripts/adapt] Error:", err);
+  return {
+    status: 500,
+    body: {
+      error: "Failed to adapt script.",
+      details: err instanceof Error ? err.message : "Unknown error",
+    },
+  };
+}
+
+/**
+ * POST /api/scripts/adapt
+ *
+ * One brief → one script per PlatformMode, in a single call.
+ * Every script carries the same core message; pacing, structure and CTA
+ * follow each platform's style.
+ *
+ * With `Accept: text/event-stream` each platform's script is sent as a
+ * `script` event as soon as it is ready, then `done` { coreMessage, scripts }.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: true });
+    if (!caller.ok) return deniedResponse(caller.denial);
+
+    const parsedBody = await parseJsonBody(req, ScriptAdaptRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { brief, platformModes, brandId, provider, model, seed } = parsedBody.data;
+    const brand = await resolveBrand(brandId ?? brief.brandId, caller.workspaceId);
+    // Dedupe while keeping the caller's order
+    const modes = [...new Set(platformModes)];
+
+    if (wantsEventStream(req)) {
+      return eventStreamResponse(
+        req,
+        async (send, signal) => {
+          const { coreMessage, scripts, meta } = await generateAllPlatformScripts(
+            brief,
+            modes,
+            { provider, model, seed },
+            { brand, signal, onScript: (script) => send("script", { script }) }
+          );
+          await recordUsage("/api/scripts/adapt", caller, meta);
+          send("done", { coreMessage, scripts });
+        },
+        (err) => failure(err).body
+      );
+    }
+
+    const { coreMessage, scripts, meta } = await generateAllPlatformScripts(
+      brief,
+      modes,
+      { provider, model, seed },
+      { brand, signal: req.signal }
+    );
+    await recordUsage("/api/scripts/adapt", caller, meta);
+
+    return NextResponse.json({ coreMessage, scripts }, { status: 200 });
+  } catch (err) {
+    const { status, body } = failure(err);
+    return NextResponse.json(body, { status });
+  }
+}
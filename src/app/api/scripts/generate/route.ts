@@ -0,0 +1,102 @@
+// src/app/api/scripts/generate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeCaller, deniedResponse } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import { generatePlatformScript } from "@/lib/generators/platformScript";
+import { LLMOutputError } from "@/lib/llm";
+import { renderScriptMarkdown } from "@/lib/scripts/render";
+import { ScriptGenerateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { eventStreamResponse, wantsEventStream } from "@/lib/stream/server";
+
+/**
+ * Maps a generation failure to a status and JSON body; the stream sends
+ * the same body as its `error` event.
+ */
+function failure(err: unknown): { status: number; body: Record<string, unknown> } {
+  if (err instanceof BrandNotFoundError) {
+    return { status: 404, body: { error: err.message } };
+  }
+  if (err instanceof LLMOutputError) {
+    console.error("[/api/scripts/generate] Unusable model output:", err.raw);
+    return { status: 500, body: { error: err.message, issues: err.issues } };
+  }
+
+  console.error("[/api/scripts/generate] Error:", err);
+  return {
+    status: 500,
+    body: {
+      error: "Failed to generate script.",
+      details: err instanceof Error ? err.message : "Unknown error",
+    },
+  };
+}
+
+/**
+ * POST handler
+ *
+ * With `Accept: text/event-stream` the response streams:
+ *   event: preview  { attempt, title, hook, beats, cta } as the model writes
+ *   event: done     { script, markdown }
+ *   event: error    { error, issues? }
+ * Closing the connection cancels the model call.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: true });
+    if (!caller.ok) return deniedResponse(caller.denial);
+
+    // Validates + upgrades older brief shapes; 422 with field paths if invalid
+    const parsedBody = await parseJsonBody(req, ScriptGenerateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { brief, platformMode, variants, brandId, provider, model, seed } =
+      parsedBody.data;
+    // Active Brand Memory profile, else the one the brief was written for
+    const brand = await resolveBrand(brandId ?? brief.brandId, caller.workspaceId);
+
+    if (wantsEventStream(req)) {
+      return eventStreamResponse(
+        req,
+        async (send, signal) => {
+          const { script, meta } = await generatePlatformScript(
+            brief,
+            platformMode,
+            { provider, model, seed },
+            {
+              variants,
+              brand,
+              signal,
+              onPreview: (preview) => send("preview", preview),
+            }
+          );
+          await recordUsage("/api/scripts/generate", caller, meta);
+          send("done", { script, markdown: renderScriptMarkdown(script, brief) });
+        },
+        (err) => failure(err).body
+      );
+    }
+
+    // Goes through the provider layer: real model when configured,
+    // deterministic mock templates otherwise.
+    // Optional A/B sets: alternative hooks + endings, checked for distinctness.
+    // The result carries its Platinum+ rubric report on `script.quality`.
+    const { script, meta } = await generatePlatformScript(
+      brief,
+      platformMode,
+      { provider, model, seed },
+      { variants, brand, signal: req.signal }
+    );
+    await recordUsage("/api/scripts/generate", caller, meta);
+
+    // Structured script, plus a markdown rendering for copy/paste clients
+    return NextResponse.json(
+      { script, markdown: renderScriptMarkdown(script, brief) },
+      { status: 200 }
+    );
+  } catch (err) {
+    const { status, body } = failure(err);
+    return NextResponse.json(body, { status });
+  }
+}
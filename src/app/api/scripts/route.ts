@@ -0,0 +1,67 @@
+// src/app/api/scripts/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createScript, listScripts, ScriptLinkError } from "@/lib/scripts/repository";
+import { ScriptSchema } from "@/lib/schema/engine";
+import { parseJsonBody, validate } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/scripts?briefId=brief-123
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const filters = validate(
+      z.object({ briefId: z.string().optional() }),
+      { briefId: searchParams.get("briefId") || undefined },
+      "Invalid filters"
+    );
+    if (!filters.ok) return filters.response;
+
+    const scripts = await listScripts({
+      ...filters.data,
+      workspaceId: auth.workspace.id,
+    });
+
+    return NextResponse.json({ scripts });
+  } catch (error) {
+    console.error("[/api/scripts] List error:", error);
+    return NextResponse.json({ error: "Failed to list scripts" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/scripts — body is a generated Script for a stored brief in
+ * the workspace (422 otherwise).
+ */
+export async function POST(req: Request) {
+  const auth = await requireWorkspace(req, "editor");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, ScriptSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const script = await createScript({
+      ...parsedBody.data,
+      workspaceId: auth.workspace.id,
+      createdBy: auth.user.id,
+    });
+    return NextResponse.json({ script }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ScriptLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[/api/scripts] Create error:", error);
+    return NextResponse.json({ error: "Failed to create script" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+// src/app/api/trends/route.ts
+import { NextResponse } from "next/server";
+import { TrendQuerySchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { loadTrends } from "@/lib/signals/registry";
+import { queryTrends } from "@/lib/trends/query";
+
+/**
+ * GET /api/trends?q=pov&stage=growing&platform=TikTok&sort=momentum&page=2
+ *
+ * Runs every registered signal adapter, then searches (name, summary,
+ * mechanic), filters (stage, category, platform), sorts (strength or
+ * momentum) and paginates the interpreted Trends.
+ * Adapter params: from, to (ISO dates), limit (events per adapter).
+ *
+ * Responds with { trends, total, page, pageSize, pageCount, facets }.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const query = validate(
+      TrendQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid trend query"
+    );
+    if (!query.ok) return query.response;
+
+    const { from, to, limit, ...filters } = query.data;
+    const trends = await loadTrends({ from, to, limit });
+
+    return NextResponse.json(queryTrends(trends, filters));
+  } catch (error) {
+    console.error("[/api/trends] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load trends" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/usage/route.ts
+import { NextResponse } from "next/server";
+import { dailyUsage, listUsage } from "@/lib/apiKeys/usage";
+import { UsageQuerySchema } from "@/lib/schema/requests";
+import { validate } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+
+/**
+ * GET /api/usage?from=2026-10-01&to=2026-10-31&keyId=key-…
+ *
+ * Responds with { days }: the active workspace's requests, tokens and
+ * average model latency per key per UTC day, newest first. Rows without
+ * a keyId are signed-in calls from the app.
+ */
+export async function GET(req: Request) {
+  const auth = await requireWorkspace(req, "viewer");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = validate(
+      UsageQuerySchema,
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value.trim() !== "")
+      ),
+      "Invalid usage query"
+    );
+    if (!query.ok) return query.response;
+
+    return NextResponse.json({ days: dailyUsage(await listUsage({ ...query.data, workspaceId: auth.workspace.id })) });
+  } catch (error) {
+    console.error("[/api/usage] Error:", error);
+    return NextResponse.json({ error: "Failed to load usage" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+// src/app/api/workspaces/[id]/invites/[inviteId]/route.ts
+import { NextResponse } from "next/server";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { revokeInvite } from "@/lib/workspaces/repository";
+
+type RouteParams = { params: Promise<{ id: string; inviteId: string }> };
+
+/**
+ * DELETE /api/workspaces/[id]/invites/[inviteId] — revokes the link.
+ */
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const { id, inviteId } = await params;
+
+  const auth = await requireWorkspace(req, "owner", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const revoked = await revokeInvite(id, inviteId);
+    return revoked
+      ? new NextResponse(null, { status: 204 })
+      : NextResponse.json({ error: `Invite "${inviteId}" not found` }, { status: 404 });
+  } catch (error) {
+    console.error(`[/api/workspaces/${id}/invites/${inviteId}] Error:`, error);
+    return NextResponse.json({ error: "Failed to revoke invite" }, { status: 500 });
+  }
+}
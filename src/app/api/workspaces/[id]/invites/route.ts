@@ -0,0 +1,51 @@
+// src/app/api/workspaces/[id]/invites/route.ts
+import { NextResponse } from "next/server";
+import { InviteCreateRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { createInvite, listInvites } from "@/lib/workspaces/repository";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/workspaces/[id]/invites — open invites, owners only.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  const auth = await requireWorkspace(req, "owner", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ invites: await listInvites(id) });
+  } catch (error) {
+    console.error(`[/api/workspaces/${id}/invites] List error:`, error);
+    return NextResponse.json({ error: "Failed to list invites" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/workspaces/[id]/invites  { email, role? } → 201 { invite, path }
+ * `path` is the invite link (/invite/<token>); it is only returned here.
+ */
+export async function POST(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  const auth = await requireWorkspace(req, "owner", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, InviteCreateRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const { invite, token } = await createInvite({
+      ...parsedBody.data,
+      workspaceId: id,
+      invitedBy: auth.user.id,
+    });
+    return NextResponse.json({ invite, path: `/invite/${token}` }, { status: 201 });
+  } catch (error) {
+    console.error(`[/api/workspaces/${id}/invites] Create error:`, error);
+    return NextResponse.json({ error: "Failed to create invite" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/workspaces/[id]/members/[userId]/route.ts
+import { NextResponse } from "next/server";
+import { MemberRolePatchSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { LastOwnerError, removeMember, setMemberRole } from "@/lib/workspaces/repository";
+
+type RouteParams = { params: Promise<{ id: string; userId: string }> };
+
+function notFound(userId: string) {
+  return NextResponse.json({ error: `Member "${userId}" not found` }, { status: 404 });
+}
+
+/**
+ * PATCH /api/workspaces/[id]/members/[userId]  { role } — owners only.
+ * 409 rather than demote the last owner.
+ */
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const { id, userId } = await params;
+
+  const auth = await requireWorkspace(req, "owner", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, MemberRolePatchSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const member = await setMemberRole(id, userId, parsedBody.data.role);
+    return member ? NextResponse.json({ member }) : notFound(userId);
+  } catch (error) {
+    if (error instanceof LastOwnerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`[/api/workspaces/${id}/members/${userId}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update member" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]/members/[userId]
+ * Owners remove anyone; everyone else can only leave (their own id).
+ * Either way the workspace's calendar feed URL is replaced.
+ */
+export async function DELETE(req: Request, { params }: RouteParams) {
+  const { id, userId } = await params;
+
+  const auth = await requireWorkspace(req, "viewer", id);
+  if (!auth.ok) return auth.response;
+  if (userId !== auth.user.id && auth.role !== "owner") {
+    return NextResponse.json(
+      { error: "Only owners can remove other members" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const removed = await removeMember(id, userId);
+    return removed ? new NextResponse(null, { status: 204 }) : notFound(userId);
+  } catch (error) {
+    if (error instanceof LastOwnerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`[/api/workspaces/${id}/members/${userId}] Delete error:`, error);
+    return NextResponse.json({ error: "Failed to remove member" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+// src/app/api/workspaces/[id]/members/route.ts
+import { NextResponse } from "next/server";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { listMembers } from "@/lib/workspaces/repository";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/workspaces/[id]/members → { members } (with each user's
+ * public profile). Any member can see who else is in.
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  const auth = await requireWorkspace(req, "viewer", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json({ members: await listMembers(id) });
+  } catch (error) {
+    console.error(`[/api/workspaces/${id}/members] Error:`, error);
+    return NextResponse.json({ error: "Failed to list members" }, { status: 500 });
+  }
+}
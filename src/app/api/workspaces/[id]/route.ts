@@ -0,0 +1,42 @@
+// src/app/api/workspaces/[id]/route.ts
+import { NextResponse } from "next/server";
+import { WorkspacePatchRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { requireWorkspace } from "@/lib/workspaces/guard";
+import { publicWorkspace, updateWorkspace } from "@/lib/workspaces/repository";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  const auth = await requireWorkspace(req, "viewer", id);
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({
+    workspace: { ...publicWorkspace(auth.workspace), role: auth.role },
+  });
+}
+
+/**
+ * PATCH /api/workspaces/[id]  { name?, approvalPolicy? } — owners only.
+ */
+export async function PATCH(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  const auth = await requireWorkspace(req, "owner", id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, WorkspacePatchRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const workspace = await updateWorkspace(id, parsedBody.data);
+    return workspace
+      ? NextResponse.json({ workspace: { ...publicWorkspace(workspace), role: auth.role } })
+      : NextResponse.json({ error: `Workspace "${id}" not found` }, { status: 404 });
+  } catch (error) {
+    console.error(`[/api/workspaces/${id}] Update error:`, error);
+    return NextResponse.json({ error: "Failed to update workspace" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/workspaces/route.ts
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth/guard";
+import { WorkspaceRequestSchema } from "@/lib/schema/requests";
+import { parseJsonBody } from "@/lib/schema/validate";
+import { activeMembership } from "@/lib/workspaces/guard";
+import {
+  createWorkspace,
+  ensureMembership,
+  publicWorkspace,
+  type Membership,
+} from "@/lib/workspaces/repository";
+import type { WorkspaceWithRole } from "@/types/engine";
+
+function withRole({ workspace, role }: Membership): WorkspaceWithRole {
+  return { ...publicWorkspace(workspace), role };
+}
+
+/**
+ * GET /api/workspaces → { workspaces, activeWorkspaceId }
+ * Every workspace the user belongs to, with their role in each.
+ */
+export async function GET(req: Request) {
+  const auth = await requireSession(req);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const memberships = await ensureMembership(auth.user);
+    const active = await activeMembership(req, auth.user);
+    return NextResponse.json({
+      workspaces: memberships.map(withRole),
+      activeWorkspaceId: active.workspace.id,
+    });
+  } catch (error) {
+    console.error("[/api/workspaces] List error:", error);
+    return NextResponse.json({ error: "Failed to list workspaces" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/workspaces  { name } → 201 { workspace }
+ * The caller becomes its owner.
+ */
+export async function POST(req: Request) {
+  const auth = await requireSession(req);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const parsedBody = await parseJsonBody(req, WorkspaceRequestSchema);
+    if (!parsedBody.ok) return parsedBody.response;
+
+    const workspace = await createWorkspace(parsedBody.data.name, auth.user.id);
+    return NextResponse.json(
+      { workspace: withRole({ workspace, role: "owner" }) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[/api/workspaces] Create error:", error);
+    return NextResponse.json({ error: "Failed to create workspace" }, { status: 500 });
+  }
+}
@@ -0,0 +1,368 @@
+// src/app/brands/page.tsx
+"use client";
+
+import React, { useState } from "react";
+import { useBrandContext, type BrandDraft } from "@/context/BrandContext";
+import { BRIEF_TEMPLATES } from "@/lib/briefs/export";
+import type { BrandProfile, BriefTemplate } from "@/types/engine";
+
+/**
+ * Brand Memory
+ *
+ * One profile per client: tone, glossary, preferred / forbidden words,
+ * audience clusters, competitors and cultural positioning. The brand
+ * picked in the Sidebar is injected into angle, brief and script
+ * generation.
+ */
+
+type FormState = Record<
+  | "name"
+  | "culturalPositioning"
+  | "tone"
+  | "glossary"
+  | "preferredWords"
+  | "forbiddenWords"
+  | "audienceClusters"
+  | "competitors"
+  | "briefTemplate"
+  | "accentColor",
+  string
+>;
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  culturalPositioning: "",
+  tone: "",
+  glossary: "",
+  preferredWords: "",
+  forbiddenWords: "",
+  audienceClusters: "",
+  competitors: "",
+  briefTemplate: "studio",
+  accentColor: "",
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const splitLines = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// "Name: description" per line
+function splitPairs(value: string): { name: string; description: string }[] {
+  return splitLines(value).map((line) => {
+    const [name, ...rest] = line.split(":");
+    return { name: name.trim(), description: rest.join(":").trim() };
+  });
+}
+
+function toForm(brand: BrandProfile): FormState {
+  return {
+    name: brand.name,
+    culturalPositioning: brand.culturalPositioning,
+    tone: brand.tone.join("\n"),
+    glossary: brand.glossary
+      .map((g) => (g.definition ? `${g.term}: ${g.definition}` : g.term))
+      .join("\n"),
+    preferredWords: brand.preferredWords.join(", "),
+    forbiddenWords: brand.forbiddenWords.join(", "),
+    audienceClusters: brand.audienceClusters
+      .map((c) => (c.description ? `${c.name}: ${c.description}` : c.name))
+      .join("\n"),
+    competitors: brand.competitors.join(", "),
+    briefTemplate: brand.briefTemplate,
+    accentColor: brand.accentColor ?? "",
+  };
+}
+
+function toDraft(form: FormState): BrandDraft {
+  return {
+    name: form.name.trim(),
+    culturalPositioning: form.culturalPositioning.trim(),
+    tone: splitLines(form.tone),
+    glossary: splitPairs(form.glossary).map(({ name, description }) => ({
+      term: name,
+      definition: description,
+    })),
+    preferredWords: splitList(form.preferredWords),
+    forbiddenWords: splitList(form.forbiddenWords),
+    audienceClusters: splitPairs(form.audienceClusters),
+    competitors: splitList(form.competitors),
+    briefTemplate: form.briefTemplate as BriefTemplate,
+    accentColor: form.accentColor.trim() || undefined,
+  };
+}
+
+const FIELDS: {
+  key: keyof FormState;
+  label: string;
+  hint: string;
+  multiline?: boolean;
+}[] = [
+  { key: "name", label: "Name", hint: "Client or brand name" },
+  {
+    key: "culturalPositioning",
+    label: "Cultural positioning",
+    hint: "Where the brand sits in culture, in a sentence",
+    multiline: true,
+  },
+  { key: "tone", label: "Tone of voice", hint: "One rule per line", multiline: true },
+  {
+    key: "audienceClusters",
+    label: "Audience clusters",
+    hint: "One per line — Name: description",
+    multiline: true,
+  },
+  {
+    key: "glossary",
+    label: "Glossary",
+    hint: "One per line — Term: definition",
+    multiline: true,
+  },
+  { key: "preferredWords", label: "Preferred words", hint: "Comma separated" },
+  {
+    key: "forbiddenWords",
+    label: "Forbidden words",
+    hint: "Comma separated — flagged by the Brand Guardian",
+  },
+  { key: "competitors", label: "Competitors", hint: "Comma separated" },
+];
+
+export default function BrandsPage() {
+  const {
+    brands,
+    activeBrand,
+    setActiveBrandId,
+    isHydrated,
+    createBrand,
+    updateBrand,
+    deleteBrand,
+  } = useBrandContext();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (brand: BrandProfile | null) => {
+    setEditingId(brand?.id ?? null);
+    setForm(brand ? toForm(brand) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      setError("Give the brand a name.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const draft = toDraft(form);
+      if (editingId) {
+        await updateBrand(editingId, draft);
+      } else {
+        const created = await createBrand(draft);
+        setActiveBrandId(created.id);
+      }
+      startEdit(null);
+    } catch (err) {
+      console.error("[BrandsPage] Save error:", err);
+      setError(err instanceof Error ? err.message : "Failed to save brand.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (brand: BrandProfile) => {
+    try {
+      await deleteBrand(brand.id);
+      if (editingId === brand.id) startEdit(null);
+    } catch (err) {
+      console.error("[BrandsPage] Delete error:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete brand.");
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Brands</h1>
+        <p className="text-sm text-neutral-400">
+          Brand Memory for every client. Pick the active brand in the sidebar
+          and every angle, brief and script is written in its voice.
+        </p>
+      </header>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+        {/* Profiles */}
+        <section className="space-y-3">
+          {!isHydrated && (
+            <p className="text-[11px] text-neutral-400">Loading brands…</p>
+          )}
+          {isHydrated && !brands.length && (
+            <p className="text-[11px] text-neutral-500">
+              No brands yet. Create the first one to start generating on-voice.
+            </p>
+          )}
+
+          {brands.map((brand) => (
+            <article
+              key={brand.id}
+              className={[
+                "rounded-2xl border bg-shell-panel p-4 text-xs shadow-ring-soft",
+                activeBrand?.id === brand.id
+                  ? "border-brand-pink/60"
+                  : "border-shell-border",
+              ].join(" ")}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <h2 className="text-sm font-semibold text-neutral-50">
+                    {brand.name}
+                  </h2>
+                  {brand.culturalPositioning && (
+                    <p className="text-neutral-400">{brand.culturalPositioning}</p>
+                  )}
+                  <p className="text-[11px] text-neutral-500">
+                    {brand.tone.length} tone rules · {brand.audienceClusters.length}{" "}
+                    audiences · {brand.forbiddenWords.length} forbidden words
+                  </p>
+                </div>
+
+                <div className="flex flex-col items-end gap-1.5">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setActiveBrandId(activeBrand?.id === brand.id ? null : brand.id)
+                    }
+                    className="rounded-pill bg-brand-pink px-3 py-1 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft"
+                  >
+                    {activeBrand?.id === brand.id ? "Active" : "Use"}
+                  </button>
+                  <div className="flex gap-2 text-[11px]">
+                    <button
+                      type="button"
+                      onClick={() => startEdit(brand)}
+                      className="text-neutral-400 hover:text-neutral-200"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(brand)}
+                      className="text-neutral-500 hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </article>
+          ))}
+        </section>
+
+        {/* Create / edit */}
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-medium text-neutral-200">
+              {editingId ? "Edit brand" : "New brand"}
+            </h2>
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => startEdit(null)}
+                className="text-[11px] text-neutral-500 hover:text-neutral-300"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {FIELDS.map((field) => (
+            <label key={field.key} className="block space-y-1">
+              <span className="text-[11px] text-neutral-300">{field.label}</span>
+              {field.multiline ? (
+                <textarea
+                  rows={3}
+                  value={form[field.key]}
+                  placeholder={field.hint}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, [field.key]: event.target.value }))
+                  }
+                  className="w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100"
+                />
+              ) : (
+                <input
+                  value={form[field.key]}
+                  placeholder={field.hint}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, [field.key]: event.target.value }))
+                  }
+                  className="w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100"
+                />
+              )}
+            </label>
+          ))}
+
+          {/* Exported briefs */}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block space-y-1">
+              <span className="text-[11px] text-neutral-300">Brief export template</span>
+              <select
+                value={form.briefTemplate}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, briefTemplate: event.target.value }))
+                }
+                className="w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100"
+              >
+                {Object.entries(BRIEF_TEMPLATES).map(([id, template]) => (
+                  <option key={id} value={id}>
+                    {template.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[11px] text-neutral-300">Accent colour</span>
+              <input
+                value={form.accentColor}
+                placeholder="#rrggbb — template default if empty"
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, accentColor: event.target.value }))
+                }
+                className="w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+          >
+            {isSaving ? "Saving…" : editingId ? "Save changes" : "Create brand"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,163 +1,280 @@
+// src/app/briefs/edit/page.tsx
 "use client";
 
+import React, { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import BriefVersionHistory from "@/components/BriefVersionHistory";
+import WorkflowPanel from "@/components/WorkflowPanel";
 import { useBriefContext } from "@/context/BriefContext";
-import { useRouter } from "next/navigation";
-import { useState, useEffect } from "react";
+import { BRIEF_LIST_FIELDS, type BriefListField } from "@/lib/briefs/diff";
+import type { Brief, BriefStatus } from "@/types/engine";
 
-export default function EditBriefPage() {
+/**
+ * Brief editor
+ *
+ * Edits the fields of the engine Brief. Every save is recorded as a
+ * version; the history panel diffs versions and restores older ones.
+ * The approval panel moves it through review.
+ * Opens `?id=` when given, otherwise the active brief.
+ */
+
+type FormState = {
+  title: string;
+  objective: string;
+  primaryAudience: string;
+  coreMessage: string;
+} & Record<BriefListField, string>;
+
+const LIST_HINTS: Record<BriefListField, string> = {
+  toneAndVoice: "One rule per line",
+  contentRequirements: "One per line — formats, lengths, must-have shots",
+  creativeMandatories: "One per line — logo, product, legal lines",
+  guardrails: "One per line — checked by the Brand Guardian",
+  successMetrics: "One per line",
+  exampleConcepts: "One concept per line",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100";
+
+const splitLines = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function toForm(brief: Brief): FormState {
+  const lists = Object.fromEntries(
+    (Object.keys(BRIEF_LIST_FIELDS) as BriefListField[]).map((field) => [
+      field,
+      brief[field].join("\n"),
+    ])
+  ) as Record<BriefListField, string>;
+
+  return {
+    title: brief.title,
+    objective: brief.objective,
+    primaryAudience: brief.primaryAudience,
+    coreMessage: brief.coreMessage,
+    ...lists,
+  };
+}
+
+function applyForm(brief: Brief, form: FormState): Brief {
+  const lists = Object.fromEntries(
+    (Object.keys(BRIEF_LIST_FIELDS) as BriefListField[]).map((field) => [
+      field,
+      splitLines(form[field]),
+    ])
+  ) as Record<BriefListField, string[]>;
+
+  return {
+    ...brief,
+    title: form.title.trim(),
+    objective: form.objective.trim(),
+    primaryAudience: form.primaryAudience.trim(),
+    coreMessage: form.coreMessage.trim(),
+    ...lists,
+  };
+}
+
+/**
+ * Keyed by the brief's updatedAt, so a save or restore reloads the form.
+ */
+function BriefEditorForm({ brief }: { brief: Brief }) {
   const router = useRouter();
-  const { selectedBrief, setSelectedBrief } = useBriefContext();
-
-  const [title, setTitle] = useState("");
-  const [objective, setObjective] = useState("");
-  const [insight, setInsight] = useState("");
-  const [creativeDirection, setCreativeDirection] = useState("");
-  const [cta, setCta] = useState("");
-  const [hooks, setHooks] = useState<string[]>([]);
-  const [deliverables, setDeliverables] = useState<string[]>([]);
-
-  // Load brief into editor
-  useEffect(() => {
-    if (!selectedBrief) return;
-
-    setTitle(selectedBrief.title || "");
-    setObjective(selectedBrief.objective || "");
-    setInsight(selectedBrief.insight || "");
-    setCreativeDirection(selectedBrief.creativeDirection || "");
-    setCta(selectedBrief.cta || "");
-    setHooks(selectedBrief.hooks || []);
-    setDeliverables(selectedBrief.deliverables || []);
-  }, [selectedBrief]);
-
-  const updateBrief = () => {
-    setSelectedBrief({
-      ...selectedBrief,
-      title,
-      objective,
-      insight,
-      creativeDirection,
-      cta,
-      hooks,
-      deliverables,
-      fullBrief: {
-        title,
-        objective,
-        insight,
-        creativeDirection,
-        cta,
-        hooks,
-        deliverables,
-      },
-    });
+  const { saveBrief, setActiveBrief } = useBriefContext();
+  const [form, setForm] = useState<FormState>(() => toForm(brief));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-    router.push("/scripts");
+  const set = (key: keyof FormState, value: string) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const save = async (): Promise<Brief | null> => {
+    if (!form.title.trim()) {
+      setError("Give the brief a title.");
+      return null;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      return await saveBrief(applyForm(brief, form));
+    } catch (err) {
+      console.error("[EditBriefPage] Save error:", err);
+      setError(err instanceof Error ? err.message : "Failed to save brief.");
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  if (!selectedBrief) {
-    return (
-      <div className="text-neutral-300 text-xs">
-        No brief selected. Return to /briefs and open one to edit.
-      </div>
-    );
-  }
+  const handleSaveAndWrite = async () => {
+    const saved = await save();
+    if (!saved) return;
+    setActiveBrief(saved);
+    router.push("/scripts");
+  };
 
   return (
-    <div className="space-y-6 max-w-3xl">
-      <header>
-        <h1 className="text-2xl font-semibold">Edit Brief</h1>
-        <p className="text-neutral-400 text-sm">
-          Adjust your brief before generating final scripts.
-        </p>
-      </header>
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        save();
+      }}
+      className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft"
+    >
+      <p className="text-[11px] text-neutral-500">
+        Trend: <span className="text-neutral-300">{brief.trend.name}</span>
+        {brief.angle && (
+          <>
+            {" "}
+            · Angle: <span className="text-neutral-300">{brief.angle.label}</span>
+          </>
+        )}
+      </p>
 
-      {/* Title */}
-      <div>
-        <label className="text-xs text-neutral-400">Title</label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Title</span>
         <input
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200"
-          value={title}
-          onChange={(e) => setTitle(e.target.value)}
+          value={form.title}
+          onChange={(e) => set("title", e.target.value)}
+          className={inputClass}
         />
-      </div>
+      </label>
 
-      {/* Objective */}
-      <div>
-        <label className="text-xs text-neutral-400">Objective</label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Objective</span>
         <textarea
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200 h-24"
-          value={objective}
-          onChange={(e) => setObjective(e.target.value)}
+          rows={2}
+          value={form.objective}
+          onChange={(e) => set("objective", e.target.value)}
+          className={inputClass}
         />
-      </div>
+      </label>
 
-      {/* Insight */}
-      <div>
-        <label className="text-xs text-neutral-400">Insight</label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Primary audience</span>
         <textarea
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200 h-24"
-          value={insight}
-          onChange={(e) => setInsight(e.target.value)}
+          rows={2}
+          value={form.primaryAudience}
+          onChange={(e) => set("primaryAudience", e.target.value)}
+          className={inputClass}
         />
-      </div>
+      </label>
 
-      {/* Creative Direction */}
-      <div>
-        <label className="text-xs text-neutral-400">Creative Direction</label>
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Core message</span>
         <textarea
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200 h-24"
-          value={creativeDirection}
-          onChange={(e) => setCreativeDirection(e.target.value)}
+          rows={2}
+          value={form.coreMessage}
+          onChange={(e) => set("coreMessage", e.target.value)}
+          className={inputClass}
         />
-      </div>
+      </label>
 
-      {/* CTA */}
-      <div>
-        <label className="text-xs text-neutral-400">CTA</label>
-        <input
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200"
-          value={cta}
-          onChange={(e) => setCta(e.target.value)}
-        />
-      </div>
+      {(Object.entries(BRIEF_LIST_FIELDS) as [BriefListField, string][]).map(
+        ([field, label]) => (
+          <label key={field} className="block space-y-1">
+            <span className="text-[11px] text-neutral-300">{label}</span>
+            <textarea
+              rows={3}
+              value={form[field]}
+              placeholder={LIST_HINTS[field]}
+              onChange={(e) => set(field, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        )
+      )}
 
-      {/* Hooks */}
-      <div>
-        <label className="text-xs text-neutral-400">Hooks</label>
-        <textarea
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200 h-24"
-          value={hooks.join("\n")}
-          onChange={(e) => setHooks(e.target.value.split("\n"))}
-        />
-        <p className="text-[10px] text-neutral-500">One per line</p>
-      </div>
-
-      {/* Deliverables */}
-      <div>
-        <label className="text-xs text-neutral-400">Deliverables</label>
-        <textarea
-          className="w-full rounded-lg bg-black/30 border border-shell-border px-3 py-2 text-xs text-neutral-200 h-24"
-          value={deliverables.join("\n")}
-          onChange={(e) => setDeliverables(e.target.value.split("\n"))}
-        />
-        <p className="text-[10px] text-neutral-500">One per line</p>
-      </div>
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
 
-      {/* Actions */}
-      <div className="flex gap-3 pt-4">
+      <div className="flex flex-wrap gap-2 pt-1">
         <button
-          onClick={updateBrief}
-          className="rounded-pill bg-brand-pink px-4 py-2 text-xs font-semibold text-white shadow-brand-glow hover:-translate-y-0.5"
+          type="submit"
+          disabled={isSaving}
+          className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
         >
-          Save & Generate Script
+          {isSaving ? "Saving…" : "Save"}
         </button>
-
         <button
-          className="rounded-pill border border-shell-border bg-black/30 px-4 py-2 text-xs text-neutral-300"
+          type="button"
+          onClick={handleSaveAndWrite}
+          disabled={isSaving}
+          className="rounded-pill border border-shell-border bg-black/30 px-4 py-1.5 font-medium text-neutral-100 transition-all hover:border-brand-pink/45 disabled:opacity-50"
+        >
+          Save & write script
+        </button>
+        <button
+          type="button"
           onClick={() => router.push("/briefs")}
+          className="px-2 text-[11px] text-neutral-500 hover:text-neutral-300"
         >
           Back
         </button>
       </div>
+    </form>
+  );
+}
+
+function EditBriefView() {
+  const searchParams = useSearchParams();
+  const { briefs, activeBrief, isHydrated, restoreBriefVersion, transitionBrief } =
+    useBriefContext();
+
+  const id = searchParams.get("id");
+  const brief = id ? briefs.find((b) => b.id === id) ?? null : activeBrief;
+
+  if (!brief) {
+    return (
+      <div className="text-xs text-neutral-300">
+        {isHydrated
+          ? "No brief selected. Return to Briefs and open one to edit."
+          : "Loading brief…"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Edit brief</h1>
+        <p className="text-sm text-neutral-400">
+          Every save is kept as a version, so nothing you change here is lost.
+        </p>
+      </header>
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+        <BriefEditorForm key={`${brief.id}-${brief.updatedAt}`} brief={brief} />
+        <div className="space-y-4">
+          <WorkflowPanel
+            subject="brief"
+            id={brief.id}
+            status={brief.status}
+            onMove={(to, note) => transitionBrief(brief.id, to as BriefStatus, note)}
+          />
+          <BriefVersionHistory
+            brief={brief}
+            onRestore={async (version) => {
+              await restoreBriefVersion(brief.id, version);
+            }}
+          />
+        </div>
+      </div>
     </div>
   );
 }
+
+export default function EditBriefPage() {
+  return (
+    <Suspense fallback={<div className="text-xs text-neutral-300">Loading brief…</div>}>
+      <EditBriefView />
+    </Suspense>
+  );
+}
@@ -3,12 +3,22 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useTrendContext } from "@/context/TrendContext";
 import { useBriefContext } from "@/context/BriefContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import QualityReportPanel from "@/components/QualityReportPanel";
+import SaveToLibraryButton from "@/components/SaveToLibraryButton";
+import WorkflowStatusChip from "@/components/WorkflowStatusChip";
+import { evaluateBrief } from "@/lib/quality/rubric";
+import { IncomingBriefSchema } from "@/lib/schema/requests";
+import { BRIEF_STAGES } from "@/lib/workflow/pipeline";
+import type { Brief, BriefStatus } from "@/types/engine";
 
-// Mock fallback briefs (unchanged)
-const mockBriefs = [
+// Mock fallback briefs, written in the old loose shape and upgraded
+// through the same schema the API uses. None is approved: approval only
+// comes from the workflow.
+const mockBriefs: Brief[] = [
   {
     title: "Street POV micro-vlogs for urban fashion brand",
     trend: "Street POV micro-vlogs",
@@ -25,26 +35,63 @@ const mockBriefs = [
     title: "Expectation vs reality remix for food delivery",
     trend: "“What I ordered vs what I got”",
     objective: "Lean into memes to highlight reliability and quality.",
-    status: "Approved",
+    status: "Changes requested",
   },
-];
+].map((brief) => IncomingBriefSchema.parse(brief));
+
+// "live" is every stage but Archived
+type StageFilter = BriefStatus | "live";
 
 export default function BriefsPage() {
   const router = useRouter();
   const { selectedTrend } = useTrendContext();
-  const { setSelectedBrief } = useBriefContext();
+  const { canEdit } = useWorkspaceContext();
+  const { activeBrief, setActiveBrief, briefs, isHydrated, saveBrief, archiveBrief } =
+    useBriefContext();
   const [loading, setLoading] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [stageFilter, setStageFilter] = useState<StageFilter>("live");
+
+  // Persisted briefs first; the mocks only fill an empty workspace
+  const liveBriefs = briefs.filter((brief) => brief.status !== "Archived");
+  const pool = isHydrated && liveBriefs.length === 0 ? [...mockBriefs, ...briefs] : briefs;
+  const inStage = (brief: Brief, stage: StageFilter) =>
+    stage === "live" ? brief.status !== "Archived" : brief.status === stage;
+  const visibleBriefs = pool.filter((brief) => inStage(brief, stageFilter));
+
+  /**
+   * Shared links: /briefs?brief=<id> opens that brief for a teammate.
+   */
+  useEffect(() => {
+    const sharedId = new URLSearchParams(window.location.search).get("brief");
+    if (!sharedId) return;
+
+    fetch(`/api/briefs/${encodeURIComponent(sharedId)}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { brief: Brief };
+        setActiveBrief(data.brief);
+      })
+      .catch((err) => console.error("Shared brief could not be loaded:", err));
+  }, [setActiveBrief]);
+
+  const copyShareLink = async (brief: Brief) => {
+    const url = `${window.location.origin}/briefs?brief=${encodeURIComponent(brief.id)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(brief.id);
+    } catch (err) {
+      console.error("Could not copy share link:", err);
+    }
+  };
 
   /**
    * ------------------------------------------------------------------
    * 1. Generate Script from a Mock Brief (simple passthrough)
    * ------------------------------------------------------------------
    */
-  const generateScriptFromBrief = (brief: any) => {
-    setSelectedBrief({
-      ...brief,
-      fullBrief: brief,
-    });
+  const generateScriptFromBrief = (brief: Brief) => {
+    setActiveBrief(brief);
     router.push("/scripts");
   };
 
@@ -62,24 +109,20 @@ export default function BriefsPage() {
       // Step 1 — Call backend to generate a brief using AI
       const response = await fetch("/api/generateBrief", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ trend: selectedTrend }),
       });
 
-      const aiBrief = await response.json();
+      if (!response.ok) {
+        throw new Error(`API responded with ${response.status}`);
+      }
+
+      // Canonical Brief, validated server-side
+      const aiBrief = (await response.json()) as Brief;
 
       // Step 2 — Store AI-generated brief in context
-      setSelectedBrief({
-        title: aiBrief.title,
-        trend: selectedTrend.title,
-        objective: aiBrief.objective,
-        insight: aiBrief.insight,
-        creativeDirection: aiBrief.creativeDirection,
-        hooks: aiBrief.hooks,
-        cta: aiBrief.cta,
-        deliverables: aiBrief.deliverables,
-        status: "AI-generated",
-        fullBrief: aiBrief,
-      });
+      setActiveBrief(aiBrief);
+      await saveBrief(aiBrief);
 
       // Step 3 — Navigate to script page
       router.push("/scripts");
@@ -118,14 +161,16 @@ export default function BriefsPage() {
                   Generated from trend
                 </p>
                 <h2 className="text-sm font-semibold text-neutral-50">
-                  {selectedTrend.title}
+                  {selectedTrend.name}
                 </h2>
                 <p className="text-neutral-300">{selectedTrend.summary}</p>
               </div>
               <div className="flex flex-col items-start gap-2 md:items-end">
                 <button
                   onClick={generateScriptFromGeneratedTrendBrief}
-                  className="rounded-pill bg-brand-pink px-3 py-1 font-semibold text-white shadow-brand-glow transition-all hover:-translate-y-0.5 hover:bg-brand-pink-soft"
+                  disabled={!canEdit}
+                  title={canEdit ? undefined : "Viewers can't generate briefs"}
+                  className="rounded-pill bg-brand-pink px-3 py-1 font-semibold text-white shadow-brand-glow transition-all hover:-translate-y-0.5 hover:bg-brand-pink-soft disabled:cursor-not-allowed disabled:opacity-50"
                 >
                   Generate script
                 </button>
@@ -135,19 +180,69 @@ export default function BriefsPage() {
         </section>
       ) : null}
 
-      {/* MOCK BRIEF LIST */}
+      {/* BRIEF LIST (persisted, or mock fallback when empty) */}
       <section className="space-y-3">
-        {mockBriefs.map((brief) => (
+        {!isHydrated && (
+          <p className="text-[11px] text-neutral-400">Loading briefs…</p>
+        )}
+
+        <div className="flex flex-wrap gap-1.5 text-[11px]">
+          {(["live", ...BRIEF_STAGES] as StageFilter[]).map((stage) => (
+            <button
+              key={stage}
+              type="button"
+              onClick={() => setStageFilter(stage)}
+              className={[
+                "rounded-pill border px-2.5 py-0.5 transition-all",
+                stageFilter === stage
+                  ? "border-brand-pink/60 bg-brand-pink/10 text-neutral-50"
+                  : "border-shell-border text-neutral-400 hover:text-neutral-200",
+              ].join(" ")}
+            >
+              {stage === "live" ? "All live" : stage}
+              <span className="ml-1 text-neutral-500">
+                {pool.filter((brief) => inStage(brief, stage)).length}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {isHydrated && !visibleBriefs.length && (
+          <p className="text-[11px] text-neutral-500">No briefs at this stage.</p>
+        )}
+
+        {visibleBriefs.map((brief) => (
           <article
-            key={brief.title}
-            className="rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft transition-all hover:-translate-y-0.5 hover:border-brand-pink/45 hover:shadow-brand-glow"
+            key={brief.id}
+            className={[
+              "rounded-2xl border bg-shell-panel p-4 text-xs shadow-ring-soft transition-all hover:-translate-y-0.5 hover:border-brand-pink/45 hover:shadow-brand-glow",
+              activeBrief?.id === brief.id
+                ? "border-brand-pink/60"
+                : "border-shell-border",
+            ].join(" ")}
           >
             <div className="flex flex-col gap-2 md:flex-row md:justify-between">
               <div className="space-y-1">
-                <h2 className="text-sm font-semibold text-neutral-50">
-                  {brief.title}
-                </h2>
+                <div className="flex flex-wrap items-center gap-2">
+                  <h2 className="text-sm font-semibold text-neutral-50">
+                    {brief.title}
+                  </h2>
+                  <WorkflowStatusChip subject="brief" stage={brief.status} />
+                </div>
                 <p className="text-neutral-400">{brief.objective}</p>
+                {brief.guardian?.flagged && (
+                  <span
+                    title={brief.guardian.flags.map((flag) => flag.reason).join("\n")}
+                    className="inline-flex rounded-full bg-rose-500/20 px-2 py-0.5 text-[10px] font-semibold text-rose-200"
+                  >
+                    Guardian: {brief.guardian.flags.length} flag
+                    {brief.guardian.flags.length === 1 ? "" : "s"}
+                  </span>
+                )}
+                {/* Rubric from generation, or scored on the fly for older briefs */}
+                <div className="pt-1 md:max-w-md">
+                  <QualityReportPanel report={brief.quality ?? evaluateBrief(brief)} />
+                </div>
               </div>
 
               <div className="flex flex-col items-start gap-2 md:items-end">
@@ -160,11 +255,67 @@ export default function BriefsPage() {
 
                 {/* UPDATED BUTTON */}
                 <Link
-                  href="/briefs/edit"
+                  href={`/briefs/edit?id=${encodeURIComponent(brief.id)}`}
                   className="rounded-pill border border-shell-border bg-black/30 px-3 py-1 font-medium text-neutral-100 transition-all hover:-translate-y-0.5 hover:border-brand-pink/45"
                 >
                   Open brief
                 </Link>
+
+                {liveBriefs.includes(brief) && (
+                  <SaveToLibraryButton kind="brief" item={brief} />
+                )}
+
+                {liveBriefs.includes(brief) && (
+                  <div className="flex gap-2 text-[11px] text-neutral-500">
+                    Export:
+                    <a
+                      href={`/api/briefs/${encodeURIComponent(brief.id)}/export?format=html`}
+                      target="_blank"
+                      rel="noreferrer"
+                      title="Opens a print-ready page — print to PDF from the browser"
+                      className="text-neutral-400 hover:text-neutral-200"
+                    >
+                      HTML / PDF
+                    </a>
+                    <a
+                      href={`/api/briefs/${encodeURIComponent(brief.id)}/export?format=markdown&download=1`}
+                      download
+                      className="text-neutral-400 hover:text-neutral-200"
+                    >
+                      Markdown
+                    </a>
+                    <a
+                      href={`/api/briefs/${encodeURIComponent(brief.id)}/export?format=json&download=1`}
+                      download
+                      className="text-neutral-400 hover:text-neutral-200"
+                    >
+                      JSON
+                    </a>
+                  </div>
+                )}
+
+                {liveBriefs.includes(brief) && (
+                  <div className="flex gap-2 text-[11px]">
+                    <button
+                      onClick={() => copyShareLink(brief)}
+                      className="text-neutral-400 hover:text-neutral-200"
+                    >
+                      {copiedId === brief.id ? "Link copied" : "Copy link"}
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() =>
+                          archiveBrief(brief.id).catch((err) =>
+                            console.error("Archive failed:", err)
+                          )
+                        }
+                        className="text-neutral-400 hover:text-rose-300"
+                      >
+                        Archive
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </article>
@@ -1,28 +1,301 @@
 // src/app/calendar/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import CalendarEntryForm, {
+  PLATFORM_LABELS,
+  type CalendarEntryDraft,
+} from "@/components/CalendarEntryForm";
+import CalendarGrid from "@/components/CalendarGrid";
+import {
+  addDays,
+  addMonths,
+  monthGrid,
+  parseIsoDate,
+  todayIsoDate,
+  weekDays,
+} from "@/lib/calendar/dates";
+import type { Brief, CalendarEntry } from "@/types/engine";
+
+/**
+ * Content calendar
+ *
+ * Scheduled posts linked to a brief (and optionally a script), in a month
+ * or week grid. Drag a post to another day to reschedule it; posts that
+ * land after their trend is expected to saturate are flagged. The whole
+ * calendar is available as an iCal feed.
+ */
+
+type View = "month" | "week";
+
+const MONTH_FORMAT = new Intl.DateTimeFormat("en", {
+  month: "long",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+const DAY_FORMAT = new Intl.DateTimeFormat("en", {
+  day: "numeric",
+  month: "short",
+  timeZone: "UTC",
+});
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error ?? fallback;
+}
+
+type Editing = { entry: CalendarEntry | null; dueDate: string };
+
 export default function CalendarPage() {
+  const [view, setView] = useState<View>("month");
+  const [anchor, setAnchor] = useState(todayIsoDate);
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [briefs, setBriefs] = useState<Brief[]>([]);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedCopied, setFeedCopied] = useState(false);
+
+  const weeks = view === "month" ? monthGrid(anchor) : [weekDays(anchor)];
+  const from = weeks[0][0];
+  const to = weeks[weeks.length - 1][6];
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/calendar?from=${from}&to=${to}`);
+      if (!res.ok) throw new Error(await readError(res, "Failed to load calendar."));
+      const data: { entries: CalendarEntry[] } = await res.json();
+      setEntries(data.entries);
+      setError(null);
+    } catch (err) {
+      console.error("[CalendarPage] Load error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load calendar.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    fetch("/api/briefs")
+      .then((res) => (res.ok ? res.json() : { briefs: [] }))
+      .then((data: { briefs?: Brief[] }) => setBriefs(data.briefs ?? []))
+      .catch((err) => console.error("[CalendarPage] Briefs error:", err));
+  }, []);
+
+  const step = (direction: 1 | -1) =>
+    setAnchor((current) =>
+      view === "month" ? addMonths(current, direction) : addDays(current, 7 * direction)
+    );
+
+  const replaceEntry = (entry: CalendarEntry) =>
+    setEntries((prev) => prev.map((e) => (e.id === entry.id ? entry : e)));
+
+  // Optimistic: move first, then swap in the server copy (fresh saturation)
+  const handleMove = async (entryId: string, dueDate: string) => {
+    const previous = entries.find((e) => e.id === entryId);
+    if (!previous || previous.dueDate === dueDate) return;
+
+    replaceEntry({ ...previous, dueDate });
+    try {
+      const res = await fetch(`/api/calendar/${encodeURIComponent(entryId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dueDate }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to reschedule post."));
+      const data: { entry: CalendarEntry } = await res.json();
+      replaceEntry(data.entry);
+      if (editing?.entry?.id === entryId) setEditing({ entry: data.entry, dueDate });
+    } catch (err) {
+      console.error("[CalendarPage] Move error:", err);
+      replaceEntry(previous);
+      setError(err instanceof Error ? err.message : "Failed to reschedule post.");
+    }
+  };
+
+  const handleSave = async (draft: CalendarEntryDraft) => {
+    const existing = editing?.entry;
+    const res = await fetch(
+      existing ? `/api/calendar/${encodeURIComponent(existing.id)}` : "/api/calendar",
+      {
+        method: existing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(existing ? { ...draft, scriptId: draft.scriptId ?? null } : draft),
+      }
+    );
+    if (!res.ok) throw new Error(await readError(res, "Failed to save post."));
+
+    setEditing(null);
+    await loadEntries();
+  };
+
+  const handleDelete = async (entry: CalendarEntry) => {
+    const res = await fetch(`/api/calendar/${encodeURIComponent(entry.id)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) throw new Error(await readError(res, "Failed to delete post."));
+
+    setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    setEditing(null);
+  };
+
+  // Calendar apps subscribe by URL without a session, so hand out the
+  // workspace's absolute, tokenised feed address
+  const handleCopyFeed = async () => {
+    let url: string;
+    try {
+      const res = await fetch("/api/calendar/feed");
+      if (!res.ok) throw new Error(await readError(res, "Failed to load feed URL."));
+      const data = (await res.json()) as { path: string };
+      url = `${window.location.origin}${data.path}`;
+    } catch (err) {
+      console.error("[CalendarPage] Feed error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load feed URL.");
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 2000);
+    } catch {
+      window.open(url, "_blank");
+    }
+  };
+
+  const warnings = entries.filter((e) => e.saturation?.afterSaturation);
+
+  const rangeLabel =
+    view === "month"
+      ? MONTH_FORMAT.format(parseIsoDate(anchor))
+      : `${DAY_FORMAT.format(parseIsoDate(from))} – ${DAY_FORMAT.format(parseIsoDate(to))}`;
+
   return (
     <div className="space-y-8">
-      <header className="space-y-1">
-        <h1 className="text-2xl font-semibold tracking-tight">Calendar</h1>
-        <p className="text-sm text-neutral-400">
-          Later, this becomes your content calendar: plan drops, campaigns and experiments.
-        </p>
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold tracking-tight">Calendar</h1>
+          <p className="text-sm text-neutral-400">
+            Plan drops against your briefs and scripts. Drag a post to reschedule it.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={handleCopyFeed}
+            className="rounded-full border border-shell-border px-3 py-1 text-neutral-300 hover:border-neutral-500"
+            title="Copies the feed URL — add it in Google Calendar, Outlook or Apple Calendar. The URL changes when a member leaves."
+          >
+            {feedCopied ? "Feed URL copied" : "Subscribe (iCal)"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing({ entry: null, dueDate: todayIsoDate() })}
+            className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft"
+          >
+            Plan a post
+          </button>
+        </div>
       </header>
 
-      <section className="rounded-2xl border border-shell-border bg-shell-panel p-6 text-xs text-neutral-300 shadow-ring-soft">
-        <p className="mb-3">
-          In the MVP, this can start as a simple list or grid of planned posts —
-          then grow into:
-        </p>
-        <ul className="list-disc space-y-1 pl-4">
-          <li>Sync with trends and briefs</li>
-          <li>Assign owners and due dates</li>
-          <li>Tag platforms and formats</li>
-        </ul>
-        <p className="mt-4 text-neutral-500">
-          For now, treat this as a visual placeholder so the CultureOS shell feels complete.
-        </p>
-      </section>
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => step(-1)}
+            className="rounded-full border border-shell-border px-2.5 py-1 text-neutral-300 hover:border-neutral-500"
+            aria-label="Previous"
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(todayIsoDate())}
+            className="rounded-full border border-shell-border px-3 py-1 text-neutral-300 hover:border-neutral-500"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => step(1)}
+            className="rounded-full border border-shell-border px-2.5 py-1 text-neutral-300 hover:border-neutral-500"
+            aria-label="Next"
+          >
+            →
+          </button>
+          <span className="ml-2 text-sm font-medium text-neutral-100">{rangeLabel}</span>
+          {isLoading && <span className="text-[11px] text-neutral-500">Loading…</span>}
+        </div>
+
+        <div className="flex rounded-full border border-shell-border p-0.5">
+          {(["month", "week"] as const).map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              className={[
+                "rounded-full px-3 py-0.5 capitalize",
+                view === v ? "bg-neutral-800 text-neutral-50" : "text-neutral-400",
+              ].join(" ")}
+            >
+              {v}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-[11px] text-rose-200">
+          <p className="font-medium">
+            {warnings.length} post{warnings.length === 1 ? "" : "s"} planned after the trend
+            is expected to saturate:
+          </p>
+          <ul className="mt-1 list-disc space-y-0.5 pl-4">
+            {warnings.map((entry) => (
+              <li key={entry.id}>
+                {PLATFORM_LABELS[entry.platform]} · {entry.title} — {entry.saturation?.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_20rem]">
+        <CalendarGrid
+          weeks={weeks}
+          entries={entries}
+          month={view === "month" ? anchor.slice(0, 7) : undefined}
+          selectedId={editing?.entry?.id}
+          onSelect={(entry) => setEditing({ entry, dueDate: entry.dueDate })}
+          onMove={handleMove}
+          onAdd={(dueDate) => setEditing({ entry: null, dueDate })}
+        />
+
+        {editing && (
+          <CalendarEntryForm
+            key={editing.entry ? `${editing.entry.id}-${editing.entry.updatedAt}` : `new-${editing.dueDate}`}
+            briefs={briefs}
+            entry={editing.entry}
+            defaultDueDate={editing.dueDate}
+            onSave={handleSave}
+            onDelete={handleDelete}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </div>
     </div>
   );
 }
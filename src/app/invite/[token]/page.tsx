@@ -0,0 +1,77 @@
+// src/app/invite/[token]/page.tsx
+"use client";
+
+import { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useAuthContext } from "@/context/AuthContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import type { WorkspaceWithRole } from "@/types/engine";
+
+/**
+ * Accept a workspace invite
+ *
+ * Signed-out visitors go through /login first and come back here. The
+ * invite only works for the email it was sent to.
+ */
+
+export default function InvitePage() {
+  const router = useRouter();
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuthContext();
+  const { refreshWorkspaces, setActiveWorkspaceId } = useWorkspaceContext();
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/invites/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? "Failed to accept invite.");
+
+      const { workspace } = data as { workspace: WorkspaceWithRole };
+      setActiveWorkspaceId(workspace.id);
+      await refreshWorkspaces();
+      router.push("/");
+    } catch (err) {
+      console.error("[InvitePage] Accept error:", err);
+      setError(err instanceof Error ? err.message : "Failed to accept invite.");
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-md space-y-4 rounded-2xl border border-shell-border bg-shell-panel p-6 text-xs shadow-ring-soft">
+      <h1 className="text-lg font-semibold tracking-tight">Join a workspace</h1>
+      <p className="text-neutral-400">
+        You&apos;ve been invited to a workspace on Appatize.
+        {user && (
+          <>
+            {" "}
+            Accepting as <span className="text-neutral-200">{user.email}</span>.
+          </>
+        )}
+      </p>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-red-300">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAccept}
+        disabled={!user || isAccepting}
+        className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+      >
+        {isAccepting ? "Joining…" : "Accept invite"}
+      </button>
+    </div>
+  );
+}
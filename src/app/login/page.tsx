@@ -0,0 +1,177 @@
+// src/app/login/page.tsx
+"use client";
+
+import React, { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuthContext } from "@/context/AuthContext";
+
+/**
+ * Sign in / create account
+ *
+ * Email + password, or the organisation's identity provider when single
+ * sign-on is configured. Returns to `returnTo` afterwards.
+ */
+
+const SSO_ERRORS: Record<string, string> = {
+  sso_unavailable: "Single sign-on isn't available right now.",
+  sso_denied: "Sign-in was cancelled at the identity provider.",
+  sso_state: "That sign-in link expired. Please try again.",
+  sso_email_taken:
+    "An account with that email already exists and the provider didn't verify the address.",
+  sso_link_required:
+    "An account with that email uses a password. Sign in with it, then link single sign-on from the sidebar.",
+  sso_failed: "Single sign-on failed. Please try again.",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100";
+
+function safeReturnTo(value: string | null): string {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get("returnTo"));
+  const { user, sso, isHydrated, signIn, signUp } = useAuthContext();
+
+  const [mode, setMode] = useState<"signin" | "signup">("signin");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    SSO_ERRORS[searchParams.get("error") ?? ""] ?? null
+  );
+
+  useEffect(() => {
+    if (isHydrated && user) router.replace(returnTo);
+  }, [isHydrated, user, returnTo, router]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === "signin") {
+        await signIn(email, password);
+      } else {
+        await signUp({ email, password, name });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6 py-10">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          {mode === "signin" ? "Sign in" : "Create an account"}
+        </h1>
+        <p className="text-xs text-neutral-400">
+          {mode === "signin"
+            ? "Welcome back. Sign in to keep working on briefs and scripts."
+            : "Accounts keep track of who created each brief, script and saved item."}
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+
+      <section className="space-y-4 rounded-2xl border border-shell-border bg-shell-panel p-5 text-xs shadow-ring-soft">
+        {sso.enabled && (
+          <>
+            <a
+              href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(returnTo)}`}
+              className="block rounded-pill border border-brand-pink/60 px-4 py-2 text-center font-semibold text-brand-pink transition-all hover:bg-black/30"
+            >
+              Continue with {sso.providerName ?? "SSO"}
+            </a>
+            <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.16em] text-neutral-500">
+              <span className="h-px flex-1 bg-shell-border" />
+              or
+              <span className="h-px flex-1 bg-shell-border" />
+            </div>
+          </>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === "signup" && (
+            <label className="block space-y-1">
+              <span className="block text-[11px] text-neutral-400">Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                className={inputClass}
+              />
+            </label>
+          )}
+          <label className="block space-y-1">
+            <span className="block text-[11px] text-neutral-400">Email</span>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              className={inputClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="block text-[11px] text-neutral-400">Password</span>
+            <input
+              type="password"
+              required
+              minLength={mode === "signup" ? 8 : undefined}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === "signin" ? "current-password" : "new-password"}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-pill bg-brand-pink px-4 py-2 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+          >
+            {isSubmitting
+              ? "Please wait…"
+              : mode === "signin"
+              ? "Sign in"
+              : "Create account"}
+          </button>
+        </form>
+      </section>
+
+      <p className="text-center text-xs text-neutral-400">
+        {mode === "signin" ? "New here? " : "Already have an account? "}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "signin" ? "signup" : "signin");
+            setError(null);
+          }}
+          className="text-brand-pink hover:underline"
+        >
+          {mode === "signin" ? "Create an account" : "Sign in"}
+        </button>
+      </p>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
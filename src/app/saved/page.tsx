@@ -1,27 +1,316 @@
 // src/app/saved/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import SavedItemCard, { KIND_LABELS } from "@/components/SavedItemCard";
+import type {
+  Brief,
+  SavedCollection,
+  SavedItem,
+  SavedItemKind,
+  Trend,
+} from "@/types/engine";
+
+/**
+ * Saved library
+ *
+ * Every saved trend, angle, brief and script, searchable and filed into
+ * named collections with tags. Saved briefs and scripts can be reused as
+ * a new draft for another trend or platform.
+ */
+
+const KINDS = Object.keys(KIND_LABELS) as SavedItemKind[];
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error ?? fallback;
+}
+
 export default function SavedPage() {
+  const [items, setItems] = useState<SavedItem[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [trends, setTrends] = useState<Trend[]>([]);
+  const [briefs, setBriefs] = useState<Brief[]>([]);
+
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [kind, setKind] = useState<SavedItemKind | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+
+  const [newCollection, setNewCollection] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadItems = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (kind) params.set("kind", kind);
+    if (tag) params.set("tag", tag);
+    if (collectionId) params.set("collectionId", collectionId);
+
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/library?${params}`);
+      if (!res.ok) throw new Error(await readError(res, "Failed to load library."));
+      const data: { items: SavedItem[]; tags: string[] } = await res.json();
+      setItems(data.items);
+      setTags(data.tags);
+      setError(null);
+    } catch (err) {
+      console.error("[SavedPage] Load error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load library.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, kind, tag, collectionId]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const loadCollections = useCallback(async () => {
+    const res = await fetch("/api/library/collections");
+    if (!res.ok) throw new Error(await readError(res, "Failed to load collections."));
+    const data: { collections: SavedCollection[] } = await res.json();
+    setCollections(data.collections);
+  }, []);
+
+  // Reference data: collections, plus reuse targets
+  useEffect(() => {
+    loadCollections().catch((err) => console.error("[SavedPage] Collections error:", err));
+    fetch("/api/trends?pageSize=100")
+      .then((res) => (res.ok ? res.json() : { trends: [] }))
+      .then((data: { trends?: Trend[] }) => setTrends(data.trends ?? []))
+      .catch((err) => console.error("[SavedPage] Trends error:", err));
+    fetch("/api/briefs")
+      .then((res) => (res.ok ? res.json() : { briefs: [] }))
+      .then((data: { briefs?: Brief[] }) => setBriefs(data.briefs ?? []))
+      .catch((err) => console.error("[SavedPage] Briefs error:", err));
+  }, [loadCollections]);
+
+  const handleCreateCollection = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newCollection.trim();
+    if (!name) return;
+
+    try {
+      const res = await fetch("/api/library/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to create collection."));
+      setNewCollection("");
+      await loadCollections();
+    } catch (err) {
+      console.error("[SavedPage] Create collection error:", err);
+      setError(err instanceof Error ? err.message : "Failed to create collection.");
+    }
+  };
+
+  const handleRenameCollection = async (collection: SavedCollection) => {
+    const name = window.prompt("Rename collection", collection.name)?.trim();
+    if (!name || name === collection.name) return;
+
+    try {
+      const res = await fetch(`/api/library/collections/${encodeURIComponent(collection.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to rename collection."));
+      await loadCollections();
+    } catch (err) {
+      console.error("[SavedPage] Rename collection error:", err);
+      setError(err instanceof Error ? err.message : "Failed to rename collection.");
+    }
+  };
+
+  const handleDeleteCollection = async (collection: SavedCollection) => {
+    try {
+      const res = await fetch(`/api/library/collections/${encodeURIComponent(collection.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to delete collection."));
+      if (collectionId === collection.id) setCollectionId(null);
+      await Promise.all([loadCollections(), loadItems()]);
+    } catch (err) {
+      console.error("[SavedPage] Delete collection error:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete collection.");
+    }
+  };
+
+  const hasFilters = Boolean(query || kind || tag || collectionId);
+
   return (
     <div className="space-y-8">
       <header className="space-y-1">
         <h1 className="text-2xl font-semibold tracking-tight">Saved</h1>
         <p className="text-sm text-neutral-400">
-          A simple place where saved trends, briefs and scripts will live in the MVP.
+          Your library of trends, angles, briefs and scripts worth coming back to.
+          File them into collections, tag them, and reuse the best ones.
         </p>
       </header>
 
-      <section className="rounded-2xl border border-shell-border bg-shell-panel p-6 text-xs text-neutral-300 shadow-ring-soft">
-        <p className="mb-2">
-          In the live product, this view will become your team&apos;s library of:
-        </p>
-        <ul className="list-disc space-y-1 pl-4">
-          <li>Pinned or favourited trends</li>
-          <li>Approved briefs ready to use again</li>
-          <li>Scripts that performed well and should be reused</li>
-        </ul>
-        <p className="mt-4 text-neutral-500">
-          For now, this is a placeholder so we can see the full CultureOS flow end-to-end.
-        </p>
-      </section>
+      <div className="grid gap-4 lg:grid-cols-[14rem_minmax(0,1fr)]">
+        {/* Collections */}
+        <aside className="space-y-3 text-xs">
+          <h2 className="text-[11px] font-medium uppercase tracking-wide text-neutral-500">
+            Collections
+          </h2>
+          <nav className="space-y-1">
+            <button
+              type="button"
+              onClick={() => setCollectionId(null)}
+              className={[
+                "block w-full rounded-xl px-3 py-1.5 text-left",
+                collectionId === null
+                  ? "bg-neutral-800 text-neutral-50"
+                  : "text-neutral-400 hover:text-neutral-200",
+              ].join(" ")}
+            >
+              All saved
+            </button>
+            {collections.map((collection) => (
+              <div
+                key={collection.id}
+                className={[
+                  "group flex items-center justify-between rounded-xl px-3 py-1.5",
+                  collectionId === collection.id ? "bg-neutral-800" : "",
+                ].join(" ")}
+              >
+                <button
+                  type="button"
+                  onClick={() => setCollectionId(collection.id)}
+                  className={[
+                    "min-w-0 truncate text-left",
+                    collectionId === collection.id
+                      ? "text-neutral-50"
+                      : "text-neutral-400 hover:text-neutral-200",
+                  ].join(" ")}
+                >
+                  {collection.name}
+                </button>
+                <span className="flex gap-1.5 text-[10px] opacity-0 group-hover:opacity-100">
+                  <button
+                    type="button"
+                    onClick={() => handleRenameCollection(collection)}
+                    className="text-neutral-500 hover:text-neutral-200"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteCollection(collection)}
+                    className="text-neutral-500 hover:text-red-300"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            ))}
+          </nav>
+
+          <form onSubmit={handleCreateCollection} className="flex gap-1.5">
+            <input
+              value={newCollection}
+              onChange={(e) => setNewCollection(e.target.value)}
+              placeholder="New collection"
+              className="min-w-0 flex-1 rounded-xl border border-shell-border bg-black/40 px-3 py-1.5 text-xs text-neutral-100"
+            />
+            <button
+              type="submit"
+              disabled={!newCollection.trim()}
+              className="rounded-xl border border-neutral-700 px-2.5 text-neutral-300 hover:border-neutral-500 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </form>
+        </aside>
+
+        {/* Library */}
+        <section className="space-y-3">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search titles, tags, notes and content…"
+            className="w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100"
+          />
+
+          <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+            {KINDS.map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setKind(kind === k ? null : k)}
+                className={[
+                  "rounded-full border px-2.5 py-0.5 transition-colors",
+                  kind === k
+                    ? "border-emerald-500/60 bg-emerald-500/10 text-emerald-200"
+                    : "border-neutral-800 text-neutral-400 hover:border-neutral-600",
+                ].join(" ")}
+              >
+                {KIND_LABELS[k]}s
+              </button>
+            ))}
+            {tags.length > 0 && <span className="mx-1 h-3 w-px bg-neutral-800" />}
+            {tags.map((t) => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => setTag(tag === t ? null : t)}
+                className={[
+                  "rounded-full border px-2 py-0.5 transition-colors",
+                  tag === t
+                    ? "border-emerald-500/60 bg-emerald-500/10 text-emerald-200"
+                    : "border-neutral-800 text-neutral-500 hover:border-neutral-600",
+                ].join(" ")}
+              >
+                #{t}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+              {error}
+            </div>
+          )}
+
+          {isLoading && !items.length && (
+            <p className="text-[11px] text-neutral-400">Loading library…</p>
+          )}
+
+          {!isLoading && !items.length && (
+            <p className="text-[11px] text-neutral-500">
+              {hasFilters
+                ? "Nothing saved matches these filters."
+                : "Nothing saved yet. Use Save on any trend, angle, brief or script."}
+            </p>
+          )}
+
+          {items.map((saved) => (
+            <SavedItemCard
+              key={`${saved.id}-${saved.updatedAt}`}
+              saved={saved}
+              collections={collections}
+              trends={trends}
+              briefs={briefs}
+              onUpdated={() => loadItems()}
+              onDeleted={(id) => setItems((prev) => prev.filter((item) => item.id !== id))}
+            />
+          ))}
+        </section>
+      </div>
     </div>
   );
 }
@@ -1,14 +1,28 @@
 // src/app/scripts/page.tsx
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useBrandContext } from "@/context/BrandContext";
 import { useBriefContext } from "@/context/BriefContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import GuardianPanel from "@/components/GuardianPanel";
+import WorkflowPanel from "@/components/WorkflowPanel";
+import PlatformKitView from "@/components/PlatformKitView";
+import QualityReportPanel from "@/components/QualityReportPanel";
+import SaveToLibraryButton from "@/components/SaveToLibraryButton";
+import ScriptBeatView from "@/components/ScriptBeatView";
+import ScriptExportMenu from "@/components/ScriptExportMenu";
+import ScriptVariantsPanel from "@/components/ScriptVariantsPanel";
+import Teleprompter from "@/components/Teleprompter";
+import type { ScriptPreview } from "@/lib/generators/platformScript";
+import { renderScriptMarkdown } from "@/lib/scripts/render";
+import { fetchEventStream } from "@/lib/stream/client";
+import type { PlatformMode, Script, ScriptStatus } from "@/types/engine";
 
 /**
  * Supported platform personality modes.
  * We start with these; Energy Modes can be layered later.
  */
-type PlatformMode = "tiktok" | "reels" | "shorts" | "x" | "linkedin" | "youtube";
 
 const PLATFORM_MODES: { id: PlatformMode; label: string; hint: string }[] = [
   {
@@ -43,62 +57,77 @@ const PLATFORM_MODES: { id: PlatformMode; label: string; hint: string }[] = [
   },
 ];
 
-export default function ScriptsPage() {
-  // Be defensive: don’t destructure directly in case the shape changes.
-  const briefCtx = useBriefContext() as any;
+const platformModeLabel = (platform: PlatformMode): string =>
+  PLATFORM_MODES.find((mode) => mode.id === platform)?.label ?? platform;
+
+type PlatformKit = { coreMessage: string; scripts: Script[] };
 
-  // Try multiple possible keys so we align with your existing context shape.
-  const activeBrief =
-    briefCtx?.activeBrief ??
-    briefCtx?.selectedBrief ??
-    briefCtx?.currentBrief ??
-    briefCtx?.brief ??
-    null;
+export default function ScriptsPage() {
+  const { activeBrief } = useBriefContext();
+  const { activeBrand } = useBrandContext();
+  const { canEdit } = useWorkspaceContext();
 
   const [platformMode, setPlatformMode] = useState<PlatformMode>("tiktok");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [scriptText, setScriptText] = useState<string | null>(null);
+  const [script, setScript] = useState<Script | null>(null);
+  // Set once the server has stored the script on screen
+  const [storedId, setStoredId] = useState<string | null>(null);
+  const [kit, setKit] = useState<PlatformKit | null>(null);
+  const [view, setView] = useState<"beats" | "markdown">("beats");
+  const [showTeleprompter, setShowTeleprompter] = useState(false);
+  const [isSavingScript, setIsSavingScript] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Streaming state: partial script / finished platforms, and a note
+  // shown while a dropped connection is retried
+  const [preview, setPreview] = useState<ScriptPreview | null>(null);
+  const [kitProgress, setKitProgress] = useState<Script[]>([]);
+  const [streamNotice, setStreamNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // ✅ Safely derive string values for display
-  const briefTitle: string | null = (() => {
-    if (!activeBrief?.title) return null;
-    if (typeof activeBrief.title === "string") return activeBrief.title;
-    return (
-      activeBrief.title?.name ||
-      activeBrief.title?.label ||
-      activeBrief.title?.text ||
-      "[Untitled brief]"
-    );
-  })();
-
-  const briefTrend: string | null = (() => {
-    if (!activeBrief?.trend) return null;
-    if (typeof activeBrief.trend === "string") return activeBrief.trend;
-    return (
-      activeBrief.trend?.name ||
-      activeBrief.trend?.label ||
-      activeBrief.trend?.description ||
-      "[Selected trend]"
-    );
-  })();
-
-  const briefObjective: string | null = (() => {
-    if (!activeBrief?.objective) return null;
-    if (typeof activeBrief.objective === "string") return activeBrief.objective;
-    return (
-      activeBrief.objective?.summary ||
-      activeBrief.objective?.text ||
-      "[Objective]"
-    );
-  })();
+  // Leaving the page cancels any generation still running
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Display values straight from the canonical Brief
+  const briefTitle: string | null = activeBrief?.title ?? null;
+  const briefTrend: string | null = activeBrief?.trend.name ?? null;
+  const briefObjective: string | null = activeBrief?.objective || null;
+
+  /**
+   * Starts a streamed generation, cancelling any that is still running.
+   */
+  const beginStream = (): AbortSignal => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsGenerating(true);
+    setError(null);
+    setStreamNotice(null);
+    setPreview(null);
+    setKitProgress([]);
+    return controller.signal;
+  };
+
+  const endStream = (signal: AbortSignal) => {
+    if (abortRef.current?.signal !== signal) return; // superseded
+    abortRef.current = null;
+    setIsGenerating(false);
+    setStreamNotice(null);
+    setPreview(null);
+    setKitProgress([]);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const onRetry = () => {
+    setStreamNotice("Connection dropped — retrying…");
+    setPreview(null);
+    setKitProgress([]);
+  };
 
   /**
-   * Call your existing script generation API.
-   * We simply add `platformMode` to the payload.
-   *
-   * Backwards-compatible: if the API ignores this field for now,
-   * nothing breaks. Once we update the API, it "wakes up".
+   * Streams from /api/scripts/generate: the hook and beats render as the
+   * model writes them, and Cancel stops the model call.
    */
   const handleGenerate = async () => {
     if (!activeBrief) {
@@ -106,39 +135,179 @@ export default function ScriptsPage() {
       return;
     }
 
-    setIsGenerating(true);
-    setError(null);
+    const signal = beginStream();
 
     try {
-      const response = await fetch("/api/scripts/generate", {
-        // ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^
-        // key change: /api/generate instead of /api/scripts/generate
+      const data = await fetchEventStream<{ script?: Script }>(
+        "/api/scripts/generate",
+        {
+          brief: activeBrief,
+          platformMode,
+          variants: { hooks: 3, endings: 2 },
+          brandId: activeBrand?.id,
+        },
+        ({ event, data }) => {
+          if (event === "preview") setPreview(data as ScriptPreview);
+        },
+        { signal, onRetry }
+      );
+      if (!data.script) throw new Error("No script returned from API.");
+
+      setScript(data.script);
+      setKit(null);
+
+      // Keep it server-side so the shipped variant pairing can be recorded.
+      // The saved copy carries the server's Guardian scan and draft status.
+      const saved = await fetch("/api/scripts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          brief: activeBrief,
-          platformMode, // 🔑 new param
-        }),
+        body: JSON.stringify(data.script),
       });
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.statusText}`);
+      if (saved.ok) {
+        const stored = (await saved.json()) as { script: Script };
+        setScript(stored.script);
+        setStoredId(stored.script.id);
+      } else {
+        console.error("[ScriptsPage] Save failed:", saved.status);
       }
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error("[ScriptsPage] Generate error:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate script.");
+    } finally {
+      endStream(signal);
+    }
+  };
 
-      const data = await response.json();
+  /**
+   * Same brief, every PlatformMode, one call. Platforms appear as they
+   * finish.
+   */
+  const handleGenerateAll = async () => {
+    if (!activeBrief) {
+      setError("No active brief detected. Go to Briefs and select one.");
+      return;
+    }
 
-      // Adjust this line to match your existing response shape.
-      // e.g. data.script, data.content, data.result, etc.
-      setScriptText(data.script ?? "No script returned from API.");
-    } catch (err: any) {
-      console.error("[ScriptsPage] Generate error:", err);
-      setError(err.message || "Failed to generate script.");
+    const signal = beginStream();
+
+    try {
+      const data = await fetchEventStream<Partial<PlatformKit>>(
+        "/api/scripts/adapt",
+        { brief: activeBrief, brandId: activeBrand?.id },
+        ({ event, data }) => {
+          if (event === "script") {
+            const { script: ready } = data as { script: Script };
+            setKitProgress((done) => [...done, ready]);
+          }
+        },
+        { signal, onRetry }
+      );
+      if (!data.scripts?.length) throw new Error("No scripts returned from API.");
+
+      setKit({ coreMessage: data.coreMessage ?? "", scripts: data.scripts });
+      setScript(null);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error("[ScriptsPage] Generate all error:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate scripts.");
+    } finally {
+      endStream(signal);
+    }
+  };
+
+  const handleShip = async (pairing: {
+    hookVariantId?: string;
+    endingVariantId?: string;
+  }) => {
+    if (!script) return;
+    setIsSavingScript(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/scripts/${encodeURIComponent(script.id)}/ship`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(pairing),
+        }
+      );
+      if (!response.ok) throw new Error(`API error: ${response.statusText}`);
+
+      const data = (await response.json()) as { script: Script };
+      setScript(data.script);
+    } catch (err) {
+      console.error("[ScriptsPage] Ship error:", err);
+      setError(err instanceof Error ? err.message : "Failed to mark as shipped.");
     } finally {
-      setIsGenerating(false);
+      setIsSavingScript(false);
+    }
+  };
+
+  /**
+   * Overrides and approval moves go through the server so the Guardian
+   * block can't be bypassed from the client.
+   */
+  const postScriptAction = async (action: string, body?: unknown) => {
+    if (!script) return;
+    setIsSavingScript(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/scripts/${encodeURIComponent(script.id)}/${action}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }
+      );
+      const data = (await response.json()) as { script?: Script; error?: string };
+      if (!response.ok || !data.script) {
+        throw new Error(data.error ?? `API error: ${response.statusText}`);
+      }
+
+      setScript(data.script);
+    } catch (err) {
+      console.error(`[ScriptsPage] ${action} error:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} script.`);
+    } finally {
+      setIsSavingScript(false);
+    }
+  };
+
+  // Errors surface in the approval panel, so this one throws
+  const handleMove = async (to: ScriptStatus, note?: string) => {
+    if (!script) return;
+    const response = await fetch(
+      `/api/scripts/${encodeURIComponent(script.id)}/workflow`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to, note }),
+      }
+    );
+    const data = (await response.json()) as { script?: Script; error?: string };
+    if (!response.ok || !data.script) {
+      throw new Error(data.error ?? `API error: ${response.statusText}`);
     }
+    setScript(data.script);
   };
+  const handleOverride = (override: { reason: string }) =>
+    postScriptAction("guardian-override", override);
 
   const hasBrief = Boolean(activeBrief);
+  // Viewers can read scripts but not generate them
+  const canGenerate = hasBrief && canEdit;
+  const scriptMarkdown = script ? renderScriptMarkdown(script, activeBrief) : null;
+
+  const handleCopyMarkdown = () => {
+    if (!scriptMarkdown) return;
+    navigator.clipboard
+      .writeText(scriptMarkdown)
+      .catch((err) => console.error("[ScriptsPage] Copy failed:", err));
+  };
 
   return (
     <div className="space-y-6">
@@ -210,15 +379,20 @@ export default function ScriptsPage() {
                     brief, and come back.
                   </p>
                 )}
+                {hasBrief && !canEdit && (
+                  <p className="text-xs text-neutral-500 mt-1">
+                    You have view access in this workspace.
+                  </p>
+                )}
               </div>
 
             <button
                 type="button"
                 onClick={handleGenerate}
-                disabled={!hasBrief || isGenerating}
+                disabled={!canGenerate || isGenerating}
                 className={[
                   "inline-flex items-center gap-2 rounded-xl px-3 py-2 text-xs font-medium transition",
-                  !hasBrief || isGenerating
+                  !canGenerate || isGenerating
                     ? "bg-neutral-800 text-neutral-500 cursor-not-allowed"
                     : "bg-emerald-500 text-neutral-950 hover:bg-emerald-400",
                 ].join(" ")}
@@ -239,6 +413,30 @@ export default function ScriptsPage() {
               </button>
             </div>
 
+            {isGenerating && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="w-full rounded-xl border border-rose-500/50 px-3 py-2 text-xs font-medium text-rose-200 transition hover:bg-rose-500/10"
+              >
+                Cancel generation
+              </button>
+            )}
+
+            <button
+              type="button"
+              onClick={handleGenerateAll}
+              disabled={!canGenerate || isGenerating}
+              className={[
+                "w-full rounded-xl border px-3 py-2 text-xs font-medium transition",
+                !canGenerate || isGenerating
+                  ? "border-neutral-800 text-neutral-600 cursor-not-allowed"
+                  : "border-emerald-500/60 text-emerald-200 hover:bg-emerald-500/10",
+              ].join(" ")}
+            >
+              Generate for all platforms
+            </button>
+
             {hasBrief && (
               <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-3">
                 <div className="text-[11px] text-neutral-400 uppercase tracking-wide mb-1">
@@ -257,6 +455,12 @@ export default function ScriptsPage() {
                       {briefTrend}
                     </p>
                   )}
+                  {activeBrand && (
+                    <p>
+                      <span className="text-neutral-500">Brand:</span>{" "}
+                      {activeBrand.name}
+                    </p>
+                  )}
                   {briefObjective && (
                     <p>
                       <span className="text-neutral-500">Objective:</span>{" "}
@@ -283,14 +487,119 @@ export default function ScriptsPage() {
                 Script Output
               </h2>
               <p className="text-xs text-neutral-500">
-                Platform-aware script for{" "}
-                <span className="font-semibold">{platformMode}</span>.
+                {kit ? (
+                  <>Cross-platform kit: {kit.scripts.length} platforms.</>
+                ) : (
+                  <>
+                    Platform-aware script for{" "}
+                    <span className="font-semibold">
+                      {script?.platform ?? platformMode}
+                    </span>
+                    .
+                  </>
+                )}
               </p>
             </div>
+
+            {script && (
+              <div className="flex items-center gap-1">
+                {(["beats", "markdown"] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setView(option)}
+                    className={[
+                      "rounded-full border px-2 py-0.5 text-[10px] capitalize transition",
+                      view === option
+                        ? "border-emerald-400/80 text-emerald-200"
+                        : "border-neutral-800 text-neutral-400 hover:border-neutral-700",
+                    ].join(" ")}
+                  >
+                    {option}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={handleCopyMarkdown}
+                  className="rounded-full border border-neutral-800 px-2 py-0.5 text-[10px] text-neutral-400 hover:border-neutral-700"
+                >
+                  Copy
+                </button>
+                <SaveToLibraryButton
+                  key={script.id}
+                  kind="script"
+                  item={script}
+                  className="rounded-full border border-neutral-800 px-2 py-0.5 text-[10px] text-neutral-400 hover:border-neutral-700 disabled:text-emerald-300"
+                />
+              </div>
+            )}
           </div>
 
+          {script && (
+            <ScriptExportMenu
+              script={script}
+              brief={activeBrief}
+              stored={script.id === storedId}
+              onTeleprompter={() => setShowTeleprompter(true)}
+            />
+          )}
+
           <div className="relative flex-1 rounded-xl border border-neutral-800 bg-neutral-950/80 p-3 text-xs text-neutral-100 overflow-auto">
-            {!scriptText && (
+            {isGenerating && (
+              <div className="mb-3 space-y-2">
+                {streamNotice && (
+                  <p className="text-[11px] text-amber-300">{streamNotice}</p>
+                )}
+
+                {preview && (
+                  <div className="space-y-2 opacity-80">
+                    {preview.attempt > 1 && (
+                      <p className="text-[10px] text-neutral-500">
+                        Regenerating to meet Platinum+ (attempt {preview.attempt})…
+                      </p>
+                    )}
+                    {preview.hook && (
+                      <div className="rounded-xl border border-emerald-500/40 bg-emerald-500/5 p-3">
+                        <span className="text-[10px] uppercase tracking-wide text-emerald-300">
+                          Hook
+                        </span>
+                        <p className="text-sm font-medium text-neutral-100">{preview.hook}</p>
+                      </div>
+                    )}
+                    <ol className="space-y-2">
+                      {preview.beats.map((beat, index) => (
+                        <li
+                          key={index}
+                          className="rounded-xl border border-neutral-800 bg-neutral-900/60 p-3 space-y-1"
+                        >
+                          <span className="text-[11px] font-medium text-neutral-200">
+                            Beat {index + 1}
+                          </span>
+                          {beat.voiceover && <p className="text-neutral-100">{beat.voiceover}</p>}
+                          {beat.onScreenText && (
+                            <p className="text-[11px] text-neutral-400">
+                              On screen: {beat.onScreenText}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                {kitProgress.length > 0 && (
+                  <p className="text-[11px] text-neutral-400">
+                    Ready: {kitProgress.map((s) => platformModeLabel(s.platform)).join(", ")}
+                  </p>
+                )}
+
+                {!preview && !kitProgress.length && (
+                  <p className="text-[11px] text-neutral-500">Waiting for the model…</p>
+                )}
+              </div>
+            )}
+
+            {!script && !kit && !isGenerating && (
               <p className="text-neutral-500">
                 No script generated yet. Choose a{" "}
                 <span className="font-semibold">Platform Mode</span>, make sure
@@ -299,14 +608,68 @@ export default function ScriptsPage() {
               </p>
             )}
 
-            {scriptText && (
+            {kit && (
+              <PlatformKitView
+                coreMessage={kit.coreMessage}
+                scripts={kit.scripts}
+                labelFor={platformModeLabel}
+              />
+            )}
+
+            {script?.quality && (
+              <div className="mb-3">
+                <QualityReportPanel key={script.id} report={script.quality} />
+              </div>
+            )}
+
+            {script && (
+              <div className="mb-3">
+                <GuardianPanel
+                  key={script.id}
+                  script={script}
+                  onOverride={handleOverride}
+                  isSaving={isSavingScript}
+                  readOnly={!canEdit}
+                />
+              </div>
+            )}
+
+            {script && (
+              <div className="mb-3">
+                <WorkflowPanel
+                  key={script.id}
+                  subject="script"
+                  id={script.id}
+                  status={script.status}
+                  onMove={(to, note) => handleMove(to as ScriptStatus, note)}
+                />
+              </div>
+            )}
+
+            {script && view === "beats" && (
+              <div className="space-y-3">
+                <ScriptBeatView script={script} />
+                <ScriptVariantsPanel
+                  key={script.id}
+                  script={script}
+                  onShip={handleShip}
+                  isSaving={isSavingScript}
+                />
+              </div>
+            )}
+
+            {scriptMarkdown && view === "markdown" && (
               <pre className="whitespace-pre-wrap font-mono text-[11px] leading-relaxed">
-                {scriptText}
+                {scriptMarkdown}
               </pre>
             )}
           </div>
         </div>
       </div>
+
+      {script && showTeleprompter && (
+        <Teleprompter script={script} onClose={() => setShowTeleprompter(false)} />
+      )}
     </div>
   );
 }
@@ -1,62 +1,151 @@
 // src/app/trends/page.tsx
 "use client";
 
-import React, { useState } from "react";
-import { useRouter } from "next/navigation";
+import React, { Suspense, useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import AngleCard from "@/components/AngleCard";
-import {
-  useBriefContext,  
-  type Trend,
-  type Angle,
-} from "@/context/BriefContext";
+import SaveToLibraryButton from "@/components/SaveToLibraryButton";
+import { useBrandContext } from "@/context/BrandContext";
+import { useBriefContext } from "@/context/BriefContext";
 import { useTrendContext } from "@/context/TrendContext";
+import { applyBrandToBrief } from "@/lib/brands/context";
+import { draftBrief } from "@/lib/briefs/draft";
+import type { TrendFacets, TrendPage } from "@/lib/trends/query";
+import type { Angle, AngleDiversity, Trend, TrendStage } from "@/types/engine";
 
-/**
- * Local mock trends for the MVP.
- * These now use the shared Trend type from BriefContext.
- */
-const mockTrends: Trend[] = [
-  {
-    id: "street-pov",
-    status: "Emerging",
-    name: "Street POV micro-vlogs",
-    description: "Raw, handheld city footage with lo-fi sound and quick cuts.",
-    formatLabel: "Short-form video",
-    momentumLabel: "Momentum: ↑ Fast",
-    category: "Short-form",
-  },
-  {
-    id: "day-in-the-life",
-    status: "Peaking",
-    name: "Day-in-the-life work content",
-    description:
-      "Behind-the-scenes relatable workflows and real-world routines.",
-    formatLabel: "Mixed formats",
-    momentumLabel: "Momentum: ↔ Steady",
-    category: "Mixed",
-  },
-  {
-    id: "expectation-vs-reality",
-    status: "Stable",
-    name: "Expectation vs reality memes",
-    description:
-      "Remixable format contrasting expectation vs reality in funny ways.",
-    formatLabel: "Meme / Video",
-    momentumLabel: "Momentum: ▢ Soft",
-    category: "Meme",
-  },
+const STAGE_LABELS: Record<TrendStage, { label: string; momentum: string }> = {
+  early: { label: "Early", momentum: "↗ Early" },
+  growing: { label: "Growing", momentum: "↑ Fast" },
+  peaking: { label: "Peaking", momentum: "↔ Steady" },
+  saturated: { label: "Saturated", momentum: "▢ Soft" },
+};
+
+const STAGE_FILTERS: { stage: TrendStage | null; label: string; tone: string }[] = [
+  { stage: null, label: "All", tone: "border-neutral-500 bg-neutral-800 text-neutral-100" },
+  { stage: "early", label: "Early", tone: "border-amber-500/70 bg-amber-500/10 text-amber-300" },
+  { stage: "growing", label: "Growing", tone: "border-emerald-500/60 bg-emerald-500/10 text-emerald-300" },
+  { stage: "peaking", label: "Peaking", tone: "border-sky-500/60 bg-sky-500/10 text-sky-300" },
+  { stage: "saturated", label: "Saturated", tone: "border-neutral-500/60 bg-neutral-500/10 text-neutral-300" },
 ];
 
-export default function TrendsPage() {
+const SELECT_CLASS =
+  "rounded-full border border-neutral-800 bg-neutral-900/80 px-3 py-1 text-neutral-200 focus:border-emerald-500 focus:outline-none";
+
+const EMPTY_FACETS: TrendFacets = { categories: [], platforms: [] };
+
+function diversityTone(score: number): string {
+  if (score >= 70) return "border-emerald-500/40 text-emerald-200";
+  if (score >= 50) return "border-amber-500/40 text-amber-200";
+  return "border-rose-500/40 text-rose-200";
+}
+
+/**
+ * Search, stage / category / platform filters, sort and page all live in
+ * the URL (?q=&stage=&category=&platform=&sort=&page=) so a filtered view
+ * can be bookmarked and shared; the server does the querying.
+ */
+function TrendsView() {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
 
-  const { setActiveBrief, briefs, setBriefs } = useBriefContext();
+  const { activeBrand } = useBrandContext();
+  const { setActiveBrief, saveBrief } = useBriefContext();
   const { selectedTrend, setSelectedTrend } = useTrendContext();
 
+  const [trends, setTrends] = useState<Trend[]>([]);
+  const [pageInfo, setPageInfo] = useState({ total: 0, page: 1, pageCount: 1 });
+  const [facets, setFacets] = useState<TrendFacets>(EMPTY_FACETS);
+  const [isLoadingTrends, setIsLoadingTrends] = useState(true);
+  const [trendsError, setTrendsError] = useState<string | null>(null);
+  const urlSearch = searchParams.get("q") ?? "";
+  const [searchText, setSearchText] = useState(urlSearch);
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch);
+
+  // Back / forward or a pasted link changed ?q= under us
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch);
+    if (searchText.trim() !== urlSearch) setSearchText(urlSearch);
+  }
+
   const [angles, setAngles] = useState<Angle[]>([]);
+  const [diversity, setDiversity] = useState<AngleDiversity | null>(null);
   const [isLoadingAngles, setIsLoadingAngles] = useState(false);
   const [anglesError, setAnglesError] = useState<string | null>(null);
 
+  const activeStage = searchParams.get("stage");
+  const activeCategory = searchParams.get("category") ?? "";
+  const activePlatform = searchParams.get("platform") ?? "";
+  const activeSort = searchParams.get("sort") ?? "strength";
+
+  /**
+   * Write filter changes into the URL. Any change other than paging
+   * goes back to page 1.
+   */
+  const updateQuery = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(queryString);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!("page" in changes)) next.delete("page");
+    const search = next.toString();
+    router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+  };
+
+  /**
+   * Debounce typing into ?q= so each keystroke doesn't re-run the adapters.
+   */
+  useEffect(() => {
+    const q = searchText.trim();
+    if (q === urlSearch) return;
+
+    const timer = setTimeout(() => {
+      const next = new URLSearchParams(queryString);
+      if (q) next.set("q", q);
+      else next.delete("q");
+      next.delete("page");
+      const search = next.toString();
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchText, urlSearch, queryString, pathname, router]);
+
+  /**
+   * Load the current page of interpreted trends for the URL's query.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/trends${queryString ? `?${queryString}` : ""}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as Partial<TrendPage>;
+        if (cancelled) return;
+        setTrends(data.trends || []);
+        setFacets(data.facets ?? EMPTY_FACETS);
+        setPageInfo({
+          total: data.total ?? 0,
+          page: data.page ?? 1,
+          pageCount: data.pageCount ?? 1,
+        });
+        setTrendsError(null);
+      })
+      .catch((error) => {
+        console.error("Failed to load trends:", error);
+        if (!cancelled) setTrendsError("Could not load trends. Try again in a moment.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTrends(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryString]);
+
   /**
    * Call backend to generate angles for a given trend.
    */
@@ -65,24 +154,24 @@ export default function TrendsPage() {
       setIsLoadingAngles(true);
       setAnglesError(null);
       setAngles([]);
+      setDiversity(null);
 
       const res = await fetch("/api/generateTrendAngles", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          trendTitle: trend.name,
-          momentum: trend.status,
-          format: trend.formatLabel,
-          category: trend.category,
-        }),
+        body: JSON.stringify({ trend, brandId: activeBrand?.id }),
       });
 
       if (!res.ok) {
         throw new Error(`API responded with ${res.status}`);
       }
 
-      const data = (await res.json()) as { angles?: Angle[] };
+      const data = (await res.json()) as {
+        angles?: Angle[];
+        diversity?: AngleDiversity;
+      };
       setAngles(data.angles || []);
+      setDiversity(data.diversity ?? null);
     } catch (error) {
       console.error("Failed to fetch angles:", error);
       setAnglesError("Could not generate angles. Try again in a moment.");
@@ -106,26 +195,17 @@ export default function TrendsPage() {
    * (Optional path, but useful for people who want to brief first.)
    */
   const handleTurnIntoBrief = (trend: Trend) => {
-    const now = new Date().toISOString();
-
-    const brief = {
-      id: `trend-brief-${trend.id}-${Date.now()}`,
-      title: trend.name,
-      trend,
-      status: "Draft" as const,
-      summary: trend.description,
-      coreMessage: "Turn this cultural signal into creator-native content.",
-      objective: "Define the specific brand outcome in the Briefs view.",
-      audienceHint: "TBD",
-      platformHint: "Any",
-      formatHint: trend.formatLabel,
-      outcomeHint: "TBD",
-      createdAt: now,
-      updatedAt: now,
-    };
+    const brief = applyBrandToBrief(
+      draftBrief(trend, undefined, {
+        id: `trend-brief-${trend.id}-${Date.now()}`,
+        coreMessage: "Turn this cultural signal into creator-native content.",
+        objective: "Define the specific brand outcome in the Briefs view.",
+      }),
+      activeBrand
+    );
 
     setActiveBrief(brief);
-    setBriefs([...briefs, brief]);
+    saveBrief(brief).catch(() => undefined); // logged in BriefContext
     router.push("/briefs");
   };
 
@@ -133,26 +213,18 @@ export default function TrendsPage() {
    * Jump straight to Scripts from a trend without choosing an angle.
    */
   const handleJumpStraightToScript = (trend: Trend) => {
-    const now = new Date().toISOString();
-
-    const brief = {
-      id: `trend-script-${trend.id}-${Date.now()}`,
-      title: `${trend.name} • Direct-to-script`,
-      trend,
-      status: "Draft" as const,
-      summary: trend.description,
-      coreMessage: "Directly translate this trend into scripts.",
-      objective: "Generate ready-to-film scripts from this cultural signal.",
-      audienceHint: "TBD",
-      platformHint: "Any",
-      formatHint: trend.formatLabel,
-      outcomeHint: "TBD",
-      createdAt: now,
-      updatedAt: now,
-    };
+    const brief = applyBrandToBrief(
+      draftBrief(trend, undefined, {
+        id: `trend-script-${trend.id}-${Date.now()}`,
+        title: `${trend.name} • Direct-to-script`,
+        coreMessage: "Directly translate this trend into scripts.",
+        objective: "Generate ready-to-film scripts from this cultural signal.",
+      }),
+      activeBrand
+    );
 
     setActiveBrief(brief);
-    setBriefs([...briefs, brief]);
+    saveBrief(brief).catch(() => undefined); // logged in BriefContext
     router.push("/scripts");
   };
 
@@ -167,34 +239,106 @@ export default function TrendsPage() {
         </p>
       </div>
 
-      {/* Search + filters (static for now) */}
-      <div className="rounded-2xl border border-neutral-800 bg-neutral-950/70 px-4 py-3 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-        <div className="flex-1">
-          <input
-            type="text"
-            placeholder="Search trends, formats, keywords..."
-            className="w-full rounded-full bg-neutral-900/80 px-4 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 border border-neutral-800 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/40"
-          />
+      {/* Search + filters */}
+      <div className="rounded-2xl border border-neutral-800 bg-neutral-950/70 px-4 py-3 flex flex-col gap-3">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="flex-1">
+            <input
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search trends, formats, keywords..."
+              className="w-full rounded-full bg-neutral-900/80 px-4 py-2 text-sm text-neutral-100 placeholder:text-neutral-500 border border-neutral-800 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/40"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {STAGE_FILTERS.map(({ stage, label, tone }) => {
+              const active = (activeStage ?? null) === stage;
+              return (
+                <button
+                  key={label}
+                  onClick={() => updateQuery({ stage })}
+                  aria-pressed={active}
+                  className={[
+                    "rounded-full border px-3 py-1 transition-colors",
+                    active
+                      ? tone
+                      : "border-neutral-800 bg-neutral-900/80 text-neutral-400 hover:text-neutral-200",
+                  ].join(" ")}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
         </div>
-        <div className="flex items-center gap-2 text-xs">
-          <button className="rounded-full border border-neutral-700 bg-neutral-900/80 px-3 py-1 text-neutral-200">
-            All
-          </button>
-          <button className="rounded-full border border-amber-500/70 bg-amber-500/10 px-3 py-1 text-amber-300">
-            Emerging
-          </button>
-          <button className="rounded-full border border-emerald-500/60 bg-emerald-500/5 px-3 py-1 text-emerald-300">
-            Peaking
-          </button>
-          <button className="rounded-full border border-sky-500/60 bg-sky-500/5 px-3 py-1 text-sky-300">
-            Stable
-          </button>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {facets.platforms.length > 0 && (
+            <select
+              value={activePlatform}
+              onChange={(e) => updateQuery({ platform: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">All platforms</option>
+              {facets.platforms.map((platform) => (
+                <option key={platform} value={platform}>
+                  {platform}
+                </option>
+              ))}
+            </select>
+          )}
+          {facets.categories.length > 0 && (
+            <select
+              value={activeCategory}
+              onChange={(e) => updateQuery({ category: e.target.value || null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">All categories</option>
+              {facets.categories.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={activeSort}
+            onChange={(e) =>
+              updateQuery({ sort: e.target.value === "strength" ? null : e.target.value })
+            }
+            className={SELECT_CLASS}
+          >
+            <option value="strength">Sort: signal strength</option>
+            <option value="momentum">Sort: momentum</option>
+          </select>
+          {!isLoadingTrends && !trendsError && (
+            <span className="ml-auto text-neutral-500">
+              {pageInfo.total} trend{pageInfo.total === 1 ? "" : "s"}
+            </span>
+          )}
         </div>
       </div>
 
       {/* Trend cards */}
       <div className="space-y-4">
-        {mockTrends.map((trend) => (
+        {isLoadingTrends && (
+          <div className="text-[11px] text-neutral-400">Loading trends…</div>
+        )}
+
+        {trendsError && (
+          <div className="text-[11px] text-rose-300">{trendsError}</div>
+        )}
+
+        {!isLoadingTrends && !trendsError && trends.length === 0 && (
+          <div className="text-[11px] text-neutral-400">
+            {queryString
+              ? "No trends match these filters."
+              : "No signals ingested yet. Drop JSON or CSV exports into the signals folder and refresh."}
+          </div>
+        )}
+
+        {trends.map((trend) => (
           <div
             key={trend.id}
             className="rounded-2xl border border-neutral-800 bg-gradient-to-br from-neutral-950 via-neutral-900/60 to-neutral-950 p-5 flex flex-col gap-4"
@@ -202,17 +346,23 @@ export default function TrendsPage() {
             <div className="flex items-start justify-between gap-4">
               <div className="space-y-1">
                 <span className="text-[11px] font-semibold tracking-wide uppercase text-amber-300">
-                  {trend.status}
+                  {STAGE_LABELS[trend.signalStrengthStage].label}
                 </span>
                 <h2 className="text-base font-semibold text-neutral-100">
                   {trend.name}
                 </h2>
-                <p className="text-xs text-neutral-400">{trend.description}</p>
+                <p className="text-xs text-neutral-400">{trend.summary}</p>
+                <p className="text-xs text-neutral-500">{trend.mechanic}</p>
               </div>
 
               <div className="text-right space-y-1 text-xs">
-                <p className="text-neutral-300">{trend.formatLabel}</p>
-                <p className="text-emerald-300">{trend.momentumLabel}</p>
+                <p className="text-neutral-300">
+                  {trend.formatLabel || trend.platformFit.join(" / ") || "Mixed formats"}
+                </p>
+                <p className="text-emerald-300">
+                  Momentum: {STAGE_LABELS[trend.signalStrengthStage].momentum} (
+                  {trend.signalStrengthScore})
+                </p>
               </div>
             </div>
 
@@ -236,9 +386,32 @@ export default function TrendsPage() {
               >
                 Jump straight to script
               </button>
+              <SaveToLibraryButton kind="trend" item={trend} />
             </div>
           </div>
         ))}
+
+        {pageInfo.pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3 text-xs text-neutral-400">
+            <button
+              onClick={() => updateQuery({ page: String(pageInfo.page - 1) })}
+              disabled={pageInfo.page <= 1}
+              className="rounded-full border border-neutral-800 px-3 py-1 hover:text-neutral-200 disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <span>
+              Page {pageInfo.page} of {pageInfo.pageCount}
+            </span>
+            <button
+              onClick={() => updateQuery({ page: String(pageInfo.page + 1) })}
+              disabled={pageInfo.page >= pageInfo.pageCount}
+              className="rounded-full border border-neutral-800 px-3 py-1 hover:text-neutral-200 disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Angles panel for selected trend */}
@@ -259,6 +432,7 @@ export default function TrendsPage() {
               onClick={() => {
                 setSelectedTrend(null);
                 setAngles([]);
+                setDiversity(null);
                 setAnglesError(null);
               }}
               className="text-[11px] text-neutral-400 hover:text-neutral-200"
@@ -285,6 +459,26 @@ export default function TrendsPage() {
             </div>
           )}
 
+          {angles.length > 0 && diversity && (
+            <div className="flex flex-wrap items-center gap-2 text-[11px]">
+              <span
+                className={[
+                  "rounded-full border px-2 py-0.5",
+                  diversityTone(diversity.score),
+                ].join(" ")}
+              >
+                Diversity {diversity.score}/100
+              </span>
+              {diversity.dropped.length > 0 && (
+                <span className="text-neutral-400">
+                  Dropped {diversity.dropped.length} near-duplicate
+                  {diversity.dropped.length === 1 ? "" : "s"}:{" "}
+                  {diversity.dropped.join(", ")}
+                </span>
+              )}
+            </div>
+          )}
+
           {angles.length > 0 && (
             <div className="grid gap-3 md:grid-cols-2">
               {angles.map((angle) => (
@@ -301,3 +495,13 @@ export default function TrendsPage() {
     </div>
   );
 }
+
+export default function TrendsPage() {
+  return (
+    <Suspense
+      fallback={<div className="text-[11px] text-neutral-400">Loading trends…</div>}
+    >
+      <TrendsView />
+    </Suspense>
+  );
+}
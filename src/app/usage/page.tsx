@@ -0,0 +1,378 @@
+// src/app/usage/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import type { DailyUsage } from "@/lib/apiKeys/usage";
+import { addDays, todayIsoDate } from "@/lib/calendar/dates";
+import type { PublicApiKey } from "@/types/engine";
+
+/**
+ * API & usage
+ *
+ * Issue and revoke API keys for /v1 and the generator routes, and see
+ * what each key (and the app itself) spent per day: requests, tokens and
+ * average model latency. A new key's secret is shown once.
+ */
+
+const RANGES = [7, 30, 90] as const;
+
+const NUMBER_FORMAT = new Intl.NumberFormat("en");
+
+const inputClass =
+  "rounded-xl border border-shell-border bg-black/40 px-3 py-1.5 text-xs text-neutral-100";
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error ?? fallback;
+}
+
+type KeyTotals = {
+  keyId?: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+function totalsByKey(days: readonly DailyUsage[]): KeyTotals[] {
+  const totals = new Map<string, KeyTotals>();
+  for (const day of days) {
+    const row = totals.get(day.keyId ?? "") ?? {
+      keyId: day.keyId,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+    row.requests += day.requests;
+    row.inputTokens += day.inputTokens;
+    row.outputTokens += day.outputTokens;
+    totals.set(day.keyId ?? "", row);
+  }
+  return [...totals.values()].sort((a, b) => b.requests - a.requests);
+}
+
+export default function UsagePage() {
+  const [keys, setKeys] = useState<PublicApiKey[]>([]);
+  const [days, setDays] = useState<DailyUsage[]>([]);
+  const [range, setRange] = useState<(typeof RANGES)[number]>(30);
+  const [name, setName] = useState("");
+  const [capacity, setCapacity] = useState("10");
+  const [refillPerMinute, setRefillPerMinute] = useState("6");
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const res = await fetch("/api/keys");
+      if (!res.ok) throw new Error(await readError(res, "Failed to load API keys."));
+      const data: { keys: PublicApiKey[] } = await res.json();
+      setKeys(data.keys);
+    } catch (err) {
+      console.error("[UsagePage] Keys error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load API keys.");
+    }
+  }, []);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      const from = addDays(todayIsoDate(), -(range - 1));
+      const res = await fetch(`/api/usage?from=${from}`);
+      if (!res.ok) throw new Error(await readError(res, "Failed to load usage."));
+      const data: { days: DailyUsage[] } = await res.json();
+      setDays(data.days);
+    } catch (err) {
+      console.error("[UsagePage] Usage error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load usage.");
+    }
+  }, [range]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const keyLabel = (keyId?: string) => {
+    if (!keyId) return "App (no key)";
+    const key = keys.find((k) => k.id === keyId);
+    return key ? `${key.name} (${key.prefix}…)` : keyId;
+  };
+
+  const handleIssue = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setError("Give the key a name.");
+      return;
+    }
+
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          rateLimit: {
+            capacity: Number(capacity),
+            refillPerMinute: Number(refillPerMinute),
+          },
+        }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to issue API key."));
+      const data: { key: PublicApiKey; secret: string } = await res.json();
+      setNewSecret({ name: data.key.name, secret: data.secret });
+      setCopied(false);
+      setName("");
+      await loadKeys();
+    } catch (err) {
+      console.error("[UsagePage] Issue error:", err);
+      setError(err instanceof Error ? err.message : "Failed to issue API key.");
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleRevoke = async (key: PublicApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Calls using it will fail straight away.`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/keys/${encodeURIComponent(key.id)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to revoke API key."));
+      await loadKeys();
+    } catch (err) {
+      console.error("[UsagePage] Revoke error:", err);
+      setError(err instanceof Error ? err.message : "Failed to revoke API key.");
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret.secret);
+      setCopied(true);
+    } catch (err) {
+      console.error("[UsagePage] Copy failed:", err);
+    }
+  };
+
+  const totals = totalsByKey(days);
+
+  return (
+    <div className="space-y-8">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">API & usage</h1>
+        <p className="text-sm text-neutral-400">
+          Keys for the /v1 API and the generator routes. Every generation is metered,
+          keyed or not. Contract:{" "}
+          <a
+            href="/v1/openapi.json"
+            target="_blank"
+            rel="noreferrer"
+            className="text-brand-pink hover:underline"
+          >
+            /v1/openapi.json
+          </a>
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+
+      <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+        <h2 className="text-sm font-semibold text-neutral-100">API keys</h2>
+
+        <form onSubmit={handleIssue} className="flex flex-wrap items-end gap-2">
+          <label className="space-y-1">
+            <span className="block text-[11px] text-neutral-400">Name</span>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Planning dashboard"
+              className={`${inputClass} w-56`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[11px] text-neutral-400">Burst</span>
+            <input
+              type="number"
+              min={1}
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[11px] text-neutral-400">Per minute</span>
+            <input
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={refillPerMinute}
+              onChange={(e) => setRefillPerMinute(e.target.value)}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isIssuing}
+            className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+          >
+            {isIssuing ? "Issuing…" : "Issue key"}
+          </button>
+        </form>
+
+        {newSecret && (
+          <div className="space-y-2 rounded-xl border border-emerald-500/40 bg-emerald-500/5 p-3">
+            <p className="text-emerald-200">
+              Key for <span className="font-semibold">{newSecret.name}</span> — copy it now, it
+              won&apos;t be shown again.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="rounded-lg bg-black/60 px-2 py-1 font-mono text-[11px] text-neutral-100">
+                {newSecret.secret}
+              </code>
+              <button
+                type="button"
+                onClick={handleCopySecret}
+                className="rounded-full border border-shell-border px-3 py-0.5 text-neutral-300 hover:border-neutral-500"
+              >
+                {copied ? "Copied" : "Copy"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setNewSecret(null)}
+                className="text-[11px] text-neutral-500 hover:text-neutral-300"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {keys.length === 0 ? (
+          <p className="text-neutral-500">No keys yet.</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="text-[10px] uppercase tracking-wide text-neutral-500">
+              <tr>
+                <th className="py-1 font-medium">Name</th>
+                <th className="py-1 font-medium">Key</th>
+                <th className="py-1 font-medium">Limit</th>
+                <th className="py-1 font-medium">Created</th>
+                <th className="py-1 font-medium">Last used</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+              {keys.map((key) => (
+                <tr key={key.id} className={key.revokedAt ? "text-neutral-500" : "text-neutral-200"}>
+                  <td className="py-1.5">{key.name}</td>
+                  <td className="py-1.5 font-mono text-[11px]">{key.prefix}…</td>
+                  <td className="py-1.5">
+                    {key.rateLimit.capacity} burst · {key.rateLimit.refillPerMinute}/min
+                  </td>
+                  <td className="py-1.5">{key.createdAt.slice(0, 10)}</td>
+                  <td className="py-1.5">{key.lastUsedAt?.slice(0, 10) ?? "—"}</td>
+                  <td className="py-1.5 text-right">
+                    {key.revokedAt ? (
+                      <span>Revoked {key.revokedAt.slice(0, 10)}</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(key)}
+                        className="text-[11px] text-red-300 hover:text-red-200"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold text-neutral-100">Usage by day</h2>
+          <div className="flex rounded-full border border-shell-border p-0.5">
+            {RANGES.map((days) => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => setRange(days)}
+                className={[
+                  "rounded-full px-3 py-0.5",
+                  range === days ? "bg-neutral-800 text-neutral-50" : "text-neutral-400",
+                ].join(" ")}
+              >
+                {days} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {totals.length > 0 && (
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {totals.map((total) => (
+              <div
+                key={total.keyId ?? "app"}
+                className="rounded-xl border border-neutral-800 bg-black/30 p-3"
+              >
+                <p className="truncate text-[11px] text-neutral-400">{keyLabel(total.keyId)}</p>
+                <p className="text-lg font-semibold text-neutral-100">
+                  {NUMBER_FORMAT.format(total.requests)}{" "}
+                  <span className="text-[11px] font-normal text-neutral-500">requests</span>
+                </p>
+                <p className="text-[11px] text-neutral-500">
+                  {NUMBER_FORMAT.format(total.inputTokens)} in ·{" "}
+                  {NUMBER_FORMAT.format(total.outputTokens)} out tokens
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {days.length === 0 ? (
+          <p className="text-neutral-500">No generations in the last {range} days.</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="text-[10px] uppercase tracking-wide text-neutral-500">
+              <tr>
+                <th className="py-1 font-medium">Day</th>
+                <th className="py-1 font-medium">Key</th>
+                <th className="py-1 text-right font-medium">Requests</th>
+                <th className="py-1 text-right font-medium">Input tokens</th>
+                <th className="py-1 text-right font-medium">Output tokens</th>
+                <th className="py-1 text-right font-medium">Avg latency</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800 text-neutral-200">
+              {days.map((day) => (
+                <tr key={`${day.date}-${day.keyId ?? "app"}`}>
+                  <td className="py-1.5">{day.date}</td>
+                  <td className="py-1.5">{keyLabel(day.keyId)}</td>
+                  <td className="py-1.5 text-right">{NUMBER_FORMAT.format(day.requests)}</td>
+                  <td className="py-1.5 text-right">{NUMBER_FORMAT.format(day.inputTokens)}</td>
+                  <td className="py-1.5 text-right">{NUMBER_FORMAT.format(day.outputTokens)}</td>
+                  <td className="py-1.5 text-right">
+                    {NUMBER_FORMAT.format(day.averageLatencyMs)} ms
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
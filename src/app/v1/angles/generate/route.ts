@@ -0,0 +1,35 @@
+// src/app/v1/angles/generate/route.ts
+import { apiData, apiDenied, apiFailure, parseApiBody } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { resolveBrand } from "@/lib/brands/repository";
+import { generateAngles } from "@/lib/generators/angles";
+import { V1GenerateAnglesRequestSchema } from "@/lib/schema/v1";
+
+/**
+ * POST /v1/angles/generate  { trend, brandId?, provider?, model?, seed? }
+ *
+ * → { data: { angles, diversity, quality } }
+ */
+export async function POST(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const body = await parseApiBody(req, V1GenerateAnglesRequestSchema);
+    if (!body.ok) return body.response;
+
+    const { trend, brandId, provider, model, seed } = body.data;
+    const brand = await resolveBrand(brandId, caller.workspaceId);
+
+    const { angles, diversity, quality, meta } = await generateAngles(
+      trend,
+      { provider, model, seed },
+      { brand }
+    );
+    await recordUsage("/v1/angles/generate", caller, meta);
+    return apiData({ angles, diversity, quality });
+  } catch (error) {
+    return apiFailure("/v1/angles/generate", error);
+  }
+}
@@ -0,0 +1,25 @@
+// src/app/v1/briefs/[id]/route.ts
+import { apiData, apiDenied, apiError, apiFailure } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { getBrief } from "@/lib/briefs/repository";
+import { inWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /v1/briefs/{id}
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const brief = inWorkspace(await getBrief(id), caller.workspaceId);
+    if (!brief) return apiError("not_found", `Brief "${id}" not found`);
+    return apiData(brief);
+  } catch (error) {
+    return apiFailure(`/v1/briefs/${id}`, error);
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/v1/briefs/create/route.ts
+import { apiData, apiDenied, apiFailure, parseApiBody } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { resolveBrand } from "@/lib/brands/repository";
+import { createBrief } from "@/lib/briefs/repository";
+import { generateBrief } from "@/lib/generators/brief";
+import { V1CreateBriefRequestSchema } from "@/lib/schema/v1";
+
+/**
+ * POST /v1/briefs/create  { trend, angle?, brandId?, provider?, model?, seed? }
+ *
+ * Generates a brief and stores it (so it shows up on the Briefs page and
+ * at GET /v1/briefs/{id}). → 201 { data: brief }
+ */
+export async function POST(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const body = await parseApiBody(req, V1CreateBriefRequestSchema);
+    if (!body.ok) return body.response;
+
+    const { trend, angle, brandId, provider, model, seed } = body.data;
+    const brand = await resolveBrand(brandId, caller.workspaceId);
+
+    const { brief, meta } = await generateBrief(
+      trend,
+      angle,
+      { provider, model, seed },
+      { brand }
+    );
+    await recordUsage("/v1/briefs/create", caller, meta);
+    return apiData(await createBrief({ ...brief, workspaceId: caller.workspaceId }), 201);
+  } catch (error) {
+    return apiFailure("/v1/briefs/create", error);
+  }
+}
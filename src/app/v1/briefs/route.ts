@@ -0,0 +1,25 @@
+// src/app/v1/briefs/route.ts
+import { apiDenied, apiFailure, apiList, paginate, parseApiQuery } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { listBriefs } from "@/lib/briefs/repository";
+import { V1BriefListQuerySchema } from "@/lib/schema/v1";
+
+/**
+ * GET /v1/briefs?status=&trendId=&page=&pageSize= — newest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const query = parseApiQuery(req, V1BriefListQuerySchema);
+    if (!query.ok) return query.response;
+
+    const { status, trendId, ...page } = query.data;
+    const briefs = await listBriefs({ status, trendId, workspaceId: caller.workspaceId });
+    const { data, pagination } = paginate(briefs, page);
+    return apiList(data, pagination);
+  } catch (error) {
+    return apiFailure("/v1/briefs", error);
+  }
+}
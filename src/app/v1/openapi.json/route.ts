@@ -0,0 +1,15 @@
+// src/app/v1/openapi.json/route.ts
+import { NextResponse } from "next/server";
+import { apiFailure } from "@/lib/api/envelope";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+/**
+ * GET /v1/openapi.json — the generated OpenAPI 3 contract for /v1.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(buildOpenApiDocument());
+  } catch (error) {
+    return apiFailure("/v1/openapi.json", error);
+  }
+}
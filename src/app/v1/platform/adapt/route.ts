@@ -0,0 +1,37 @@
+// src/app/v1/platform/adapt/route.ts
+import { apiData, apiDenied, apiFailure, parseApiBody } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { resolveBrand } from "@/lib/brands/repository";
+import { generateAllPlatformScripts } from "@/lib/generators/platformScript";
+import { V1AdaptRequestSchema } from "@/lib/schema/v1";
+
+/**
+ * POST /v1/platform/adapt  { brief, platformModes?, brandId?, ... }
+ *
+ * One brief → one script per platform, all carrying the same core
+ * message. → { data: { coreMessage, scripts } }
+ */
+export async function POST(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const body = await parseApiBody(req, V1AdaptRequestSchema);
+    if (!body.ok) return body.response;
+
+    const { brief, platformModes, brandId, provider, model, seed } = body.data;
+    const brand = await resolveBrand(brandId ?? brief.brandId, caller.workspaceId);
+
+    const { coreMessage, scripts, meta } = await generateAllPlatformScripts(
+      brief,
+      [...new Set(platformModes)],
+      { provider, model, seed },
+      { brand, signal: req.signal }
+    );
+    await recordUsage("/v1/platform/adapt", caller, meta);
+    return apiData({ coreMessage, scripts });
+  } catch (error) {
+    return apiFailure("/v1/platform/adapt", error);
+  }
+}
@@ -0,0 +1,25 @@
+// src/app/v1/scripts/[id]/route.ts
+import { apiData, apiDenied, apiError, apiFailure } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { getScript } from "@/lib/scripts/repository";
+import { inWorkspace } from "@/lib/workspaces/guard";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /v1/scripts/{id}
+ */
+export async function GET(req: Request, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const script = inWorkspace(await getScript(id), caller.workspaceId);
+    if (!script) return apiError("not_found", `Script "${id}" not found`);
+    return apiData(script);
+  } catch (error) {
+    return apiFailure(`/v1/scripts/${id}`, error);
+  }
+}
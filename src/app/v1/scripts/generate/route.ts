@@ -0,0 +1,37 @@
+// src/app/v1/scripts/generate/route.ts
+import { apiData, apiDenied, apiFailure, parseApiBody } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { recordUsage } from "@/lib/apiKeys/usage";
+import { resolveBrand } from "@/lib/brands/repository";
+import { generatePlatformScript } from "@/lib/generators/platformScript";
+import { V1GenerateScriptRequestSchema } from "@/lib/schema/v1";
+
+/**
+ * POST /v1/scripts/generate  { brief, platformMode?, variants?, brandId?, ... }
+ *
+ * → { data: script }, quality-gated and Guardian-scanned. Not stored;
+ * the internal /api/scripts/generate also streams, /v1 does not.
+ */
+export async function POST(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const body = await parseApiBody(req, V1GenerateScriptRequestSchema);
+    if (!body.ok) return body.response;
+
+    const { brief, platformMode, variants, brandId, provider, model, seed } = body.data;
+    const brand = await resolveBrand(brandId ?? brief.brandId, caller.workspaceId);
+
+    const { script, meta } = await generatePlatformScript(
+      brief,
+      platformMode,
+      { provider, model, seed },
+      { variants, brand, signal: req.signal }
+    );
+    await recordUsage("/v1/scripts/generate", caller, meta);
+    return apiData(script);
+  } catch (error) {
+    return apiFailure("/v1/scripts/generate", error);
+  }
+}
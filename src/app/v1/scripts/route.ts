@@ -0,0 +1,25 @@
+// src/app/v1/scripts/route.ts
+import { apiDenied, apiFailure, apiList, paginate, parseApiQuery } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { V1ScriptListQuerySchema } from "@/lib/schema/v1";
+import { listScripts } from "@/lib/scripts/repository";
+
+/**
+ * GET /v1/scripts?briefId=&page=&pageSize= — newest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const query = parseApiQuery(req, V1ScriptListQuerySchema);
+    if (!query.ok) return query.response;
+
+    const { briefId, ...page } = query.data;
+    const scripts = await listScripts({ briefId, workspaceId: caller.workspaceId });
+    const { data, pagination } = paginate(scripts, page);
+    return apiList(data, pagination);
+  } catch (error) {
+    return apiFailure("/v1/scripts", error);
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/v1/trends/current/route.ts
+import { apiDenied, apiFailure, apiList, parseApiQuery } from "@/lib/api/envelope";
+import { authorizeCaller } from "@/lib/apiKeys/guard";
+import { V1TrendQuerySchema } from "@/lib/schema/v1";
+import { loadTrends } from "@/lib/signals/registry";
+import { queryTrends } from "@/lib/trends/query";
+
+/**
+ * GET /v1/trends/current?q=&stage=&category=&platform=&sort=&page=&pageSize=
+ *
+ * The interpreted trends from every signal adapter, searched, filtered,
+ * sorted and paginated exactly as on the Trends page.
+ */
+export async function GET(req: Request) {
+  try {
+    const caller = await authorizeCaller(req, { allowSession: false });
+    if (!caller.ok) return apiDenied(caller.denial);
+
+    const query = parseApiQuery(req, V1TrendQuerySchema);
+    if (!query.ok) return query.response;
+
+    const { trends, total, page, pageSize, pageCount } = queryTrends(
+      await loadTrends(),
+      query.data
+    );
+    return apiList(trends, { page, pageSize, total, pageCount });
+  } catch (error) {
+    return apiFailure("/v1/trends/current", error);
+  }
+}
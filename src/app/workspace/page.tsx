@@ -0,0 +1,566 @@
+// src/app/workspace/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useAuthContext } from "@/context/AuthContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import {
+  approvalRule,
+  DEFAULT_APPROVAL_POLICY,
+  stageLabel,
+  stagesFor,
+  type WorkflowStage,
+} from "@/lib/workflow/pipeline";
+import { hasRole, roleLabel } from "@/lib/workspaces/access";
+import type {
+  ApprovalPolicy,
+  ApprovalRule,
+  MemberWithUser,
+  WorkflowSubject,
+  WorkspaceInvite,
+  WorkspaceRole,
+} from "@/types/engine";
+
+/**
+ * Workspace settings
+ *
+ * Rename the active workspace, see who is in it and with which role, and
+ * (owners) change roles, remove members, invite people by email and set
+ * who signs off each approval stage. An invite link is shown once.
+ * Anyone can start a new workspace.
+ */
+
+const ROLES: WorkspaceRole[] = ["viewer", "editor", "owner"];
+
+// Viewers only read, so they can't be given sign-off
+const APPROVER_ROLES: ApprovalRule["role"][] = ["editor", "owner"];
+
+const ROLE_HELP: Record<WorkspaceRole, string> = {
+  viewer: "reads briefs, scripts and the calendar",
+  editor: "also creates, generates and approves",
+  owner: "also manages members and invites",
+};
+
+const SUBJECTS: { subject: WorkflowSubject; label: string }[] = [
+  { subject: "brief", label: "Briefs" },
+  { subject: "script", label: "Scripts" },
+];
+
+const inputClass =
+  "rounded-xl border border-shell-border bg-black/40 px-3 py-1.5 text-xs text-neutral-100";
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  const issue = data?.issues?.[0];
+  return issue ? `${issue.path}: ${issue.message}` : data?.error ?? fallback;
+}
+
+export default function WorkspacePage() {
+  const { user } = useAuthContext();
+  const { activeWorkspace, createWorkspace, refreshWorkspaces } = useWorkspaceContext();
+  const [members, setMembers] = useState<MemberWithUser[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [inviteLink, setInviteLink] = useState<{ email: string; url: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [policy, setPolicy] = useState<ApprovalPolicy>(
+    () => activeWorkspace?.approvalPolicy ?? DEFAULT_APPROVAL_POLICY
+  );
+  const [policySaved, setPolicySaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const workspaceId = activeWorkspace?.id;
+  const isOwner = hasRole(activeWorkspace?.role, "owner");
+  const base = workspaceId ? `/api/workspaces/${encodeURIComponent(workspaceId)}` : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    try {
+      const res = await fetch(`${base}/members`);
+      if (!res.ok) throw new Error(await readError(res, "Failed to load members."));
+      const data: { members: MemberWithUser[] } = await res.json();
+      setMembers(data.members);
+
+      if (isOwner) {
+        const invitesRes = await fetch(`${base}/invites`);
+        if (!invitesRes.ok) {
+          throw new Error(await readError(invitesRes, "Failed to load invites."));
+        }
+        const invitesData: { invites: WorkspaceInvite[] } = await invitesRes.json();
+        setInvites(invitesData.invites);
+      }
+    } catch (err) {
+      console.error("[WorkspacePage] Load error:", err);
+      setError(err instanceof Error ? err.message : "Failed to load workspace.");
+    }
+  }, [base, isOwner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setName(activeWorkspace?.name ?? "");
+  }, [activeWorkspace?.name]);
+
+  // Wraps an action so its failure lands in the error banner
+  const run = async (label: string, action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`[WorkspacePage] ${label} error:`, err);
+      setError(err instanceof Error ? err.message : `${label} failed.`);
+    }
+  };
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!base) return;
+    run("Rename", async () => {
+      const res = await fetch(base, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to rename workspace."));
+      await refreshWorkspaces();
+    });
+  };
+
+  const handleRoleChange = (member: MemberWithUser, role: WorkspaceRole) => {
+    if (!base) return;
+    run("Role change", async () => {
+      const res = await fetch(`${base}/members/${encodeURIComponent(member.userId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to change role."));
+      if (member.userId === user?.id) await refreshWorkspaces();
+      await load();
+    });
+  };
+
+  const handleRemove = (member: MemberWithUser) => {
+    if (!base) return;
+    const isSelf = member.userId === user?.id;
+    const label = member.user?.email ?? member.userId;
+    if (!window.confirm(isSelf ? "Leave this workspace?" : `Remove ${label}?`)) return;
+
+    run("Remove", async () => {
+      const res = await fetch(`${base}/members/${encodeURIComponent(member.userId)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to remove member."));
+      if (isSelf) {
+        await refreshWorkspaces();
+      } else {
+        await load();
+      }
+    });
+  };
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!base) return;
+    run("Invite", async () => {
+      const res = await fetch(`${base}/invites`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to create invite."));
+      const data: { invite: WorkspaceInvite; path: string } = await res.json();
+      setInviteLink({ email: data.invite.email, url: `${window.location.origin}${data.path}` });
+      setCopied(false);
+      setInviteEmail("");
+      await load();
+    });
+  };
+
+  const handleRevoke = (invite: WorkspaceInvite) => {
+    if (!base) return;
+    run("Revoke", async () => {
+      const res = await fetch(`${base}/invites/${encodeURIComponent(invite.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to revoke invite."));
+      await load();
+    });
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink.url);
+      setCopied(true);
+    } catch (err) {
+      console.error("[WorkspacePage] Copy failed:", err);
+    }
+  };
+
+  const setRule = (
+    subject: WorkflowSubject,
+    stage: WorkflowStage,
+    patch: Partial<ApprovalRule>
+  ) => {
+    setPolicySaved(false);
+    setPolicy(
+      (prev) =>
+        ({
+          ...prev,
+          [subject]: {
+            ...prev[subject],
+            [stage]: { ...approvalRule(prev, subject, stage), ...patch },
+          },
+        }) as ApprovalPolicy
+    );
+  };
+
+  const handleSavePolicy = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!base) return;
+    run("Approval policy", async () => {
+      const res = await fetch(base, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approvalPolicy: policy }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to save approval policy."));
+      setPolicySaved(true);
+      await refreshWorkspaces();
+    });
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    run("Create", async () => {
+      await createWorkspace(newName);
+      setNewName("");
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Workspace</h1>
+        <p className="text-sm text-neutral-400">
+          Each workspace keeps its own brands, briefs, scripts, calendar and API keys.
+          {activeWorkspace && (
+            <>
+              {" "}
+              Your role in <span className="text-neutral-200">{activeWorkspace.name}</span>:{" "}
+              <span className="text-neutral-200">{roleLabel(activeWorkspace.role)}</span>.
+            </>
+          )}
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+
+      {activeWorkspace && (
+        <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+          <h2 className="text-sm font-semibold text-neutral-100">Members</h2>
+
+          {isOwner && (
+            <form onSubmit={handleRename} className="flex flex-wrap items-end gap-2">
+              <label className="space-y-1">
+                <span className="block text-[11px] text-neutral-400">Name</span>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={`${inputClass} w-64`}
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={!name.trim() || name.trim() === activeWorkspace.name}
+                className="rounded-full border border-shell-border px-3 py-1 text-neutral-300 hover:border-neutral-500 disabled:opacity-50"
+              >
+                Rename
+              </button>
+            </form>
+          )}
+
+          <table className="w-full text-left">
+            <thead className="text-[10px] uppercase tracking-wide text-neutral-500">
+              <tr>
+                <th className="py-1 font-medium">Member</th>
+                <th className="py-1 font-medium">Role</th>
+                <th className="py-1 font-medium">Since</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800 text-neutral-200">
+              {members.map((member) => {
+                const isSelf = member.userId === user?.id;
+                return (
+                  <tr key={member.id}>
+                    <td className="py-1.5">
+                      {member.user?.name || member.user?.email || member.userId}
+                      {member.user?.name && (
+                        <span className="ml-2 text-neutral-500">{member.user.email}</span>
+                      )}
+                      {isSelf && <span className="ml-2 text-neutral-500">(you)</span>}
+                    </td>
+                    <td className="py-1.5">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(member, e.target.value as WorkspaceRole)
+                          }
+                          className={inputClass}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {roleLabel(role)}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        roleLabel(member.role)
+                      )}
+                    </td>
+                    <td className="py-1.5">{member.createdAt.slice(0, 10)}</td>
+                    <td className="py-1.5 text-right">
+                      {(isOwner || isSelf) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(member)}
+                          className="text-[11px] text-red-300 hover:text-red-200"
+                        >
+                          {isSelf ? "Leave" : "Remove"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <ul className="space-y-0.5 text-[11px] text-neutral-500">
+            {ROLES.map((role) => (
+              <li key={role}>
+                <span className="text-neutral-300">{roleLabel(role)}</span> — {ROLE_HELP[role]}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {activeWorkspace && isOwner && (
+        <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+          <h2 className="text-sm font-semibold text-neutral-100">Invites</h2>
+
+          <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-2">
+            <label className="space-y-1">
+              <span className="block text-[11px] text-neutral-400">Email</span>
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="name@client.com"
+                className={`${inputClass} w-64`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-[11px] text-neutral-400">Role</span>
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                className={inputClass}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {roleLabel(role)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={!inviteEmail.trim()}
+              className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+            >
+              Create invite
+            </button>
+          </form>
+
+          {inviteLink && (
+            <div className="space-y-2 rounded-xl border border-emerald-500/40 bg-emerald-500/5 p-3">
+              <p className="text-emerald-200">
+                Invite link for <span className="font-semibold">{inviteLink.email}</span> — send
+                it now, it won&apos;t be shown again. It works for 7 days.
+              </p>
+              <div className="flex flex-wrap items-center gap-2">
+                <code className="break-all rounded-lg bg-black/60 px-2 py-1 font-mono text-[11px] text-neutral-100">
+                  {inviteLink.url}
+                </code>
+                <button
+                  type="button"
+                  onClick={handleCopyLink}
+                  className="rounded-full border border-shell-border px-3 py-0.5 text-neutral-300 hover:border-neutral-500"
+                >
+                  {copied ? "Copied" : "Copy"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setInviteLink(null)}
+                  className="text-[11px] text-neutral-500 hover:text-neutral-300"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+
+          {invites.length === 0 ? (
+            <p className="text-neutral-500">No open invites.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-800 text-neutral-200">
+              {invites.map((invite) => (
+                <li key={invite.id} className="flex items-center justify-between gap-2 py-1.5">
+                  <span>
+                    {invite.email}{" "}
+                    <span className="text-neutral-500">
+                      as {invite.role} · expires {invite.expiresAt.slice(0, 10)}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(invite)}
+                    className="text-[11px] text-red-300 hover:text-red-200"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {activeWorkspace && (
+        <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+          <h2 className="text-sm font-semibold text-neutral-100">Approvals</h2>
+          <p className="text-neutral-400">
+            How many members, and with which role at least, must sign off before a brief or
+            script moves into each stage. Scripts export for production once their brief is
+            approved.
+          </p>
+
+          <form onSubmit={handleSavePolicy} className="space-y-3">
+            <div className="grid gap-4 md:grid-cols-2">
+              {SUBJECTS.map(({ subject, label }) => (
+                <table key={subject} className="w-full text-left">
+                  <thead className="text-[10px] uppercase tracking-wide text-neutral-500">
+                    <tr>
+                      <th className="py-1 font-medium">{label} → stage</th>
+                      <th className="py-1 font-medium">Sign-offs</th>
+                      <th className="py-1 font-medium">Role</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-800 text-neutral-200">
+                    {stagesFor(subject).map((stage) => {
+                      const rule = approvalRule(policy, subject, stage);
+                      return (
+                        <tr key={stage}>
+                          <td className="py-1.5">{stageLabel(subject, stage)}</td>
+                          <td className="py-1.5">
+                            {isOwner ? (
+                              <input
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={rule.approvals}
+                                onChange={(e) => {
+                                  const approvals = Number(e.target.value) || 1;
+                                  setRule(subject, stage, {
+                                    approvals: Math.min(10, Math.max(1, approvals)),
+                                  });
+                                }}
+                                className={`${inputClass} w-16`}
+                              />
+                            ) : (
+                              rule.approvals
+                            )}
+                          </td>
+                          <td className="py-1.5">
+                            {isOwner ? (
+                              <select
+                                value={rule.role}
+                                onChange={(e) =>
+                                  setRule(subject, stage, {
+                                    role: e.target.value as ApprovalRule["role"],
+                                  })
+                                }
+                                className={inputClass}
+                              >
+                                {APPROVER_ROLES.map((role) => (
+                                  <option key={role} value={role}>
+                                    {roleLabel(role)}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              roleLabel(rule.role)
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ))}
+            </div>
+
+            {isOwner && (
+              <div className="flex items-center gap-2">
+                <button
+                  type="submit"
+                  className="rounded-full border border-shell-border px-3 py-1 text-neutral-300 hover:border-neutral-500"
+                >
+                  Save approvals
+                </button>
+                {policySaved && <span className="text-emerald-300">Saved</span>}
+              </div>
+            )}
+          </form>
+        </section>
+      )}
+
+      <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+        <h2 className="text-sm font-semibold text-neutral-100">New workspace</h2>
+        <p className="text-neutral-400">
+          For another client or team. You become its owner and it starts empty.
+        </p>
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Acme Drinks"
+            className={`${inputClass} w-64`}
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="rounded-full border border-shell-border px-3 py-1 text-neutral-300 hover:border-neutral-500 disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -4,19 +4,29 @@
 import React from "react";
 import { useRouter } from "next/navigation";
 import { useTrendContext } from "@/context/TrendContext";
-import { useBriefContext, type Angle } from "@/context/BriefContext";
+import { useBriefContext } from "@/context/BriefContext";
+import SaveToLibraryButton from "@/components/SaveToLibraryButton";
+import type { Angle } from "@/types/engine";
 
 type AngleCardProps = {
   angle: Angle;
   trendName?: string;
 };
 
+const LEVEL_STYLES: Record<NonNullable<Angle["difficulty"]>, string> = {
+  low: "border-emerald-500/40 text-emerald-200",
+  medium: "border-amber-500/40 text-amber-200",
+  high: "border-rose-500/40 text-rose-200",
+};
+
 /**
  * AngleCard
  *
  * Uses the globally selected Trend from TrendContext
  * + this Angle to generate a Platinum+ Brief via BriefContext,
  * then routes the user to /scripts where the engine activates.
+ * Shows the beats, difficulty, risk and series potential so angles on
+ * the same trend can be compared side by side.
  */
 export default function AngleCard({ angle, trendName }: AngleCardProps) {
   const router = useRouter();
@@ -54,11 +64,67 @@ export default function AngleCard({ angle, trendName }: AngleCardProps) {
           )}
         </div>
 
-        <span className="inline-flex items-center rounded-full border border-neutral-700 px-2 py-0.5 text-[10px] font-medium text-neutral-300">
-          {angle.platform} · {angle.format}
-        </span>
+        <div className="flex flex-col items-end gap-1">
+          <span className="inline-flex items-center rounded-full border border-neutral-700 px-2 py-0.5 text-[10px] font-medium text-neutral-300">
+            {angle.platform} · {angle.format}
+          </span>
+          {angle.guardian?.flagged && (
+            <span
+              title={angle.guardian.flags.map((flag) => flag.reason).join("\n")}
+              className="inline-flex items-center rounded-full bg-rose-500/20 px-2 py-0.5 text-[10px] font-semibold text-rose-200"
+            >
+              {angle.guardian.flags.length} Guardian flag
+              {angle.guardian.flags.length === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
       </div>
 
+      {/* Difficulty / risk / series potential */}
+      <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+        {angle.difficulty && (
+          <span
+            className={[
+              "rounded-full border px-2 py-0.5",
+              LEVEL_STYLES[angle.difficulty],
+            ].join(" ")}
+          >
+            {angle.difficulty} effort
+          </span>
+        )}
+        {angle.riskLevel && (
+          <span
+            className={[
+              "rounded-full border px-2 py-0.5",
+              LEVEL_STYLES[angle.riskLevel],
+            ].join(" ")}
+          >
+            {angle.riskLevel} risk
+          </span>
+        )}
+        {angle.seriesPotentialScore !== undefined && (
+          <span className="flex items-center gap-1.5 text-neutral-400">
+            Series
+            <span className="h-1.5 w-16 overflow-hidden rounded-full bg-neutral-800">
+              <span
+                className="block h-full rounded-full bg-emerald-400"
+                style={{ width: `${angle.seriesPotentialScore}%` }}
+              />
+            </span>
+            <span className="text-neutral-200">{angle.seriesPotentialScore}</span>
+          </span>
+        )}
+      </div>
+
+      {/* Beats */}
+      {angle.coreSequence.length > 0 && (
+        <ol className="list-decimal space-y-0.5 pl-4 text-[11px] text-neutral-300">
+          {angle.coreSequence.map((step, i) => (
+            <li key={i}>{step}</li>
+          ))}
+        </ol>
+      )}
+
       {/* Outcome / notes */}
       <div className="space-y-1">
         {angle.audience && (
@@ -79,13 +145,20 @@ export default function AngleCard({ angle, trendName }: AngleCardProps) {
           </p>
         )}
 
+        {angle.brandFitRationale && (
+          <p className="text-[11px] text-neutral-400">
+            Brand fit: {angle.brandFitRationale}
+          </p>
+        )}
+
         {angle.notes && (
           <p className="text-[11px] text-neutral-400">{angle.notes}</p>
         )}
       </div>
 
       {/* Primary CTA */}
-      <div className="flex justify-end pt-1">
+      <div className="flex justify-end gap-2 pt-1">
+        <SaveToLibraryButton kind="angle" item={angle} trend={selectedTrend ?? undefined} />
         <button
           onClick={handleUseThisAngle}
           className="inline-flex items-center gap-1 rounded-full bg-emerald-500 px-3 py-1 text-[11px] font-semibold text-black hover:bg-emerald-400 transition-colors"
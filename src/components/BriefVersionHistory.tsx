@@ -0,0 +1,201 @@
+// src/components/BriefVersionHistory.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { diffBriefs, type BriefChange } from "@/lib/briefs/diff";
+import type { Brief, BriefVersion } from "@/types/engine";
+
+type BriefVersionHistoryProps = {
+  brief: Brief; // current state; history is refetched when it changes
+  onRestore: (version: number) => Promise<void>;
+};
+
+type CompareTo = "previous" | "current";
+
+const TIME_FORMAT = new Intl.DateTimeFormat("en", {
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+function ChangeView({ change }: { change: BriefChange }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] uppercase tracking-wide text-neutral-500">{change.label}</p>
+      {change.kind === "text" ? (
+        <div className="space-y-0.5">
+          {change.from && <p className="text-rose-300 line-through">{change.from}</p>}
+          {change.to && <p className="text-emerald-200">{change.to}</p>}
+        </div>
+      ) : (
+        <ul className="space-y-0.5">
+          {change.removed.map((item) => (
+            <li key={`-${item}`} className="text-rose-300">
+              − {item}
+            </li>
+          ))}
+          {change.added.map((item) => (
+            <li key={`+${item}`} className="text-emerald-200">
+              + {item}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * BriefVersionHistory
+ *
+ * Every saved version of a brief, newest first. Pick one to see what it
+ * changed from the version before it (or how it differs from the brief as
+ * it is now) and restore it.
+ */
+export default function BriefVersionHistory({ brief, onRestore }: BriefVersionHistoryProps) {
+  const [versions, setVersions] = useState<BriefVersion[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTo>("previous");
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/briefs/${encodeURIComponent(brief.id)}/versions`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { versions: BriefVersion[] };
+        if (!cancelled) setVersions(data.versions);
+      })
+      .catch((err) => {
+        console.error("[BriefVersionHistory] Load error:", err);
+        if (!cancelled) setError("Failed to load version history.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [brief.id, brief.updatedAt]);
+
+  const latest = versions[0]?.version;
+  const current = versions.find((v) => v.version === (selected ?? latest));
+  const previous = current && versions.find((v) => v.version < current.version);
+
+  const changes: BriefChange[] = !current
+    ? []
+    : compareTo === "current"
+    ? diffBriefs(current.brief, brief)
+    : previous
+    ? diffBriefs(previous.brief, current.brief)
+    : [];
+
+  const handleRestore = async (version: number) => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(version);
+      setSelected(null);
+    } catch (err) {
+      console.error("[BriefVersionHistory] Restore error:", err);
+      setError(err instanceof Error ? err.message : "Failed to restore version.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+      <h2 className="text-sm font-medium text-neutral-200">Version history</h2>
+
+      {!versions.length && !error && (
+        <p className="text-[11px] text-neutral-500">No versions yet. Save to create one.</p>
+      )}
+
+      <ol className="max-h-64 space-y-1 overflow-auto">
+        {versions.map((v) => (
+          <li key={v.id}>
+            <button
+              type="button"
+              onClick={() => setSelected(v.version)}
+              className={[
+                "flex w-full items-center justify-between rounded-xl px-3 py-1.5 text-left",
+                v.version === current?.version
+                  ? "bg-neutral-800 text-neutral-50"
+                  : "text-neutral-400 hover:text-neutral-200",
+              ].join(" ")}
+            >
+              <span>
+                v{v.version}
+                {v.version === latest && (
+                  <span className="ml-1.5 text-[10px] text-emerald-300">current</span>
+                )}
+                {v.restoredFrom && (
+                  <span className="ml-1.5 text-[10px] text-amber-300">
+                    restored from v{v.restoredFrom}
+                  </span>
+                )}
+              </span>
+              <span className="text-[10px] text-neutral-500">
+                {TIME_FORMAT.format(new Date(v.createdAt))}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {current && (
+        <div className="space-y-3 border-t border-shell-border pt-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex rounded-full border border-shell-border p-0.5 text-[11px]">
+              {(["previous", "current"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setCompareTo(option)}
+                  className={[
+                    "rounded-full px-2.5 py-0.5",
+                    compareTo === option ? "bg-neutral-800 text-neutral-50" : "text-neutral-400",
+                  ].join(" ")}
+                >
+                  {option === "previous" ? "Changes in this version" : "vs. current"}
+                </button>
+              ))}
+            </div>
+            {current.version !== latest && (
+              <button
+                type="button"
+                onClick={() => handleRestore(current.version)}
+                disabled={isRestoring}
+                className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-100 hover:border-neutral-500 disabled:opacity-50"
+              >
+                {isRestoring ? "Restoring…" : `Restore v${current.version}`}
+              </button>
+            )}
+          </div>
+
+          {!changes.length ? (
+            <p className="text-[11px] text-neutral-500">
+              {compareTo === "previous" && !previous
+                ? "First version."
+                : "No differences."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change) => (
+                <ChangeView key={change.field} change={change} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,328 @@
+// src/components/CalendarEntryForm.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type {
+  Brief,
+  CalendarEntry,
+  CalendarEntryStatus,
+  PlatformMode,
+  Script,
+} from "@/types/engine";
+
+export type CalendarEntryDraft = {
+  briefId: string;
+  scriptId?: string;
+  title: string;
+  owner: string;
+  dueDate: string;
+  platform: PlatformMode;
+  format: string;
+  status: CalendarEntryStatus;
+  notes: string;
+};
+
+type CalendarEntryFormProps = {
+  briefs: Brief[];
+  entry: CalendarEntry | null; // null = new entry
+  defaultDueDate: string;
+  onSave: (draft: CalendarEntryDraft) => Promise<void>;
+  onDelete?: (entry: CalendarEntry) => Promise<void>;
+  onCancel: () => void;
+};
+
+export const PLATFORM_LABELS: Record<PlatformMode, string> = {
+  tiktok: "TikTok",
+  reels: "Reels",
+  shorts: "Shorts",
+  x: "X",
+  linkedin: "LinkedIn",
+  youtube: "YouTube",
+};
+
+export const STATUS_LABELS: Record<CalendarEntryStatus, string> = {
+  planned: "Planned",
+  "in-production": "In production",
+  ready: "Ready",
+  published: "Published",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100";
+
+function toDraft(entry: CalendarEntry | null, dueDate: string): CalendarEntryDraft {
+  return {
+    briefId: entry?.briefId ?? "",
+    scriptId: entry?.scriptId,
+    title: entry?.title ?? "",
+    owner: entry?.owner ?? "",
+    dueDate: entry?.dueDate ?? dueDate,
+    platform: entry?.platform ?? "tiktok",
+    format: entry?.format ?? "",
+    status: entry?.status ?? "planned",
+    notes: entry?.notes ?? "",
+  };
+}
+
+/**
+ * CalendarEntryForm
+ *
+ * Create / edit a scheduled post. The brief is required; the script list
+ * is loaded for the chosen brief, and picking one fills in the platform
+ * and (if still empty) the title.
+ */
+export default function CalendarEntryForm({
+  briefs,
+  entry,
+  defaultDueDate,
+  onSave,
+  onDelete,
+  onCancel,
+}: CalendarEntryFormProps) {
+  const [draft, setDraft] = useState<CalendarEntryDraft>(() =>
+    toDraft(entry, defaultDueDate)
+  );
+  const [scripts, setScripts] = useState<Script[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!draft.briefId) {
+      setScripts([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/scripts?briefId=${encodeURIComponent(draft.briefId)}`)
+      .then((res) => (res.ok ? res.json() : { scripts: [] }))
+      .then((data: { scripts?: Script[] }) => {
+        if (!cancelled) setScripts(data.scripts ?? []);
+      })
+      .catch((err) => console.error("[CalendarEntryForm] Scripts error:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draft.briefId]);
+
+  const set = <K extends keyof CalendarEntryDraft>(key: K, value: CalendarEntryDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const handleBrief = (briefId: string) => {
+    const brief = briefs.find((b) => b.id === briefId);
+    setDraft((prev) => ({
+      ...prev,
+      briefId,
+      scriptId: undefined,
+      title: prev.title || brief?.title || "",
+    }));
+  };
+
+  const handleScript = (scriptId: string) => {
+    const script = scripts.find((s) => s.id === scriptId);
+    setDraft((prev) => ({
+      ...prev,
+      scriptId: scriptId || undefined,
+      platform: script?.platform ?? prev.platform,
+      title: prev.title || script?.title || "",
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.briefId) {
+      setError("Link the post to a brief.");
+      return;
+    }
+    if (!draft.title.trim()) {
+      setError("Give the post a title.");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, title: draft.title.trim(), owner: draft.owner.trim() });
+    } catch (err) {
+      console.error("[CalendarEntryForm] Save error:", err);
+      setError(err instanceof Error ? err.message : "Failed to save post.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entry || !onDelete) return;
+    setIsSaving(true);
+    try {
+      await onDelete(entry);
+    } catch (err) {
+      console.error("[CalendarEntryForm] Delete error:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete post.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-neutral-200">
+          {entry ? "Edit post" : "Plan a post"}
+        </h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-[11px] text-neutral-500 hover:text-neutral-300"
+        >
+          Close
+        </button>
+      </div>
+
+      {entry?.saturation?.afterSaturation && (
+        <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-[11px] text-rose-200">
+          {entry.saturation.message}
+        </div>
+      )}
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Brief</span>
+        <select
+          value={draft.briefId}
+          onChange={(e) => handleBrief(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Choose a brief…</option>
+          {briefs.map((brief) => (
+            <option key={brief.id} value={brief.id}>
+              {brief.title} · {brief.trend.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Script</span>
+        <select
+          value={draft.scriptId ?? ""}
+          onChange={(e) => handleScript(e.target.value)}
+          disabled={!draft.briefId}
+          className={`${inputClass} disabled:opacity-50`}
+        >
+          <option value="">No script yet</option>
+          {scripts.map((script) => (
+            <option key={script.id} value={script.id}>
+              {PLATFORM_LABELS[script.platform]} · {script.title}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Title</span>
+        <input
+          value={draft.title}
+          onChange={(e) => set("title", e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block space-y-1">
+          <span className="text-[11px] text-neutral-300">Due date</span>
+          <input
+            type="date"
+            value={draft.dueDate}
+            onChange={(e) => e.target.value && set("dueDate", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-neutral-300">Owner</span>
+          <input
+            value={draft.owner}
+            placeholder="Who ships it"
+            onChange={(e) => set("owner", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-neutral-300">Platform</span>
+          <select
+            value={draft.platform}
+            onChange={(e) => set("platform", e.target.value as PlatformMode)}
+            className={inputClass}
+          >
+            {Object.entries(PLATFORM_LABELS).map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[11px] text-neutral-300">Status</span>
+          <select
+            value={draft.status}
+            onChange={(e) => set("status", e.target.value as CalendarEntryStatus)}
+            className={inputClass}
+          >
+            {Object.entries(STATUS_LABELS).map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Format</span>
+        <input
+          value={draft.format}
+          placeholder="e.g. Talking head, carousel, duet"
+          onChange={(e) => set("format", e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-neutral-300">Notes</span>
+        <textarea
+          rows={3}
+          value={draft.notes}
+          onChange={(e) => set("notes", e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-pill bg-brand-pink px-4 py-1.5 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : entry ? "Save changes" : "Add to calendar"}
+        </button>
+        {entry && onDelete && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="text-[11px] text-neutral-500 hover:text-red-300 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,145 @@
+// src/components/CalendarGrid.tsx
+"use client";
+
+import React, { useState } from "react";
+import { todayIsoDate } from "@/lib/calendar/dates";
+import type { CalendarEntry, CalendarEntryStatus } from "@/types/engine";
+
+type CalendarGridProps = {
+  weeks: string[][]; // YYYY-MM-DD, Monday first
+  entries: CalendarEntry[];
+  month?: string; // YYYY-MM; days outside it are dimmed (month view)
+  selectedId?: string | null;
+  onSelect: (entry: CalendarEntry) => void;
+  onMove: (entryId: string, dueDate: string) => void;
+  onAdd: (dueDate: string) => void;
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const STATUS_STYLES: Record<CalendarEntryStatus, string> = {
+  planned: "border-neutral-700 bg-neutral-900 text-neutral-200",
+  "in-production": "border-amber-500/50 bg-amber-500/10 text-amber-100",
+  ready: "border-sky-500/50 bg-sky-500/10 text-sky-100",
+  published: "border-emerald-500/50 bg-emerald-500/10 text-emerald-100",
+};
+
+/**
+ * CalendarGrid
+ *
+ * Month or week grid of scheduled posts. Entries are dragged between
+ * days to reschedule (native drag and drop, keyed by entry id); posts
+ * planned after their trend is expected to saturate get a warning ring.
+ */
+export default function CalendarGrid({
+  weeks,
+  entries,
+  month,
+  selectedId,
+  onSelect,
+  onMove,
+  onAdd,
+}: CalendarGridProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const today = todayIsoDate();
+
+  const byDay = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    byDay.set(entry.dueDate, [...(byDay.get(entry.dueDate) ?? []), entry]);
+  }
+
+  const isWeekView = weeks.length === 1;
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-shell-border">
+      <div className="grid grid-cols-7 border-b border-neutral-800 bg-neutral-950/80 text-[10px] uppercase tracking-wide text-neutral-500">
+        {WEEKDAYS.map((day) => (
+          <div key={day} className="px-2 py-1.5">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {weeks.map((week) => (
+        <div key={week[0]} className="grid grid-cols-7">
+          {week.map((day) => {
+            const dayEntries = byDay.get(day) ?? [];
+            const outside = month !== undefined && !day.startsWith(month);
+
+            return (
+              <div
+                key={day}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = "move";
+                  setDropTarget(day);
+                }}
+                onDragLeave={() => setDropTarget((t) => (t === day ? null : t))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDropTarget(null);
+                  const id = e.dataTransfer.getData("text/plain");
+                  if (id) onMove(id, day);
+                }}
+                onDoubleClick={() => onAdd(day)}
+                className={[
+                  "group border-b border-r border-neutral-900 p-1.5 space-y-1 transition-colors",
+                  isWeekView ? "min-h-64" : "min-h-24",
+                  outside ? "bg-neutral-950/40 text-neutral-600" : "bg-neutral-950/80",
+                  dropTarget === day ? "bg-emerald-500/10" : "",
+                ].join(" ")}
+              >
+                <div className="flex items-center justify-between">
+                  <span
+                    className={[
+                      "text-[10px]",
+                      day === today
+                        ? "rounded-full bg-emerald-500 px-1.5 font-semibold text-neutral-950"
+                        : "text-neutral-500",
+                    ].join(" ")}
+                  >
+                    {Number(day.slice(8))}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onAdd(day)}
+                    className="text-[10px] text-neutral-600 opacity-0 hover:text-emerald-300 group-hover:opacity-100"
+                    aria-label={`Plan a post on ${day}`}
+                  >
+                    +
+                  </button>
+                </div>
+
+                {dayEntries.map((entry) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", entry.id);
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    onClick={() => onSelect(entry)}
+                    title={entry.saturation?.message ?? entry.title}
+                    className={[
+                      "block w-full cursor-grab truncate rounded-md border px-1.5 py-0.5 text-left text-[10px] active:cursor-grabbing",
+                      STATUS_STYLES[entry.status],
+                      entry.saturation?.afterSaturation ? "ring-1 ring-rose-500/70" : "",
+                      selectedId === entry.id ? "outline outline-1 outline-emerald-400" : "",
+                    ].join(" ")}
+                  >
+                    {entry.saturation?.afterSaturation && (
+                      <span className="mr-1 text-rose-300">!</span>
+                    )}
+                    <span className="uppercase text-neutral-400">{entry.platform}</span>{" "}
+                    {entry.title}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
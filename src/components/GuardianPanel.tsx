@@ -0,0 +1,149 @@
+// src/components/GuardianPanel.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { GuardianFlag, Script } from "@/types/engine";
+
+type GuardianPanelProps = {
+  script: Script;
+  /** The server records the override under the signed-in member. */
+  onOverride: (override: { reason: string }) => void;
+  isSaving?: boolean;
+  /** Viewers see the result but can't override. */
+  readOnly?: boolean;
+};
+
+const SEVERITY_STYLES: Record<GuardianFlag["severity"], string> = {
+  high: "bg-rose-500/20 text-rose-200",
+  medium: "bg-amber-500/20 text-amber-200",
+  low: "bg-neutral-700/60 text-neutral-300",
+};
+
+/**
+ * GuardianPanel
+ *
+ * Brand Guardian result for a script: every flagged span with the rule
+ * that caught it and a safer rewrite, and the human override form. The
+ * approval workflow won't approve the script while any flag is
+ * unresolved.
+ */
+export default function GuardianPanel({
+  script,
+  onOverride,
+  isSaving = false,
+  readOnly = false,
+}: GuardianPanelProps) {
+  const [reason, setReason] = useState("");
+
+  const flags = script.guardian?.flags ?? [];
+  const overridden = new Set(script.guardianOverride?.flagIds ?? []);
+  const unresolved = flags.filter((flag) => !overridden.has(flag.id));
+
+  return (
+    <div
+      className={[
+        "rounded-xl border p-3 text-[11px] space-y-2",
+        unresolved.length
+          ? "border-rose-500/40 bg-rose-500/5"
+          : "border-neutral-800 bg-neutral-900/40",
+      ].join(" ")}
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-[11px] uppercase tracking-wide text-neutral-400">
+          Brand Guardian
+        </span>
+        <span
+          className={[
+            "rounded-full px-2 py-0.5 text-[10px] font-semibold",
+            unresolved.length
+              ? "bg-rose-500/20 text-rose-200"
+              : flags.length
+              ? "bg-amber-500/20 text-amber-200"
+              : "bg-emerald-500/20 text-emerald-200",
+          ].join(" ")}
+        >
+          {unresolved.length
+            ? `${unresolved.length} flag${unresolved.length === 1 ? "" : "s"}`
+            : flags.length
+            ? "Overridden"
+            : "Clear"}
+        </span>
+      </div>
+
+      {!flags.length && (
+        <p className="text-neutral-500">
+          No sensitive topics, banned claims or guardrail breaches found.
+        </p>
+      )}
+
+      {flags.length > 0 && (
+        <ul className="space-y-2">
+          {flags.map((flag) => (
+            <li
+              key={flag.id}
+              className={[
+                "rounded-lg border border-neutral-800 bg-neutral-950/60 p-2 space-y-1",
+                overridden.has(flag.id) ? "opacity-60" : "",
+              ].join(" ")}
+            >
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span
+                  className={[
+                    "rounded-full px-1.5 py-0.5 text-[9px] uppercase",
+                    SEVERITY_STYLES[flag.severity],
+                  ].join(" ")}
+                >
+                  {flag.severity}
+                </span>
+                <span className="text-neutral-500">{flag.field}</span>
+                <mark className="rounded bg-rose-500/30 px-1 text-rose-100">
+                  {flag.text}
+                </mark>
+                {overridden.has(flag.id) && (
+                  <span className="text-[10px] text-neutral-500">(overridden)</span>
+                )}
+              </div>
+              <p className="text-neutral-300">{flag.reason}</p>
+              {flag.suggestion && (
+                <p className="text-neutral-400">
+                  <span className="text-neutral-500">Try:</span> {flag.suggestion}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {script.guardianOverride && (
+        <p className="text-neutral-500">
+          Overridden by {script.guardianOverride.by}: {script.guardianOverride.reason}
+        </p>
+      )}
+
+      {unresolved.length > 0 && !readOnly && (
+        <form
+          className="flex flex-wrap items-center gap-1.5"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!reason.trim()) return;
+            onOverride({ reason: reason.trim() });
+          }}
+        >
+          <input
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Why these flags are acceptable"
+            className="min-w-0 flex-1 rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] text-neutral-200"
+          />
+          <button
+            type="submit"
+            disabled={!reason.trim() || isSaving}
+            className="rounded-full border border-rose-400/60 px-2.5 py-0.5 text-[10px] text-rose-200 hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Override
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+// src/components/PlatformKitView.tsx
+"use client";
+
+import React, { useState } from "react";
+import QualityReportPanel from "@/components/QualityReportPanel";
+import ScriptBeatView from "@/components/ScriptBeatView";
+import { diffScripts } from "@/lib/scripts/diff";
+import type { PlatformMode, Script } from "@/types/engine";
+
+type PlatformKitViewProps = {
+  coreMessage: string;
+  scripts: Script[];
+  labelFor: (platform: PlatformMode) => string;
+};
+
+/**
+ * PlatformKitView
+ *
+ * Cross-platform kit: one tab per platform script, plus a "what changed"
+ * panel comparing the open tab against a chosen baseline platform.
+ */
+export default function PlatformKitView({
+  coreMessage,
+  scripts,
+  labelFor,
+}: PlatformKitViewProps) {
+  const [activePlatform, setActivePlatform] = useState<PlatformMode>(
+    scripts[0].platform
+  );
+  const [baselinePlatform, setBaselinePlatform] = useState<PlatformMode>(
+    scripts[0].platform
+  );
+
+  const active =
+    scripts.find((s) => s.platform === activePlatform) ?? scripts[0];
+  const baseline =
+    scripts.find((s) => s.platform === baselinePlatform) ?? scripts[0];
+  const changes = active === baseline ? [] : diffScripts(baseline, active);
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-3">
+        <span className="text-[10px] uppercase tracking-wide text-neutral-400">
+          Core message (fixed across platforms)
+        </span>
+        <p className="text-xs text-neutral-100 mt-1">{coreMessage}</p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex flex-wrap gap-1 border-b border-neutral-800 pb-2">
+        {scripts.map((script) => (
+          <button
+            key={script.platform}
+            type="button"
+            onClick={() => setActivePlatform(script.platform)}
+            className={[
+              "rounded-lg px-3 py-1 text-[11px] transition",
+              script.platform === active.platform
+                ? "bg-emerald-500/15 text-emerald-100 border border-emerald-400/60"
+                : "border border-transparent text-neutral-400 hover:text-neutral-200",
+            ].join(" ")}
+          >
+            {labelFor(script.platform)}
+          </button>
+        ))}
+      </div>
+
+      {/* Diff vs baseline */}
+      <div className="rounded-xl border border-neutral-800 bg-neutral-950/60 p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] font-medium text-neutral-200">
+            What changed vs
+          </span>
+          <select
+            value={baseline.platform}
+            onChange={(e) => setBaselinePlatform(e.target.value as PlatformMode)}
+            className="rounded-lg border border-neutral-800 bg-neutral-900 px-2 py-0.5 text-[11px] text-neutral-300"
+          >
+            {scripts.map((script) => (
+              <option key={script.platform} value={script.platform}>
+                {labelFor(script.platform)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {active === baseline ? (
+          <p className="text-[11px] text-neutral-500">
+            This is the baseline. Open another tab to compare.
+          </p>
+        ) : changes.length === 0 ? (
+          <p className="text-[11px] text-neutral-500">No differences.</p>
+        ) : (
+          <ul className="space-y-1">
+            {changes.map((change) => (
+              <li key={change.field} className="text-[11px]">
+                <span className="text-neutral-500">{change.label}:</span>{" "}
+                <span className="text-red-300/80 line-through">
+                  {change.from || "—"}
+                </span>{" "}
+                <span className="text-neutral-500">→</span>{" "}
+                <span className="text-emerald-200">{change.to || "—"}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {active.quality && (
+        <QualityReportPanel key={active.platform} report={active.quality} />
+      )}
+
+      <ScriptBeatView script={active} />
+    </div>
+  );
+}
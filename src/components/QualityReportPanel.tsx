@@ -0,0 +1,82 @@
+// src/components/QualityReportPanel.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { QualityReport } from "@/types/engine";
+
+type QualityReportPanelProps = {
+  report: QualityReport;
+  defaultOpen?: boolean;
+};
+
+/**
+ * QualityReportPanel
+ *
+ * Platinum+ rubric result for one output: a badge with the overall
+ * confidence (or a low-confidence label) that expands into the
+ * per-criterion pass/fail list.
+ */
+export default function QualityReportPanel({
+  report,
+  defaultOpen = false,
+}: QualityReportPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const passed = report.criteria.filter((c) => c.pass).length;
+
+  return (
+    <div
+      className={[
+        "rounded-xl border p-2 text-[11px]",
+        report.platinum
+          ? "border-emerald-500/40 bg-emerald-500/5"
+          : "border-amber-500/40 bg-amber-500/5",
+      ].join(" ")}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="flex w-full items-center justify-between gap-2 text-left"
+      >
+        <span
+          className={[
+            "rounded-full px-2 py-0.5 text-[10px] font-semibold",
+            report.platinum
+              ? "bg-emerald-500/20 text-emerald-200"
+              : "bg-amber-500/20 text-amber-200",
+          ].join(" ")}
+        >
+          {report.platinum ? "Platinum+" : "Low confidence"}
+        </span>
+        <span className="text-neutral-400">
+          {Math.round(report.confidence * 100)}% · {passed}/{report.criteria.length}{" "}
+          criteria
+          {report.attempts > 1 && ` · ${report.attempts} attempts`}
+        </span>
+        <span className="text-neutral-500">{open ? "▴" : "▾"}</span>
+      </button>
+
+      {open && (
+        <ul className="mt-2 space-y-1">
+          {report.criteria.map((criterion) => (
+            <li key={criterion.id} className="flex items-start gap-2">
+              <span className={criterion.pass ? "text-emerald-300" : "text-rose-300"}>
+                {criterion.pass ? "✓" : "✗"}
+              </span>
+              <span className="text-neutral-200">
+                {criterion.label}
+                {criterion.critical && (
+                  <span className="ml-1 text-[10px] text-neutral-500">(critical)</span>
+                )}
+                {!criterion.pass && criterion.detail && (
+                  <span className="block text-[10px] text-neutral-500">
+                    {criterion.detail}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
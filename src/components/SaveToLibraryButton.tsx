@@ -0,0 +1,75 @@
+// src/components/SaveToLibraryButton.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { Angle, Brief, Script, Trend } from "@/types/engine";
+
+type SaveToLibraryButtonProps = (
+  | { kind: "trend"; item: Trend }
+  | { kind: "angle"; item: Angle; trend?: Trend }
+  | { kind: "brief"; item: Brief }
+  | { kind: "script"; item: Script }
+) & { className?: string };
+
+type SaveState = "idle" | "saving" | "saved" | "error";
+
+const LABELS: Record<SaveState, string> = {
+  idle: "Save",
+  saving: "Saving…",
+  saved: "Saved",
+  error: "Retry save",
+};
+
+/**
+ * SaveToLibraryButton
+ *
+ * Saves a snapshot of a trend, angle, brief or script to the library.
+ * Already-saved items (409) count as saved; filing happens on the Saved
+ * page.
+ */
+export default function SaveToLibraryButton({
+  className,
+  ...payload
+}: SaveToLibraryButtonProps) {
+  const [state, setState] = useState<SaveState>("idle");
+
+  const handleSave = async () => {
+    setState("saving");
+    try {
+      const res = await fetch("/api/library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok && res.status !== 409) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? "Failed to save");
+      }
+      setState("saved");
+    } catch (err) {
+      console.error("[SaveToLibraryButton] Save error:", err);
+      setState("error");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleSave}
+      disabled={state === "saving" || state === "saved"}
+      className={
+        className ??
+        [
+          "rounded-full border px-3 py-1 text-[11px] font-medium transition-colors disabled:cursor-default",
+          state === "saved"
+            ? "border-emerald-500/60 text-emerald-200"
+            : state === "error"
+            ? "border-rose-500/60 text-rose-200"
+            : "border-neutral-700 text-neutral-300 hover:border-neutral-500",
+        ].join(" ")
+      }
+    >
+      {LABELS[state]}
+    </button>
+  );
+}
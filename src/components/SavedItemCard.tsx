@@ -0,0 +1,357 @@
+// src/components/SavedItemCard.tsx
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { PLATFORM_LABELS } from "@/components/CalendarEntryForm";
+import type {
+  Brief,
+  PlatformMode,
+  SavedCollection,
+  SavedItem,
+  SavedItemKind,
+  Script,
+  Trend,
+} from "@/types/engine";
+
+type SavedItemCardProps = {
+  saved: SavedItem;
+  collections: SavedCollection[];
+  trends: Trend[]; // reuse targets for briefs
+  briefs: Brief[]; // reuse targets for scripts
+  onUpdated: (saved: SavedItem) => void;
+  onDeleted: (id: string) => void;
+};
+
+type ReuseResult = { kind: "brief"; brief: Brief } | { kind: "script"; script: Script };
+
+export const KIND_LABELS: Record<SavedItemKind, string> = {
+  trend: "Trend",
+  angle: "Angle",
+  brief: "Brief",
+  script: "Script",
+};
+
+const KIND_STYLES: Record<SavedItemKind, string> = {
+  trend: "text-amber-300",
+  angle: "text-emerald-300",
+  brief: "text-pink-300",
+  script: "text-sky-300",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-shell-border bg-black/40 px-3 py-2 text-xs text-neutral-100";
+
+function describe(saved: SavedItem): string {
+  switch (saved.kind) {
+    case "trend":
+      return saved.item.summary;
+    case "angle":
+      return saved.trend ? `${saved.item.hook} · for ${saved.trend.name}` : saved.item.hook;
+    case "brief":
+      return `${saved.item.trend.name} · ${saved.item.objective || saved.item.coreMessage}`;
+    case "script":
+      return `${PLATFORM_LABELS[saved.item.platform]} · ${saved.item.hook}`;
+  }
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error ?? fallback;
+}
+
+/**
+ * SavedItemCard
+ *
+ * One library entry: what was saved, its tags and collections, and for
+ * briefs and scripts a "Reuse" form that clones it into a new draft for
+ * another trend or platform.
+ */
+export default function SavedItemCard({
+  saved,
+  collections,
+  trends,
+  briefs,
+  onUpdated,
+  onDeleted,
+}: SavedItemCardProps) {
+  const [mode, setMode] = useState<"view" | "file" | "reuse">("view");
+  const [tags, setTags] = useState(saved.tags.join(", "));
+  const [note, setNote] = useState(saved.note);
+  const [collectionIds, setCollectionIds] = useState(saved.collectionIds);
+  const [trendId, setTrendId] = useState("");
+  const [platform, setPlatform] = useState<PlatformMode | "">("");
+  const [briefId, setBriefId] = useState("");
+  const [reused, setReused] = useState<ReuseResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReuse = saved.kind === "brief" || saved.kind === "script";
+
+  const toggleCollection = (id: string) =>
+    setCollectionIds((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]
+    );
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("[SavedItemCard] Error:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = () =>
+    run(async () => {
+      const res = await fetch(`/api/library/${encodeURIComponent(saved.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tags: tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+          note,
+          collectionIds,
+        }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to update item."));
+      const data: { item: SavedItem } = await res.json();
+      onUpdated(data.item);
+      setMode("view");
+    });
+
+  const handleReuse = () =>
+    run(async () => {
+      const target =
+        saved.kind === "brief"
+          ? { trendId }
+          : { platform: platform || undefined, briefId: briefId || undefined };
+      const res = await fetch(`/api/library/${encodeURIComponent(saved.id)}/reuse`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to reuse item."));
+      setReused(await res.json());
+      setMode("view");
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      const res = await fetch(`/api/library/${encodeURIComponent(saved.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to remove item."));
+      onDeleted(saved.id);
+    });
+
+  const reuseReady = saved.kind === "brief" ? !!trendId : !!(platform || briefId);
+
+  return (
+    <article className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <span
+            className={`text-[10px] font-semibold uppercase tracking-wide ${KIND_STYLES[saved.kind]}`}
+          >
+            {KIND_LABELS[saved.kind]}
+          </span>
+          <h2 className="text-sm font-semibold text-neutral-50">{saved.title}</h2>
+          <p className="line-clamp-2 text-neutral-400">{describe(saved)}</p>
+          {saved.note && <p className="text-[11px] text-neutral-500">{saved.note}</p>}
+          <div className="flex flex-wrap gap-1 pt-1">
+            {saved.tags.map((tag) => (
+              <span
+                key={tag}
+                className="rounded-full border border-neutral-700 px-2 py-0.5 text-[10px] text-neutral-300"
+              >
+                #{tag}
+              </span>
+            ))}
+            {saved.collectionIds.map((id) => {
+              const collection = collections.find((c) => c.id === id);
+              return collection ? (
+                <span
+                  key={id}
+                  className="rounded-full bg-neutral-800 px-2 py-0.5 text-[10px] text-neutral-200"
+                >
+                  {collection.name}
+                </span>
+              ) : null;
+            })}
+          </div>
+        </div>
+
+        <div className="flex shrink-0 flex-col items-end gap-1.5 text-[11px]">
+          {canReuse && (
+            <button
+              type="button"
+              onClick={() => setMode(mode === "reuse" ? "view" : "reuse")}
+              className="rounded-pill bg-brand-pink px-3 py-1 font-semibold text-white shadow-brand-glow transition-all hover:bg-brand-pink-soft"
+            >
+              Reuse
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setMode(mode === "file" ? "view" : "file")}
+              className="text-neutral-400 hover:text-neutral-200"
+            >
+              Tags & collections
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="text-neutral-500 hover:text-red-300 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {mode === "file" && (
+        <div className="space-y-2 border-t border-shell-border pt-3">
+          <label className="block space-y-1">
+            <span className="text-[11px] text-neutral-300">Tags</span>
+            <input
+              value={tags}
+              placeholder="Comma separated"
+              onChange={(e) => setTags(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[11px] text-neutral-300">Note</span>
+            <textarea
+              rows={2}
+              value={note}
+              placeholder="Why it's worth keeping"
+              onChange={(e) => setNote(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          {collections.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {collections.map((collection) => (
+                <button
+                  key={collection.id}
+                  type="button"
+                  onClick={() => toggleCollection(collection.id)}
+                  className={[
+                    "rounded-full border px-2.5 py-0.5 text-[11px] transition-colors",
+                    collectionIds.includes(collection.id)
+                      ? "border-emerald-500/60 bg-emerald-500/10 text-emerald-200"
+                      : "border-neutral-700 text-neutral-400 hover:border-neutral-500",
+                  ].join(" ")}
+                >
+                  {collection.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleFile}
+            disabled={isBusy}
+            className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-100 hover:border-neutral-500 disabled:opacity-50"
+          >
+            {isBusy ? "Saving…" : "Save"}
+          </button>
+        </div>
+      )}
+
+      {mode === "reuse" && (
+        <div className="space-y-2 border-t border-shell-border pt-3">
+          {saved.kind === "brief" ? (
+            <label className="block space-y-1">
+              <span className="text-[11px] text-neutral-300">Retarget to trend</span>
+              <select
+                value={trendId}
+                onChange={(e) => setTrendId(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Choose a trend…</option>
+                {trends
+                  .filter((trend) => trend.id !== saved.item.trend.id)
+                  .map((trend) => (
+                    <option key={trend.id} value={trend.id}>
+                      {trend.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <span className="text-[11px] text-neutral-300">Platform</span>
+                <select
+                  value={platform}
+                  onChange={(e) => setPlatform(e.target.value as PlatformMode | "")}
+                  className={inputClass}
+                >
+                  <option value="">Same platform</option>
+                  {Object.entries(PLATFORM_LABELS).map(([id, label]) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[11px] text-neutral-300">Brief</span>
+                <select
+                  value={briefId}
+                  onChange={(e) => setBriefId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Same brief</option>
+                  {briefs.map((brief) => (
+                    <option key={brief.id} value={brief.id}>
+                      {brief.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleReuse}
+            disabled={isBusy || !reuseReady}
+            className="rounded-full border border-neutral-700 px-3 py-1 text-[11px] text-neutral-100 hover:border-neutral-500 disabled:opacity-50"
+          >
+            {isBusy ? "Cloning…" : "Create draft"}
+          </button>
+        </div>
+      )}
+
+      {reused && (
+        <div className="rounded-xl border border-emerald-500/40 bg-emerald-500/5 p-3 text-[11px] text-emerald-200">
+          New draft:{" "}
+          <span className="font-medium">
+            {reused.kind === "brief" ? reused.brief.title : reused.script.title}
+          </span>{" "}
+          ·{" "}
+          <Link
+            href={reused.kind === "brief" ? "/briefs" : "/scripts"}
+            className="underline hover:text-emerald-100"
+          >
+            Open {reused.kind === "brief" ? "Briefs" : "Scripts"}
+          </Link>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/5 p-3 text-xs text-red-300">
+          {error}
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,129 @@
+// src/components/ScriptBeatView.tsx
+"use client";
+
+import React from "react";
+import type { Script } from "@/types/engine";
+import {
+  beatStartTimes,
+  formatTimecode,
+  scriptDurationSeconds,
+} from "@/lib/scripts/render";
+
+type ScriptBeatViewProps = {
+  script: Script;
+};
+
+/**
+ * ScriptBeatView
+ *
+ * Beat-by-beat view of a structured Script: hook, then each beat with its
+ * timecode, VO line, on-screen text and visual direction, then CTA,
+ * captions and hashtags.
+ */
+export default function ScriptBeatView({ script }: ScriptBeatViewProps) {
+  const starts = beatStartTimes(script);
+
+  return (
+    <div className="space-y-3">
+      {/* Hook */}
+      <div className="rounded-xl border border-emerald-500/40 bg-emerald-500/5 p-3">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="text-[10px] uppercase tracking-wide text-emerald-300">
+            Hook
+          </span>
+          <span className="text-[10px] text-neutral-500">
+            ~{formatTimecode(scriptDurationSeconds(script))} total ·{" "}
+            {script.beats.length} beats
+          </span>
+        </div>
+        <p className="text-sm font-medium text-neutral-100">{script.hook}</p>
+      </div>
+
+      {/* Beats */}
+      <ol className="space-y-2">
+        {script.beats.map((beat, index) => (
+          <li
+            key={index}
+            className="rounded-xl border border-neutral-800 bg-neutral-900/60 p-3 space-y-1.5"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] font-medium text-neutral-200">
+                Beat {index + 1}
+              </span>
+              <span className="inline-flex items-center rounded-full border border-neutral-700 px-2 py-0.5 text-[10px] text-neutral-400">
+                {formatTimecode(starts[index])} · {beat.estimatedSeconds}s
+              </span>
+            </div>
+
+            {beat.voiceover && (
+              <p className="text-xs text-neutral-100">
+                <span className="text-neutral-500">VO:</span> {beat.voiceover}
+              </p>
+            )}
+
+            {beat.onScreenText && (
+              <p className="text-[11px] text-neutral-300">
+                <span className="text-neutral-500">On-screen:</span>{" "}
+                <span className="font-medium">“{beat.onScreenText}”</span>
+              </p>
+            )}
+
+            {beat.visualDirection && (
+              <p className="text-[11px] text-neutral-400">
+                <span className="text-neutral-500">Visual:</span>{" "}
+                {beat.visualDirection}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {/* CTA */}
+      <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-3">
+        <span className="text-[10px] uppercase tracking-wide text-neutral-400">
+          CTA
+        </span>
+        <p className="text-xs text-neutral-100 mt-1">{script.cta}</p>
+      </div>
+
+      {/* Captions + hashtags */}
+      {(script.captions.length > 0 || script.hashtags.length > 0) && (
+        <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-3 space-y-2">
+          {script.captions.length > 0 && (
+            <ul className="space-y-1">
+              {script.captions.map((caption, index) => (
+                <li key={index} className="text-[11px] text-neutral-300">
+                  {caption}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {script.hashtags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {script.hashtags.map((tag) => (
+                <span
+                  key={tag}
+                  className="rounded-full bg-neutral-800 px-2 py-0.5 text-[10px] text-neutral-300"
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Editor notes */}
+      {script.notes.length > 0 && (
+        <ul className="list-disc pl-4 space-y-0.5">
+          {script.notes.map((note, index) => (
+            <li key={index} className="text-[11px] text-neutral-500">
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
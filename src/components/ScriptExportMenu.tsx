@@ -0,0 +1,114 @@
+// src/components/ScriptExportMenu.tsx
+"use client";
+
+import React, { useState } from "react";
+import {
+  SCRIPT_EXPORTS,
+  scriptExportFileName,
+  type ScriptExportFormat,
+} from "@/lib/scripts/export";
+import type { Brief, Script } from "@/types/engine";
+
+type ScriptExportMenuProps = {
+  script: Script;
+  brief?: Brief | null;
+  stored: boolean; // saved server-side; unsaved scripts can't be exported
+  onTeleprompter: () => void;
+};
+
+const FORMATS = Object.keys(SCRIPT_EXPORTS) as ScriptExportFormat[];
+
+const SHORT_LABELS: Record<ScriptExportFormat, string> = {
+  srt: "SRT",
+  vtt: "VTT",
+  fountain: "Fountain",
+  csv: "Shot list",
+};
+
+function download(fileName: string, body: Blob) {
+  const url = URL.createObjectURL(body);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * ScriptExportMenu
+ *
+ * Production exports for the script on screen, fetched from
+ * GET /api/scripts/[id]/export, which only serves scripts whose brief is
+ * approved. Until the script is saved there is nothing to export; the
+ * teleprompter is always available.
+ */
+export default function ScriptExportMenu({
+  script,
+  brief,
+  stored,
+  onTeleprompter,
+}: ScriptExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Mirrors the server's check so the buttons don't offer a 409
+  const locked = !stored || brief?.status !== "Approved";
+
+  const handleExport = async (format: ScriptExportFormat) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/scripts/${encodeURIComponent(script.id)}/export?format=${format}&download=1`
+      );
+      if (!res.ok) {
+        const data = (await res.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(data?.error ?? `API responded with ${res.status}`);
+      }
+      download(scriptExportFileName(script, format), await res.blob());
+    } catch (err) {
+      console.error("[ScriptExportMenu] Export error:", err);
+      setError(err instanceof Error ? err.message : "Failed to export script.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-[10px]">
+      <span className="text-neutral-500">Export</span>
+      {FORMATS.map((format) => (
+        <button
+          key={format}
+          type="button"
+          title={
+            !stored
+              ? "Save the script to export it"
+              : locked
+              ? "Approve the brief to export for production"
+              : SCRIPT_EXPORTS[format].label
+          }
+          disabled={locked || isExporting}
+          onClick={() => handleExport(format)}
+          className="rounded-full border border-neutral-800 px-2 py-0.5 text-neutral-400 hover:border-neutral-700 disabled:cursor-not-allowed disabled:text-neutral-600 disabled:hover:border-neutral-800"
+        >
+          {SHORT_LABELS[format]}
+        </button>
+      ))}
+      {locked && (
+        <span className="text-neutral-600">
+          {stored
+            ? `(brief is ${brief ? brief.status.toLowerCase() : "missing"})`
+            : "(not saved)"}
+        </span>
+      )}
+      {error && <span className="text-rose-300">{error}</span>}
+      <button
+        type="button"
+        onClick={onTeleprompter}
+        className="rounded-full border border-emerald-500/50 px-2 py-0.5 text-emerald-200 hover:border-emerald-400"
+      >
+        Teleprompter
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// src/components/ScriptVariantsPanel.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { Script, ScriptVariant } from "@/types/engine";
+
+type ScriptVariantsPanelProps = {
+  script: Script;
+  onShip: (pairing: { hookVariantId?: string; endingVariantId?: string }) => void;
+  isSaving?: boolean;
+};
+
+const TECHNIQUE_LABELS: Record<ScriptVariant["technique"], string> = {
+  "curiosity-gap": "Curiosity gap",
+  "pattern-break": "Pattern break",
+  pov: "POV",
+  "stat-drop": "Stat drop",
+};
+
+/**
+ * ScriptVariantsPanel
+ *
+ * Alternative hooks and endings for A/B testing. Pick the pair that
+ * went out and mark it shipped; the pairing is stored with the script.
+ */
+export default function ScriptVariantsPanel({
+  script,
+  onShip,
+  isSaving = false,
+}: ScriptVariantsPanelProps) {
+  const [hookId, setHookId] = useState<string | undefined>(
+    script.shipped?.hookVariantId
+  );
+  const [endingId, setEndingId] = useState<string | undefined>(
+    script.shipped?.endingVariantId
+  );
+
+  const { hooks, endings } = script.variants;
+  if (!hooks.length && !endings.length) return null;
+
+  const renderGroup = (
+    title: string,
+    original: string,
+    variants: ScriptVariant[],
+    selected: string | undefined,
+    onSelect: (id: string | undefined) => void
+  ) => (
+    <div className="space-y-1.5">
+      <div className="text-[10px] uppercase tracking-wide text-neutral-400">
+        {title}
+      </div>
+      {[undefined, ...variants].map((variant) => {
+        const id = variant?.id;
+        const isShipped =
+          script.shipped &&
+          (title === "Hooks"
+            ? script.shipped.hookVariantId === id
+            : script.shipped.endingVariantId === id);
+
+        return (
+          <label
+            key={id ?? "original"}
+            className={[
+              "flex items-start gap-2 rounded-lg border px-2 py-1.5 text-[11px] cursor-pointer transition",
+              selected === id
+                ? "border-emerald-400/60 bg-emerald-500/5"
+                : "border-neutral-800 hover:border-neutral-700",
+            ].join(" ")}
+          >
+            <input
+              type="radio"
+              className="mt-0.5"
+              checked={selected === id}
+              onChange={() => onSelect(id)}
+            />
+            <span className="flex-1 text-neutral-200">
+              {variant ? variant.text : original}
+            </span>
+            <span className="shrink-0 rounded-full bg-neutral-800 px-2 py-0.5 text-[10px] text-neutral-400">
+              {variant ? TECHNIQUE_LABELS[variant.technique] : "Original"}
+            </span>
+            {isShipped && (
+              <span className="shrink-0 rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] text-emerald-200">
+                Shipped
+              </span>
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] font-medium text-neutral-200">
+          A/B variants
+        </span>
+        {script.shipped && (
+          <span className="text-[10px] text-neutral-500">
+            Shipped {new Date(script.shipped.shippedAt).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+
+      {hooks.length > 0 && renderGroup("Hooks", script.hook, hooks, hookId, setHookId)}
+      {endings.length > 0 &&
+        renderGroup("Endings", script.cta, endings, endingId, setEndingId)}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          disabled={isSaving}
+          onClick={() => onShip({ hookVariantId: hookId, endingVariantId: endingId })}
+          className="rounded-full bg-emerald-500 px-3 py-1 text-[11px] font-semibold text-black hover:bg-emerald-400 transition-colors disabled:opacity-50"
+        >
+          Mark as shipped
+        </button>
+      </div>
+    </div>
+  );
+}
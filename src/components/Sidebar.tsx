@@ -1,7 +1,11 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuthContext } from "@/context/AuthContext";
+import { useBrandContext } from "@/context/BrandContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import { roleLabel } from "@/lib/workspaces/access";
 
 const navItems = [
   { label: "Radar", href: "/" },
@@ -10,10 +14,26 @@ const navItems = [
   { label: "Scripts", href: "/scripts" },
   { label: "Saved", href: "/saved" },
   { label: "Calendar", href: "/calendar" },
+  { label: "Brands", href: "/brands" },
+  { label: "API", href: "/usage" },
+  { label: "Workspace", href: "/workspace" },
 ];
 
 export default function Sidebar() {
   const pathname = usePathname();
+  const router = useRouter();
+  const { user, sso, signOut } = useAuthContext();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId } = useWorkspaceContext();
+  const { brands, activeBrand, setActiveBrandId } = useBrandContext();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      router.push("/login");
+    } catch (error) {
+      console.error("[Sidebar] Sign out failed:", error);
+    }
+  };
 
   return (
     <aside className="flex w-56 flex-col border-r border-shell-border bg-black/40 px-4 py-4">
@@ -59,6 +79,92 @@ export default function Sidebar() {
           );
         })}
       </nav>
+
+      {/* Workspace: scopes every brand, brief, script and post */}
+      <div className="mt-auto space-y-1 px-1 pt-6">
+        <label
+          htmlFor="active-workspace"
+          className="text-[10px] uppercase tracking-[0.16em] text-neutral-500"
+        >
+          Workspace
+        </label>
+        <select
+          id="active-workspace"
+          value={activeWorkspace?.id ?? ""}
+          onChange={(event) => setActiveWorkspaceId(event.target.value)}
+          disabled={!workspaces.length}
+          className="w-full rounded-pill border border-shell-border bg-black/40 px-3 py-1.5 text-xs text-neutral-200"
+        >
+          {workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </option>
+          ))}
+        </select>
+        {activeWorkspace && (
+          <p className="text-[10px] text-neutral-500">{roleLabel(activeWorkspace.role)}</p>
+        )}
+      </div>
+
+      {/* Brand Memory: injected into every generation */}
+      <div className="mt-4 space-y-1 px-1">
+        <label
+          htmlFor="active-brand"
+          className="text-[10px] uppercase tracking-[0.16em] text-neutral-500"
+        >
+          Brand
+        </label>
+        <select
+          id="active-brand"
+          value={activeBrand?.id ?? ""}
+          onChange={(event) => setActiveBrandId(event.target.value || null)}
+          className="w-full rounded-pill border border-shell-border bg-black/40 px-3 py-1.5 text-xs text-neutral-200"
+        >
+          <option value="">No brand</option>
+          {brands.map((brand) => (
+            <option key={brand.id} value={brand.id}>
+              {brand.name}
+            </option>
+          ))}
+        </select>
+        {activeBrand?.culturalPositioning && (
+          <p className="text-[10px] leading-snug text-neutral-500">
+            {activeBrand.culturalPositioning}
+          </p>
+        )}
+      </div>
+
+      {/* Signed-in user */}
+      <div className="mt-4 border-t border-shell-border px-1 pt-3 text-xs">
+        {user ? (
+          <div className="space-y-1">
+            <p className="truncate font-medium text-neutral-200" title={user.email}>
+              {user.name || user.email}
+            </p>
+            {user.name && <p className="truncate text-[10px] text-neutral-500">{user.email}</p>}
+            {/* Password accounts link SSO while signed in, proving they own both */}
+            {sso.enabled && !user.oidc && (
+              <a
+                href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(pathname)}`}
+                className="block text-[11px] text-neutral-400 hover:text-brand-pink"
+              >
+                Link {sso.providerName ?? "SSO"}
+              </a>
+            )}
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="text-[11px] text-neutral-400 hover:text-brand-pink"
+            >
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <Link href="/login" className="text-[11px] text-neutral-400 hover:text-brand-pink">
+            Sign in
+          </Link>
+        )}
+      </div>
     </aside>
   );
 }
@@ -0,0 +1,169 @@
+// src/components/Teleprompter.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { Script } from "@/types/engine";
+
+type TeleprompterProps = {
+  script: Script;
+  onClose: () => void;
+};
+
+const MIN_SPEED = 10; // pixels per second
+const MAX_SPEED = 200;
+const MIN_FONT = 32;
+const MAX_FONT = 96;
+
+/**
+ * Teleprompter
+ *
+ * Full-screen, large-type voiceover for on-camera delivery. Scrolls at an
+ * adjustable speed; space plays / pauses, arrow keys change speed, Esc
+ * closes. Mirror mode flips the text for beam-splitter rigs.
+ */
+export default function Teleprompter({ script, onClose }: TeleprompterProps) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const [fontSize, setFontSize] = useState(56);
+  const [mirrored, setMirrored] = useState(false);
+
+  // Scroll by elapsed time, so the speed holds whatever the frame rate
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    let position = scrollRef.current?.scrollTop ?? 0;
+
+    const tick = (now: number) => {
+      const el = scrollRef.current;
+      if (!el) return;
+      position += ((now - last) / 1000) * speed;
+      last = now;
+      el.scrollTop = position;
+
+      if (el.scrollTop + el.clientHeight >= el.scrollHeight - 1) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed]);
+
+  useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+      else if (event.key === " ") {
+        event.preventDefault();
+        setIsPlaying((playing) => !playing);
+      } else if (event.key === "ArrowUp") {
+        event.preventDefault();
+        setSpeed((s) => Math.min(MAX_SPEED, s + 10));
+      } else if (event.key === "ArrowDown") {
+        event.preventDefault();
+        setSpeed((s) => Math.max(MIN_SPEED, s - 10));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const restart = () => {
+    setIsPlaying(false);
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black text-neutral-50">
+      <div className="flex flex-wrap items-center gap-4 border-b border-neutral-800 px-4 py-2 text-xs">
+        <button
+          type="button"
+          onClick={() => setIsPlaying((playing) => !playing)}
+          className="rounded-full bg-emerald-500 px-4 py-1 font-semibold text-black hover:bg-emerald-400"
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <button
+          type="button"
+          onClick={restart}
+          className="rounded-full border border-neutral-700 px-3 py-1 text-neutral-300 hover:border-neutral-500"
+        >
+          Restart
+        </button>
+        <label className="flex items-center gap-2 text-neutral-400">
+          Speed
+          <input
+            type="range"
+            min={MIN_SPEED}
+            max={MAX_SPEED}
+            step={5}
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+          />
+          <span className="w-14 text-neutral-300">{speed} px/s</span>
+        </label>
+        <label className="flex items-center gap-2 text-neutral-400">
+          Size
+          <input
+            type="range"
+            min={MIN_FONT}
+            max={MAX_FONT}
+            step={4}
+            value={fontSize}
+            onChange={(e) => setFontSize(Number(e.target.value))}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-neutral-400">
+          <input
+            type="checkbox"
+            checked={mirrored}
+            onChange={(e) => setMirrored(e.target.checked)}
+          />
+          Mirror
+        </label>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto text-neutral-400 hover:text-neutral-100"
+        >
+          Close (Esc)
+        </button>
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        {/* Reading line */}
+        <div className="pointer-events-none absolute inset-x-0 top-1/3 z-10 border-t border-emerald-500/40" />
+
+        <div
+          ref={scrollRef}
+          className="h-full overflow-y-auto px-[8vw]"
+          style={{ transform: mirrored ? "scaleX(-1)" : undefined }}
+        >
+          <div
+            className="mx-auto max-w-5xl space-y-[1.2em] py-[33vh] font-semibold leading-snug"
+            style={{ fontSize }}
+          >
+            {script.beats.map((beat, index) =>
+              beat.voiceover ? (
+                <div key={index}>
+                  {beat.onScreenText && (
+                    <p className="text-[0.4em] font-normal uppercase tracking-wide text-amber-300">
+                      On screen: {beat.onScreenText}
+                    </p>
+                  )}
+                  <p>{beat.voiceover}</p>
+                </div>
+              ) : null
+            )}
+            <p className="text-emerald-300">{script.cta}</p>
+            <p className="text-[0.4em] font-normal text-neutral-600">— end —</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
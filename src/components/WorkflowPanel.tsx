@@ -0,0 +1,191 @@
+// src/components/WorkflowPanel.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAuthContext } from "@/context/AuthContext";
+import { useWorkspaceContext } from "@/context/WorkspaceContext";
+import WorkflowStatusChip from "@/components/WorkflowStatusChip";
+import { stageLabel, type WorkflowStage } from "@/lib/workflow/pipeline";
+import type { WorkflowOption } from "@/lib/workflow/repository";
+import { hasRole, roleLabel } from "@/lib/workspaces/access";
+import type { MemberWithUser, WorkflowEvent, WorkflowSubject } from "@/types/engine";
+
+type WorkflowPanelProps = {
+  subject: WorkflowSubject;
+  id: string;
+  status: WorkflowStage; // current stage; history is refetched when it changes
+  onMove: (to: WorkflowStage, note?: string) => Promise<unknown>;
+};
+
+type WorkflowState = { next: WorkflowOption[]; events: WorkflowEvent[] };
+
+const TIME_FORMAT = new Intl.DateTimeFormat("en", {
+  day: "numeric",
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+/**
+ * WorkflowPanel
+ *
+ * Where a brief or script sits in the approval pipeline, the moves the
+ * signed-in member can make from here and the history of who moved it.
+ * Stages that need several approvers show how many have signed off; the
+ * server has the final say on every move.
+ */
+export default function WorkflowPanel({ subject, id, status, onMove }: WorkflowPanelProps) {
+  const { user } = useAuthContext();
+  const { activeWorkspace, role } = useWorkspaceContext();
+  const [state, setState] = useState<WorkflowState | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/${subject}s/${encodeURIComponent(id)}/workflow`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as WorkflowState;
+        if (!cancelled) setState(data);
+      })
+      .catch((err) => {
+        console.error("[WorkflowPanel] Load error:", err);
+        if (!cancelled) setError("Failed to load approval history.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subject, id, status, refreshKey]);
+
+  useEffect(() => {
+    if (!activeWorkspace) return;
+    let cancelled = false;
+
+    fetch(`/api/workspaces/${encodeURIComponent(activeWorkspace.id)}/members`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { members: MemberWithUser[] };
+        if (cancelled) return;
+        setNames(
+          Object.fromEntries(
+            data.members.map((m) => [m.userId, m.user?.name ?? m.user?.email ?? m.userId])
+          )
+        );
+      })
+      .catch((err) => console.error("[WorkflowPanel] Members error:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWorkspace]);
+
+  const nameOf = (userId: string) =>
+    userId === user?.id
+      ? "You"
+      : names[userId] ?? (userId.startsWith("key-") ? "An API key" : "A former member");
+
+  const handleMove = async (to: WorkflowStage) => {
+    setIsMoving(true);
+    setError(null);
+    try {
+      await onMove(to, note.trim() || undefined);
+      setNote("");
+      setRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error("[WorkflowPanel] Move error:", err);
+      setError(err instanceof Error ? err.message : "Failed to move.");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const options = state?.next ?? [];
+  const canAct = options.some((option) => hasRole(role, option.rule.role));
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-shell-border bg-shell-panel p-4 text-xs shadow-ring-soft">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-medium text-neutral-200">Approval</h2>
+        <WorkflowStatusChip subject={subject} stage={status} />
+      </div>
+
+      {canAct && (
+        <div className="space-y-2">
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={500}
+            placeholder="Note for the history (optional)"
+            className="w-full rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] text-neutral-200"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {options.map((option) => {
+              const allowed = hasRole(role, option.rule.role);
+              const signed = !!user && option.signOffs.includes(user.id);
+              const multi = option.rule.approvals > 1;
+              return (
+                <button
+                  key={option.to}
+                  type="button"
+                  onClick={() => handleMove(option.to)}
+                  disabled={!allowed || signed || isMoving}
+                  title={
+                    !allowed
+                      ? `Needs the ${roleLabel(option.rule.role)} role`
+                      : signed
+                      ? "You've signed off; waiting for others"
+                      : multi
+                      ? `Needs ${option.rule.approvals} sign-offs`
+                      : undefined
+                  }
+                  className="rounded-full border border-neutral-700 px-2.5 py-0.5 text-[10px] font-medium text-neutral-200 hover:border-brand-pink/60 disabled:cursor-not-allowed disabled:border-neutral-800 disabled:text-neutral-600"
+                >
+                  {stageLabel(subject, option.to)}
+                  {multi && (
+                    <span className="ml-1 text-neutral-500">
+                      {option.signOffs.length}/{option.rule.approvals}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-[11px] text-rose-300">{error}</p>}
+
+      {state && !state.events.length && (
+        <p className="text-[11px] text-neutral-500">No approval activity yet.</p>
+      )}
+
+      {state && state.events.length > 0 && (
+        <ol className="max-h-48 space-y-1 overflow-auto">
+          {[...state.events].reverse().map((event) => (
+            <li key={event.id} className="space-y-0.5 rounded-xl bg-neutral-950/60 px-3 py-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-neutral-300">
+                  {nameOf(event.by)}{" "}
+                  {event.kind === "sign-off" ? "signed off on" : "moved it to"}{" "}
+                  <span className="text-neutral-100">
+                    {stageLabel(subject, event.to as WorkflowStage)}
+                  </span>
+                </span>
+                <span className="text-[10px] text-neutral-500">
+                  {TIME_FORMAT.format(new Date(event.at))}
+                </span>
+              </div>
+              {event.note && <p className="text-neutral-500">{event.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,34 @@
+// src/components/WorkflowStatusChip.tsx
+"use client";
+
+import React from "react";
+import { stageLabel, type WorkflowStage } from "@/lib/workflow/pipeline";
+import type { WorkflowSubject } from "@/types/engine";
+
+// Keyed by label so briefs and scripts share colours
+const STAGE_STYLES: Record<string, string> = {
+  Draft: "bg-neutral-700/60 text-neutral-300",
+  "In review": "bg-sky-500/20 text-sky-200",
+  "Changes requested": "bg-amber-500/20 text-amber-200",
+  Approved: "bg-emerald-500/20 text-emerald-200",
+  Archived: "bg-neutral-800 text-neutral-500",
+};
+
+type WorkflowStatusChipProps = {
+  subject: WorkflowSubject;
+  stage: WorkflowStage;
+};
+
+export default function WorkflowStatusChip({ subject, stage }: WorkflowStatusChipProps) {
+  const label = stageLabel(subject, stage);
+  return (
+    <span
+      className={[
+        "inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold",
+        STAGE_STYLES[label] ?? STAGE_STYLES.Draft,
+      ].join(" ")}
+    >
+      {label}
+    </span>
+  );
+}
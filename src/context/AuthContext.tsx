@@ -0,0 +1,136 @@
+// src/context/AuthContext.tsx
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { usePathname, useRouter } from "next/navigation";
+import type { PublicUser } from "@/types/engine";
+
+/**
+ * Context value shape
+ *
+ * The session lives in an httpOnly cookie, so the browser can't read it;
+ * /api/auth/session says who is signed in. Signed-out visitors are sent
+ * to /login, which returns them to the page they came from.
+ */
+
+export type SsoInfo = { enabled: boolean; providerName?: string };
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  sso: SsoInfo;
+  isHydrated: boolean;
+
+  signIn: (email: string, password: string) => Promise<PublicUser>;
+  signUp: (input: { email: string; password: string; name: string }) => Promise<PublicUser>;
+  signOut: () => Promise<void>;
+}
+
+const PUBLIC_PATHS = ["/login"];
+
+async function readUser(res: Response): Promise<PublicUser> {
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const issue = data?.issues?.[0];
+    throw new Error(
+      issue ? `${issue.path}: ${issue.message}` : data?.error ?? `API responded with ${res.status}`
+    );
+  }
+  return (data as { user: PublicUser }).user;
+}
+
+/**
+ * Context + Provider
+ */
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [sso, setSso] = useState<SsoInfo>({ enabled: false });
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/auth/session")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { user: PublicUser | null; sso: SsoInfo };
+        if (cancelled) return;
+        setUser(data.user);
+        setSso(data.sso);
+      })
+      .catch((error) => console.error("[AuthContext] Hydrate failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Signed out: off to /login, then back here
+  useEffect(() => {
+    if (!isHydrated || user || PUBLIC_PATHS.includes(pathname)) return;
+    router.replace(`/login?returnTo=${encodeURIComponent(pathname)}`);
+  }, [isHydrated, user, pathname, router]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const res = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    const signedIn = await readUser(res);
+    setUser(signedIn);
+    return signedIn;
+  }, []);
+
+  const signUp = useCallback(
+    async (input: { email: string; password: string; name: string }) => {
+      const res = await fetch("/api/auth/signup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const created = await readUser(res);
+      setUser(created);
+      return created;
+    },
+    []
+  );
+
+  const signOut = useCallback(async () => {
+    const res = await fetch("/api/auth/logout", { method: "POST" });
+    if (!res.ok) throw new Error(`API responded with ${res.status}`);
+    setUser(null);
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, sso, isHydrated, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+/**
+ * Hook
+ */
+
+export function useAuthContext(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) {
+    throw new Error("useAuthContext must be used inside AuthProvider");
+  }
+  return ctx;
+}
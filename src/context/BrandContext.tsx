@@ -0,0 +1,161 @@
+// src/context/BrandContext.tsx
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import type { BrandProfile } from "@/types/engine";
+
+/**
+ * Context value shape
+ *
+ * Brand Memory profiles live server-side (/api/brands). The active brand
+ * is a per-browser choice (localStorage) and is sent as `brandId` with
+ * every generation request.
+ */
+
+export type BrandDraft = Omit<BrandProfile, "id" | "createdAt" | "updatedAt">;
+
+interface BrandContextValue {
+  brands: BrandProfile[];
+  activeBrand: BrandProfile | null;
+  setActiveBrandId: (id: string | null) => void;
+  isHydrated: boolean;
+
+  createBrand: (draft: BrandDraft) => Promise<BrandProfile>;
+  updateBrand: (id: string, draft: Partial<BrandDraft>) => Promise<BrandProfile>;
+  deleteBrand: (id: string) => Promise<void>;
+}
+
+const ACTIVE_BRAND_KEY = "appatize:activeBrandId";
+
+async function readBrand(res: Response): Promise<BrandProfile> {
+  if (!res.ok) throw new Error(`API responded with ${res.status}`);
+  const data = (await res.json()) as { brand: BrandProfile };
+  return data.brand;
+}
+
+function upsert(list: BrandProfile[], brand: BrandProfile): BrandProfile[] {
+  const next = list.some((b) => b.id === brand.id)
+    ? list.map((b) => (b.id === brand.id ? brand : b))
+    : [...list, brand];
+  return next.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Context + Provider
+ */
+
+const BrandContext = createContext<BrandContextValue | undefined>(undefined);
+
+export function BrandProvider({ children }: { children: ReactNode }) {
+  const [brands, setBrands] = useState<BrandProfile[]>([]);
+  const [activeBrandId, setActiveBrandIdState] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Hydrate from the server, then restore the last active brand
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/brands")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { brands: BrandProfile[] };
+        if (cancelled) return;
+
+        setBrands(data.brands);
+        const storedId = window.localStorage.getItem(ACTIVE_BRAND_KEY);
+        if (storedId && data.brands.some((b) => b.id === storedId)) {
+          setActiveBrandIdState((current) => current ?? storedId);
+        }
+      })
+      .catch((error) => console.error("[BrandContext] Hydrate failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setActiveBrandId = useCallback((id: string | null) => {
+    setActiveBrandIdState(id);
+    if (id) {
+      window.localStorage.setItem(ACTIVE_BRAND_KEY, id);
+    } else {
+      window.localStorage.removeItem(ACTIVE_BRAND_KEY);
+    }
+  }, []);
+
+  const createBrand = useCallback(async (draft: BrandDraft) => {
+    const res = await fetch("/api/brands", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    });
+    const brand = await readBrand(res);
+    setBrands((prev) => upsert(prev, brand));
+    return brand;
+  }, []);
+
+  const updateBrand = useCallback(async (id: string, draft: Partial<BrandDraft>) => {
+    const res = await fetch(`/api/brands/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    });
+    const brand = await readBrand(res);
+    setBrands((prev) => upsert(prev, brand));
+    return brand;
+  }, []);
+
+  const deleteBrand = useCallback(
+    async (id: string) => {
+      const res = await fetch(`/api/brands/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`API responded with ${res.status}`);
+      }
+      setBrands((prev) => prev.filter((b) => b.id !== id));
+      if (activeBrandId === id) setActiveBrandId(null);
+    },
+    [activeBrandId, setActiveBrandId]
+  );
+
+  const activeBrand = brands.find((b) => b.id === activeBrandId) ?? null;
+
+  return (
+    <BrandContext.Provider
+      value={{
+        brands,
+        activeBrand,
+        setActiveBrandId,
+        isHydrated,
+        createBrand,
+        updateBrand,
+        deleteBrand,
+      }}
+    >
+      {children}
+    </BrandContext.Provider>
+  );
+}
+
+/**
+ * Hook
+ */
+
+export function useBrandContext(): BrandContextValue {
+  const ctx = useContext(BrandContext);
+  if (!ctx) {
+    throw new Error("useBrandContext must be used inside BrandProvider");
+  }
+  return ctx;
+}
@@ -3,77 +3,65 @@
 
 import React, {
   createContext,
+  useCallback,
   useContext,
+  useEffect,
   useState,
   ReactNode,
 } from "react";
-
-/**
- * Core engine types
- */
-
-export type TrendStatus = "Emerging" | "Peaking" | "Stable";
-
-export interface Trend {
-  id: string;
-  status: TrendStatus;
-  name: string; // canonical trend name (what ScriptsPage will use)
-  description: string;
-  formatLabel: string;
-  momentumLabel: string;
-  category?: string;
-}
-
-export interface Angle {
-  id: string;
-  label: string; // e.g. "Street POV vlogs for founders"
-  hook: string; // narrative POV / core idea
-  format: string; // e.g. "Short-form video"
-  platform: string; // e.g. "TikTok"
-  audience: string; // e.g. "Busy founders"
-  outcome: string; // e.g. "Drive DMs"
-  notes?: string;
-}
-
-export interface Brief {
-  id: string;
-  title: string;
-
-  // Engine core: the originating trend + angle
-  trend: Trend;
-  angle?: Angle;
-
-  status: "Draft" | "Active" | "Archived";
-
-  // Strategy layer
-  summary?: string;
-  coreMessage?: string;
-  objective?: string;
-
-  // Hints to guide script generation
-  audienceHint?: string;
-  platformHint?: string;
-  formatHint?: string;
-  outcomeHint?: string;
-
-  createdAt: string;
-  updatedAt: string;
-}
+import type { Angle, Brief, BriefStatus, Trend } from "@/types/engine";
+import { applyBrandToBrief } from "@/lib/brands/context";
+import { draftBrief } from "@/lib/briefs/draft";
+import { useBrandContext } from "./BrandContext";
 
 /**
  * Context value shape
+ *
+ * Briefs are persisted server-side (/api/briefs). The provider hydrates
+ * from the API on mount and writes every change straight back, updating
+ * local state optimistically so the UI never waits on the network.
+ * Status changes go through the approval workflow instead, so they wait
+ * for the server's answer.
  */
 
+export type BriefTransition = {
+  brief: Brief;
+  /** False when this was one sign-off and the stage needs more. */
+  moved: boolean;
+  signOffs: { count: number; required: number; by: string[] };
+};
+
 interface BriefContextValue {
   activeBrief: Brief | null;
   setActiveBrief: (brief: Brief | null) => void;
   briefs: Brief[];
-  setBriefs: (briefs: Brief[]) => void;
+  isHydrated: boolean;
 
-  // Engine helper: Trend + Angle → Appatize creative Brief
+  // Write-through persistence
+  saveBrief: (brief: Brief) => Promise<Brief>;
+  archiveBrief: (id: string) => Promise<void>;
+  transitionBrief: (id: string, to: BriefStatus, note?: string) => Promise<BriefTransition>;
+  deleteBrief: (id: string) => Promise<void>;
+  restoreBriefVersion: (id: string, version: number) => Promise<Brief>;
+
+  // Engine helper: Trend + Angle → Appatize creative Brief (on-brand when one is active)
   generateBriefFromAngle: (trend: Trend, angle: Angle) => Brief;
 }
 
+const ACTIVE_BRIEF_KEY = "appatize:activeBriefId";
+
+async function readBrief(res: Response): Promise<Brief> {
+  if (!res.ok) throw new Error(`API responded with ${res.status}`);
+  const data = (await res.json()) as { brief: Brief };
+  return data.brief;
+}
+
+function upsert(list: Brief[], brief: Brief): Brief[] {
+  return list.some((b) => b.id === brief.id)
+    ? list.map((b) => (b.id === brief.id ? brief : b))
+    : [brief, ...list];
+}
+
 /**
  * Context + Provider
  */
@@ -81,37 +69,148 @@ interface BriefContextValue {
 const BriefContext = createContext<BriefContextValue | undefined>(undefined);
 
 export function BriefProvider({ children }: { children: ReactNode }) {
-  const [activeBrief, setActiveBrief] = useState<Brief | null>(null);
+  const { activeBrand } = useBrandContext();
+  const [activeBrief, setActiveBriefState] = useState<Brief | null>(null);
   const [briefs, setBriefs] = useState<Brief[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Hydrate from the server, then restore the last active brief
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/briefs")
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`API responded with ${res.status}`);
+        const data = (await res.json()) as { briefs: Brief[] };
+        if (cancelled) return;
+
+        setBriefs((local) =>
+          // Keep anything created locally before hydration finished
+          local.reduce(upsert, data.briefs)
+        );
+
+        const activeId = window.localStorage.getItem(ACTIVE_BRIEF_KEY);
+        const restored = data.briefs.find((b) => b.id === activeId);
+        if (restored) {
+          setActiveBriefState((current) => current ?? restored);
+        }
+      })
+      .catch((error) => console.error("[BriefContext] Hydrate failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setActiveBrief = useCallback((brief: Brief | null) => {
+    setActiveBriefState(brief);
+    if (brief) {
+      window.localStorage.setItem(ACTIVE_BRIEF_KEY, brief.id);
+    } else {
+      window.localStorage.removeItem(ACTIVE_BRIEF_KEY);
+    }
+  }, []);
+
+  const applyServerBrief = useCallback((brief: Brief) => {
+    setBriefs((prev) => upsert(prev, brief));
+    setActiveBriefState((current) => (current?.id === brief.id ? brief : current));
+  }, []);
+
+  /**
+   * Create-or-update: POST first, fall back to PATCH if it already exists.
+   */
+  const saveBrief = useCallback(
+    async (brief: Brief): Promise<Brief> => {
+      setBriefs((prev) => upsert(prev, brief));
+
+      try {
+        let res = await fetch("/api/briefs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(brief),
+        });
+
+        if (res.status === 409) {
+          res = await fetch(`/api/briefs/${encodeURIComponent(brief.id)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(brief),
+          });
+        }
+
+        const saved = await readBrief(res);
+        applyServerBrief(saved);
+        return saved;
+      } catch (error) {
+        console.error("[BriefContext] Save failed:", error);
+        throw error;
+      }
+    },
+    [applyServerBrief]
+  );
 
-  const generateBriefFromAngle = (trend: Trend, angle: Angle): Brief => {
-    const now = new Date().toISOString();
-
-    const brief: Brief = {
-      id: `brief-${trend.id}-${angle.id}-${Date.now()}`,
-      title: `${angle.label} • ${trend.name}`,
-      trend,
-      angle,
-      status: "Draft",
+  const archiveBrief = useCallback(
+    async (id: string) => {
+      const res = await fetch(`/api/briefs/${encodeURIComponent(id)}/archive`, {
+        method: "POST",
+      });
+      applyServerBrief(await readBrief(res));
+    },
+    [applyServerBrief]
+  );
 
-      summary: `Angle "${angle.label}" on trend "${trend.name}" targeting ${angle.audience}.`,
-      coreMessage:
-        angle.hook ||
-        "Turn this cultural signal into creator-native content that feels inevitable.",
+  const transitionBrief = useCallback(
+    async (id: string, to: BriefStatus, note?: string): Promise<BriefTransition> => {
+      const res = await fetch(`/api/briefs/${encodeURIComponent(id)}/workflow`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to, note }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `API responded with ${res.status}`);
+
+      const transition = data as BriefTransition;
+      applyServerBrief(transition.brief);
+      return transition;
+    },
+    [applyServerBrief]
+  );
 
-      objective: angle.outcome || "Drive meaningful action from the right audience.",
+  const deleteBrief = useCallback(
+    async (id: string) => {
+      const res = await fetch(`/api/briefs/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`API responded with ${res.status}`);
+      }
+      setBriefs((prev) => prev.filter((b) => b.id !== id));
+      setActiveBriefState((current) => (current?.id === id ? null : current));
+    },
+    []
+  );
 
-      audienceHint: angle.audience,
-      platformHint: angle.platform,
-      formatHint: angle.format,
-      outcomeHint: angle.outcome,
+  const restoreBriefVersion = useCallback(
+    async (id: string, version: number): Promise<Brief> => {
+      const res = await fetch(
+        `/api/briefs/${encodeURIComponent(id)}/versions/${version}/restore`,
+        { method: "POST" }
+      );
+      const restored = await readBrief(res);
+      applyServerBrief(restored);
+      return restored;
+    },
+    [applyServerBrief]
+  );
 
-      createdAt: now,
-      updatedAt: now,
-    };
+  const generateBriefFromAngle = (trend: Trend, angle: Angle): Brief => {
+    const brief = applyBrandToBrief(draftBrief(trend, angle), activeBrand);
 
     setActiveBrief(brief);
-    setBriefs((prev) => [...prev, brief]);
+    saveBrief(brief).catch(() => undefined); // already logged
 
     return brief;
   };
@@ -122,7 +221,12 @@ export function BriefProvider({ children }: { children: ReactNode }) {
         activeBrief,
         setActiveBrief,
         briefs,
-        setBriefs,
+        isHydrated,
+        saveBrief,
+        archiveBrief,
+        transitionBrief,
+        deleteBrief,
+        restoreBriefVersion,
         generateBriefFromAngle,
       }}
     >
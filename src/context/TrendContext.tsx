@@ -7,7 +7,7 @@ import React, {
   useState,
   ReactNode,
 } from "react";
-import type { Trend } from "./BriefContext";
+import type { Trend } from "@/types/engine";
 
 interface TrendContextValue {
   selectedTrend: Trend | null;
@@ -0,0 +1,150 @@
+// src/context/WorkspaceContext.tsx
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuthContext } from "@/context/AuthContext";
+import { hasRole, WORKSPACE_COOKIE } from "@/lib/workspaces/access";
+import type { WorkspaceRole, WorkspaceWithRole } from "@/types/engine";
+
+/**
+ * Context value shape
+ *
+ * Every brand, brief, script and calendar post belongs to a workspace.
+ * The active one is a per-browser choice kept in a cookie, so API routes
+ * see it on every request. Switching remounts everything below this
+ * provider, which makes the brand, trend and brief contexts load the new
+ * workspace's data. Signing out clears the active workspace, so they
+ * remount empty too.
+ */
+
+interface WorkspaceContextValue {
+  workspaces: WorkspaceWithRole[];
+  activeWorkspace: WorkspaceWithRole | null;
+  role: WorkspaceRole | null;
+  /** Editors and owners; viewers can only read. */
+  canEdit: boolean;
+  isHydrated: boolean;
+
+  setActiveWorkspaceId: (id: string) => void;
+  createWorkspace: (name: string) => Promise<WorkspaceWithRole>;
+  refreshWorkspaces: () => Promise<void>;
+}
+
+function writeWorkspaceCookie(id: string) {
+  document.cookie = `${WORKSPACE_COOKIE}=${encodeURIComponent(id)}; path=/; max-age=31536000; samesite=lax`;
+}
+
+async function fetchWorkspaces(): Promise<{
+  workspaces: WorkspaceWithRole[];
+  activeWorkspaceId: string;
+}> {
+  const res = await fetch("/api/workspaces");
+  if (!res.ok) throw new Error(`API responded with ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Context + Provider
+ */
+
+const WorkspaceContext = createContext<WorkspaceContextValue | undefined>(undefined);
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuthContext();
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceIdState] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  const refreshWorkspaces = useCallback(async () => {
+    const data = await fetchWorkspaces();
+    setWorkspaces(data.workspaces);
+    setActiveWorkspaceIdState(data.activeWorkspaceId);
+  }, []);
+
+  // Reload whenever someone signs in
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    fetchWorkspaces()
+      .then((data) => {
+        if (cancelled) return;
+        setWorkspaces(data.workspaces);
+        setActiveWorkspaceIdState(data.activeWorkspaceId);
+      })
+      .catch((error) => console.error("[WorkspaceContext] Hydrate failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const setActiveWorkspaceId = useCallback((id: string) => {
+    writeWorkspaceCookie(id);
+    setActiveWorkspaceIdState(id);
+  }, []);
+
+  const createWorkspace = useCallback(
+    async (name: string) => {
+      const res = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `API responded with ${res.status}`);
+
+      const workspace = (data as { workspace: WorkspaceWithRole }).workspace;
+      setWorkspaces((prev) =>
+        [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setActiveWorkspaceId(workspace.id);
+      return workspace;
+    },
+    [setActiveWorkspaceId]
+  );
+
+  // Nothing to show once signed out, whatever was loaded before
+  const visible = user ? workspaces : [];
+  const activeWorkspace = visible.find((w) => w.id === activeWorkspaceId) ?? null;
+  const role = activeWorkspace?.role ?? null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces: visible,
+        activeWorkspace,
+        role,
+        canEdit: hasRole(role, "editor"),
+        isHydrated,
+        setActiveWorkspaceId,
+        createWorkspace,
+        refreshWorkspaces,
+      }}
+    >
+      <React.Fragment key={activeWorkspace?.id ?? "none"}>{children}</React.Fragment>
+    </WorkspaceContext.Provider>
+  );
+}
+
+/**
+ * Hook
+ */
+
+export function useWorkspaceContext(): WorkspaceContextValue {
+  const ctx = useContext(WorkspaceContext);
+  if (!ctx) {
+    throw new Error("useWorkspaceContext must be used inside WorkspaceProvider");
+  }
+  return ctx;
+}
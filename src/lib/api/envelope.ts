@@ -0,0 +1,134 @@
+// src/lib/api/envelope.ts
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { ApiErrorBody, ApiErrorCode, Pagination } from "@/types/api";
+import { denialHeaders, type CallerDenial } from "@/lib/apiKeys/guard";
+import { BrandNotFoundError } from "@/lib/brands/repository";
+import { LLMOutputError } from "@/lib/llm";
+import { issuesFromZodError, type FieldIssue } from "@/lib/schema/validate";
+import { DuplicateRecordError } from "@/lib/store/jsonStore";
+
+/**
+ * Response envelopes for the public /v1 API.
+ *
+ *   success  { data }
+ *   list     { data: [...], pagination: { page, pageSize, total, pageCount } }
+ *   failure  { error: { code, message, issues? } }
+ *
+ * Every /v1 route answers in one of these shapes, with the status fixed
+ * by the error code, so clients can switch on `error.code` alone.
+ */
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_json: 400,
+  unauthorized: 401,
+  validation_failed: 422,
+  not_found: 404,
+  conflict: 409,
+  rate_limited: 429,
+  generation_failed: 502,
+  internal_error: 500,
+};
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; response: NextResponse };
+
+export function apiData<T>(data: T, status = 200): NextResponse {
+  return NextResponse.json({ data }, { status });
+}
+
+export function apiList<T>(data: T[], pagination: Pagination): NextResponse {
+  return NextResponse.json({ data, pagination });
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  issues?: FieldIssue[],
+  headers?: Record<string, string>
+): NextResponse {
+  const body: ApiErrorBody = { error: { code, message, ...(issues ? { issues } : {}) } };
+  return NextResponse.json(body, { status: API_ERROR_STATUS[code], headers });
+}
+
+/**
+ * 401 / 429 from the API key guard, with its WWW-Authenticate and
+ * Retry-After headers.
+ */
+export function apiDenied(denial: CallerDenial): NextResponse {
+  const code: ApiErrorCode = denial.status === 429 ? "rate_limited" : "unauthorized";
+  return apiError(code, denial.message, undefined, denialHeaders(denial));
+}
+
+/**
+ * One page of an in-memory list. Pages past the end clamp to the last.
+ */
+export function paginate<T>(
+  items: readonly T[],
+  query: { page: number; pageSize: number }
+): { data: T[]; pagination: Pagination } {
+  const pageCount = Math.max(1, Math.ceil(items.length / query.pageSize));
+  const page = Math.min(query.page, pageCount);
+  return {
+    data: items.slice((page - 1) * query.pageSize, page * query.pageSize),
+    pagination: { page, pageSize: query.pageSize, total: items.length, pageCount },
+  };
+}
+
+function validateInput<S extends z.ZodType>(
+  schema: S,
+  value: unknown,
+  message: string
+): ApiResult<z.infer<S>> {
+  const result = schema.safeParse(value);
+  if (result.success) return { ok: true, data: result.data };
+  return {
+    ok: false,
+    response: apiError("validation_failed", message, issuesFromZodError(result.error)),
+  };
+}
+
+export async function parseApiBody<S extends z.ZodType>(
+  req: Request,
+  schema: S
+): Promise<ApiResult<z.infer<S>>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return { ok: false, response: apiError("invalid_json", "Request body must be valid JSON.") };
+  }
+  return validateInput(schema, body, "Invalid request body");
+}
+
+/**
+ * Empty query params count as absent, so `?stage=` means "any stage".
+ */
+export function parseApiQuery<S extends z.ZodType>(
+  req: Request,
+  schema: S
+): ApiResult<z.infer<S>> {
+  const { searchParams } = new URL(req.url);
+  return validateInput(
+    schema,
+    Object.fromEntries([...searchParams.entries()].filter(([, value]) => value.trim() !== "")),
+    "Invalid query parameters"
+  );
+}
+
+/**
+ * Maps a thrown error to its /v1 error response. Unknown errors are
+ * logged under `route` and never leak their message.
+ */
+export function apiFailure(route: string, err: unknown): NextResponse {
+  if (err instanceof BrandNotFoundError) return apiError("not_found", err.message);
+  if (err instanceof DuplicateRecordError) return apiError("conflict", err.message);
+  if (err instanceof LLMOutputError) {
+    console.error(`[${route}] Unusable model output:`, err.raw);
+    return apiError("generation_failed", err.message, err.issues);
+  }
+
+  console.error(`[${route}] Error:`, err);
+  return apiError("internal_error", "Internal server error");
+}
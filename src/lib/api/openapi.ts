@@ -0,0 +1,329 @@
+// src/lib/api/openapi.ts
+import { z } from "zod";
+import type { ApiErrorCode } from "@/types/api";
+import {
+  AngleDiversitySchema,
+  AngleSchema,
+  BriefSchema,
+  GuardianReportSchema,
+  QualityReportSchema,
+  ScriptSchema,
+  TrendSchema,
+} from "@/lib/schema/engine";
+import {
+  ApiErrorSchema,
+  dataEnvelope,
+  IdParamsSchema,
+  listEnvelope,
+  PaginationSchema,
+  V1AdaptRequestSchema,
+  V1AdaptResultSchema,
+  V1AnglesResultSchema,
+  V1BriefListQuerySchema,
+  V1CreateBriefRequestSchema,
+  V1GenerateAnglesRequestSchema,
+  V1GenerateScriptRequestSchema,
+  V1ScriptListQuerySchema,
+  V1TrendQuerySchema,
+} from "@/lib/schema/v1";
+import { API_ERROR_STATUS } from "./envelope";
+
+/**
+ * OpenAPI 3.0 document for the public /v1 API, generated from the same
+ * zod schemas the routes validate with (src/lib/schema/v1.ts), so the
+ * served contract cannot drift from what the API accepts.
+ *
+ * Components come from two registries: response shapes converted as
+ * output (defaults applied, so defaulted fields are required) and request
+ * shapes converted as input (defaulted fields optional). Engine objects
+ * used in requests appear a second time with an `Input` suffix.
+ *
+ * Every operation takes an API key, so every one can also answer 401
+ * and 429; those are added here rather than listed per operation.
+ */
+
+type ApiOperation = {
+  method: "get" | "post";
+  path: string; // OpenAPI template, e.g. /v1/briefs/{id}
+  operationId: string;
+  summary: string;
+  tag: string;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: string; // request component
+  status: number;
+  response: string; // response component
+  errors: ApiErrorCode[];
+};
+
+const COMPONENT_REF = (id: string) => `#/components/schemas/${id}`;
+
+function responseComponents() {
+  const registry = z.registry<{ id: string }>();
+  registry.add(TrendSchema, { id: "Trend" });
+  registry.add(AngleSchema, { id: "Angle" });
+  registry.add(AngleDiversitySchema, { id: "AngleDiversity" });
+  registry.add(QualityReportSchema, { id: "QualityReport" });
+  registry.add(GuardianReportSchema, { id: "GuardianReport" });
+  registry.add(BriefSchema, { id: "Brief" });
+  registry.add(ScriptSchema, { id: "Script" });
+  registry.add(PaginationSchema, { id: "Pagination" });
+  registry.add(ApiErrorSchema, { id: "ApiError" });
+  registry.add(V1AnglesResultSchema, { id: "AnglesResult" });
+  registry.add(V1AdaptResultSchema, { id: "AdaptResult" });
+
+  registry.add(listEnvelope(TrendSchema), { id: "TrendList" });
+  registry.add(listEnvelope(BriefSchema), { id: "BriefList" });
+  registry.add(listEnvelope(ScriptSchema), { id: "ScriptList" });
+  registry.add(dataEnvelope(BriefSchema), { id: "BriefResponse" });
+  registry.add(dataEnvelope(ScriptSchema), { id: "ScriptResponse" });
+  registry.add(dataEnvelope(V1AnglesResultSchema), { id: "AnglesResponse" });
+  registry.add(dataEnvelope(V1AdaptResultSchema), { id: "AdaptResponse" });
+
+  return z.toJSONSchema(registry, { io: "output", target: "openapi-3.0", uri: COMPONENT_REF })
+    .schemas;
+}
+
+function requestComponents() {
+  const registry = z.registry<{ id: string }>();
+  registry.add(TrendSchema, { id: "TrendInput" });
+  registry.add(AngleSchema, { id: "AngleInput" });
+  registry.add(BriefSchema, { id: "BriefInput" });
+  registry.add(V1GenerateAnglesRequestSchema, { id: "GenerateAnglesRequest" });
+  registry.add(V1CreateBriefRequestSchema, { id: "CreateBriefRequest" });
+  registry.add(V1GenerateScriptRequestSchema, { id: "GenerateScriptRequest" });
+  registry.add(V1AdaptRequestSchema, { id: "AdaptRequest" });
+
+  return z.toJSONSchema(registry, { io: "input", target: "openapi-3.0", uri: COMPONENT_REF })
+    .schemas;
+}
+
+const GENERATION_ERRORS: ApiErrorCode[] = [
+  "invalid_json",
+  "validation_failed",
+  "not_found",
+  "generation_failed",
+  "internal_error",
+];
+
+export const V1_OPERATIONS: ApiOperation[] = [
+  {
+    method: "get",
+    path: "/v1/trends/current",
+    operationId: "listCurrentTrends",
+    summary: "Search, filter and page the current interpreted trends",
+    tag: "Trends",
+    query: V1TrendQuerySchema,
+    status: 200,
+    response: "TrendList",
+    errors: ["validation_failed", "internal_error"],
+  },
+  {
+    method: "post",
+    path: "/v1/angles/generate",
+    operationId: "generateAngles",
+    summary: "Generate creative angles for a trend",
+    tag: "Angles",
+    body: "GenerateAnglesRequest",
+    status: 200,
+    response: "AnglesResponse",
+    errors: GENERATION_ERRORS,
+  },
+  {
+    method: "post",
+    path: "/v1/briefs/create",
+    operationId: "createBrief",
+    summary: "Generate a brief from a trend (and optional angle) and store it",
+    tag: "Briefs",
+    body: "CreateBriefRequest",
+    status: 201,
+    response: "BriefResponse",
+    errors: [...GENERATION_ERRORS, "conflict"],
+  },
+  {
+    method: "get",
+    path: "/v1/briefs",
+    operationId: "listBriefs",
+    summary: "List stored briefs, newest first",
+    tag: "Briefs",
+    query: V1BriefListQuerySchema,
+    status: 200,
+    response: "BriefList",
+    errors: ["validation_failed", "internal_error"],
+  },
+  {
+    method: "get",
+    path: "/v1/briefs/{id}",
+    operationId: "getBrief",
+    summary: "Fetch one stored brief",
+    tag: "Briefs",
+    params: IdParamsSchema,
+    status: 200,
+    response: "BriefResponse",
+    errors: ["not_found", "internal_error"],
+  },
+  {
+    method: "post",
+    path: "/v1/scripts/generate",
+    operationId: "generateScript",
+    summary: "Generate a platform script from a brief",
+    tag: "Scripts",
+    body: "GenerateScriptRequest",
+    status: 200,
+    response: "ScriptResponse",
+    errors: GENERATION_ERRORS,
+  },
+  {
+    method: "get",
+    path: "/v1/scripts",
+    operationId: "listScripts",
+    summary: "List stored scripts, newest first",
+    tag: "Scripts",
+    query: V1ScriptListQuerySchema,
+    status: 200,
+    response: "ScriptList",
+    errors: ["validation_failed", "internal_error"],
+  },
+  {
+    method: "get",
+    path: "/v1/scripts/{id}",
+    operationId: "getScript",
+    summary: "Fetch one stored script",
+    tag: "Scripts",
+    params: IdParamsSchema,
+    status: 200,
+    response: "ScriptResponse",
+    errors: ["not_found", "internal_error"],
+  },
+  {
+    method: "post",
+    path: "/v1/platform/adapt",
+    operationId: "adaptToPlatforms",
+    summary: "Adapt one brief into a script per platform",
+    tag: "Platform",
+    body: "AdaptRequest",
+    status: 200,
+    response: "AdaptResponse",
+    errors: GENERATION_ERRORS,
+  },
+];
+
+const AUTH_ERRORS: ApiErrorCode[] = ["unauthorized", "rate_limited"];
+
+const ERROR_DESCRIPTIONS: Record<ApiErrorCode, string> = {
+  invalid_json: "Body is not valid JSON (invalid_json)",
+  unauthorized: "Missing, unknown or revoked API key (unauthorized)",
+  validation_failed: "Request failed validation (validation_failed)",
+  not_found: "Resource or brand not found (not_found)",
+  conflict: "A record with that id already exists (conflict)",
+  rate_limited: "The key's rate limit is used up; see Retry-After (rate_limited)",
+  generation_failed: "The model returned unusable output (generation_failed)",
+  internal_error: "Unexpected server error (internal_error)",
+};
+
+function parameters(location: "path" | "query", schema: z.ZodObject) {
+  const json = z.toJSONSchema(schema, { io: "input", target: "openapi-3.0" }) as {
+    properties?: Record<string, Record<string, unknown>>;
+    required?: string[];
+  };
+  return Object.entries(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || (json.required ?? []).includes(name),
+      ...(description ? { description } : {}),
+      schema: rest,
+    };
+  });
+}
+
+function operationObject(op: ApiOperation) {
+  const responses: Record<string, unknown> = {
+    [op.status]: {
+      description: op.status === 201 ? "Created" : "OK",
+      content: { "application/json": { schema: { $ref: COMPONENT_REF(op.response) } } },
+    },
+  };
+  for (const code of [...op.errors, ...AUTH_ERRORS]) {
+    responses[API_ERROR_STATUS[code]] = {
+      description: ERROR_DESCRIPTIONS[code],
+      ...(code === "rate_limited"
+        ? {
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the key can make another request",
+                schema: { type: "integer" },
+              },
+            },
+          }
+        : {}),
+      content: { "application/json": { schema: { $ref: COMPONENT_REF("ApiError") } } },
+    };
+  }
+
+  return {
+    operationId: op.operationId,
+    summary: op.summary,
+    tags: [op.tag],
+    parameters: [
+      ...(op.params ? parameters("path", op.params) : []),
+      ...(op.query ? parameters("query", op.query) : []),
+    ],
+    ...(op.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: { $ref: COMPONENT_REF(op.body) } } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+// Registry output carries each component's `$id`; OpenAPI doesn't want it
+function stripIds(schemas: Record<string, object>): Record<string, object> {
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const copy: Record<string, unknown> = { ...schema };
+      delete copy.$id;
+      return [id, copy];
+    })
+  );
+}
+
+let cached: object | null = null;
+
+export function buildOpenApiDocument(): object {
+  if (cached) return cached;
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of V1_OPERATIONS) {
+    paths[op.path] = { ...paths[op.path], [op.method]: operationObject(op) };
+  }
+
+  cached = {
+    openapi: "3.0.3",
+    info: {
+      title: "Appatize API",
+      version: "1.0.0",
+      description:
+        "Trend intelligence, briefs and platform scripts. Successful responses are " +
+        "`{ data }` (lists add `pagination`); failures are " +
+        "`{ error: { code, message, issues? } }`.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ bearerKey: [] }, { headerKey: [] }],
+    tags: [...new Set(V1_OPERATIONS.map((op) => op.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerKey: { type: "http", scheme: "bearer", description: "Authorization: Bearer <key>" },
+        headerKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: stripIds({ ...responseComponents(), ...requestComponents() }),
+    },
+  };
+  return cached;
+}
@@ -0,0 +1,118 @@
+// src/lib/apiKeys/guard.ts
+import { NextResponse } from "next/server";
+import type { ApiKey } from "@/types/engine";
+import { currentSession } from "@/lib/auth/guard";
+import { hasRole } from "@/lib/workspaces/access";
+import { activeMembership, roleDeniedMessage } from "@/lib/workspaces/guard";
+import { takeToken } from "./rateLimit";
+import { findApiKeyBySecret, touchApiKey } from "./repository";
+
+/**
+ * Who is calling a protected route.
+ *
+ * A key goes in `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * Unknown and revoked keys are a 401; a key past its rate limit is a 429
+ * with `Retry-After`.
+ *
+ * Routes that the app's own pages call (`allowSession`) also accept a
+ * signed-in user's session cookie instead of a key.
+ *
+ * Either way the call works in one workspace: the key's own, or the
+ * user's active one, where generating needs the editor role (403 for
+ * viewers).
+ */
+
+export type CallerDenial = {
+  status: 401 | 403 | 429;
+  message: string;
+  retryAfterSeconds?: number;
+};
+
+export type CallerCheck =
+  // actorId is who history credits: the signed-in user, or the key
+  | { ok: true; key: ApiKey | null; workspaceId: string; actorId: string }
+  | { ok: false; denial: CallerDenial };
+
+export function apiKeyFromRequest(req: Request): string | null {
+  const authorization = req.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? req.headers.get("x-api-key")?.trim() ?? null;
+}
+
+export async function authorizeCaller(
+  req: Request,
+  options: { allowSession: boolean }
+): Promise<CallerCheck> {
+  const secret = apiKeyFromRequest(req);
+
+  if (!secret) {
+    const current = options.allowSession ? await currentSession(req) : null;
+    if (current) {
+      const membership = await activeMembership(req, current.user);
+      if (!hasRole(membership.role, "editor")) {
+        return {
+          ok: false,
+          denial: { status: 403, message: roleDeniedMessage(membership, "editor") },
+        };
+      }
+      return {
+        ok: true,
+        key: null,
+        workspaceId: membership.workspace.id,
+        actorId: current.user.id,
+      };
+    }
+    return {
+      ok: false,
+      denial: {
+        status: 401,
+        message: options.allowSession ? "Sign in or send an API key" : "API key required",
+      },
+    };
+  }
+
+  const key = await findApiKeyBySecret(secret);
+  if (!key || key.revokedAt || !key.workspaceId) {
+    return {
+      ok: false,
+      denial: {
+        status: 401,
+        message: key?.revokedAt ? "API key has been revoked" : "Invalid API key",
+      },
+    };
+  }
+
+  const limit = takeToken(key.id, key.rateLimit);
+  if (!limit.ok) {
+    return {
+      ok: false,
+      denial: {
+        status: 429,
+        message: "Rate limit exceeded",
+        retryAfterSeconds: limit.retryAfterSeconds,
+      },
+    };
+  }
+
+  await touchApiKey(key.id);
+  return { ok: true, key, workspaceId: key.workspaceId, actorId: key.id };
+}
+
+export function denialHeaders(denial: CallerDenial): Record<string, string> {
+  return {
+    ...(denial.status === 401 ? { "WWW-Authenticate": "Bearer" } : {}),
+    ...(denial.retryAfterSeconds !== undefined
+      ? { "Retry-After": String(denial.retryAfterSeconds) }
+      : {}),
+  };
+}
+
+/**
+ * The internal routes' `{ error }` shape; /v1 has its own (apiDenied).
+ */
+export function deniedResponse(denial: CallerDenial): NextResponse {
+  return NextResponse.json(
+    { error: denial.message },
+    { status: denial.status, headers: denialHeaders(denial) }
+  );
+}
@@ -0,0 +1,49 @@
+// src/lib/apiKeys/rateLimit.ts
+import type { ApiKeyRateLimit } from "@/types/engine";
+
+/**
+ * Token bucket per API key: a full bucket holds `capacity` requests and
+ * refills at `refillPerMinute`. Each request takes one token.
+ *
+ * Buckets live in process memory, so they reset on restart and are not
+ * shared between instances — the same single-node assumption as the
+ * JSON store.
+ */
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const buckets = new Map<string, Bucket>();
+
+export type RateLimitResult =
+  | { ok: true; remaining: number }
+  | { ok: false; retryAfterSeconds: number };
+
+export function takeToken(
+  keyId: string,
+  limit: ApiKeyRateLimit,
+  now: number = Date.now()
+): RateLimitResult {
+  const bucket = buckets.get(keyId) ?? { tokens: limit.capacity, updatedAt: now };
+  const refilled = Math.min(
+    limit.capacity,
+    bucket.tokens + ((now - bucket.updatedAt) / 60_000) * limit.refillPerMinute
+  );
+
+  if (refilled < 1) {
+    buckets.set(keyId, { tokens: refilled, updatedAt: now });
+    return {
+      ok: false,
+      retryAfterSeconds: Math.ceil(((1 - refilled) / limit.refillPerMinute) * 60),
+    };
+  }
+
+  buckets.set(keyId, { tokens: refilled - 1, updatedAt: now });
+  return { ok: true, remaining: Math.floor(refilled - 1) };
+}
+
+/**
+ * Forget a key's bucket (e.g. on revoke, or when its limit changes).
+ */
+export function resetBucket(keyId: string): void {
+  buckets.delete(keyId);
+}
@@ -0,0 +1,75 @@
+// src/lib/apiKeys/repository.ts
+import { createHash, randomBytes } from "crypto";
+import type { z } from "zod";
+import type { ApiKey } from "@/types/engine";
+import { ApiKeySchema } from "@/lib/schema/engine";
+import type { ApiKeyCreateRequestSchema } from "@/lib/schema/requests";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+
+/**
+ * API key storage. Each key belongs to one workspace and acts there
+ * with the editor role. Secrets are random, shown once at issue and stored
+ * only as their SHA-256 hash; a presented key is checked by hashing it
+ * and looking the hash up.
+ */
+
+const keys = createJsonCollection<ApiKey>("api-keys", ApiKeySchema);
+
+export type ApiKeyInput = z.infer<typeof ApiKeyCreateRequestSchema>;
+
+const SECRET_PREFIX = "apz_";
+const DISPLAY_PREFIX_LENGTH = SECRET_PREFIX.length + 8;
+
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export async function listApiKeys(workspaceId: string): Promise<ApiKey[]> {
+  const all = await keys.list();
+  return all
+    .filter((key) => key.workspaceId === workspaceId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Returns the stored key and its secret; the secret is not recoverable
+ * afterwards.
+ */
+export async function issueApiKey(
+  input: ApiKeyInput,
+  workspaceId: string
+): Promise<{ key: ApiKey; secret: string }> {
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const key = await keys.insert({
+    id: `key-${randomBytes(6).toString("hex")}`,
+    name: input.name,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(secret),
+    rateLimit: input.rateLimit,
+    workspaceId,
+    createdAt: new Date().toISOString(),
+  });
+  return { key, secret };
+}
+
+/**
+ * The key a secret belongs to, revoked or not; null for unknown secrets.
+ */
+export async function findApiKeyBySecret(secret: string): Promise<ApiKey | null> {
+  const hash = hashApiKey(secret);
+  return (await keys.list()).find((key) => key.hash === hash) ?? null;
+}
+
+export function touchApiKey(id: string): Promise<ApiKey | null> {
+  return keys.update(id, (current) => ({ ...current, lastUsedAt: new Date().toISOString() }));
+}
+
+/**
+ * Revoking twice keeps the first revocation time.
+ */
+export function revokeApiKey(id: string): Promise<ApiKey | null> {
+  return keys.update(id, (current) => ({
+    ...current,
+    revokedAt: current.revokedAt ?? new Date().toISOString(),
+  }));
+}
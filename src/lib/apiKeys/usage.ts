@@ -0,0 +1,96 @@
+// src/lib/apiKeys/usage.ts
+import { randomBytes } from "crypto";
+import type { ApiKey, UsageRecord } from "@/types/engine";
+import { combineMeta, type LLMResultMeta } from "@/lib/llm";
+import { UsageRecordSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+
+/**
+ * Usage metering: one record per generation request, with the model,
+ * token counts and model latency, attributed to the workspace and the
+ * API key that made it (no key for calls from the app's own pages).
+ */
+
+const usage = createJsonCollection<UsageRecord>("usage", UsageRecordSchema);
+
+export type UsageFilters = {
+  workspaceId?: string;
+  keyId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+};
+
+/**
+ * Per key per UTC day. `keyId` is unset for the app's own calls.
+ */
+export type DailyUsage = {
+  date: string;
+  keyId?: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+};
+
+export async function recordUsage(
+  route: string,
+  caller: { key: ApiKey | null; workspaceId: string },
+  meta: LLMResultMeta | readonly LLMResultMeta[]
+): Promise<UsageRecord> {
+  const combined = Array.isArray(meta) ? combineMeta(meta) : (meta as LLMResultMeta);
+  return usage.insert({
+    id: `usage-${Date.now()}-${randomBytes(4).toString("hex")}`,
+    keyId: caller.key?.id,
+    workspaceId: caller.workspaceId,
+    route,
+    provider: combined.provider,
+    model: combined.model,
+    inputTokens: combined.usage.inputTokens,
+    outputTokens: combined.usage.outputTokens,
+    latencyMs: combined.latencyMs,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function listUsage(filters: UsageFilters = {}): Promise<UsageRecord[]> {
+  const all = await usage.list();
+  return all
+    .filter((record) => !filters.workspaceId || record.workspaceId === filters.workspaceId)
+    .filter((record) => !filters.keyId || record.keyId === filters.keyId)
+    .filter((record) => !filters.from || record.createdAt.slice(0, 10) >= filters.from)
+    .filter((record) => !filters.to || record.createdAt.slice(0, 10) <= filters.to)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Newest day first; within a day, the busiest key first.
+ */
+export function dailyUsage(records: readonly UsageRecord[]): DailyUsage[] {
+  const rows = new Map<string, DailyUsage & { totalLatencyMs: number }>();
+
+  for (const record of records) {
+    const date = record.createdAt.slice(0, 10);
+    const rowKey = `${date}|${record.keyId ?? ""}`;
+    const row = rows.get(rowKey) ?? {
+      date,
+      keyId: record.keyId,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      averageLatencyMs: 0,
+      totalLatencyMs: 0,
+    };
+    row.requests += 1;
+    row.inputTokens += record.inputTokens;
+    row.outputTokens += record.outputTokens;
+    row.totalLatencyMs += record.latencyMs;
+    rows.set(rowKey, row);
+  }
+
+  return [...rows.values()]
+    .map(({ totalLatencyMs, ...row }) => ({
+      ...row,
+      averageLatencyMs: Math.round(totalLatencyMs / row.requests),
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.requests - a.requests);
+}
@@ -0,0 +1,43 @@
+// src/lib/auth/guard.ts
+import { NextResponse } from "next/server";
+import type { Session, User } from "@/types/engine";
+import { resolveSession, SESSION_COOKIE } from "./sessions";
+
+/**
+ * Session checks for route handlers. Every data-changing /api route
+ * starts with `requireSession`; read-only routes stay open.
+ */
+
+export type SessionCheck =
+  | { ok: true; user: User; session: Session }
+  | { ok: false; response: NextResponse };
+
+export function cookieValue(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+export function sessionToken(req: Request): string | null {
+  return cookieValue(req, SESSION_COOKIE) || null;
+}
+
+export async function currentSession(
+  req: Request
+): Promise<{ user: User; session: Session } | null> {
+  const token = sessionToken(req);
+  return token ? resolveSession(token) : null;
+}
+
+export async function requireSession(req: Request): Promise<SessionCheck> {
+  const current = await currentSession(req);
+  if (current) return { ok: true, ...current };
+  return {
+    ok: false,
+    response: NextResponse.json({ error: "Sign in required" }, { status: 401 }),
+  };
+}
@@ -0,0 +1,69 @@
+// src/lib/auth/jwt.ts
+import { createPublicKey, verify, type JsonWebKey } from "crypto";
+
+/**
+ * Just enough JWS verification for OIDC id_tokens: compact
+ * serialization, RS256 or ES256, keys from the IdP's JWKS.
+ */
+
+export type Jwk = JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  azp?: string;
+  exp?: number;
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  [claim: string]: unknown;
+};
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JwtError";
+  }
+}
+
+const SUPPORTED_ALGS = new Set(["RS256", "ES256"]);
+
+function decodeSegment<T>(segment: string, what: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new JwtError(`Malformed token ${what}`);
+  }
+}
+
+export function decodeJwtHeader(token: string): { alg?: string; kid?: string } {
+  return decodeSegment(token.split(".")[0] ?? "", "header");
+}
+
+/**
+ * Checks the signature against `key` and returns the claims. Claim
+ * checks (iss, aud, exp, nonce) are the caller's.
+ */
+export function verifyJwt(token: string, key: Jwk): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("Token is not a compact JWS");
+  const [header, payload, signature] = parts;
+
+  const { alg } = decodeJwtHeader(token);
+  if (!alg || !SUPPORTED_ALGS.has(alg)) throw new JwtError(`Unsupported algorithm ${alg}`);
+  if (key.alg && key.alg !== alg) throw new JwtError("Key does not match token algorithm");
+
+  const publicKey = createPublicKey({ key, format: "jwk" });
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    alg === "ES256" ? { key: publicKey, dsaEncoding: "ieee-p1363" } : publicKey,
+    Buffer.from(signature, "base64url")
+  );
+  if (!valid) throw new JwtError("Invalid token signature");
+
+  return decodeSegment<JwtClaims>(payload, "payload");
+}
@@ -0,0 +1,236 @@
+// src/lib/auth/oidc.ts
+import { createHash, randomBytes } from "crypto";
+import { decodeJwtHeader, verifyJwt, type Jwk, type JwtClaims } from "./jwt";
+import type { OidcIdentity } from "./users";
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE).
+ *
+ * Configured from the environment, so each deployment points at its own
+ * identity provider:
+ *
+ *   OIDC_ISSUER         e.g. https://login.example.com (discovery is read
+ *                       from <issuer>/.well-known/openid-configuration)
+ *   OIDC_CLIENT_ID
+ *   OIDC_CLIENT_SECRET  optional for public clients
+ *   OIDC_REDIRECT_URI   default <app origin>/api/auth/oidc/callback
+ *   OIDC_SCOPES         default "openid email profile"
+ *   OIDC_PROVIDER_NAME  button label, default "SSO"
+ *
+ * `npm run mock-idp` serves a local provider to test against.
+ */
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  scopes: string;
+  providerName: string;
+};
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+/**
+ * What the login leg hands the callback, in a short-lived cookie.
+ */
+export type OidcFlowState = {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+};
+
+export const OIDC_FLOW_COOKIE = "appatize_oidc";
+export const OIDC_FLOW_TTL_SECONDS = 600;
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+export function oidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, "");
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    providerName: process.env.OIDC_PROVIDER_NAME || "SSO",
+  };
+}
+
+export function redirectUri(config: OidcConfig, req: Request): string {
+  return config.redirectUri ?? new URL("/api/auth/oidc/callback", req.url).toString();
+}
+
+/**
+ * Only same-app paths: "/briefs" yes, "//evil.example" and URLs no.
+ */
+export function safeReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith("/") && !value.startsWith("//") && !value.includes("\\")
+    ? value
+    : "/";
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, cache: "no-store" });
+  if (!res.ok) throw new OidcError(`${url} responded ${res.status}`);
+  return (await res.json()) as T;
+}
+
+const discoveries = new Map<string, Promise<Discovery>>();
+
+function discover(issuer: string): Promise<Discovery> {
+  let cached = discoveries.get(issuer);
+  if (!cached) {
+    cached = fetchJson<Discovery>(`${issuer}/.well-known/openid-configuration`).then((doc) => {
+      if (doc.issuer.replace(/\/+$/, "") !== issuer) {
+        throw new OidcError(`Discovery issuer ${doc.issuer} does not match ${issuer}`);
+      }
+      return doc;
+    });
+    // A failed lookup shouldn't stick
+    cached.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, cached);
+  }
+  return cached;
+}
+
+const jwksCache = new Map<string, Jwk[]>();
+
+async function signingKey(jwksUri: string, kid: string | undefined): Promise<Jwk> {
+  const pick = (keys: Jwk[]) =>
+    kid ? keys.find((key) => key.kid === kid) : keys.length === 1 ? keys[0] : undefined;
+
+  let key = pick(jwksCache.get(jwksUri) ?? []);
+  if (!key) {
+    // Unknown kid: the IdP may have rotated keys
+    const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+    jwksCache.set(jwksUri, keys.filter((k) => !k.use || k.use === "sig"));
+    key = pick(jwksCache.get(jwksUri) ?? []);
+  }
+  if (!key) throw new OidcError("No matching signing key in the provider's JWKS");
+  return key;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * The provider's authorization URL, plus the state to keep for the
+ * callback.
+ */
+export async function beginOidcLogin(
+  config: OidcConfig,
+  req: Request,
+  returnTo: string
+): Promise<{ url: string; flow: OidcFlowState }> {
+  const discovery = await discover(config.issuer);
+  const flow: OidcFlowState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    verifier: randomToken(),
+    returnTo: safeReturnTo(returnTo),
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri(config, req),
+    scope: config.scopes,
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: createHash("sha256").update(flow.verifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), flow };
+}
+
+export function encodeFlowState(flow: OidcFlowState): string {
+  return Buffer.from(JSON.stringify(flow)).toString("base64url");
+}
+
+export function decodeFlowState(value: string | undefined): OidcFlowState | null {
+  if (!value) return null;
+  try {
+    const flow = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as OidcFlowState;
+    return flow.state && flow.nonce && flow.verifier ? flow : null;
+  } catch {
+    return null;
+  }
+}
+
+function checkClaims(claims: JwtClaims, config: OidcConfig, nonce: string): void {
+  const now = Math.floor(Date.now() / 1000);
+  const skew = 60;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss?.replace(/\/+$/, "") !== config.issuer) throw new OidcError("Wrong token issuer");
+  if (!audiences.includes(config.clientId)) throw new OidcError("Token is not for this client");
+  if (audiences.length > 1 && claims.azp !== config.clientId) {
+    throw new OidcError("Token authorized party is not this client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + skew < now) {
+    throw new OidcError("Token has expired");
+  }
+  if (typeof claims.iat === "number" && claims.iat - skew > now) {
+    throw new OidcError("Token was issued in the future");
+  }
+  if (claims.nonce !== nonce) throw new OidcError("Token nonce does not match");
+  if (!claims.sub) throw new OidcError("Token has no subject");
+  if (!claims.email) throw new OidcError("The provider did not share an email address");
+}
+
+/**
+ * Redeems the authorization code and verifies the id_token it returns.
+ */
+export async function completeOidcLogin(
+  config: OidcConfig,
+  req: Request,
+  code: string,
+  flow: OidcFlowState
+): Promise<OidcIdentity> {
+  const discovery = await discover(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(config, req),
+    client_id: config.clientId,
+    code_verifier: flow.verifier,
+  });
+  if (config.clientSecret) body.set("client_secret", config.clientSecret);
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body,
+  });
+  if (!tokens.id_token) throw new OidcError("The provider returned no id_token");
+
+  const key = await signingKey(discovery.jwks_uri, decodeJwtHeader(tokens.id_token).kid);
+  const claims = verifyJwt(tokens.id_token, key);
+  checkClaims(claims, config, flow.nonce);
+
+  return {
+    issuer: config.issuer,
+    subject: claims.sub as string,
+    email: claims.email as string,
+    emailVerified: claims.email_verified === true || claims.email_verified === "true",
+    name: typeof claims.name === "string" ? claims.name : undefined,
+  };
+}
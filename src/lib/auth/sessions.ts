@@ -0,0 +1,79 @@
+// src/lib/auth/sessions.ts
+import { createHash, randomBytes } from "crypto";
+import type { NextResponse } from "next/server";
+import type { Session, User } from "@/types/engine";
+import { SessionSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { getUser } from "./users";
+
+/**
+ * Cookie sessions. The cookie carries a random token (httpOnly,
+ * SameSite=Lax, Secure in production); the store keeps its SHA-256 hash.
+ * Sessions last SESSION_TTL_DAYS (default 14) from sign-in.
+ */
+
+const sessions = createJsonCollection<Session>("sessions", SessionSchema);
+
+export const SESSION_COOKIE = "appatize_session";
+
+function ttlMs(): number {
+  const days = Number(process.env.SESSION_TTL_DAYS) || 14;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createSession(
+  userId: string,
+  method: Session["method"]
+): Promise<{ token: string; session: Session }> {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const session = await sessions.insert({
+    id: hashToken(token),
+    userId,
+    method,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs()).toISOString(),
+  });
+  return { token, session };
+}
+
+/**
+ * The session and its user, or null when the token is unknown or
+ * expired (expired sessions are removed on the way).
+ */
+export async function resolveSession(
+  token: string
+): Promise<{ session: Session; user: User } | null> {
+  const session = await sessions.get(hashToken(token));
+  if (!session) return null;
+
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    await sessions.remove(session.id);
+    return null;
+  }
+
+  const user = await getUser(session.userId);
+  return user ? { session, user } : null;
+}
+
+export function deleteSession(token: string): Promise<boolean> {
+  return sessions.remove(hashToken(token));
+}
+
+export function setSessionCookie(res: NextResponse, token: string, session: Session): void {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(session.expiresAt),
+  });
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
@@ -0,0 +1,145 @@
+// src/lib/auth/users.ts
+import { randomBytes } from "crypto";
+import type { PublicUser, User } from "@/types/engine";
+import { UserSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { hashPassword, verifyAgainstDummy, verifyPassword } from "./passwords";
+
+/**
+ * User accounts: local (email + password) and SSO (OIDC). Emails are
+ * unique, compared lower-cased.
+ */
+
+const users = createJsonCollection<User>("users", UserSchema);
+
+export class EmailTakenError extends Error {
+  constructor(email: string) {
+    super(`An account for ${email} already exists`);
+    this.name = "EmailTakenError";
+  }
+}
+
+/**
+ * A password account exists for the IdP's email. Nothing proves the
+ * address belonged to whoever set that password, so linking waits until
+ * the owner confirms it by signing in with the password first.
+ */
+export class AccountLinkRequiredError extends Error {
+  constructor(email: string) {
+    super(`Sign in to the account for ${email} with its password to link single sign-on`);
+    this.name = "AccountLinkRequiredError";
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * What the client may see: never the password hash.
+ */
+export function publicUser(user: User): PublicUser {
+  const { id, email, name, oidc, createdAt, updatedAt, lastSignInAt } = user;
+  return { id, email, name, oidc, createdAt, updatedAt, lastSignInAt };
+}
+
+export function getUser(id: string): Promise<User | null> {
+  return users.get(id);
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  const normalized = normalizeEmail(email);
+  return (await users.list()).find((user) => user.email === normalized) ?? null;
+}
+
+function newUserId(): string {
+  return `user-${randomBytes(6).toString("hex")}`;
+}
+
+export async function createLocalUser(input: {
+  email: string;
+  password: string;
+  name: string;
+}): Promise<User> {
+  const email = normalizeEmail(input.email);
+  if (await findUserByEmail(email)) throw new EmailTakenError(email);
+
+  const now = new Date().toISOString();
+  return users.insert({
+    id: newUserId(),
+    email,
+    name: input.name.trim(),
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * The user, or null for an unknown email, an SSO-only account or a
+ * wrong password — callers can't tell which, by design.
+ */
+export async function authenticateLocalUser(
+  email: string,
+  password: string
+): Promise<User | null> {
+  const user = await findUserByEmail(email);
+  if (!user?.passwordHash) return verifyAgainstDummy(password).then(() => null);
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+export type OidcIdentity = {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+};
+
+/**
+ * Finds the account for an IdP identity: by issuer + subject, else by
+ * verified email (linking the two), else creates one. A password account
+ * is only linked when `signedInAs` is that account, since local signup
+ * never verifies the email.
+ */
+export async function upsertOidcUser(
+  identity: OidcIdentity,
+  options: { signedInAs?: string } = {}
+): Promise<User> {
+  const all = await users.list();
+  const linked = all.find(
+    (user) =>
+      user.oidc?.issuer === identity.issuer && user.oidc.subject === identity.subject
+  );
+  if (linked) return linked;
+
+  const email = normalizeEmail(identity.email);
+  const existing = all.find((user) => user.email === email);
+  if (existing) {
+    // An unverified email could claim someone else's account
+    if (!identity.emailVerified) throw new EmailTakenError(email);
+    if (existing.passwordHash && existing.id !== options.signedInAs) {
+      throw new AccountLinkRequiredError(email);
+    }
+    const updated = await users.update(existing.id, (current) => ({
+      ...current,
+      oidc: { issuer: identity.issuer, subject: identity.subject },
+      updatedAt: new Date().toISOString(),
+    }));
+    return updated ?? existing;
+  }
+
+  const now = new Date().toISOString();
+  return users.insert({
+    id: newUserId(),
+    email,
+    name: identity.name?.trim() ?? "",
+    oidc: { issuer: identity.issuer, subject: identity.subject },
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function recordSignIn(id: string): Promise<User | null> {
+  return users.update(id, (current) => ({ ...current, lastSignInAt: new Date().toISOString() }));
+}
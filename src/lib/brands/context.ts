@@ -0,0 +1,99 @@
+// src/lib/brands/context.ts
+import type { BrandProfile, Brief } from "@/types/engine";
+import type { GuardianLexicon } from "@/lib/guardian/lexicon";
+
+/**
+ * Brand Memory → generation context.
+ *
+ * Prompts get a brand section, mock output picks up the brand's tone and
+ * audience instead of generic placeholders, and the Brand Guardian
+ * treats forbidden words like any other lexicon topic.
+ *
+ * No server imports, so BriefContext can use it to draft briefs too.
+ */
+
+/**
+ * Prompt section describing the brand. Empty when there's no brand.
+ */
+export function brandPromptBlock(brand: BrandProfile | null | undefined): string {
+  if (!brand) return "";
+
+  const lines = [
+    `Brand: ${brand.name}`,
+    brand.culturalPositioning && `Cultural positioning: ${brand.culturalPositioning}`,
+    brand.tone.length > 0 && `Tone of voice: ${brand.tone.join("; ")}`,
+    brand.audienceClusters.length > 0 &&
+      `Audience clusters:\n${brand.audienceClusters
+        .map((c) => `- ${c.name}${c.description ? `: ${c.description}` : ""}`)
+        .join("\n")}`,
+    brand.preferredWords.length > 0 && `Prefer these words: ${brand.preferredWords.join(", ")}`,
+    brand.forbiddenWords.length > 0 &&
+      `NEVER use these words: ${brand.forbiddenWords.join(", ")}`,
+    brand.glossary.length > 0 &&
+      `Glossary (use these terms as defined):\n${brand.glossary
+        .map((g) => `- ${g.term}${g.definition ? `: ${g.definition}` : ""}`)
+        .join("\n")}`,
+    brand.competitors.length > 0 &&
+      `Competitors (never name or imitate them): ${brand.competitors.join(", ")}`,
+  ].filter(Boolean);
+
+  return `
+Write on-voice for this brand:
+${lines.join("\n")}
+`;
+}
+
+/**
+ * "Name: description" for one audience cluster, cycling through them.
+ */
+export function brandAudience(
+  brand: BrandProfile | null | undefined,
+  index = 0
+): string | undefined {
+  if (!brand?.audienceClusters.length) return undefined;
+  const cluster = brand.audienceClusters[index % brand.audienceClusters.length];
+  return cluster.description ? `${cluster.name}: ${cluster.description}` : cluster.name;
+}
+
+/**
+ * Fills the brief fields a brand profile can answer (tone, audience,
+ * positioning) without overwriting anything already written.
+ */
+export function applyBrandToBrief(brief: Brief, brand: BrandProfile | null | undefined): Brief {
+  if (!brand) return brief;
+
+  return {
+    ...brief,
+    brandId: brand.id,
+    primaryAudience: brief.primaryAudience || brandAudience(brand) || "",
+    toneAndVoice: brief.toneAndVoice.length ? brief.toneAndVoice : brand.tone,
+    creativeMandatories: brand.culturalPositioning
+      ? [...brief.creativeMandatories, `Stay true to: ${brand.culturalPositioning}`]
+      : brief.creativeMandatories,
+  };
+}
+
+/**
+ * The Guardian lexicon plus the brand's forbidden words as one topic.
+ */
+export function brandLexicon(
+  lexicon: GuardianLexicon,
+  brand: BrandProfile | null | undefined
+): GuardianLexicon {
+  if (!brand?.forbiddenWords.length) return lexicon;
+
+  return {
+    ...lexicon,
+    topics: [
+      ...lexicon.topics,
+      {
+        id: `brand:${brand.id}`,
+        label: `${brand.name} forbidden words`,
+        terms: brand.forbiddenWords,
+        reason: `${brand.name} never uses this word.`,
+        severity: "medium",
+        replacement: "",
+      },
+    ],
+  };
+}
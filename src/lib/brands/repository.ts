@@ -0,0 +1,92 @@
+// src/lib/brands/repository.ts
+import type { z } from "zod";
+import type { BrandProfile } from "@/types/engine";
+import { BrandProfileSchema } from "@/lib/schema/engine";
+import type { BrandCreateRequestSchema } from "@/lib/schema/requests";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+
+/**
+ * Server-side Brand Memory storage.
+ * Routes talk to this module, never to the collection directly.
+ *
+ * Brands belong to a workspace; another workspace's brand is as unknown
+ * as a missing one.
+ */
+
+const brands = createJsonCollection<BrandProfile>("brands", BrandProfileSchema);
+
+export type BrandInput = z.infer<typeof BrandCreateRequestSchema>;
+
+export class BrandNotFoundError extends Error {
+  constructor(public brandId: string) {
+    super(`Brand "${brandId}" not found`);
+    this.name = "BrandNotFoundError";
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "brand";
+}
+
+export async function listBrands(workspaceId: string): Promise<BrandProfile[]> {
+  const all = await brands.list();
+  return all
+    .filter((brand) => brand.workspaceId === workspaceId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getBrand(id: string): Promise<BrandProfile | null> {
+  return brands.get(id);
+}
+
+/**
+ * Generator routes accept an optional brandId; a missing id means "no
+ * brand", an unknown one (or one from another workspace) throws
+ * BrandNotFoundError.
+ */
+export async function resolveBrand(
+  id: string | undefined,
+  workspaceId: string
+): Promise<BrandProfile | null> {
+  if (!id) return null;
+  const brand = await brands.get(id);
+  if (!brand || brand.workspaceId !== workspaceId) throw new BrandNotFoundError(id);
+  return brand;
+}
+
+export function createBrand(input: BrandInput): Promise<BrandProfile> {
+  const now = new Date().toISOString();
+  return brands.insert(
+    BrandProfileSchema.parse({
+      ...input,
+      id: input.id ?? `brand-${slugify(input.name)}-${Date.now()}`,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+}
+
+/**
+ * Merges a patch into the stored profile and re-validates the result.
+ * `id`, `workspaceId` and `createdAt` are immutable; `updatedAt` is always
+ * bumped. Throws the ZodError if the merged profile is invalid.
+ */
+export function updateBrand(
+  id: string,
+  patch: Record<string, unknown>
+): Promise<BrandProfile | null> {
+  return brands.update(id, (current) =>
+    BrandProfileSchema.parse({
+      ...current,
+      ...patch,
+      id: current.id,
+      workspaceId: current.workspaceId,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+}
+
+export function deleteBrand(id: string): Promise<boolean> {
+  return brands.remove(id);
+}
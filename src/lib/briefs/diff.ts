@@ -0,0 +1,86 @@
+// src/lib/briefs/diff.ts
+import type { Brief } from "@/types/engine";
+
+/**
+ * What changed between two versions of the same brief. Text fields are
+ * compared whole; list fields report the items added and removed.
+ * Pure, so the editor can diff any two versions in the browser.
+ */
+
+export const BRIEF_TEXT_FIELDS = {
+  title: "Title",
+  status: "Status",
+  objective: "Objective",
+  primaryAudience: "Primary audience",
+  coreMessage: "Core message",
+} as const;
+
+export const BRIEF_LIST_FIELDS = {
+  toneAndVoice: "Tone and voice",
+  contentRequirements: "Content requirements",
+  creativeMandatories: "Creative mandatories",
+  guardrails: "Guardrails",
+  successMetrics: "Success metrics",
+  exampleConcepts: "Example concepts",
+} as const;
+
+export type BriefTextField = keyof typeof BRIEF_TEXT_FIELDS;
+export type BriefListField = keyof typeof BRIEF_LIST_FIELDS;
+
+export type BriefChange =
+  | {
+      kind: "text";
+      field: BriefTextField | "trend";
+      label: string;
+      from: string;
+      to: string;
+    }
+  | {
+      kind: "list";
+      field: BriefListField;
+      label: string;
+      added: string[];
+      removed: string[];
+    };
+
+/**
+ * Field-level diff from `base` to `other`; only fields that differ are
+ * returned.
+ */
+export function diffBriefs(base: Brief, other: Brief): BriefChange[] {
+  const changes: BriefChange[] = [];
+
+  for (const [field, label] of Object.entries(BRIEF_TEXT_FIELDS) as [
+    BriefTextField,
+    string,
+  ][]) {
+    if (base[field] !== other[field]) {
+      changes.push({ kind: "text", field, label, from: base[field], to: other[field] });
+    }
+  }
+
+  if (base.trend.id !== other.trend.id) {
+    changes.push({
+      kind: "text",
+      field: "trend",
+      label: "Trend",
+      from: base.trend.name,
+      to: other.trend.name,
+    });
+  }
+
+  for (const [field, label] of Object.entries(BRIEF_LIST_FIELDS) as [
+    BriefListField,
+    string,
+  ][]) {
+    const before = new Set(base[field]);
+    const after = new Set(other[field]);
+    const added = other[field].filter((item) => !before.has(item));
+    const removed = base[field].filter((item) => !after.has(item));
+    if (added.length || removed.length) {
+      changes.push({ kind: "list", field, label, added, removed });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,49 @@
+// src/lib/briefs/draft.ts
+import type { Angle, Brief, Trend } from "@/types/engine";
+
+/**
+ * Trend (+ optional Angle) → canonical draft Brief.
+ * Shared by BriefContext and the Trends page shortcuts so every entry
+ * point produces the same shape.
+ */
+export function draftBrief(
+  trend: Trend,
+  angle?: Angle,
+  overrides: Partial<Brief> = {}
+): Brief {
+  const now = new Date().toISOString();
+
+  return {
+    id: `brief-${trend.id}-${angle ? `${angle.id}-` : ""}${Date.now()}`,
+    title: angle ? `${angle.label} • ${trend.name}` : trend.name,
+    trend,
+    angle,
+    status: "Draft",
+
+    summary: angle
+      ? `Angle "${angle.label}" on trend "${trend.name}"${
+          angle.audience ? ` targeting ${angle.audience}` : ""
+        }.`
+      : trend.summary,
+    coreMessage:
+      angle?.hook ||
+      "Turn this cultural signal into creator-native content that feels inevitable.",
+    objective: angle?.outcome || "Drive meaningful action from the right audience.",
+    primaryAudience: angle?.audience || "",
+
+    toneAndVoice: [],
+    contentRequirements: angle
+      ? [`${angle.format} for ${angle.platform}`]
+      : trend.formatLabel
+      ? [trend.formatLabel]
+      : [],
+    creativeMandatories: [],
+    guardrails: trend.riskNotes ? [trend.riskNotes] : [],
+    successMetrics: [],
+    exampleConcepts: angle?.coreSequence.length ? [angle.coreSequence.join(" → ")] : [],
+
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
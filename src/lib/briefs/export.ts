@@ -0,0 +1,243 @@
+// src/lib/briefs/export.ts
+import type { BrandProfile, Brief, BriefTemplate } from "@/types/engine";
+import { BriefSchema } from "@/lib/schema/engine";
+import { BRIEF_LIST_FIELDS, type BriefListField } from "./diff";
+
+/**
+ * Client-ready brief exports: Markdown, self-contained HTML (inline CSS,
+ * no external assets, print-to-PDF friendly) and canonical JSON.
+ *
+ * Every format carries the same content: the brief fields, the trend's
+ * mechanic and risk notes, and the chosen angle's beats. HTML styling
+ * comes from a template, picked per brand so every export for a client
+ * looks the same.
+ */
+
+export type BriefExportFormat = "markdown" | "html" | "json";
+
+export type BriefExportOptions = {
+  brand?: BrandProfile | null;
+  template?: BriefTemplate; // overrides the brand's template
+};
+
+type TemplateStyle = {
+  label: string;
+  accent: string; // used when the brand has no accent colour
+  css: (accent: string) => string;
+};
+
+const BASE_CSS = `
+*{box-sizing:border-box}
+body{margin:0;color:#1a1a1a;background:#fff;line-height:1.55;font-size:14px}
+main{max-width:760px;margin:0 auto;padding:48px 40px}
+h1{font-size:28px;line-height:1.2;margin:4px 0 8px}
+h2{font-size:13px;letter-spacing:.12em;text-transform:uppercase;margin:32px 0 8px}
+h3{font-size:15px;margin:16px 0 4px}
+p{margin:0 0 8px}
+ul,ol{margin:0 0 8px;padding-left:20px}
+li{margin:2px 0}
+.meta{font-size:12px;color:#666}
+.label{font-weight:600}
+.risk{border-left:3px solid #c2410c;background:#fff7ed;padding:8px 12px;margin:8px 0}
+footer{margin-top:40px;font-size:11px;color:#888}
+section{break-inside:avoid}
+@page{margin:18mm 16mm}
+@media print{main{padding:0}a{color:inherit;text-decoration:none}}
+`;
+
+export const BRIEF_TEMPLATES: Record<BriefTemplate, TemplateStyle> = {
+  studio: {
+    label: "Studio",
+    accent: "#ec4899",
+    css: (accent) => `
+body{font-family:"Inter","Helvetica Neue",Arial,sans-serif}
+header{background:#0a0a0a;color:#fafafa;margin:-48px -40px 24px;padding:40px;border-bottom:6px solid ${accent}}
+header .meta{color:#a3a3a3}
+h2{color:${accent}}
+@media print{header{margin:0 0 24px;-webkit-print-color-adjust:exact;print-color-adjust:exact}}
+`,
+  },
+  editorial: {
+    label: "Editorial",
+    accent: "#b45309",
+    css: (accent) => `
+body{font-family:Georgia,"Times New Roman",serif}
+header{border-bottom:1px solid #1a1a1a;padding-bottom:16px;margin-bottom:24px}
+h1{font-size:34px;font-weight:normal}
+h2{font-family:"Helvetica Neue",Arial,sans-serif;color:${accent};border-top:1px solid #e5e5e5;padding-top:12px}
+`,
+  },
+  minimal: {
+    label: "Minimal",
+    accent: "#111111",
+    css: (accent) => `
+body{font-family:-apple-system,"Segoe UI",Arial,sans-serif;font-size:13px}
+header{margin-bottom:24px}
+h1{font-size:24px}
+h2{font-size:11px;color:${accent};letter-spacing:.16em}
+`,
+  },
+};
+
+export function resolveBriefTemplate(options: BriefExportOptions): BriefTemplate {
+  return options.template ?? options.brand?.briefTemplate ?? "studio";
+}
+
+function listFields(brief: Brief): [string, string[]][] {
+  return (Object.entries(BRIEF_LIST_FIELDS) as [BriefListField, string][])
+    .map(([field, label]): [string, string[]] => [label, brief[field]])
+    .filter(([, items]) => items.length > 0);
+}
+
+/**
+ * Canonical JSON: the brief exactly as the engine schema defines it.
+ */
+export function renderBriefJson(brief: Brief): string {
+  return JSON.stringify(BriefSchema.parse(brief), null, 2);
+}
+
+export function renderBriefMarkdown(brief: Brief, options: BriefExportOptions = {}): string {
+  const { trend, angle } = brief;
+  const lines: string[] = [`# ${brief.title}`, ""];
+
+  const meta = [
+    options.brand?.name && `Client: ${options.brand.name}`,
+    `Status: ${brief.status}`,
+    `Updated: ${brief.updatedAt.slice(0, 10)}`,
+  ].filter(Boolean);
+  lines.push(meta.join(" · "), "");
+
+  if (brief.objective) lines.push("## Objective", "", brief.objective, "");
+  if (brief.primaryAudience) lines.push("## Primary audience", "", brief.primaryAudience, "");
+  if (brief.coreMessage) lines.push("## Core message", "", brief.coreMessage, "");
+
+  lines.push(
+    "## Trend",
+    "",
+    `**${trend.name}** (${trend.signalStrengthStage}, strength ${trend.signalStrengthScore}/100)`,
+    "",
+    trend.summary,
+    "",
+    `**Mechanic:** ${trend.mechanic}`,
+    ""
+  );
+  if (trend.platformFit.length) lines.push(`**Shows up on:** ${trend.platformFit.join(", ")}`, "");
+  if (trend.brandFitNotes) lines.push(`**Brand fit:** ${trend.brandFitNotes}`, "");
+  if (trend.riskNotes) lines.push(`> **Risk notes:** ${trend.riskNotes}`, "");
+
+  if (angle) {
+    lines.push("## Angle", "", `**${angle.label}** — ${angle.format} for ${angle.platform}`, "");
+    if (angle.hook) lines.push(`**Hook:** ${angle.hook}`, "");
+    if (angle.coreSequence.length) {
+      lines.push("**Beats**", "", ...angle.coreSequence.map((beat, i) => `${i + 1}. ${beat}`), "");
+    }
+    if (angle.brandFitRationale) lines.push(`**Why it fits:** ${angle.brandFitRationale}`, "");
+  }
+
+  for (const [label, items] of listFields(brief)) {
+    lines.push(`## ${label}`, "", ...items.map((item) => `- ${item}`), "");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function htmlSection(title: string, body: string): string {
+  return `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+}
+
+function htmlList(items: readonly string[], ordered = false): string {
+  const tag = ordered ? "ol" : "ul";
+  return `<${tag}>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+}
+
+export function renderBriefHtml(brief: Brief, options: BriefExportOptions = {}): string {
+  const { trend, angle } = brief;
+  const template = BRIEF_TEMPLATES[resolveBriefTemplate(options)];
+  const accent = options.brand?.accentColor ?? template.accent;
+  const p = (text: string) => `<p>${escapeHtml(text)}</p>`;
+  const labelled = (label: string, text: string) =>
+    `<p><span class="label">${escapeHtml(label)}:</span> ${escapeHtml(text)}</p>`;
+
+  const sections: string[] = [];
+  if (brief.objective) sections.push(htmlSection("Objective", p(brief.objective)));
+  if (brief.primaryAudience) {
+    sections.push(htmlSection("Primary audience", p(brief.primaryAudience)));
+  }
+  if (brief.coreMessage) sections.push(htmlSection("Core message", p(brief.coreMessage)));
+
+  sections.push(
+    htmlSection(
+      "Trend",
+      [
+        `<h3>${escapeHtml(trend.name)}</h3>`,
+        `<p class="meta">${escapeHtml(
+          `${trend.signalStrengthStage} · strength ${trend.signalStrengthScore}/100`
+        )}</p>`,
+        p(trend.summary),
+        labelled("Mechanic", trend.mechanic),
+        trend.platformFit.length ? labelled("Shows up on", trend.platformFit.join(", ")) : "",
+        trend.brandFitNotes ? labelled("Brand fit", trend.brandFitNotes) : "",
+        trend.riskNotes
+          ? `<div class="risk"><span class="label">Risk notes:</span> ${escapeHtml(
+              trend.riskNotes
+            )}</div>`
+          : "",
+      ].join("")
+    )
+  );
+
+  if (angle) {
+    sections.push(
+      htmlSection(
+        "Angle",
+        [
+          `<h3>${escapeHtml(angle.label)}</h3>`,
+          `<p class="meta">${escapeHtml(`${angle.format} · ${angle.platform}`)}</p>`,
+          angle.hook ? labelled("Hook", angle.hook) : "",
+          angle.coreSequence.length ? htmlList(angle.coreSequence, true) : "",
+          angle.brandFitRationale ? labelled("Why it fits", angle.brandFitRationale) : "",
+        ].join("")
+      )
+    );
+  }
+
+  for (const [label, items] of listFields(brief)) {
+    sections.push(htmlSection(label, htmlList(items)));
+  }
+
+  const meta = [
+    options.brand?.name,
+    brief.status,
+    `Updated ${brief.updatedAt.slice(0, 10)}`,
+  ].filter(Boolean) as string[];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(brief.title)}</title>
+<style>${BASE_CSS}${template.css(accent)}</style>
+</head>
+<body>
+<main>
+<header>
+<p class="meta">${escapeHtml(meta.join(" · "))}</p>
+<h1>${escapeHtml(brief.title)}</h1>
+</header>
+${sections.join("\n")}
+<footer>${escapeHtml(brief.id)}</footer>
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,145 @@
+// src/lib/briefs/repository.ts
+import type { Brief, BriefStatus } from "@/types/engine";
+import { BriefSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { deleteWorkflowEvents, recordTransition } from "@/lib/workflow/repository";
+import { diffBriefs } from "./diff";
+import {
+  deleteBriefVersions,
+  getBriefVersion,
+  listBriefVersions,
+  recordBriefVersion,
+} from "./versions";
+
+/**
+ * Server-side brief storage.
+ * Routes talk to this module, never to the collection directly.
+ *
+ * Every create and every update that changes the brief records a version
+ * (see ./versions), so any earlier state can be diffed and restored.
+ *
+ * Status belongs to the approval workflow (src/lib/workflow): new briefs
+ * start as drafts, and edits and restores leave the status alone, except
+ * that changing an approved brief sends it back to "Changes requested" so
+ * what ships is always what was signed off.
+ */
+
+const briefs = createJsonCollection<Brief>("briefs", BriefSchema);
+
+export type BriefFilters = {
+  workspaceId?: string;
+  status?: BriefStatus;
+  trendId?: string;
+};
+
+export async function listBriefs(filters: BriefFilters = {}): Promise<Brief[]> {
+  const all = await briefs.list();
+  return all
+    .filter((brief) => !filters.workspaceId || brief.workspaceId === filters.workspaceId)
+    .filter((brief) => !filters.status || brief.status === filters.status)
+    .filter((brief) => !filters.trendId || brief.trend.id === filters.trendId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getBrief(id: string): Promise<Brief | null> {
+  return briefs.get(id);
+}
+
+export async function createBrief(brief: Brief): Promise<Brief> {
+  const created = await briefs.insert({ ...brief, status: "Draft" });
+  await recordBriefVersion(created);
+  return created;
+}
+
+/**
+ * Merges a patch into the stored brief and re-validates the result.
+ * `id`, `status`, `workspaceId`, `createdBy` and `createdAt` are immutable;
+ * `updatedAt` is always bumped, and a version is recorded if anything
+ * visible changed. A change to an approved brief reopens it, recorded in
+ * the workflow history as `by`'s move.
+ * Throws the ZodError if the merged brief is invalid.
+ */
+export async function updateBrief(
+  id: string,
+  patch: Record<string, unknown>,
+  options: { by: string; restoredFrom?: number }
+): Promise<Brief | null> {
+  const stored = await briefs.get(id);
+  if (!stored) return null;
+
+  // Briefs saved before history existed get their current state as v1
+  const [latest] = await listBriefVersions(id);
+  if (!latest) await recordBriefVersion(stored);
+
+  let reopened = false;
+  const updated = await briefs.update(id, (current) => {
+    const next = BriefSchema.parse({
+      ...current,
+      ...patch,
+      id: current.id,
+      status: current.status,
+      workspaceId: current.workspaceId,
+      createdBy: current.createdBy,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    });
+    reopened = current.status === "Approved" && diffBriefs(current, next).length > 0;
+    if (reopened) next.status = "Changes requested";
+    return next;
+  });
+  if (!updated) return null;
+
+  await recordBriefVersion(updated, options);
+  if (reopened) {
+    await recordTransition({
+      subject: "brief",
+      subjectId: id,
+      workspaceId: updated.workspaceId,
+      from: "Approved",
+      to: updated.status,
+      by: options.by,
+      note: options.restoredFrom
+        ? `Restored v${options.restoredFrom} after approval`
+        : "Edited after approval",
+    });
+  }
+  return updated;
+}
+
+/**
+ * Makes an earlier version current again. The restore is itself a new
+ * version, so it can be undone the same way. Returns null when the brief
+ * or the version doesn't exist.
+ */
+export async function restoreBriefVersion(
+  id: string,
+  version: number,
+  by: string
+): Promise<Brief | null> {
+  const target = await getBriefVersion(id, version);
+  if (!target) return null;
+
+  return updateBrief(id, target.brief, { by, restoredFrom: version });
+}
+
+/**
+ * Only the workflow calls this; the move is a version like any edit.
+ */
+export async function setBriefStatus(id: string, status: BriefStatus): Promise<Brief | null> {
+  const updated = await briefs.update(id, (current) => ({
+    ...current,
+    status,
+    updatedAt: new Date().toISOString(),
+  }));
+  if (updated) await recordBriefVersion(updated);
+  return updated;
+}
+
+export async function deleteBrief(id: string): Promise<boolean> {
+  const deleted = await briefs.remove(id);
+  if (deleted) {
+    await deleteBriefVersions(id);
+    await deleteWorkflowEvents("brief", id);
+  }
+  return deleted;
+}
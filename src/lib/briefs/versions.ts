@@ -0,0 +1,58 @@
+// src/lib/briefs/versions.ts
+import type { Brief, BriefVersion } from "@/types/engine";
+import { BriefVersionSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { diffBriefs } from "./diff";
+
+/**
+ * Brief version history. The brief repository records a version on every
+ * save; nothing else writes here.
+ */
+
+const versions = createJsonCollection<BriefVersion>("brief-versions", BriefVersionSchema);
+
+/**
+ * Newest first.
+ */
+export async function listBriefVersions(briefId: string): Promise<BriefVersion[]> {
+  const all = await versions.list();
+  return all
+    .filter((version) => version.briefId === briefId)
+    .sort((a, b) => b.version - a.version);
+}
+
+export function getBriefVersion(briefId: string, version: number): Promise<BriefVersion | null> {
+  return versions.get(`${briefId}@v${version}`);
+}
+
+/**
+ * Appends the brief as the next version, unless nothing a reader would
+ * see changed since the latest one (then returns that one).
+ */
+export async function recordBriefVersion(
+  brief: Brief,
+  options: { restoredFrom?: number } = {}
+): Promise<BriefVersion> {
+  const [latest] = await listBriefVersions(brief.id);
+  if (latest && !options.restoredFrom && !diffBriefs(latest.brief, brief).length) {
+    return latest;
+  }
+
+  const version = (latest?.version ?? 0) + 1;
+  return versions.insert(
+    BriefVersionSchema.parse({
+      id: `${brief.id}@v${version}`,
+      briefId: brief.id,
+      version,
+      brief,
+      restoredFrom: options.restoredFrom,
+      createdAt: brief.updatedAt,
+    })
+  );
+}
+
+export async function deleteBriefVersions(briefId: string): Promise<void> {
+  for (const version of await listBriefVersions(briefId)) {
+    await versions.remove(version.id);
+  }
+}
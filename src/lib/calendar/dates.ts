@@ -0,0 +1,67 @@
+// src/lib/calendar/dates.ts
+
+/**
+ * Calendar-day helpers. Entries are scheduled on plain YYYY-MM-DD days,
+ * so everything here works in UTC: a day never shifts when the viewer's
+ * timezone differs from the server's. Safe to use in the browser.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseIsoDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+export function addDays(value: string, days: number): string {
+  return toIsoDate(new Date(parseIsoDate(value).getTime() + days * DAY_MS));
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Weeks start on Monday.
+ */
+export function startOfWeek(value: string): string {
+  const weekday = (parseIsoDate(value).getUTCDay() + 6) % 7; // Mon = 0
+  return addDays(value, -weekday);
+}
+
+export function weekDays(value: string): string[] {
+  const start = startOfWeek(value);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+export function startOfMonth(value: string): string {
+  return `${value.slice(0, 7)}-01`;
+}
+
+export function addMonths(value: string, months: number): string {
+  const date = parseIsoDate(startOfMonth(value));
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return toIsoDate(date);
+}
+
+/**
+ * Whole weeks covering the month `value` falls in, Monday to Sunday,
+ * including the spill-over days from the neighbouring months.
+ */
+export function monthGrid(value: string): string[][] {
+  const first = startOfMonth(value);
+  const last = addDays(addMonths(first, 1), -1);
+  const weeks: string[][] = [];
+
+  for (let start = startOfWeek(first); start <= last; start = addDays(start, 7)) {
+    weeks.push(weekDays(start));
+  }
+  return weeks;
+}
@@ -0,0 +1,93 @@
+// src/lib/calendar/ical.ts
+import type { CalendarEntry } from "@/types/engine";
+import { addDays } from "./dates";
+
+/**
+ * iCalendar (RFC 5545) feed of calendar entries, for subscribing from
+ * Google Calendar, Outlook or Apple Calendar. Each entry is an all-day
+ * event on its due date; UIDs are stable so edits update in place.
+ */
+
+const PRODUCT_ID = "-//Appatize//Content Calendar//EN";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Lines longer than 75 octets are folded: CRLF + one space.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75; // continuation lines lose one to the space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function compactDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function compactTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function eventLines(entry: CalendarEntry, labelFor: (entry: CalendarEntry) => string): string[] {
+  const details = [
+    `Status: ${entry.status}`,
+    entry.owner && `Owner: ${entry.owner}`,
+    entry.format && `Format: ${entry.format}`,
+    `Brief: ${entry.briefId}`,
+    entry.scriptId && `Script: ${entry.scriptId}`,
+    entry.saturation?.message && `Warning: ${entry.saturation.message}`,
+    entry.notes,
+  ].filter(Boolean);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${entry.id}@appatize`,
+    `DTSTAMP:${compactTimestamp(entry.updatedAt)}`,
+    `DTSTART;VALUE=DATE:${compactDate(entry.dueDate)}`,
+    `DTEND;VALUE=DATE:${compactDate(addDays(entry.dueDate, 1))}`,
+    `SUMMARY:${escapeText(`[${labelFor(entry)}] ${entry.title}`)}`,
+    `DESCRIPTION:${escapeText(details.join("\n"))}`,
+    `CATEGORIES:${escapeText(entry.platform)}`,
+    `STATUS:${entry.status === "published" ? "CONFIRMED" : "TENTATIVE"}`,
+    "END:VEVENT",
+  ];
+}
+
+export function renderICalendar(
+  entries: readonly CalendarEntry[],
+  options: { name?: string; labelFor?: (entry: CalendarEntry) => string } = {}
+): string {
+  const labelFor = options.labelFor ?? ((entry) => entry.platform);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name ?? "Appatize content calendar")}`,
+    ...entries.flatMap((entry) => eventLines(entry, labelFor)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
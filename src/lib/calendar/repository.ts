@@ -0,0 +1,161 @@
+// src/lib/calendar/repository.ts
+import type { z } from "zod";
+import type { Brief, CalendarEntry, CalendarEntryStatus, PlatformMode } from "@/types/engine";
+import { getBrief, listBriefs } from "@/lib/briefs/repository";
+import { CalendarEntrySchema } from "@/lib/schema/engine";
+import type { CalendarEntryCreateRequestSchema } from "@/lib/schema/requests";
+import { getScript } from "@/lib/scripts/repository";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { checkSaturation } from "./saturation";
+
+/**
+ * Server-side content calendar storage.
+ * Routes talk to this module, never to the collection directly.
+ *
+ * Every entry must point at a stored brief in its workspace (and, if set,
+ * a script written for that brief). The saturation check is attached on read from the
+ * brief's trend snapshot, so it follows edits to either side.
+ */
+
+const entries = createJsonCollection<CalendarEntry>("calendar", CalendarEntrySchema);
+
+export type CalendarEntryInput = z.infer<typeof CalendarEntryCreateRequestSchema>;
+
+export type CalendarFilters = {
+  workspaceId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  briefId?: string;
+  owner?: string;
+  platform?: PlatformMode;
+  status?: CalendarEntryStatus;
+};
+
+/**
+ * The entry links to a brief or script that doesn't exist (or a script
+ * that belongs to a different brief).
+ */
+export class CalendarLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarLinkError";
+  }
+}
+
+// Computed on read; never persisted
+const COMPUTED_FIELDS = ["saturation"];
+
+async function assertLinks(
+  workspaceId: string | undefined,
+  briefId: string,
+  scriptId: string | undefined
+) {
+  const brief = await getBrief(briefId);
+  if (!brief || brief.workspaceId !== workspaceId) throw new CalendarLinkError(`Brief "${briefId}" not found`);
+
+  if (scriptId) {
+    const script = await getScript(scriptId);
+    if (!script || script.workspaceId !== workspaceId) throw new CalendarLinkError(`Script "${scriptId}" not found`);
+    if (script.briefId !== briefId) {
+      throw new CalendarLinkError(`Script "${scriptId}" belongs to brief "${script.briefId}"`);
+    }
+  }
+}
+
+function withSaturation(entry: CalendarEntry, brief: Brief | undefined): CalendarEntry {
+  if (!brief) return { ...entry, saturation: undefined };
+  return {
+    ...entry,
+    saturation: checkSaturation(brief.trend, brief.createdAt.slice(0, 10), entry.dueDate),
+  };
+}
+
+async function attachSaturation(list: CalendarEntry[]): Promise<CalendarEntry[]> {
+  const briefs = new Map((await listBriefs()).map((brief) => [brief.id, brief]));
+  return list.map((entry) => withSaturation(entry, briefs.get(entry.briefId)));
+}
+
+export async function listCalendarEntries(
+  filters: CalendarFilters = {}
+): Promise<CalendarEntry[]> {
+  const owner = filters.owner?.trim().toLowerCase();
+  const all = await entries.list();
+
+  const matching = all
+    .filter((entry) => !filters.workspaceId || entry.workspaceId === filters.workspaceId)
+    .filter((entry) => !filters.from || entry.dueDate >= filters.from)
+    .filter((entry) => !filters.to || entry.dueDate <= filters.to)
+    .filter((entry) => !filters.briefId || entry.briefId === filters.briefId)
+    .filter((entry) => !owner || entry.owner.toLowerCase() === owner)
+    .filter((entry) => !filters.platform || entry.platform === filters.platform)
+    .filter((entry) => !filters.status || entry.status === filters.status)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.title.localeCompare(b.title));
+
+  return attachSaturation(matching);
+}
+
+export async function getCalendarEntry(id: string): Promise<CalendarEntry | null> {
+  const entry = await entries.get(id);
+  if (!entry) return null;
+  return withSaturation(entry, (await getBrief(entry.briefId)) ?? undefined);
+}
+
+export async function createCalendarEntry(input: CalendarEntryInput): Promise<CalendarEntry> {
+  await assertLinks(input.workspaceId, input.briefId, input.scriptId);
+
+  const now = new Date().toISOString();
+  const entry = await entries.insert(
+    CalendarEntrySchema.parse({
+      ...input,
+      id: input.id ?? `post-${input.briefId}-${Date.now()}`,
+      saturation: undefined,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+  return withSaturation(entry, (await getBrief(entry.briefId)) ?? undefined);
+}
+
+/**
+ * Merges a patch into the stored entry and re-validates the result.
+ * `id`, `workspaceId` and `createdAt` are immutable; `updatedAt` is always
+ * bumped. Relinking is checked like a create, and `null` clears an optional
+ * field (`{ scriptId: null }` unlinks the script). Throws the ZodError if
+ * the merged entry is invalid.
+ */
+export async function updateCalendarEntry(
+  id: string,
+  patch: Record<string, unknown>
+): Promise<CalendarEntry | null> {
+  const safePatch = Object.fromEntries(
+    Object.entries(patch)
+      .filter(([key]) => !COMPUTED_FIELDS.includes(key))
+      .map(([key, value]) => [key, value === null ? undefined : value])
+  );
+
+  const stored = await entries.get(id);
+  if (!stored) return null;
+
+  if ("briefId" in safePatch || "scriptId" in safePatch) {
+    const merged = { ...stored, ...safePatch } as CalendarEntry;
+    await assertLinks(stored.workspaceId, merged.briefId, merged.scriptId);
+  }
+
+  const updated = await entries.update(id, (current) =>
+    CalendarEntrySchema.parse({
+      ...current,
+      ...safePatch,
+      id: current.id,
+      workspaceId: current.workspaceId,
+      saturation: undefined,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+  if (!updated) return null;
+  return withSaturation(updated, (await getBrief(updated.briefId)) ?? undefined);
+}
+
+export function deleteCalendarEntry(id: string): Promise<boolean> {
+  return entries.remove(id);
+}
@@ -0,0 +1,56 @@
+// src/lib/calendar/saturation.ts
+import type { SaturationCheck, Trend, TrendStage } from "@/types/engine";
+import { addDays, daysBetween } from "./dates";
+
+/**
+ * Rough saturation projection for scheduling.
+ *
+ * From the stage a trend was in when it was briefed, estimate how many
+ * days it has left before it saturates, then stretch or shrink that by
+ * momentum (fast-moving trends burn out sooner). It is a planning hint,
+ * not a forecast: the point is to flag posts that land well after the
+ * moment has passed.
+ */
+
+export const DAYS_TO_SATURATION: Record<TrendStage, number> = {
+  early: 56,
+  growing: 28,
+  peaking: 10,
+  saturated: 0,
+};
+
+/**
+ * 0.5× at momentum 100, 1× at 50, 1.5× at 0.
+ */
+function momentumFactor(trend: Trend): number {
+  const momentum = trend.momentumScore ?? 50;
+  return Math.min(1.5, Math.max(0.5, 1.5 - momentum / 100));
+}
+
+/**
+ * `observedOn` is the day the trend snapshot was taken (the brief's
+ * creation date).
+ */
+export function expectedSaturationDate(trend: Trend, observedOn: string): string {
+  const days = Math.round(
+    DAYS_TO_SATURATION[trend.signalStrengthStage] * momentumFactor(trend)
+  );
+  return addDays(observedOn, days);
+}
+
+export function checkSaturation(
+  trend: Trend,
+  observedOn: string,
+  dueDate: string
+): SaturationCheck {
+  const expectedAt = expectedSaturationDate(trend, observedOn);
+  const lateBy = daysBetween(expectedAt, dueDate);
+
+  if (lateBy <= 0) return { expectedAt, afterSaturation: false };
+
+  return {
+    expectedAt,
+    afterSaturation: true,
+    message: `Planned ${lateBy} day${lateBy === 1 ? "" : "s"} after "${trend.name}" is expected to saturate (${expectedAt}).`,
+  };
+}
@@ -0,0 +1,358 @@
+// src/lib/generators/angles.ts
+import { z } from "zod";
+import type { Angle, AngleDiversity, BrandProfile, QualityReport, Trend } from "@/types/engine";
+import { brandAudience, brandLexicon, brandPromptBlock } from "@/lib/brands/context";
+import { generateJson, LLMOutputError, type LLMResultMeta, type LLMSelection } from "@/lib/llm";
+import type { SeededRandom } from "@/lib/llm/random";
+import { loadLexicon } from "@/lib/guardian/lexicon";
+import { scanAngle } from "@/lib/guardian/scan";
+import { attemptSeed, constraintsBlock, runQualityGate } from "@/lib/quality/gate";
+import { ANGLE_CRITERIA } from "@/lib/quality/rubric";
+import { IncomingAngleSchema } from "@/lib/schema/requests";
+import { enforceAngleDistinctness } from "@/lib/similarity/angles";
+import { issuesFromZodError } from "@/lib/schema/validate";
+
+/**
+ * Trend → creative angles.
+ */
+
+const AnglesOutputSchema = z.object({
+  angles: z.array(IncomingAngleSchema).min(1),
+});
+
+const ANGLE_COUNT = 4;
+
+function buildPrompt(
+  trend: Trend,
+  brand: BrandProfile | null,
+  constraints: string[]
+): string {
+  return `
+You are the Cultural Intelligence Engine inside Appatize.
+
+Suggest ${ANGLE_COUNT} distinct creative ANGLES a brand could take on this trend.
+Each angle needs a different point of view, format or audience — not
+variations on the same idea.
+
+Trend details:
+Name: ${trend.name}
+Summary: ${trend.summary}
+Mechanic: ${trend.mechanic}
+Signal strength: ${trend.signalStrengthStage} (${trend.signalStrengthScore}/100)
+Platform fit: ${trend.platformFit.join(", ") || "Any"}
+Format: ${trend.formatLabel || "Short-form video"}
+${trend.riskNotes ? `Risk notes: ${trend.riskNotes}\n` : ""}${
+    trend.brandFitNotes ? `Brand fit notes: ${trend.brandFitNotes}\n` : ""
+  }${brandPromptBlock(brand)}${constraintsBlock(constraints)}
+Return ONLY valid JSON in the following structure:
+
+{
+  "angles": [
+    {
+      "label": "string",
+      "hook": "string (opening line, max 20 words)",
+      "format": "string",
+      "platform": "string",
+      "coreSequence": ["beat 1", "beat 2", "beat 3"],
+      "brandFitRationale": "string (why this angle suits the brand)",
+      "difficulty": "low | medium | high (production effort)",
+      "riskLevel": "low | medium | high (brand-safety risk)",
+      "seriesPotentialScore": 0-100,
+      "audience": "string",
+      "outcome": "string",
+      "notes": "string"
+    }
+  ]
+}
+`;
+}
+
+type Level = NonNullable<Angle["difficulty"]>;
+
+const LEVELS: readonly Level[] = ["low", "medium", "high"];
+
+const STAGE_SERIES_BONUS: Record<Trend["signalStrengthStage"], number> = {
+  early: 8,
+  growing: 5,
+  peaking: 0,
+  saturated: -10,
+};
+
+/**
+ * Offline angle templates. Each one is a genuinely different creative
+ * move (POV, transformation, documentary, commentary, teaching, format
+ * series), filled in with the trend's own name and mechanic.
+ */
+type AngleArchetype = {
+  key: string;
+  build: (trend: Trend, short: string) => Pick<
+    Angle,
+    "label" | "hook" | "format" | "coreSequence" | "audience" | "outcome" | "notes"
+  >;
+  platforms: readonly string[];
+  difficulty: Level;
+  risk: Level;
+  seriesBase: number;
+  fit: string;
+};
+
+const ARCHETYPES: readonly AngleArchetype[] = [
+  {
+    key: "pov",
+    build: (trend, short) => ({
+      label: `${short} as raw POV moments`,
+      hook: "Make the viewer feel like they just opened your camera roll, not your ad account.",
+      format: "Handheld POV video",
+      coreSequence: [
+        "Open mid-moment, phone-in-hand, no intro",
+        `Play the mechanic straight: ${trend.mechanic}`,
+        "Let the product show up as part of the scene, not the subject",
+        "End on an unresolved beat that invites a reply",
+      ],
+      audience: "Busy founders who scroll between calls",
+      outcome: "Drive profile visits & warm DMs",
+      notes: "Shoot handheld, mix in-screen recordings and messy B-roll. Keep pacing fast and captions punchy.",
+    }),
+    platforms: ["TikTok", "Reels"],
+    difficulty: "low",
+    risk: "low",
+    seriesBase: 70,
+    fit: "Puts the brand inside a real moment, so it reads as participation rather than advertising.",
+  },
+  {
+    key: "before-after",
+    build: (_trend, short) => ({
+      label: `${short} as before/after mini-stories`,
+      hook: "Show life before your product, then after — in one quick, punchy sequence.",
+      format: "Transformation edit",
+      coreSequence: [
+        "BEFORE: the familiar frustration, shot flat and cramped",
+        "The switch: one hard cut on the beat",
+        "AFTER: same scene, same person, visibly easier",
+        "On-screen label naming the one thing that changed",
+      ],
+      audience: "Operators and marketing leads",
+      outcome: "Generate saves and shares",
+      notes: "Use jump cuts for the transition, and add a clear on-screen label for BEFORE vs AFTER.",
+    }),
+    platforms: ["Reels", "TikTok"],
+    difficulty: "medium",
+    risk: "medium",
+    seriesBase: 62,
+    fit: "Makes the product benefit visible without a single claim in the voiceover.",
+  },
+  {
+    key: "micro-doc",
+    build: (trend) => ({
+      label: `A day inside ${trend.name.toLowerCase()} with one real person`,
+      hook: "Follow one real person through their day and let the product sneak into the story.",
+      format: "Micro-documentary",
+      coreSequence: [
+        "Morning cold open: who they are in one line",
+        "Three short scenes across the day, each tied to the trend",
+        "The product appears where it genuinely helps",
+        "Night close: what they'd tell someone starting out",
+      ],
+      audience: "Brand-aware but sceptical buyers",
+      outcome: "Build trust and familiarity",
+      notes: "Keep it intimate, not polished. Use voiceover or on-screen text to narrate the story simply.",
+    }),
+    platforms: ["YouTube Shorts", "Reels"],
+    difficulty: "high",
+    risk: "low",
+    seriesBase: 80,
+    fit: "Borrows credibility from a real person, which suits brands that want trust over reach.",
+  },
+  {
+    key: "commentary",
+    build: (trend, short) => ({
+      label: `Meme-native commentary on ${short}`,
+      hook: "React to the trend like a friend roasting it, not a brand preaching about it.",
+      format: "Green-screen reaction",
+      coreSequence: [
+        `Stitch or green-screen the most-copied ${trend.name.toLowerCase()} clip`,
+        "One dry line that says what everyone's thinking",
+        "Flip the joke back onto the brand's own category",
+        "Pin a comment asking for the next clip to react to",
+      ],
+      audience: "Younger, culture-native viewers",
+      outcome: "Spark comments and stitches",
+      notes: "Leverage trending audio where appropriate, but keep the joke tied back to your core problem.",
+    }),
+    platforms: ["TikTok", "YouTube Shorts"],
+    difficulty: "low",
+    risk: "high",
+    seriesBase: 66,
+    fit: "Works for brands with a self-aware voice; riskier for anyone who can't take a joke back.",
+  },
+  {
+    key: "breakdown",
+    build: (trend) => ({
+      label: `Why ${trend.name.toLowerCase()} works, explained in 30 seconds`,
+      hook: "Everyone's copying this format. Almost nobody knows why it actually works.",
+      format: "Talking-head explainer",
+      coreSequence: [
+        "Show the trend in one frame, then freeze it",
+        `Name the mechanic in plain words: ${trend.mechanic}`,
+        "Three quick reasons it lands, one per cut",
+        "How the brand would use it, as a teaser",
+      ],
+      audience: "Marketers and creators studying what works",
+      outcome: "Position the brand as the one that gets culture",
+      notes: "Confident but not smug. Use simple on-screen diagrams rather than jargon.",
+    }),
+    platforms: ["LinkedIn", "YouTube Shorts"],
+    difficulty: "medium",
+    risk: "low",
+    seriesBase: 58,
+    fit: "Suits brands selling expertise: the insight is the product demo.",
+  },
+  {
+    key: "challenge",
+    build: (trend, short) => ({
+      label: `${short} as a weekly community challenge`,
+      hook: "Our version took 40 takes. Show us yours in one.",
+      format: "Duet / stitch challenge",
+      coreSequence: [
+        "Brand attempts the trend and visibly struggles",
+        "Set one simple rule for the community version",
+        "Feature the best replies in the next post",
+        "Repeat weekly with a new twist on the rule",
+      ],
+      audience: "Creators who love a prompt",
+      outcome: "Grow user-generated content and follows",
+      notes: "Lead with the brand being a good sport. The replies are the content, so plan the follow-up.",
+    }),
+    platforms: ["TikTok", "Reels"],
+    difficulty: "medium",
+    risk: "medium",
+    seriesBase: 88,
+    fit: "Hands the format to the community, which suits brands that want reach through participation.",
+  },
+];
+
+/**
+ * Shortened label version for nicer angle titles.
+ */
+function shortTrendName(trend: Trend): string {
+  return trend.name.length > 40 ? trend.name.slice(0, 37).trim() + "..." : trend.name;
+}
+
+function raise(level: Level): Level {
+  return LEVELS[Math.min(LEVELS.indexOf(level) + 1, LEVELS.length - 1)];
+}
+
+/**
+ * Offline angles: a seeded pick of archetypes, filled in for this trend.
+ * Platforms follow the trend's platform fit where it overlaps; trend risk
+ * notes raise every angle's risk one level. A brand's audience clusters
+ * replace the stock audiences.
+ */
+function mockAngles(
+  trend: Trend,
+  brand: BrandProfile | null,
+  rng: SeededRandom
+): Omit<Angle, "id">[] {
+  const short = shortTrendName(trend);
+  const fits = trend.platformFit.map((p) => p.toLowerCase());
+
+  return rng
+    .shuffle(ARCHETYPES)
+    .slice(0, ANGLE_COUNT)
+    .map((archetype, i) => {
+      const platform =
+        archetype.platforms.find((p) => fits.includes(p.toLowerCase())) ??
+        archetype.platforms[0];
+      const score =
+        archetype.seriesBase + STAGE_SERIES_BONUS[trend.signalStrengthStage] + rng.int(-5, 5);
+      const built = archetype.build(trend, short);
+
+      return {
+        ...built,
+        platform,
+        audience: brandAudience(brand, i) ?? built.audience,
+        brandFitRationale: brand
+          ? `${archetype.fit} For ${brand.name}: ${brand.culturalPositioning || "keeps the brand voice intact."}`
+          : archetype.fit,
+        difficulty: archetype.difficulty,
+        riskLevel: trend.riskNotes ? raise(archetype.risk) : archetype.risk,
+        seriesPotentialScore: Math.max(0, Math.min(100, score)),
+      };
+    });
+}
+
+/**
+ * Model-supplied ids can't be trusted to be unique (the canned angles were
+ * all "a1"–"a4"), so every angle gets a fresh id scoped to its trend.
+ */
+function angleId(trend: Trend, index: number): string {
+  return `angle-${trend.id}-${Date.now().toString(36)}-${index + 1}`;
+}
+
+async function generateAnglesOnce(
+  trend: Trend,
+  brand: BrandProfile | null,
+  selection: LLMSelection,
+  constraints: string[],
+  attempt: number
+): Promise<{ output: Angle[]; meta: LLMResultMeta }> {
+  const { data, meta } = await generateJson(
+    {
+      prompt: buildPrompt(trend, brand, constraints),
+      seed: attemptSeed(`angles:${trend.id}`, attempt),
+      mock: (rng) => ({ angles: mockAngles(trend, brand, rng) }),
+    },
+    selection
+  );
+
+  const parsed = AnglesOutputSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new LLMOutputError(
+      "Model returned invalid angles",
+      JSON.stringify(data),
+      issuesFromZodError(parsed.error)
+    );
+  }
+
+  return {
+    output: parsed.data.angles.map((angle, i) => ({ ...angle, id: angleId(trend, i) })),
+    meta,
+  };
+}
+
+/**
+ * Quality-gated; the angle set is scored as a whole (distinctness is a
+ * property of the set, not of one angle). Overlapping sets are sent back
+ * for regeneration first; near-duplicates that survive every attempt are
+ * dropped from the final set.
+ */
+export async function generateAngles(
+  trend: Trend,
+  selection: LLMSelection = {},
+  options: { brand?: BrandProfile | null } = {}
+): Promise<{
+  angles: Angle[];
+  diversity: AngleDiversity;
+  quality: QualityReport;
+  meta: LLMResultMeta;
+}> {
+  const brand = options.brand ?? null;
+
+  const { output, meta, quality } = await runQualityGate(
+    "angles",
+    ANGLE_CRITERIA,
+    ({ attempt, constraints, selection: attemptSelection }) =>
+      generateAnglesOnce(trend, brand, attemptSelection, constraints, attempt),
+    selection
+  );
+
+  const { angles: distinct, diversity } = enforceAngleDistinctness(output);
+
+  const lexicon = brandLexicon(await loadLexicon(), brand);
+  const angles = distinct.map((angle) => ({
+    ...angle,
+    guardian: scanAngle(angle, { trend }, lexicon),
+  }));
+
+  return { angles, diversity, quality, meta };
+}
@@ -0,0 +1,196 @@
+// src/lib/generators/brief.ts
+import type { Angle, BrandProfile, Brief, Trend } from "@/types/engine";
+import { brandAudience, brandLexicon, brandPromptBlock } from "@/lib/brands/context";
+import { generateJson, LLMOutputError, type LLMResultMeta, type LLMSelection } from "@/lib/llm";
+import type { SeededRandom } from "@/lib/llm/random";
+import { loadLexicon } from "@/lib/guardian/lexicon";
+import { scanBrief } from "@/lib/guardian/scan";
+import { attemptSeed, constraintsBlock, runQualityGate } from "@/lib/quality/gate";
+import { BRIEF_CRITERIA } from "@/lib/quality/rubric";
+import { IncomingBriefSchema } from "@/lib/schema/requests";
+import { issuesFromZodError } from "@/lib/schema/validate";
+
+/**
+ * Brief Builder: Trend (+ Angle) → canonical Brief.
+ */
+
+type BriefFields = Pick<
+  Brief,
+  | "title"
+  | "objective"
+  | "primaryAudience"
+  | "coreMessage"
+  | "toneAndVoice"
+  | "contentRequirements"
+  | "creativeMandatories"
+  | "guardrails"
+  | "successMetrics"
+  | "exampleConcepts"
+>;
+
+function buildPrompt(
+  trend: Trend,
+  angle: Angle | undefined,
+  brand: BrandProfile | null,
+  constraints: string[]
+): string {
+  return `
+You are the Cultural Intelligence Engine inside Appatize.
+
+Your job is to generate a clear, sharp CREATIVE BRIEF from this trend.
+
+Trend details:
+Name: ${trend.name}
+Summary: ${trend.summary}
+Mechanic: ${trend.mechanic}
+Signal strength: ${trend.signalStrengthStage} (${trend.signalStrengthScore}/100)
+Platform fit: ${trend.platformFit.join(", ") || "Any"}
+${trend.riskNotes ? `Risk notes: ${trend.riskNotes}\n` : ""}${
+    angle ? `\nChosen angle: ${angle.label} — ${angle.hook}\n` : ""
+  }${brandPromptBlock(brand)}${constraintsBlock(constraints)}
+Return ONLY valid JSON in the following structure:
+
+{
+  "title": "string",
+  "objective": "string",
+  "primaryAudience": "string",
+  "coreMessage": "string",
+  "toneAndVoice": ["string"],
+  "contentRequirements": ["string"],
+  "creativeMandatories": ["string"],
+  "guardrails": ["string"],
+  "successMetrics": ["string"],
+  "exampleConcepts": ["string", "string", "string"]
+}
+`;
+}
+
+/**
+ * Offline brief: deterministic for the same trend + seed.
+ */
+function mockBrief(
+  trend: Trend,
+  angle: Angle | undefined,
+  brand: BrandProfile | null,
+  rng: SeededRandom
+): BriefFields {
+  const platform = angle?.platform || trend.platformFit[0] || "TikTok";
+  const brandName = brand?.name ?? "the brand";
+
+  return {
+    title: angle ? `${angle.label} • ${trend.name}` : `${trend.name} brief`,
+    objective: rng.pick([
+      `Make ${trend.name} the moment people discover ${brandName} this month.`,
+      `Turn ${trend.name} into a repeatable ${platform} series that drives saves and follows.`,
+      `Use ${trend.name} to shift perception from "another brand" to "one of us".`,
+    ]),
+    primaryAudience:
+      angle?.audience ||
+      brandAudience(brand) ||
+      rng.pick([
+        "Culture-native 18–30s who discover brands through creators, not ads.",
+        "Busy professionals who scroll between meetings and save what's useful.",
+      ]),
+    coreMessage:
+      angle?.hook || `We get ${trend.name.toLowerCase()} because we live it too.`,
+    toneAndVoice: brand?.tone.length
+      ? brand.tone
+      : rng.shuffle([
+          "Creator-first: sounds like a person, never a press release.",
+          "Dry, self-aware humour over hype.",
+          "Specific over generic: name the moment, the place, the feeling.",
+        ]),
+    contentRequirements: [
+      `${platform}-native vertical video, 9:16`,
+      "Hook lands in the first 2 seconds",
+      "Burned-in captions for sound-off viewing",
+    ],
+    creativeMandatories: [
+      `Use the trend mechanic: ${trend.mechanic}`,
+      "Product appears in context, not as a pack shot",
+      ...(brand?.culturalPositioning ? [`Stay true to: ${brand.culturalPositioning}`] : []),
+    ],
+    guardrails: [
+      ...(trend.riskNotes ? [trend.riskNotes] : []),
+      "No unverifiable performance claims",
+      "Don't mock the communities that started the trend",
+      ...(brand?.competitors.length
+        ? [`No references to competitors (${brand.competitors.join(", ")})`]
+        : []),
+    ],
+    successMetrics: rng.shuffle(["Save rate", "Share rate", "Profile visits", "Comment sentiment"]).slice(0, 3),
+    exampleConcepts: rng.shuffle([
+      `POV: your first week with the product, told through ${trend.name.toLowerCase()}`,
+      `Expectation vs reality, but the reality is better`,
+      `A creator duet answering the most common question in the comments`,
+      `Three quick cuts: tension, switch, tiny flex`,
+    ]).slice(0, 3),
+  };
+}
+
+async function generateBriefOnce(
+  trend: Trend,
+  angle: Angle | undefined,
+  brand: BrandProfile | null,
+  selection: LLMSelection,
+  constraints: string[],
+  attempt: number
+): Promise<{ output: Brief; meta: LLMResultMeta }> {
+  const { data, meta } = await generateJson(
+    {
+      prompt: buildPrompt(trend, angle, brand, constraints),
+      seed: attemptSeed(`brief:${trend.id}:${angle?.id ?? ""}`, attempt),
+      mock: (rng) => mockBrief(trend, angle, brand, rng),
+    },
+    selection
+  );
+
+  const now = new Date().toISOString();
+  const parsed = IncomingBriefSchema.safeParse({
+    ...(data as object),
+    id: `brief-${trend.id}-${Date.now()}`,
+    trend,
+    angle,
+    brandId: brand?.id,
+    status: "Draft",
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  if (!parsed.success) {
+    throw new LLMOutputError(
+      "Model returned an invalid brief",
+      JSON.stringify(data),
+      issuesFromZodError(parsed.error)
+    );
+  }
+
+  return { output: parsed.data, meta };
+}
+
+/**
+ * Quality-gated: regenerates once with tighter constraints if the brief
+ * misses the Platinum+ bar, and carries the rubric result on `quality`
+ * and the Brand Guardian scan on `guardian`. With a Brand Memory profile
+ * the brief is written on-voice and linked to it via `brandId`.
+ */
+export async function generateBrief(
+  trend: Trend,
+  angle: Angle | undefined,
+  selection: LLMSelection = {},
+  options: { brand?: BrandProfile | null } = {}
+): Promise<{ brief: Brief; meta: LLMResultMeta }> {
+  const brand = options.brand ?? null;
+
+  const { output, meta, quality } = await runQualityGate(
+    "brief",
+    BRIEF_CRITERIA,
+    ({ attempt, constraints, selection: attemptSelection }) =>
+      generateBriefOnce(trend, angle, brand, attemptSelection, constraints, attempt),
+    selection
+  );
+
+  const guardian = scanBrief(output, brandLexicon(await loadLexicon(), brand));
+
+  return { brief: { ...output, quality, guardian }, meta };
+}
@@ -0,0 +1,612 @@
+// src/lib/generators/platformScript.ts
+import type { BrandProfile, Brief, PlatformMode, Script, ScriptBeat } from "@/types/engine";
+import { brandLexicon, brandPromptBlock } from "@/lib/brands/context";
+import {
+  combineMeta,
+  generateJson,
+  LLMOutputError,
+  type LLMResultMeta,
+  type LLMSelection,
+} from "@/lib/llm";
+import { parsePartialJson } from "@/lib/llm/partialJson";
+import { loadLexicon } from "@/lib/guardian/lexicon";
+import { scanScript } from "@/lib/guardian/scan";
+import { attemptSeed, constraintsBlock, runQualityGate } from "@/lib/quality/gate";
+import { SCRIPT_CRITERIA } from "@/lib/quality/rubric";
+import { ScriptSchema } from "@/lib/schema/engine";
+import { issuesFromZodError } from "@/lib/schema/validate";
+import { generateVariants, type VariantCounts } from "./variants";
+
+/**
+ * Small description of each platform's style.
+ * Used in the mock generator for now, and later as part of the AI prompt.
+ */
+export const PLATFORM_STYLE_SNIPPETS: Record<PlatformMode, string> = {
+  tiktok:
+    "Fast-paced, native creator voice, jump cuts implied, hook in first 1–2 seconds, on-screen text cues.",
+  reels:
+    "Aesthetic, emotionally resonant, smoother pacing, visually-driven moments, aspirational but human.",
+  shorts:
+    "High energy, punchy, ultra-condensed, strong hook up front, minimal fluff, direct value.",
+  x: "Narration-led, opinionated, strong point of view, structured like a spoken thread, punchy lines.",
+  linkedin:
+    "Professional and insight-led, expert but relatable, focused on authority, clarity, and tangible takeaways.",
+  youtube:
+    "Structured like A-roll + B-roll, clear intro, promise, body, and outro; room for storytelling and depth.",
+};
+
+/**
+ * The parts of a Script the generator writes; ids, brief link, platform,
+ * timestamps and review state are stamped on afterwards. Variants come
+ * from their own generator (src/lib/generators/variants.ts).
+ */
+type ScriptDraft = Pick<
+  Script,
+  "title" | "hook" | "coreMessage" | "beats" | "cta" | "captions" | "hashtags" | "notes"
+>;
+
+function beat(
+  estimatedSeconds: number,
+  voiceover: string,
+  onScreenText = "",
+  visualDirection = ""
+): ScriptBeat {
+  return { voiceover, onScreenText, visualDirection, estimatedSeconds };
+}
+
+export function platformLabel(platformMode: PlatformMode): string {
+  return platformMode === "x"
+    ? "X (Twitter) video"
+    : platformMode === "shorts"
+    ? "YouTube Shorts"
+    : platformMode === "linkedin"
+    ? "LinkedIn"
+    : platformMode === "youtube"
+    ? "YouTube"
+    : platformMode[0].toUpperCase() + platformMode.slice(1);
+}
+
+function hashtagsFor(brief: Brief, platformMode: PlatformMode): string[] {
+  const trendTag = `#${brief.trend.name.toLowerCase().replace(/[^a-z0-9]+/g, "")}`;
+  const platformTags: Record<PlatformMode, string[]> = {
+    tiktok: ["#fyp", "#tiktokmademebuyit"],
+    reels: ["#reels", "#reelsinspiration"],
+    shorts: ["#shorts"],
+    x: [],
+    linkedin: ["#marketing", "#contentstrategy"],
+    youtube: ["#creatorstrategy"],
+  };
+  return [trendTag, ...platformTags[platformMode]];
+}
+
+const EDITOR_NOTES = [
+  "Keep pacing native to the platform — no generic cross-post feel.",
+  "Add on-screen text that reinforces the hook and key beats.",
+  "Show real context: feeds, people, spaces, not just product close-ups.",
+  "End with a clear, human CTA (save, share, follow, click) that feels earned, not bolted on.",
+];
+
+/**
+ * Editor notes, plus the brand's voice rules when one is active.
+ */
+function notesFor(brand: BrandProfile | null): string[] {
+  if (!brand) return EDITOR_NOTES;
+  return [
+    ...EDITOR_NOTES,
+    ...(brand.tone.length ? [`${brand.name} voice: ${brand.tone.join("; ")}.`] : []),
+    ...(brand.forbiddenWords.length
+      ? [`Never say: ${brand.forbiddenWords.join(", ")}.`]
+      : []),
+  ];
+}
+
+/**
+ * The one line every platform version has to carry, unchanged.
+ * Pacing, structure and CTA adapt per platform; this doesn't.
+ */
+export function resolveCoreMessage(brief: Brief): string {
+  return (
+    brief.coreMessage ||
+    brief.angle?.hook ||
+    brief.objective ||
+    `${brief.trend.name}, done properly.`
+  );
+}
+
+/**
+ * Hand-written platform templates (everything except the core message).
+ */
+function mockTemplate(
+  brief: Brief,
+  platformMode: PlatformMode,
+  brand: BrandProfile | null
+): Omit<ScriptDraft, "coreMessage"> {
+  const trend = brief.trend.name;
+  const objective =
+    brief.objective || `Drive awareness and engagement for ${brand?.name ?? "the brand"}.`;
+  const notes = notesFor(brand);
+
+  const title = `${platformLabel(platformMode)} Script — ${brief.title}`;
+  const hashtags = hashtagsFor(brief, platformMode);
+  const captions = [`${trend}, done properly.`];
+
+  switch (platformMode) {
+    case "tiktok":
+      return {
+        title,
+        hook: "You’re doing content backwards.",
+        beats: [
+          beat(
+            2,
+            "You’re doing content backwards.",
+            "You’re doing content backwards.",
+            "POV shot, slightly shaky."
+          ),
+          beat(3, "You post, *then* hope it hits a trend.", "", "Quick zoom-in."),
+          beat(
+            5,
+            "Instead, flip it. Start with this week’s cultural spike — sounds, story formats, POVs — then wrap your brand around it.",
+            "Start with culture → Then add your brand",
+            "Jump cut to creator to camera."
+          ),
+          beat(
+            5,
+            `For this drop, we’re leaning into ‘${trend}’ — raw, in-the-city micro moments. No polished sets, just real movement.`,
+            "",
+            "B-roll: product in motion, street clips, behind-the-scenes."
+          ),
+          beat(4, "Three shots: one tension, one transformation, one tiny flex. That’s it."),
+        ],
+        cta: "Save this and steal the format.",
+        captions,
+        hashtags,
+        notes,
+      };
+
+    case "reels":
+      return {
+        title,
+        hook: "The brands that win this year don’t shout.",
+        beats: [
+          beat(
+            4,
+            "The brands that win this year don’t shout. They *feel* like people you actually want in your feed.",
+            "The brands that win in 2025 feel like people.",
+            "Slow dolly or handheld, ambient city / workspace / lifestyle scene."
+          ),
+          beat(
+            5,
+            `That’s why we’re tapping into ‘${trend}’ — quick glimpses into real days, real chaos, real joy.`,
+            "",
+            "Cut to closer shot / product in-hand."
+          ),
+          beat(
+            6,
+            "No 90-second ads. Just 7-second stories that slot into the way you already scroll.",
+            "",
+            "Montage: 3–4 micro-moments that show the product in context."
+          ),
+        ],
+        cta: "Follow for more real-day story formats.",
+        captions,
+        hashtags,
+        notes,
+      };
+
+    case "shorts":
+      return {
+        title,
+        hook: "You’re wasting 80% of your content budget.",
+        beats: [
+          beat(
+            2,
+            "You’re wasting 80% of your content budget.",
+            "",
+            "Immediate pattern break. Fast zoom, unexpected visual."
+          ),
+          beat(3, "Because you ignore what YouTube is literally telling you people binge right now."),
+          beat(
+            4,
+            `This format? ‘${trend}’. It’s dominating right now. So here’s how we hijack it for your brand in 3 beats:`,
+            "",
+            "Quick flash of trending Shorts grid (mock)."
+          ),
+          beat(3, "Beat 1: Name the tension your audience is in.", "1. Name the tension"),
+          beat(3, "Beat 2: Show the transformation in under 4 seconds.", "2. Show the transformation"),
+          beat(
+            3,
+            "Beat 3: Close with a tiny flex — stat, reaction, or visual punchline.",
+            "3. Tiny flex"
+          ),
+        ],
+        cta: "Steal this format. Hit subscribe if you want more.",
+        captions,
+        hashtags,
+        notes,
+      };
+
+    case "x":
+      return {
+        title,
+        hook: "Everyone’s reposting the same viral clips… and then wondering why nothing converts.",
+        beats: [
+          beat(
+            4,
+            "Everyone’s reposting the same viral clips… and then wondering why nothing converts.",
+            "",
+            "Creator to camera, simple background."
+          ),
+          beat(
+            6,
+            `If you’re a brand, you don’t need more noise. You need *a clear POV* on what ‘${trend}’ actually means for your customer.`
+          ),
+          beat(
+            6,
+            "Here’s how we structure X-native video around it: one line that names the tension, one line that stakes your position, three lines that show, not tell.",
+            "Tension → Position → Show",
+            "Bullet points appear as they’re spoken."
+          ),
+          beat(4, "Then clip it, thread it, quote-tweet it. One idea, five outputs."),
+        ],
+        cta: "Follow for daily POVs brands can actually use.",
+        captions,
+        hashtags,
+        notes,
+      };
+
+    case "linkedin":
+      return {
+        title,
+        hook: "Most brands treat culture like a trend report.",
+        beats: [
+          beat(
+            5,
+            "Most brands treat culture like a trend report. Something you read once a quarter and file away.",
+            "",
+            "Calm, composed framing, subtle background."
+          ),
+          beat(4, "The ones that are winning? They treat it like an operating system for their content."),
+          beat(
+            8,
+            `Take ‘${trend}’. On the surface, it’s just another format wave. But underneath, it’s telling you how your audience wants to be spoken to — fast, visual, and story-first.`,
+            "From Trend → Operating System"
+          ),
+          beat(
+            8,
+            `So our play is simple: build a repeatable script kit that meets them where they scroll, feels creator-native, and still leads to clear business outcomes: ${objective}`,
+            "",
+            "Title card: “Culture as a Service Layer for Content”."
+          ),
+        ],
+        cta: "Connect if you want to build this into your 2025 content ops.",
+        captions,
+        hashtags,
+        notes,
+      };
+
+    case "youtube":
+      return {
+        title,
+        hook: "If your content calendar still starts in a spreadsheet, you’re already behind.",
+        beats: [
+          beat(
+            4,
+            "If your content calendar still starts in a spreadsheet, you’re already behind.",
+            "",
+            "INTRO — A-roll, direct to camera."
+          ),
+          beat(
+            8,
+            `In this video, I’m going to show you how we build full funnel campaigns *starting* from culture — using ‘${trend}’ as the backbone.`
+          ),
+          beat(
+            8,
+            "We’ll break it into three parts: spotting the signal, building angles, and turning those angles into scripts your team can actually shoot.",
+            "",
+            "B-roll of feeds, trend dashboards, creators posting."
+          ),
+          beat(
+            12,
+            "First, we map the cultural spike: where it’s showing up, who’s driving it, and how your audience is reacting.",
+            "Chapter 1 — Spotting the signal",
+            "Screen recording of the trend dashboard."
+          ),
+          beat(
+            12,
+            "Then we turn that into 5–10 creative angles — different POVs, characters, or scenarios — tailored to your brand voice.",
+            "Chapter 2 — Building angles",
+            "Whiteboard sketch of angles branching off the trend."
+          ),
+          beat(
+            12,
+            "Finally, we translate it into TikTok, Reels, Shorts, X clips, and LinkedIn hooks — all from one source of truth.",
+            "Chapter 3 — Script system",
+            "Split-screen of the same idea on each platform."
+          ),
+        ],
+        cta: "Subscribe if you want this as a done-for-you system — that’s literally what we built Appatize for.",
+        captions,
+        hashtags,
+        notes,
+      };
+  }
+}
+
+/**
+ * Fallback mock generator so the app works without any AI key.
+ * This gives you platform-aware scripts immediately.
+ */
+export function generateMockScript(
+  brief: Brief,
+  platformMode: PlatformMode,
+  coreMessage = resolveCoreMessage(brief),
+  brand: BrandProfile | null = null
+): ScriptDraft {
+  const template = mockTemplate(brief, platformMode, brand);
+
+  return {
+    ...template,
+    coreMessage,
+    // Land the core message right before the CTA, in the platform's own pacing
+    beats: [
+      ...template.beats,
+      beat(
+        platformMode === "youtube" || platformMode === "linkedin" ? 6 : 3,
+        coreMessage,
+        coreMessage,
+        "Hold on the product in context."
+      ),
+    ],
+    captions: [coreMessage, ...template.captions],
+  };
+}
+
+function buildPrompt(
+  brief: Brief,
+  platformMode: PlatformMode,
+  coreMessage: string,
+  brand: BrandProfile | null,
+  constraints: string[]
+): string {
+  return `
+You are the Appatize Script Engine.
+
+Write a ${platformMode}-native creator script for this brief.
+
+Platform style: ${PLATFORM_STYLE_SNIPPETS[platformMode]}
+
+Core message (keep it word-for-word; only pacing, structure and CTA
+should adapt to the platform): ${coreMessage}
+
+Brief:
+${JSON.stringify(
+  {
+    title: brief.title,
+    trend: { name: brief.trend.name, mechanic: brief.trend.mechanic },
+    angle: brief.angle
+      ? { label: brief.angle.label, hook: brief.angle.hook, beats: brief.angle.coreSequence }
+      : undefined,
+    objective: brief.objective,
+    primaryAudience: brief.primaryAudience,
+    coreMessage: brief.coreMessage,
+    toneAndVoice: brief.toneAndVoice,
+    guardrails: brief.guardrails,
+  },
+  null,
+  2
+)}
+${brandPromptBlock(brand)}${constraintsBlock(constraints)}
+Return ONLY valid JSON in the following structure. Beats are in shooting
+order; estimatedSeconds is how long each beat runs on screen.
+
+{
+  "title": "string",
+  "hook": "string",
+  "coreMessage": "string",
+  "beats": [
+    {
+      "voiceover": "string",
+      "onScreenText": "string",
+      "visualDirection": "string",
+      "estimatedSeconds": 3
+    }
+  ],
+  "cta": "string",
+  "captions": ["string"],
+  "hashtags": ["#string"],
+  "notes": ["string"]
+}
+`;
+}
+
+/**
+ * What has arrived so far while a script streams in. Restarts from empty
+ * when the quality gate regenerates (`attempt` goes up).
+ */
+export type ScriptPreview = {
+  attempt: number;
+  title?: string;
+  hook?: string;
+  beats: Partial<ScriptBeat>[];
+  cta?: string;
+};
+
+export type PlatformScriptOptions = {
+  // Shared across platforms when adapting; defaults to the brief's
+  coreMessage?: string;
+  // Alternative hooks / endings for A/B testing
+  variants?: VariantCounts;
+  // Brand Memory profile; its forbidden words are Guardian-checked too
+  brand?: BrandProfile | null;
+  // Streams the model output; called whenever the preview changes
+  onPreview?: (preview: ScriptPreview) => void;
+  // Cancels the model calls
+  signal?: AbortSignal;
+};
+
+function asText(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Turns raw streamed text into preview updates, skipping deltas that
+ * don't change anything visible.
+ */
+function previewStream(
+  attempt: number,
+  onPreview: (preview: ScriptPreview) => void
+): (delta: string) => void {
+  let raw = "";
+  let last = "";
+
+  return (delta) => {
+    raw += delta;
+    const partial = parsePartialJson(raw);
+    if (!partial || typeof partial !== "object") return;
+
+    const draft = partial as Record<string, unknown>;
+    const preview: ScriptPreview = {
+      attempt,
+      title: asText(draft.title),
+      hook: asText(draft.hook),
+      beats: Array.isArray(draft.beats)
+        ? draft.beats.filter(
+            (b): b is Partial<ScriptBeat> => typeof b === "object" && b !== null
+          )
+        : [],
+      cta: asText(draft.cta),
+    };
+
+    const key = JSON.stringify(preview);
+    if (key === last) return;
+    last = key;
+    onPreview(preview);
+  };
+}
+
+async function generatePlatformScriptOnce(
+  brief: Brief,
+  platformMode: PlatformMode,
+  coreMessage: string,
+  options: PlatformScriptOptions,
+  selection: LLMSelection,
+  constraints: string[],
+  attempt: number
+): Promise<{ output: Script; meta: LLMResultMeta }> {
+  const { variants, onPreview, signal } = options;
+  const brand = options.brand ?? null;
+
+  const { data, meta } = await generateJson(
+    {
+      prompt: buildPrompt(brief, platformMode, coreMessage, brand, constraints),
+      seed: attemptSeed(`script:${brief.id}:${platformMode}`, attempt),
+      mock: () => generateMockScript(brief, platformMode, coreMessage, brand),
+      onDelta: onPreview && previewStream(attempt, onPreview),
+      signal,
+    },
+    selection
+  );
+
+  const parsed = ScriptSchema.safeParse({
+    ...(data as object),
+    coreMessage, // fixed by us, never by the model
+    id: `script-${brief.id}-${platformMode}-${Date.now()}`,
+    briefId: brief.id,
+    brandId: brand?.id ?? brief.brandId,
+    platform: platformMode,
+    createdAt: new Date().toISOString(),
+  });
+
+  if (!parsed.success) {
+    throw new LLMOutputError(
+      "Model returned an invalid script",
+      JSON.stringify(data),
+      issuesFromZodError(parsed.error)
+    );
+  }
+
+  if (!variants) return { output: parsed.data, meta };
+
+  signal?.throwIfAborted();
+  const result = await generateVariants(
+    { brief, hook: parsed.data.hook, ending: parsed.data.cta },
+    variants,
+    selection
+  );
+
+  return {
+    output: { ...parsed.data, variants: result.variants },
+    meta: combineMeta([meta, result.meta]),
+  };
+}
+
+/**
+ * Platform script for /api/scripts/generate.
+ * The mock provider returns the hand-written platform templates above.
+ * Quality-gated against the script rubric (variants included, so they
+ * count towards the "variations" criterion), then scanned by the Brand
+ * Guardian against the brief's guardrails and the brand's forbidden words.
+ * With `onPreview` the model output streams in as it is produced.
+ */
+export async function generatePlatformScript(
+  brief: Brief,
+  platformMode: PlatformMode,
+  selection: LLMSelection = {},
+  options: PlatformScriptOptions = {}
+): Promise<{ script: Script; meta: LLMResultMeta }> {
+  const coreMessage = options.coreMessage ?? resolveCoreMessage(brief);
+  const brand = options.brand ?? null;
+
+  const { output, meta, quality } = await runQualityGate(
+    "script",
+    SCRIPT_CRITERIA,
+    ({ attempt, constraints, selection: attemptSelection }) =>
+      generatePlatformScriptOnce(
+        brief,
+        platformMode,
+        coreMessage,
+        options,
+        attemptSelection,
+        constraints,
+        attempt
+      ),
+    selection
+  );
+
+  const guardian = scanScript(output, brief, brandLexicon(await loadLexicon(), brand));
+
+  return { script: { ...output, quality, guardian }, meta };
+}
+
+/**
+ * One brief → a script per platform, all carrying the same core message.
+ * `onScript` fires as each platform finishes, in completion order.
+ */
+export async function generateAllPlatformScripts(
+  brief: Brief,
+  platformModes: readonly PlatformMode[],
+  selection: LLMSelection = {},
+  options: Omit<PlatformScriptOptions, "coreMessage" | "onPreview"> & {
+    onScript?: (script: Script) => void;
+  } = {}
+): Promise<{ coreMessage: string; scripts: Script[]; meta: LLMResultMeta[] }> {
+  const { onScript, ...scriptOptions } = options;
+  const coreMessage = resolveCoreMessage(brief);
+
+  const results = await Promise.all(
+    platformModes.map(async (platformMode) => {
+      const result = await generatePlatformScript(brief, platformMode, selection, {
+        ...scriptOptions,
+        coreMessage,
+      });
+      onScript?.(result.script);
+      return result;
+    })
+  );
+
+  return {
+    coreMessage,
+    scripts: results.map((result) => result.script),
+    meta: results.map((result) => result.meta),
+  };
+}
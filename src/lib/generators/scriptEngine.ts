@@ -0,0 +1,166 @@
+// src/lib/generators/scriptEngine.ts
+import type { BrandProfile, Brief } from "@/types/engine";
+import { brandPromptBlock } from "@/lib/brands/context";
+import { generateJson, type LLMResultMeta, type LLMSelection } from "@/lib/llm";
+import type { SeededRandom } from "@/lib/llm/random";
+
+/**
+ * CultureOS Script Engine: Brief → beat-based script (or several angles).
+ */
+
+export type ScriptEnginePlatform = "TikTok" | "Instagram Reels" | "YouTube Shorts";
+
+export type ScriptEngineBeats = {
+  hook: string;
+  beat1: string;
+  beat2: string;
+  beat3: string;
+  ending: string;
+};
+
+export type ScriptEngineResult =
+  | { script: ScriptEngineBeats & { captions: string[] } }
+  | { angles: ScriptEngineBeats[] };
+
+// Platform-specific guidance
+export const PLATFORM_GUIDANCE: Record<ScriptEnginePlatform, string> = {
+  TikTok: `
+- Fast hook within 0-2 seconds
+- High-energy edits
+- Text overlays recommended
+- POV-style moments encouraged
+- Ending CTA should be short + punchy
+`,
+  "Instagram Reels": `
+- Aesthetic visuals + smoother pacing
+- Use elegant text overlays
+- Hooks should be curiosity-based
+- Allow for slightly more storytelling
+- Ending CTA can be softer
+`,
+  "YouTube Shorts": `
+- Story-driven approach
+- Clear beats, linear flow
+- Strong explanatory voiceover or captions
+- Ending CTA should be direct
+`,
+};
+
+function buildPrompt(
+  brief: Brief,
+  platform: ScriptEnginePlatform,
+  angles: number,
+  brand: BrandProfile | null
+): string {
+  return `
+You are the CultureOS Script Engine.
+
+Your goal: turn this brief into a ${platform}-native video script.
+
+Platform rules:
+${PLATFORM_GUIDANCE[platform]}
+
+Brief:
+${JSON.stringify(brief, null, 2)}
+${brandPromptBlock(brand)}
+OUTPUT FORMAT (strict JSON):
+
+Requested angles: ${angles}
+
+If "angles" = 1:
+{
+  "script": {
+    "hook": "...",
+    "beat1": "...",
+    "beat2": "...",
+    "beat3": "...",
+    "ending": "...",
+    "captions": ["...", "..."]
+  }
+}
+
+If "angles" > 1:
+{
+  "angles": [
+    {
+      "hook": "...",
+      "beat1": "...",
+      "beat2": "...",
+      "beat3": "...",
+      "ending": "..."
+    },
+    { ... },
+    { ... }
+  ]
+}
+`;
+}
+
+function mockBeats(brief: Brief, rng: SeededRandom): ScriptEngineBeats {
+  const trend = brief.trend.name;
+  const message = brief.coreMessage || brief.objective || `why ${trend} matters`;
+
+  return {
+    hook: rng.pick([
+      `POV: you finally get why everyone's doing ${trend}.`,
+      `Nobody told me ${trend.toLowerCase()} could look like this.`,
+      `Stop scrolling — this is the ${trend.toLowerCase()} version you haven't seen.`,
+    ]),
+    beat1: rng.pick([
+      "Open on the relatable moment: the tiny frustration everyone recognises.",
+      "Quick cut to the 'before' — messy, honest, a little chaotic.",
+    ]),
+    beat2: `Switch: the brand shows up naturally while the trend mechanic plays out (${brief.trend.mechanic}).`,
+    beat3: `Land the point: ${message}`,
+    ending: rng.pick([
+      "Follow for part two.",
+      "Save this for later.",
+      "Tell us your version in the comments.",
+    ]),
+  };
+}
+
+/**
+ * Offline result: same shape the model is asked for, deterministic per seed.
+ */
+function mockResult(
+  brief: Brief,
+  platform: ScriptEnginePlatform,
+  angles: number,
+  rng: SeededRandom
+): ScriptEngineResult {
+  if (angles > 1) {
+    return {
+      angles: Array.from({ length: angles }, () => mockBeats(brief, rng)),
+    };
+  }
+
+  return {
+    script: {
+      ...mockBeats(brief, rng),
+      captions: [
+        `${brief.trend.name}, but make it ours`,
+        `Made for ${platform}`,
+      ],
+    },
+  };
+}
+
+export async function generateScriptEngine(
+  brief: Brief,
+  platform: ScriptEnginePlatform,
+  angles: number,
+  selection: LLMSelection = {},
+  options: { brand?: BrandProfile | null } = {}
+): Promise<{ result: ScriptEngineResult; meta: LLMResultMeta }> {
+  const { data, meta } = await generateJson(
+    {
+      prompt: buildPrompt(brief, platform, angles, options.brand ?? null),
+      seed: `script-engine:${brief.id}:${platform}:${angles}`,
+      mock: (rng) => mockResult(brief, platform, angles, rng),
+    },
+    selection
+  );
+
+  return { result: data as ScriptEngineResult, meta };
+}
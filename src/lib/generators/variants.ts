@@ -0,0 +1,219 @@
+// src/lib/generators/variants.ts
+import { z } from "zod";
+import type {
+  Brief,
+  ScriptVariant,
+  ScriptVariants,
+  VariantTechnique,
+} from "@/types/engine";
+import { generateJson, LLMOutputError, type LLMResultMeta, type LLMSelection } from "@/lib/llm";
+import type { SeededRandom } from "@/lib/llm/random";
+import { VariantTechniqueSchema } from "@/lib/schema/engine";
+import { issuesFromZodError } from "@/lib/schema/validate";
+import { maxSimilarity } from "@/lib/similarity/text";
+
+/**
+ * Hook / ending variant sets for A/B testing.
+ *
+ * We ask for a few more candidates than needed, then keep only the ones
+ * that are distinct enough from the original and from each other.
+ */
+
+export type VariantCounts = { hooks: number; endings: number };
+
+export type VariantBase = {
+  brief: Brief;
+  hook: string;
+  ending: string;
+};
+
+/**
+ * Anything at or above this similarity counts as a near-duplicate.
+ */
+export const VARIANT_DISTINCTNESS_THRESHOLD = 0.5;
+
+const TECHNIQUES = VariantTechniqueSchema.options;
+
+const CandidateSchema = z.object({
+  technique: VariantTechniqueSchema,
+  text: z.string().min(1),
+});
+
+const VariantsOutputSchema = z.object({
+  hooks: z.array(CandidateSchema).default([]),
+  endings: z.array(CandidateSchema).default([]),
+});
+
+type Candidate = z.infer<typeof CandidateSchema>;
+
+const TECHNIQUE_GUIDE: Record<VariantTechnique, string> = {
+  "curiosity-gap": "open a question the viewer needs answered",
+  "pattern-break": "interrupt the scroll with something unexpected",
+  pov: "put the viewer inside the moment with a POV framing",
+  "stat-drop": "lead with a specific, credible number",
+};
+
+function hookTemplates(trend: string, n: number): Record<VariantTechnique, string[]> {
+  return {
+    "curiosity-gap": [
+      `Nobody talks about what happens after ${trend}.`,
+      `The part of ${trend} nobody shows you…`,
+      `I tried ${trend} for a week. Day three changed everything.`,
+    ],
+    "pattern-break": [
+      `Stop. Put the coffee down — this is about ${trend}.`,
+      "Wrong way round: we're starting with the ending.",
+      `Record scratch. Yep, that's us, doing ${trend}.`,
+    ],
+    pov: [
+      `POV: you just discovered ${trend} and can't unsee it.`,
+      `POV: your group chat won't stop sending ${trend}.`,
+    ],
+    "stat-drop": [
+      `${n}% of people scroll past ${trend} in under a second. Here's how not to.`,
+      `${Math.round(n / 10)} seconds. That's all ${trend} gives you.`,
+    ],
+  };
+}
+
+function endingTemplates(n: number): Record<VariantTechnique, string[]> {
+  return {
+    "curiosity-gap": [
+      "Part two shows what happened next — follow so you don't miss it.",
+      "The result surprised us. Comment 'show me' and we'll post it.",
+    ],
+    "pattern-break": [
+      "Okay, that's it. No outro. Go.",
+      "Plot twist: the CTA is you. Duet this.",
+    ],
+    pov: [
+      "POV: you're saving this for later. Do it.",
+      "POV: you send this to the one friend who needs it.",
+    ],
+    "stat-drop": [
+      `${n}% of you will save this. Be one of them.`,
+      `${n * 10} people tried it this week. Your turn.`,
+    ],
+  };
+}
+
+/**
+ * Offline candidates: rotate through the techniques, picking a template
+ * for each. Repeats are expected and get filtered as near-duplicates.
+ */
+function mockCandidates(
+  base: VariantBase,
+  counts: VariantCounts,
+  rng: SeededRandom
+): { hooks: Candidate[]; endings: Candidate[] } {
+  const trend = base.brief.trend.name;
+  const hooks = hookTemplates(trend, rng.int(60, 90));
+  const endings = endingTemplates(rng.int(20, 80));
+  const offset = rng.int(0, TECHNIQUES.length - 1);
+
+  const build = (templates: Record<VariantTechnique, string[]>, count: number) =>
+    Array.from({ length: count }, (_, i) => {
+      const technique = TECHNIQUES[(i + offset) % TECHNIQUES.length];
+      return { technique, text: rng.pick(templates[technique]) };
+    });
+
+  return {
+    hooks: build(hooks, candidateCount(counts.hooks)),
+    endings: build(endings, candidateCount(counts.endings)),
+  };
+}
+
+function candidateCount(wanted: number): number {
+  return wanted > 0 ? wanted + 2 : 0;
+}
+
+function buildPrompt(base: VariantBase, counts: VariantCounts): string {
+  return `
+You are the Appatize Script Engine.
+
+Write alternative HOOKS and ENDINGS for A/B testing this script.
+Each one must use a different technique where possible and must not
+reword the original or another variant.
+
+Techniques:
+${TECHNIQUES.map((t) => `- ${t}: ${TECHNIQUE_GUIDE[t]}`).join("\n")}
+
+Trend: ${base.brief.trend.name}
+Core message: ${base.brief.coreMessage || base.brief.objective}
+Original hook: ${base.hook}
+Original ending / CTA: ${base.ending}
+
+Return ${candidateCount(counts.hooks)} hooks and ${candidateCount(
+    counts.endings
+  )} endings as ONLY valid JSON:
+
+{
+  "hooks": [{ "technique": "curiosity-gap", "text": "string" }],
+  "endings": [{ "technique": "pov", "text": "string" }]
+}
+`;
+}
+
+/**
+ * Keep candidates in order, skipping any too close to the original or to
+ * an already-kept variant, until `count` are kept.
+ */
+export function pickDistinct(
+  kind: ScriptVariant["kind"],
+  original: string,
+  candidates: readonly Candidate[],
+  count: number
+): ScriptVariant[] {
+  const kept: ScriptVariant[] = [];
+
+  for (const candidate of candidates) {
+    if (kept.length >= count) break;
+    const similarity = maxSimilarity(candidate.text, [
+      original,
+      ...kept.map((v) => v.text),
+    ]);
+    if (similarity >= VARIANT_DISTINCTNESS_THRESHOLD) continue;
+
+    kept.push({
+      id: `${kind}-v${kept.length + 1}`,
+      kind,
+      technique: candidate.technique,
+      text: candidate.text,
+      maxSimilarity: Number(similarity.toFixed(2)),
+    });
+  }
+
+  return kept;
+}
+
+export async function generateVariants(
+  base: VariantBase,
+  counts: VariantCounts,
+  selection: LLMSelection = {}
+): Promise<{ variants: ScriptVariants; meta: LLMResultMeta }> {
+  const { data, meta } = await generateJson(
+    {
+      prompt: buildPrompt(base, counts),
+      seed: `variants:${base.brief.id}:${base.hook}`,
+      mock: (rng) => mockCandidates(base, counts, rng),
+    },
+    selection
+  );
+
+  const parsed = VariantsOutputSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new LLMOutputError(
+      "Model returned invalid variants",
+      JSON.stringify(data),
+      issuesFromZodError(parsed.error)
+    );
+  }
+
+  return {
+    variants: {
+      hooks: pickDistinct("hook", base.hook, parsed.data.hooks, counts.hooks),
+      endings: pickDistinct("ending", base.ending, parsed.data.endings, counts.endings),
+    },
+    meta,
+  };
+}
@@ -0,0 +1,162 @@
+// src/lib/guardian/lexicon.ts
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Brand Guardian lexicon: sensitive topics and banned claim patterns.
+ *
+ * The built-in lexicon below is the baseline. Point GUARDIAN_LEXICON_FILE
+ * at a JSON file with the same shape (`{ topics, claims }`) to add entries
+ * or replace built-in ones by id.
+ */
+
+const SeveritySchema = z.enum(["low", "medium", "high"]);
+
+export const SensitiveTopicSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  terms: z.array(z.string().min(1)).min(1),
+  reason: z.string(),
+  severity: SeveritySchema.default("medium"),
+  // Replaces the matched term in the suggested rewrite; "" drops it
+  replacement: z.string().default(""),
+});
+
+export const BannedClaimSchema = z.object({
+  id: z.string().min(1),
+  pattern: z.string().min(1), // case-insensitive RegExp source
+  reason: z.string(),
+  severity: SeveritySchema.default("high"),
+  replacement: z.string().default(""),
+});
+
+export const GuardianLexiconSchema = z.object({
+  topics: z.array(SensitiveTopicSchema).default([]),
+  claims: z.array(BannedClaimSchema).default([]),
+});
+
+export type SensitiveTopic = z.infer<typeof SensitiveTopicSchema>;
+export type BannedClaim = z.infer<typeof BannedClaimSchema>;
+export type GuardianLexicon = z.infer<typeof GuardianLexiconSchema>;
+
+export const DEFAULT_LEXICON: GuardianLexicon = {
+  topics: [
+    {
+      id: "mental-health",
+      label: "Mental health",
+      terms: ["depression", "depressed", "anxiety", "suicide", "self-harm", "eating disorder", "ptsd"],
+      reason: "Mental health used as a hook or punchline can read as trivialising.",
+      severity: "high",
+      replacement: "a rough week",
+    },
+    {
+      id: "tragedy",
+      label: "Tragedy and current events",
+      terms: ["shooting", "terror attack", "war", "earthquake", "genocide", "funeral"],
+      reason: "Tying a brand to tragedy or breaking news risks looking exploitative.",
+      severity: "high",
+      replacement: "",
+    },
+    {
+      id: "body-image",
+      label: "Body image",
+      terms: ["fat", "skinny", "weight loss", "ugly", "beach body"],
+      reason: "Body-image language can shame or alienate the audience.",
+      severity: "medium",
+      replacement: "feeling good",
+    },
+    {
+      id: "identity",
+      label: "Identity and protected groups",
+      terms: ["race", "religion", "ethnicity", "disabled", "immigrants"],
+      reason: "Identity references need care; make sure no group is the punchline.",
+      severity: "medium",
+      replacement: "people",
+    },
+    {
+      id: "politics",
+      label: "Politics",
+      terms: ["election", "democrats", "republicans", "left-wing", "right-wing"],
+      reason: "Political references invite backlash unrelated to the brand.",
+      severity: "medium",
+      replacement: "",
+    },
+  ],
+  claims: [
+    {
+      id: "guarantee",
+      pattern: "\\bguarantee[ds]?\\b",
+      reason: "Guarantees are legally binding claims.",
+      severity: "high",
+      replacement: "designed to",
+    },
+    {
+      id: "medical",
+      pattern: "\\b(cures?|heals?|clinically (proven|tested))\\b",
+      reason: "Medical or clinical claims need substantiation and legal sign-off.",
+      severity: "high",
+      replacement: "helps with",
+    },
+    {
+      id: "absolute",
+      pattern: "\\b100% (effective|safe|natural|guaranteed)\\b",
+      reason: "Absolute claims can't be substantiated.",
+      severity: "high",
+      replacement: "highly",
+    },
+    {
+      id: "unverified-superlative",
+      pattern: "\\b(#1|number one|best in the world|world'?s best)\\b",
+      reason: "Unverified superlatives break advertising standards.",
+      severity: "medium",
+      replacement: "one of the best",
+    },
+    {
+      id: "instant-results",
+      pattern: "\\b(instant|overnight) (results?|success)\\b",
+      reason: "Promises of instant results mislead viewers.",
+      severity: "medium",
+      replacement: "results over time",
+    },
+    {
+      id: "risk-free",
+      pattern: "\\brisk[- ]free\\b",
+      reason: "Nothing is risk-free; the claim is misleading.",
+      severity: "medium",
+      replacement: "low-commitment",
+    },
+    {
+      id: "get-rich",
+      pattern: "\\b(get rich|make \\$?\\d+k? (a|per) (day|week|month))\\b",
+      reason: "Income claims are heavily regulated.",
+      severity: "high",
+      replacement: "grow your income",
+    },
+  ],
+};
+
+/**
+ * Entries from `extra` replace same-id entries in `base`.
+ */
+function mergeById<T extends { id: string }>(base: T[], extra: T[]): T[] {
+  const ids = new Set(extra.map((entry) => entry.id));
+  return [...base.filter((entry) => !ids.has(entry.id)), ...extra];
+}
+
+export async function loadLexicon(): Promise<GuardianLexicon> {
+  const file = process.env.GUARDIAN_LEXICON_FILE;
+  if (!file) return DEFAULT_LEXICON;
+
+  try {
+    const text = await readFile(path.resolve(process.cwd(), file), "utf8");
+    const extra = GuardianLexiconSchema.parse(JSON.parse(text));
+    return {
+      topics: mergeById(DEFAULT_LEXICON.topics, extra.topics),
+      claims: mergeById(DEFAULT_LEXICON.claims, extra.claims),
+    };
+  } catch (error) {
+    console.warn(`[guardian] Could not load lexicon from ${file}; using built-in`, error);
+    return DEFAULT_LEXICON;
+  }
+}
@@ -0,0 +1,294 @@
+// src/lib/guardian/scan.ts
+import type {
+  Angle,
+  Brief,
+  GuardianFlag,
+  GuardianReport,
+  Script,
+  Trend,
+} from "@/types/engine";
+import { tokenize } from "@/lib/similarity/text";
+import { DEFAULT_LEXICON, type GuardianLexicon } from "./lexicon";
+
+/**
+ * Brand Guardian scanner.
+ *
+ * Every text field of an angle / brief / script is checked against:
+ *   - the sensitive-topics lexicon (whole-word term matches)
+ *   - banned-claim patterns (regexes)
+ *   - the brief's own guardrails and the trend's risk notes
+ *     ("No X" / "Avoid X" / "Don't X" sentences, matched by key words)
+ *   - the angle's own riskLevel
+ *
+ * Pure and synchronous; load the lexicon once with `loadLexicon()`.
+ */
+
+type TextField = { field: string; text: string };
+type Span = { start: number; end: number };
+
+type Rule = {
+  source: GuardianFlag["source"];
+  rule: string;
+  reason: string;
+  severity: GuardianFlag["severity"];
+  find: (text: string) => Span[];
+  rewrite: (text: string, span: Span) => string;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function regexSpans(pattern: RegExp, text: string): Span[] {
+  return [...text.matchAll(pattern)].map((match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function tidy(text: string): string {
+  return text.replace(/\s{2,}/g, " ").replace(/\s+([.,!?])/g, "$1").trim();
+}
+
+function replaceSpan(replacement: string) {
+  return (text: string, { start, end }: Span) =>
+    tidy(text.slice(0, start) + replacement + text.slice(end));
+}
+
+function sentenceSpans(text: string): Span[] {
+  return regexSpans(/[^.!?]+[.!?]*/g, text).filter(
+    (span) => text.slice(span.start, span.end).trim()
+  );
+}
+
+const NEGATION = /^(no|avoid|don'?t|do not|never|not)\s+/i;
+
+/**
+ * "No unverifiable performance claims" → flags any sentence that uses
+ * most of its key words. Guardrails that aren't prohibitions are skipped.
+ */
+function prohibitionRule(
+  text: string,
+  source: "guardrail" | "risk",
+  reasonPrefix: string
+): Rule | null {
+  const trimmed = text.trim();
+  if (!NEGATION.test(trimmed)) return null;
+
+  const keyWords = [...new Set(tokenize(trimmed.replace(NEGATION, "")))];
+  if (!keyWords.length) return null;
+  const needed = keyWords.length === 1 ? 1 : Math.max(2, Math.ceil(keyWords.length * 0.6));
+
+  return {
+    source,
+    rule: trimmed,
+    reason: `${reasonPrefix}: "${trimmed}"`,
+    severity: source === "risk" ? "high" : "medium",
+    find: (value) =>
+      sentenceSpans(value).filter((span) => {
+        const words = new Set(tokenize(value.slice(span.start, span.end)));
+        return keyWords.filter((w) => words.has(w)).length >= needed;
+      }),
+    rewrite: replaceSpan(""),
+  };
+}
+
+function lexiconRules(lexicon: GuardianLexicon): Rule[] {
+  const topics: Rule[] = lexicon.topics.map((topic) => {
+    const pattern = new RegExp(
+      `\\b(${topic.terms.map(escapeRegExp).join("|")})\\b`,
+      "gi"
+    );
+    return {
+      source: "lexicon",
+      rule: topic.id,
+      reason: `${topic.label}: ${topic.reason}`,
+      severity: topic.severity,
+      find: (text) => regexSpans(pattern, text),
+      rewrite: replaceSpan(topic.replacement),
+    };
+  });
+
+  const claims: Rule[] = lexicon.claims.map((claim) => {
+    const pattern = new RegExp(claim.pattern, "gi");
+    return {
+      source: "claim",
+      rule: claim.id,
+      reason: claim.reason,
+      severity: claim.severity,
+      find: (text) => regexSpans(pattern, text),
+      rewrite: replaceSpan(claim.replacement),
+    };
+  });
+
+  return [...topics, ...claims];
+}
+
+function contextRules(guardrails: readonly string[], trend?: Trend): Rule[] {
+  const riskSentences = trend?.riskNotes
+    ? trend.riskNotes.split(/(?<=[.!?])\s+/)
+    : [];
+
+  return [
+    ...guardrails.map((g) => prohibitionRule(g, "guardrail", "Breaks brief guardrail")),
+    ...riskSentences.map((r) => prohibitionRule(r, "risk", "Trend risk note")),
+  ].filter((rule): rule is Rule => rule !== null);
+}
+
+function runRules(fields: readonly TextField[], rules: readonly Rule[]): GuardianFlag[] {
+  const flags: GuardianFlag[] = [];
+  const seen = new Set<string>();
+
+  for (const { field, text } of fields) {
+    if (!text.trim()) continue;
+    for (const rule of rules) {
+      for (const span of rule.find(text)) {
+        // Stable id so an override still matches after a no-op rescan
+        const id = `${rule.source}:${rule.rule}:${field}:${span.start}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        flags.push({
+          id,
+          source: rule.source,
+          rule: rule.rule,
+          field,
+          start: span.start,
+          end: span.end,
+          text: text.slice(span.start, span.end),
+          reason: rule.reason,
+          severity: rule.severity,
+          suggestion: rule.rewrite(text, span),
+        });
+      }
+    }
+  }
+
+  return flags;
+}
+
+function report(flags: GuardianFlag[]): GuardianReport {
+  return { flagged: flags.length > 0, flags, checkedAt: new Date().toISOString() };
+}
+
+const list = (prefix: string, items: readonly string[]): TextField[] =>
+  items.map((text, i) => ({ field: `${prefix}[${i}]`, text }));
+
+/**
+ * Text fields, addressed by path
+ */
+
+export function angleTextFields(angle: Angle): TextField[] {
+  return [
+    { field: "label", text: angle.label },
+    { field: "hook", text: angle.hook },
+    ...list("coreSequence", angle.coreSequence),
+    { field: "brandFitRationale", text: angle.brandFitRationale ?? "" },
+    { field: "notes", text: angle.notes ?? "" },
+  ];
+}
+
+export function briefTextFields(brief: Brief): TextField[] {
+  return [
+    { field: "title", text: brief.title },
+    { field: "summary", text: brief.summary ?? "" },
+    { field: "objective", text: brief.objective },
+    { field: "primaryAudience", text: brief.primaryAudience },
+    { field: "coreMessage", text: brief.coreMessage },
+    ...list("toneAndVoice", brief.toneAndVoice),
+    ...list("contentRequirements", brief.contentRequirements),
+    ...list("creativeMandatories", brief.creativeMandatories),
+    ...list("exampleConcepts", brief.exampleConcepts),
+  ];
+}
+
+export function scriptTextFields(script: Script): TextField[] {
+  return [
+    { field: "hook", text: script.hook },
+    ...script.beats.flatMap((beat, i) => [
+      { field: `beats[${i}].voiceover`, text: beat.voiceover },
+      { field: `beats[${i}].onScreenText`, text: beat.onScreenText },
+    ]),
+    { field: "cta", text: script.cta },
+    ...list("captions", script.captions),
+    ...list("hashtags", script.hashtags),
+    ...script.variants.hooks.map((v, i) => ({ field: `variants.hooks[${i}].text`, text: v.text })),
+    ...script.variants.endings.map((v, i) => ({
+      field: `variants.endings[${i}].text`,
+      text: v.text,
+    })),
+  ];
+}
+
+/**
+ * Scanners
+ */
+
+export function scanAngle(
+  angle: Angle,
+  context: { trend?: Trend; guardrails?: readonly string[] } = {},
+  lexicon: GuardianLexicon = DEFAULT_LEXICON
+): GuardianReport {
+  const flags = runRules(angleTextFields(angle), [
+    ...lexiconRules(lexicon),
+    ...contextRules(context.guardrails ?? [], context.trend),
+  ]);
+
+  if (angle.riskLevel === "high") {
+    flags.push({
+      id: `risk:riskLevel:hook:0`,
+      source: "risk",
+      rule: "riskLevel:high",
+      field: "hook",
+      start: 0,
+      end: angle.hook.length,
+      text: angle.hook,
+      reason: "Angle is rated high risk; it needs brand / legal sign-off before use.",
+      severity: "high",
+      suggestion: "Tone the hook down, or keep the angle and get explicit sign-off.",
+    });
+  }
+
+  return report(flags);
+}
+
+export function scanBrief(
+  brief: Brief,
+  lexicon: GuardianLexicon = DEFAULT_LEXICON
+): GuardianReport {
+  return report(
+    runRules(briefTextFields(brief), [
+      ...lexiconRules(lexicon),
+      ...contextRules(brief.guardrails, brief.trend),
+    ])
+  );
+}
+
+export function scanScript(
+  script: Script,
+  brief: Brief | null,
+  lexicon: GuardianLexicon = DEFAULT_LEXICON
+): GuardianReport {
+  return report(
+    runRules(scriptTextFields(script), [
+      ...lexiconRules(lexicon),
+      ...contextRules(brief?.guardrails ?? [], brief?.trend),
+    ])
+  );
+}
+
+/**
+ * Flags not covered by the script's human override.
+ */
+export function unresolvedGuardianFlags(script: Script): GuardianFlag[] {
+  const overridden = new Set(script.guardianOverride?.flagIds ?? []);
+  return (script.guardian?.flags ?? []).filter((flag) => !overridden.has(flag.id));
+}
+
+/**
+ * A flagged script can only be approved once a human has overridden
+ * every current flag.
+ */
+export function isGuardianBlocked(script: Script): boolean {
+  return unresolvedGuardianFlags(script).length > 0;
+}
@@ -0,0 +1,233 @@
+// src/lib/library/repository.ts
+import type { z } from "zod";
+import type { SavedCollection, SavedItem, SavedItemKind } from "@/types/engine";
+import { SavedCollectionSchema, SavedItemSchema } from "@/lib/schema/engine";
+import type {
+  SavedCollectionCreateRequestSchema,
+  SavedItemCreateRequestSchema,
+} from "@/lib/schema/requests";
+import { tokenize } from "@/lib/similarity/text";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+
+/**
+ * Server-side saved library storage: saved items and the collections
+ * they are filed into. Routes talk to this module, never to the
+ * collections directly.
+ *
+ * Items and collections belong to a workspace. An item's id is derived
+ * from the workspace and what was saved, so saving the same trend, angle,
+ * brief or script twice in one workspace is a DuplicateRecordError.
+ */
+
+const items = createJsonCollection<SavedItem>("library", SavedItemSchema);
+const collections = createJsonCollection<SavedCollection>(
+  "library-collections",
+  SavedCollectionSchema
+);
+
+export type SavedItemInput = z.infer<typeof SavedItemCreateRequestSchema>;
+export type SavedCollectionInput = z.infer<typeof SavedCollectionCreateRequestSchema>;
+
+export type LibraryFilters = {
+  workspaceId?: string;
+  q?: string;
+  kind?: SavedItemKind;
+  tag?: string;
+  collectionId?: string;
+};
+
+export class UnknownCollectionError extends Error {
+  constructor(public collectionIds: string[]) {
+    super(`Unknown collection(s): ${collectionIds.join(", ")}`);
+    this.name = "UnknownCollectionError";
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "collection";
+}
+
+// Tags are matched case-insensitively, so store them that way
+function normalizeTags(tags: readonly string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+async function assertCollections(ids: readonly string[], workspaceId: string | undefined) {
+  if (!ids.length) return;
+  const known = new Set(
+    (await collections.list()).filter((c) => c.workspaceId === workspaceId).map((c) => c.id)
+  );
+  const missing = ids.filter((id) => !known.has(id));
+  if (missing.length) throw new UnknownCollectionError(missing);
+}
+
+function defaultTitle(input: SavedItemInput): string {
+  switch (input.kind) {
+    case "trend":
+      return input.item.name;
+    case "angle":
+      return input.item.label;
+    case "brief":
+    case "script":
+      return input.item.title;
+  }
+}
+
+function searchText(saved: SavedItem): string {
+  const filing = `${saved.title} ${saved.tags.join(" ")} ${saved.note}`;
+  switch (saved.kind) {
+    case "trend":
+      return `${filing} ${saved.item.name} ${saved.item.summary} ${saved.item.mechanic}`;
+    case "angle":
+      return `${filing} ${saved.item.label} ${saved.item.hook} ${saved.item.format} ${
+        saved.trend?.name ?? ""
+      }`;
+    case "brief":
+      return `${filing} ${saved.item.title} ${saved.item.trend.name} ${saved.item.objective} ${saved.item.coreMessage}`;
+    case "script":
+      return `${filing} ${saved.item.title} ${saved.item.hook} ${saved.item.platform} ${saved.item.coreMessage}`;
+  }
+}
+
+function matchesSearch(saved: SavedItem, words: readonly string[]): boolean {
+  if (!words.length) return true;
+  const haystack = tokenize(searchText(saved));
+  return words.every((word) => haystack.some((token) => token.startsWith(word)));
+}
+
+export async function listSavedItems(filters: LibraryFilters = {}): Promise<SavedItem[]> {
+  const words = tokenize(filters.q ?? "");
+  const tag = filters.tag?.trim().toLowerCase();
+  const all = await items.list();
+
+  return all
+    .filter((saved) => !filters.workspaceId || saved.workspaceId === filters.workspaceId)
+    .filter((saved) => !filters.kind || saved.kind === filters.kind)
+    .filter((saved) => !tag || saved.tags.includes(tag))
+    .filter((saved) => !filters.collectionId || saved.collectionIds.includes(filters.collectionId))
+    .filter((saved) => matchesSearch(saved, words))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Every tag in the workspace's library, for filter chips.
+ */
+export async function listLibraryTags(workspaceId: string): Promise<string[]> {
+  const all = (await items.list()).filter((saved) => saved.workspaceId === workspaceId);
+  return [...new Set(all.flatMap((saved) => saved.tags))].sort();
+}
+
+export function getSavedItem(id: string): Promise<SavedItem | null> {
+  return items.get(id);
+}
+
+export async function saveItem(
+  input: SavedItemInput,
+  scope: { workspaceId: string; createdBy?: string }
+): Promise<SavedItem> {
+  await assertCollections(input.collectionIds, scope.workspaceId);
+
+  const now = new Date().toISOString();
+  return items.insert(
+    SavedItemSchema.parse({
+      ...input,
+      id: `saved-${scope.workspaceId}-${input.kind}-${input.item.id}`,
+      title: input.title ?? defaultTitle(input),
+      tags: normalizeTags(input.tags),
+      collectionIds: [...new Set(input.collectionIds)],
+      workspaceId: scope.workspaceId,
+      createdBy: scope.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+}
+
+/**
+ * Refiles a saved item (title, tags, note, collections). The snapshot
+ * itself never changes; `updatedAt` is always bumped.
+ */
+export async function updateSavedItem(
+  id: string,
+  patch: Partial<Pick<SavedItem, "title" | "tags" | "collectionIds" | "note">>
+): Promise<SavedItem | null> {
+  const stored = await items.get(id);
+  if (!stored) return null;
+  if (patch.collectionIds) await assertCollections(patch.collectionIds, stored.workspaceId);
+
+  return items.update(id, (current) =>
+    SavedItemSchema.parse({
+      ...current,
+      ...patch,
+      tags: patch.tags ? normalizeTags(patch.tags) : current.tags,
+      collectionIds: patch.collectionIds
+        ? [...new Set(patch.collectionIds)]
+        : current.collectionIds,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+}
+
+export function deleteSavedItem(id: string): Promise<boolean> {
+  return items.remove(id);
+}
+
+export async function listCollections(workspaceId: string): Promise<SavedCollection[]> {
+  const all = await collections.list();
+  return all
+    .filter((collection) => collection.workspaceId === workspaceId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getCollection(id: string): Promise<SavedCollection | null> {
+  return collections.get(id);
+}
+
+export function createCollection(
+  input: SavedCollectionInput,
+  workspaceId: string
+): Promise<SavedCollection> {
+  const now = new Date().toISOString();
+  return collections.insert(
+    SavedCollectionSchema.parse({
+      ...input,
+      id: `collection-${slugify(input.name)}-${Date.now()}`,
+      workspaceId,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+}
+
+export function updateCollection(
+  id: string,
+  patch: Partial<SavedCollectionInput>
+): Promise<SavedCollection | null> {
+  return collections.update(id, (current) =>
+    SavedCollectionSchema.parse({
+      ...current,
+      ...patch,
+      id: current.id,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+}
+
+/**
+ * Deleting a collection unfiles its items; the items themselves stay.
+ */
+export async function deleteCollection(id: string): Promise<boolean> {
+  const deleted = await collections.remove(id);
+  if (!deleted) return false;
+
+  const filed = (await items.list()).filter((saved) => saved.collectionIds.includes(id));
+  for (const saved of filed) {
+    await items.update(saved.id, (current) => ({
+      ...current,
+      collectionIds: current.collectionIds.filter((collectionId) => collectionId !== id),
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+  return true;
+}
@@ -0,0 +1,120 @@
+// src/lib/library/reuse.ts
+import type { z } from "zod";
+import type { Brief, Script } from "@/types/engine";
+import { createBrief, getBrief } from "@/lib/briefs/repository";
+import { platformLabel } from "@/lib/generators/platformScript";
+import { BriefSchema, ScriptSchema } from "@/lib/schema/engine";
+import type { ReuseRequestSchema } from "@/lib/schema/requests";
+import { createScript } from "@/lib/scripts/repository";
+import { loadTrends } from "@/lib/signals/registry";
+import { getSavedItem } from "./repository";
+
+/**
+ * "Reuse" clones a saved brief or script into a new stored draft aimed at
+ * a different trend (briefs) or platform / brief (scripts). The clone
+ * keeps the creative work and drops everything that belonged to the
+ * original run: quality and Guardian reports, approval, shipping.
+ */
+
+export type ReuseTarget = z.infer<typeof ReuseRequestSchema>;
+
+export type ReuseResult =
+  | { kind: "brief"; brief: Brief }
+  | { kind: "script"; script: Script };
+
+/**
+ * The saved item can't be reused that way (wrong kind, missing or
+ * unknown target).
+ */
+export class ReuseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReuseError";
+  }
+}
+
+export type ReuseScope = { workspaceId: string; createdBy?: string };
+
+async function reuseBrief(brief: Brief, target: ReuseTarget, scope: ReuseScope): Promise<Brief> {
+  if (!target.trendId) throw new ReuseError("Reusing a brief needs a trendId");
+
+  const trend = (await loadTrends()).find((t) => t.id === target.trendId);
+  if (!trend) throw new ReuseError(`Trend "${target.trendId}" not found`);
+
+  const now = new Date().toISOString();
+  return createBrief(
+    BriefSchema.parse({
+      ...brief,
+      id: `brief-${trend.id}-${Date.now()}`,
+      title: brief.title.split(brief.trend.name).join(trend.name),
+      trend,
+      status: "Draft",
+      ...scope,
+      quality: undefined,
+      guardian: undefined,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+}
+
+async function reuseScript(
+  script: Script,
+  target: ReuseTarget,
+  scope: ReuseScope
+): Promise<Script> {
+  if (!target.platform && !target.briefId) {
+    throw new ReuseError("Reusing a script needs a platform or briefId");
+  }
+
+  const found = target.briefId ? await getBrief(target.briefId) : null;
+  const brief = found?.workspaceId === scope.workspaceId ? found : null;
+  if (target.briefId && !brief) throw new ReuseError(`Brief "${target.briefId}" not found`);
+
+  const platform = target.platform ?? script.platform;
+  const oldLabel = platformLabel(script.platform);
+  const title = brief
+    ? `${platformLabel(platform)} Script — ${brief.title}`
+    : script.title.startsWith(oldLabel)
+    ? platformLabel(platform) + script.title.slice(oldLabel.length)
+    : script.title;
+
+  return createScript(
+    ScriptSchema.parse({
+      ...script,
+      id: `script-${brief?.id ?? script.briefId}-${platform}-${Date.now()}`,
+      briefId: brief?.id ?? script.briefId,
+      brandId: brief ? brief.brandId : script.brandId,
+      platform,
+      title,
+      ...scope,
+      shipped: undefined,
+      quality: undefined,
+      guardian: undefined,
+      createdAt: new Date().toISOString(),
+      updatedAt: undefined,
+    })
+  );
+}
+
+/**
+ * Returns null when the saved item doesn't exist in the workspace. The
+ * clone belongs to `scope.createdBy`, not to whoever made the original.
+ */
+export async function reuseSavedItem(
+  id: string,
+  target: ReuseTarget,
+  scope: ReuseScope
+): Promise<ReuseResult | null> {
+  const saved = await getSavedItem(id);
+  if (!saved || saved.workspaceId !== scope.workspaceId) return null;
+
+  switch (saved.kind) {
+    case "brief":
+      return { kind: "brief", brief: await reuseBrief(saved.item, target, scope) };
+    case "script":
+      return { kind: "script", script: await reuseScript(saved.item, target, scope) };
+    default:
+      throw new ReuseError(`Only saved briefs and scripts can be reused, not a ${saved.kind}`);
+  }
+}
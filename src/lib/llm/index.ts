@@ -0,0 +1,179 @@
+// src/lib/llm/index.ts
+import type { FieldIssue } from "@/lib/schema/validate";
+import { createLocalProvider } from "./local";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import type {
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMSelection,
+  LLMUsage,
+} from "./types";
+
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMSelection,
+  LLMUsage,
+};
+
+/**
+ * Provider resolution.
+ *
+ * Order: per-request `provider` → LLM_PROVIDER env → "openai" when
+ * OPENAI_API_KEY is set → "mock". A provider that isn't configured
+ * (no key / no base URL) falls back to the mock with a warning, so a
+ * missing key never turns into a 500.
+ *
+ * Env:
+ *   LLM_PROVIDER        openai | local | mock
+ *   OPENAI_API_KEY      enables the OpenAI provider
+ *   OPENAI_MODEL        default model for OpenAI (gpt-4.1)
+ *   LLM_LOCAL_BASE_URL  OpenAI-compatible base URL, e.g. http://localhost:11434/v1
+ *   LLM_LOCAL_MODEL     default model for the local provider
+ *   LLM_LOCAL_API_KEY   optional bearer token for the local server
+ */
+
+/**
+ * The model answered, but not with something we can use
+ * (unparseable JSON, or JSON that fails the canonical schema).
+ */
+export class LLMOutputError extends Error {
+  constructor(
+    message: string,
+    public raw: string,
+    public issues: FieldIssue[] = []
+  ) {
+    super(message);
+    this.name = "LLMOutputError";
+  }
+}
+
+/**
+ * The caller cancelled (client disconnected or hit Cancel). Providers
+ * reject with whatever their transport throws, so check by name.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export type LLMResultMeta = {
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+};
+
+/**
+ * Rolls several calls (retries, variant passes) into one meta record:
+ * usage and latency are summed, provider/model come from the last call.
+ */
+export function combineMeta(metas: readonly LLMResultMeta[]): LLMResultMeta {
+  if (!metas.length) throw new Error("combineMeta needs at least one meta");
+  const last = metas[metas.length - 1];
+  return {
+    provider: last.provider,
+    model: last.model,
+    usage: {
+      inputTokens: metas.reduce((sum, m) => sum + m.usage.inputTokens, 0),
+      outputTokens: metas.reduce((sum, m) => sum + m.usage.outputTokens, 0),
+    },
+    latencyMs: metas.reduce((sum, m) => sum + m.latencyMs, 0),
+  };
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "local", "mock"];
+
+function envProviderName(): LLMProviderName | undefined {
+  const value = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+  return value && PROVIDER_NAMES.includes(value) ? value : undefined;
+}
+
+export function resolveProvider(selection: LLMSelection = {}): LLMProvider {
+  const requested =
+    selection.provider ??
+    envProviderName() ??
+    (process.env.OPENAI_API_KEY ? "openai" : "mock");
+
+  if (requested === "openai") {
+    if (process.env.OPENAI_API_KEY) {
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL,
+      });
+    }
+    console.warn("[llm] OPENAI_API_KEY is not set; using mock provider");
+  }
+
+  if (requested === "local") {
+    if (process.env.LLM_LOCAL_BASE_URL) {
+      return createLocalProvider({
+        baseUrl: process.env.LLM_LOCAL_BASE_URL,
+        model: process.env.LLM_LOCAL_MODEL,
+        apiKey: process.env.LLM_LOCAL_API_KEY,
+      });
+    }
+    console.warn("[llm] LLM_LOCAL_BASE_URL is not set; using mock provider");
+  }
+
+  return createMockProvider();
+}
+
+export async function generateText(
+  request: LLMRequest,
+  selection: LLMSelection = {}
+): Promise<{ text: string; meta: LLMResultMeta }> {
+  const provider = resolveProvider(selection);
+  const startedAt = Date.now();
+
+  let response: LLMResponse;
+  try {
+    response = await provider.complete({
+      ...request,
+      model: selection.model ?? request.model,
+      seed: selection.seed ?? request.seed,
+    });
+  } catch (error) {
+    // SDKs wrap aborts in their own error types; normalise to the signal's
+    // reason so isAbortError works whichever provider ran
+    if (request.signal?.aborted) throw request.signal.reason ?? error;
+    throw error;
+  }
+
+  return {
+    text: response.text,
+    meta: {
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      latencyMs: Date.now() - startedAt,
+    },
+  };
+}
+
+/**
+ * Models love wrapping JSON in ```json fences; strip them before parsing.
+ */
+export function parseModelJson(raw: string): unknown {
+  const trimmed = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new LLMOutputError("Model returned invalid JSON", raw);
+  }
+}
+
+export async function generateJson(
+  request: Omit<LLMRequest, "json">,
+  selection: LLMSelection = {}
+): Promise<{ data: unknown; meta: LLMResultMeta }> {
+  const { text, meta } = await generateText({ ...request, json: true }, selection);
+  return { data: parseModelJson(text), meta };
+}
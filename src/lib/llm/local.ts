@@ -0,0 +1,129 @@
+// src/lib/llm/local.ts
+import type { LLMProvider } from "./types";
+
+/**
+ * OpenAI-compatible HTTP provider for self-hosted models
+ * (vLLM, Ollama, LM Studio, llama.cpp server, …).
+ * Talks to `${baseUrl}/chat/completions`.
+ */
+
+export const DEFAULT_LOCAL_MODEL = "local-model";
+
+type ChatUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string } }[];
+  usage?: ChatUsage;
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string } }[];
+  usage?: ChatUsage | null;
+};
+
+/**
+ * Reads an OpenAI-style `data: {...}` event stream, passing each content
+ * delta on. Servers that ignore `stream_options` just report no usage.
+ */
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void
+): Promise<{ text: string; usage: ChatUsage }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: ChatUsage = {};
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!data || data === "[DONE]") continue;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    }
+  }
+
+  return { text, usage };
+}
+
+export function createLocalProvider(options: {
+  baseUrl: string;
+  model?: string;
+  apiKey?: string;
+}): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const defaultModel = options.model || DEFAULT_LOCAL_MODEL;
+
+  return {
+    name: "local",
+    defaultModel,
+
+    async complete(request) {
+      const model = request.model || defaultModel;
+
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: request.temperature,
+          messages: [
+            ...(request.system ? [{ role: "system", content: request.system }] : []),
+            { role: "user", content: request.prompt },
+          ],
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+          ...(request.onDelta
+            ? { stream: true, stream_options: { include_usage: true } }
+            : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!res.ok) {
+        throw new Error(`Local model responded with ${res.status}: ${await res.text()}`);
+      }
+
+      if (request.onDelta && res.body) {
+        const { text, usage } = await readChatStream(res.body, request.onDelta);
+        return {
+          text,
+          provider: "local",
+          model,
+          usage: {
+            inputTokens: usage.prompt_tokens ?? 0,
+            outputTokens: usage.completion_tokens ?? 0,
+          },
+        };
+      }
+
+      const data = (await res.json()) as ChatCompletionResponse;
+
+      return {
+        text: data.choices?.[0]?.message?.content ?? "",
+        provider: "local",
+        model,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens ?? 0,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// src/lib/llm/mock.ts
+import { createRng } from "./random";
+import type { LLMProvider } from "./types";
+
+/**
+ * Deterministic offline provider.
+ *
+ * Returns whatever the calling generator's `mock` builder produces,
+ * driven by a seeded RNG. Same prompt + seed → same output, with no
+ * network access, so local dev and tests never need a key.
+ */
+
+export const MOCK_MODEL = "mock-deterministic-v1";
+
+/**
+ * When streaming, the mock replays its output in small chunks with a
+ * short pause between them, so partial rendering and cancel can be
+ * exercised offline.
+ */
+export const MOCK_STREAM_CHUNK_CHARS = 24;
+export const MOCK_STREAM_DELAY_MS = 15;
+
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Rough GPT-style estimate: ~4 characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: "mock",
+    defaultModel: MOCK_MODEL,
+
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      const rng = createRng(request.seed ?? request.prompt);
+      const output = request.mock ? request.mock(rng) : undefined;
+
+      const text =
+        output === undefined
+          ? `[mock] ${request.prompt.trim().split("\n")[0] ?? ""}`
+          : typeof output === "string"
+          ? output
+          : JSON.stringify(output);
+
+      if (request.onDelta) {
+        for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK_CHARS) {
+          await pause(MOCK_STREAM_DELAY_MS, request.signal);
+          request.onDelta(text.slice(i, i + MOCK_STREAM_CHUNK_CHARS));
+        }
+      }
+
+      return {
+        text,
+        provider: "mock",
+        model: request.model || MOCK_MODEL,
+        usage: {
+          inputTokens: estimateTokens((request.system ?? "") + request.prompt),
+          outputTokens: estimateTokens(text),
+        },
+      };
+    },
+  };
+}
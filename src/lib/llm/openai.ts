@@ -0,0 +1,69 @@
+// src/lib/llm/openai.ts
+import OpenAI from "openai";
+import type { LLMProvider } from "./types";
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4.1";
+
+export function createOpenAIProvider(options: {
+  apiKey: string;
+  model?: string;
+}): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey });
+  const defaultModel = options.model || DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: "openai",
+    defaultModel,
+
+    async complete(request) {
+      const model = request.model || defaultModel;
+      const params = {
+        model,
+        instructions: request.system,
+        input: request.prompt,
+        temperature: request.temperature,
+        text: request.json ? { format: { type: "json_object" as const } } : undefined,
+      };
+
+      if (!request.onDelta) {
+        const completion = await client.responses.create(params, {
+          signal: request.signal,
+        });
+
+        return {
+          text: completion.output_text,
+          provider: "openai",
+          model,
+          usage: {
+            inputTokens: completion.usage?.input_tokens ?? 0,
+            outputTokens: completion.usage?.output_tokens ?? 0,
+          },
+        };
+      }
+
+      const stream = await client.responses.create(
+        { ...params, stream: true },
+        { signal: request.signal }
+      );
+
+      let text = "";
+      let usage = { inputTokens: 0, outputTokens: 0 };
+
+      for await (const event of stream) {
+        if (event.type === "response.output_text.delta") {
+          text += event.delta;
+          request.onDelta(event.delta);
+        } else if (event.type === "response.completed") {
+          usage = {
+            inputTokens: event.response.usage?.input_tokens ?? 0,
+            outputTokens: event.response.usage?.output_tokens ?? 0,
+          };
+        } else if (event.type === "error") {
+          throw new Error(`OpenAI stream error: ${event.message}`);
+        }
+      }
+
+      return { text, provider: "openai", model, usage };
+    },
+  };
+}
@@ -0,0 +1,66 @@
+// src/lib/llm/partialJson.ts
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed.
+ *
+ * Closes any open string, array and object so whatever has arrived so far
+ * can be rendered. If the tail is mid-token (a half-written key, `tru`,
+ * a dangling `"key":`), it backs off to the last comma or bracket and
+ * tries again. Returns undefined when nothing usable has arrived yet.
+ */
+
+const MAX_BACKOFFS = 4;
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+export function parsePartialJson(raw: string): unknown {
+  const text = raw.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+
+  const closers: string[] = [];
+  // Places we can safely truncate to, with the closers needed at that point
+  const cuts: { at: number; close: string }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  const closing = () => [...closers].reverse().join("");
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      closers.push(ch === "{" ? "}" : "]");
+      cuts.push({ at: i + 1, close: closing() });
+    } else if (ch === "}" || ch === "]") {
+      closers.pop();
+      cuts.push({ at: i + 1, close: closing() });
+    } else if (ch === ",") {
+      cuts.push({ at: i, close: closing() });
+    }
+  }
+
+  const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+  const whole = tryParse(body + closing());
+  if (whole.ok) return whole.value;
+
+  for (const cut of cuts.slice(-MAX_BACKOFFS).reverse()) {
+    const attempt = tryParse(text.slice(0, cut.at) + cut.close);
+    if (attempt.ok) return attempt.value;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,52 @@
+// src/lib/llm/random.ts
+
+/**
+ * Small seeded PRNG (mulberry32) so mock output is reproducible:
+ * the same seed always yields the same sequence.
+ */
+
+export type SeededRandom = {
+  next(): number; // [0, 1)
+  int(min: number, max: number): number; // inclusive
+  pick<T>(items: readonly T[]): T;
+  shuffle<T>(items: readonly T[]): T[];
+};
+
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function createRng(seed: string | number): SeededRandom {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    int,
+    pick: (items) => items[int(0, items.length - 1)],
+    shuffle: (items) => {
+      const out = [...items];
+      for (let i = out.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [out[i], out[j]] = [out[j], out[i]];
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/llm/types.ts
+import type { SeededRandom } from "./random";
+
+/**
+ * Provider-agnostic model interface.
+ * Every generator route goes through an LLMProvider; none of them
+ * construct an SDK client directly.
+ */
+
+export type LLMProviderName = "openai" | "local" | "mock";
+
+export type LLMRequest = {
+  prompt: string;
+  system?: string;
+  model?: string;
+  temperature?: number;
+  /** Ask the provider for a JSON object response. */
+  json?: boolean;
+  /** Seed for deterministic (mock) output; defaults to a hash of the prompt. */
+  seed?: string | number;
+  /**
+   * What the mock provider should return for this task. Strings are
+   * returned as-is, anything else is JSON-encoded.
+   */
+  mock?: (rng: SeededRandom) => unknown;
+  /**
+   * Called with each chunk of text as the model produces it. Providers
+   * stream when this is set; the full text is still returned at the end.
+   */
+  onDelta?: (delta: string) => void;
+  /** Aborts the model call (client disconnected or cancelled). */
+  signal?: AbortSignal;
+};
+
+export type LLMUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LLMResponse = {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+};
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Per-request provider choice; anything unset falls back to the env.
+ */
+export type LLMSelection = {
+  provider?: LLMProviderName;
+  model?: string;
+  seed?: string | number;
+};
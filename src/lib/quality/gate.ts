@@ -0,0 +1,126 @@
+// src/lib/quality/gate.ts
+import type { QualityReport } from "@/types/engine";
+import { combineMeta, isAbortError, type LLMResultMeta, type LLMSelection } from "@/lib/llm";
+import {
+  DEFAULT_QUALITY_THRESHOLD,
+  evaluate,
+  type Criterion,
+  type QualityKind,
+} from "./rubric";
+
+/**
+ * Platinum+ quality gate.
+ *
+ * Runs a generator, scores the result against the rubric and, if it
+ * falls short, regenerates with the failed criteria turned into explicit
+ * constraints. After the last attempt the best-scoring output is
+ * returned with `lowConfidence: true` so the UI can label it.
+ *
+ * Env:
+ *   QUALITY_THRESHOLD     minimum confidence (0–1), default 0.75
+ *   QUALITY_MAX_ATTEMPTS  generations per request, default 2
+ */
+
+export const DEFAULT_MAX_ATTEMPTS = 2;
+
+export type GateAttempt = {
+  attempt: number; // 1-based
+  constraints: string[];
+  selection: LLMSelection;
+};
+
+export type GateOptions = {
+  threshold?: number;
+  maxAttempts?: number;
+};
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : undefined;
+}
+
+export function resolveQualityThreshold(override?: number): number {
+  return override ?? envNumber("QUALITY_THRESHOLD") ?? DEFAULT_QUALITY_THRESHOLD;
+}
+
+/**
+ * Prompt section listing what the previous attempt got wrong.
+ */
+export function constraintsBlock(constraints: readonly string[]): string {
+  if (!constraints.length) return "";
+  return `
+The previous attempt failed these quality checks. This time you MUST:
+${constraints.map((c) => `- ${c}`).join("\n")}
+`;
+}
+
+/**
+ * Retries vary the seed so a seeded (or mock) provider doesn't just
+ * return the same output again. Generators use this for their own
+ * default seeds too.
+ */
+export function attemptSeed(seed: string | number, attempt: number): string | number {
+  return attempt === 1 ? seed : `${seed}:retry-${attempt}`;
+}
+
+function selectionForAttempt(selection: LLMSelection, attempt: number): LLMSelection {
+  if (selection.seed === undefined) return selection;
+  return { ...selection, seed: attemptSeed(selection.seed, attempt) };
+}
+
+/**
+ * `meta` covers every attempt (usage and latency summed), since each
+ * retry is a real model call.
+ */
+export async function runQualityGate<T>(
+  kind: QualityKind,
+  criteria: readonly Criterion<T>[],
+  generate: (attempt: GateAttempt) => Promise<{ output: T; meta: LLMResultMeta }>,
+  selection: LLMSelection = {},
+  options: GateOptions = {}
+): Promise<{ output: T; meta: LLMResultMeta; quality: QualityReport }> {
+  const threshold = resolveQualityThreshold(options.threshold);
+  const maxAttempts = Math.max(
+    1,
+    options.maxAttempts ?? envNumber("QUALITY_MAX_ATTEMPTS") ?? DEFAULT_MAX_ATTEMPTS
+  );
+
+  let best: { output: T; quality: QualityReport } | null = null;
+  let constraints: string[] = [];
+  const metas: LLMResultMeta[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let output: T;
+    try {
+      const generated = await generate({
+        attempt,
+        constraints,
+        selection: selectionForAttempt(selection, attempt),
+      });
+      output = generated.output;
+      metas.push(generated.meta);
+    } catch (error) {
+      // A failed retry shouldn't throw away a usable earlier attempt,
+      // but a cancelled request should stop, not return stale output
+      if (best && !isAbortError(error)) break;
+      throw error;
+    }
+
+    const quality = evaluate(kind, criteria, output, threshold);
+    if (!best || quality.confidence > best.quality.confidence) {
+      best = { output, quality };
+    }
+    if (quality.platinum) break;
+
+    const failed = new Set(quality.criteria.filter((c) => !c.pass).map((c) => c.id));
+    constraints = criteria.filter((c) => failed.has(c.id)).map((c) => c.constraint);
+  }
+
+  if (!best) throw new Error("Quality gate ran no attempts");
+
+  return {
+    output: best.output,
+    meta: combineMeta(metas),
+    quality: { ...best.quality, attempts: metas.length },
+  };
+}
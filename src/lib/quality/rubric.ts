@@ -0,0 +1,359 @@
+// src/lib/quality/rubric.ts
+import type {
+  Angle,
+  Brief,
+  QualityCriterionResult,
+  QualityReport,
+  Script,
+  Trend,
+} from "@/types/engine";
+import { angleOverlaps } from "@/lib/similarity/angles";
+import { scriptDurationSeconds } from "@/lib/scripts/render";
+
+/**
+ * Platinum+ rubric, one list of criteria per output type, taken from
+ * PlatinumPlus-Output-Criteria.md.
+ *
+ * Checks are local heuristics (no model call), so they are cheap enough
+ * to run on every generation and safe to run in the browser. Critical
+ * criteria count double and must all pass for an output to be Platinum+.
+ */
+
+export type QualityKind = QualityReport["kind"];
+
+type CheckResult = { pass: boolean; detail?: string };
+
+export type Criterion<T> = {
+  id: string;
+  label: string;
+  critical?: boolean;
+  // Extra instruction for the model when this criterion failed
+  constraint: string;
+  check: (output: T) => CheckResult;
+};
+
+export const DEFAULT_QUALITY_THRESHOLD = 0.75;
+
+function wordCount(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+function sentenceCount(text: string): number {
+  return text.split(/[.!?]+/).filter((s) => s.trim()).length;
+}
+
+function result(pass: boolean, detail?: string): CheckResult {
+  return pass ? { pass } : { pass, detail };
+}
+
+/**
+ * Trend (Cultural Radar)
+ */
+export const TREND_CRITERIA: Criterion<Trend>[] = [
+  {
+    id: "clear-mechanic",
+    label: "Has a clear mechanic",
+    critical: true,
+    constraint: "Describe the mechanic: what people are actually doing on-screen.",
+    check: (trend) =>
+      result(
+        wordCount(trend.mechanic) >= 5 && trend.mechanic !== trend.summary,
+        "Mechanic is missing or just repeats the summary."
+      ),
+  },
+  {
+    id: "concise-description",
+    label: "Described in 1–3 sentences",
+    constraint: "Summarise the trend in 1–3 sentences.",
+    check: (trend) => {
+      const count = sentenceCount(trend.summary);
+      return result(count >= 1 && count <= 3, `Summary has ${count} sentences.`);
+    },
+  },
+  {
+    id: "where-it-shows-up",
+    label: "Says where it shows up",
+    constraint: "List the platforms where the trend shows up.",
+    check: (trend) => result(trend.platformFit.length > 0, "No platforms listed."),
+  },
+  {
+    id: "signal-strength",
+    label: "Signal strength backed by data",
+    critical: true,
+    constraint: "Back the signal strength stage with a score.",
+    check: (trend) =>
+      result(
+        trend.signalStrengthScore > 0 && Boolean(trend.sourceSignalId || trend.summary),
+        "Signal strength has no supporting score."
+      ),
+  },
+  {
+    id: "risk-noted",
+    label: "Notes risks or sensitivities",
+    constraint: "Note any risks or sensitivities (tone, topics, communities).",
+    check: (trend) => result(Boolean(trend.riskNotes?.trim()), "No risk notes."),
+  },
+];
+
+/**
+ * Angles (Creative Strategist) — scored as a set, since distinctness
+ * only makes sense across siblings.
+ */
+export const ANGLE_CRITERIA: Criterion<Angle[]>[] = [
+  {
+    id: "angles-distinct",
+    label: "Angles are distinct",
+    critical: true,
+    constraint: "Make every angle genuinely different: new POV, format or audience.",
+    check: (angles) => {
+      const [closest] = angleOverlaps(angles);
+      if (!closest) return result(true);
+      const label = (id: string) => angles.find((a) => a.id === id)?.label ?? id;
+      return result(false, `"${label(closest.a)}" and "${label(closest.b)}" overlap.`);
+    },
+  },
+  {
+    id: "strong-hook",
+    label: "Simple, strong hook",
+    critical: true,
+    constraint: "Give each angle a hook of at most 20 words that works as an opening line.",
+    check: (angles) => {
+      const weak = angles.filter((a) => {
+        const words = wordCount(a.hook);
+        return words < 3 || words > 20;
+      });
+      return result(!weak.length, `${weak.length} hook(s) are too short or too long.`);
+    },
+  },
+  {
+    id: "format-and-platform",
+    label: "Specifies format and platform",
+    constraint: "Name the exact format and platform for every angle.",
+    check: (angles) =>
+      result(
+        angles.every((a) => a.format.trim() && a.platform.trim()),
+        "An angle is missing its format or platform."
+      ),
+  },
+  {
+    id: "core-sequence",
+    label: "Has a core sequence of beats",
+    constraint: "Give each angle a coreSequence of at least 3 concrete beats.",
+    check: (angles) =>
+      result(
+        angles.every((a) => a.coreSequence.length >= 3),
+        "Some angles have fewer than 3 beats."
+      ),
+  },
+  {
+    id: "brand-fit-and-risk",
+    label: "Notes brand fit and risk",
+    constraint: "Add a brandFitRationale and riskLevel to every angle.",
+    check: (angles) =>
+      result(
+        angles.every((a) => a.brandFitRationale && a.riskLevel),
+        "Brand fit or risk is missing."
+      ),
+  },
+  {
+    id: "series-potential",
+    label: "Has series potential",
+    constraint: "Score each angle's seriesPotentialScore (0–100).",
+    check: (angles) =>
+      result(
+        angles.every((a) => a.seriesPotentialScore !== undefined),
+        "Series potential is not scored."
+      ),
+  },
+];
+
+/**
+ * Brief (Creative Brief Architect)
+ */
+const GENERIC_OBJECTIVE = /^(to )?(increase|raise|drive|build) (brand )?awareness\.?$/i;
+
+export const BRIEF_CRITERIA: Criterion<Brief>[] = [
+  {
+    id: "clear-objective",
+    label: "Clear, specific objective",
+    critical: true,
+    constraint: "Write a specific objective, not 'increase awareness generally'.",
+    check: (brief) =>
+      result(
+        wordCount(brief.objective) >= 5 && !GENERIC_OBJECTIVE.test(brief.objective.trim()),
+        "Objective is missing or generic."
+      ),
+  },
+  {
+    id: "primary-audience",
+    label: "Defines a primary audience",
+    constraint: "Define the primary audience and what we want them to think, feel or do.",
+    check: (brief) => result(Boolean(brief.primaryAudience.trim()), "No audience."),
+  },
+  {
+    id: "core-message",
+    label: "Core message in plain language",
+    critical: true,
+    constraint: "State the core message in one plain sentence (under 30 words).",
+    check: (brief) => {
+      const words = wordCount(brief.coreMessage);
+      return result(words > 0 && words <= 30, "Core message is missing or too long.");
+    },
+  },
+  {
+    id: "tone-and-voice",
+    label: "Tone and voice with examples",
+    constraint: "Describe tone and voice with at least two concrete examples.",
+    check: (brief) =>
+      result(brief.toneAndVoice.length >= 2, "Fewer than two tone and voice notes."),
+  },
+  {
+    id: "mandatories-and-guardrails",
+    label: "Lists mandatories and guardrails",
+    constraint: "List creative mandatories and guardrails explicitly.",
+    check: (brief) =>
+      result(
+        brief.creativeMandatories.length > 0 && brief.guardrails.length > 0,
+        "Mandatories or guardrails are empty."
+      ),
+  },
+  {
+    id: "example-concepts",
+    label: "2–3 concrete example concepts",
+    constraint: "Include 2–3 concrete example concepts under the chosen angle.",
+    check: (brief) =>
+      result(brief.exampleConcepts.length >= 2, "Fewer than two example concepts."),
+  },
+];
+
+/**
+ * Script (UGC & Script Director)
+ */
+const CLICKBAIT = /you won'?t believe|shocking|must[- ]see|this will blow your mind/i;
+const AI_PHRASES =
+  /\b(delve|in today'?s fast[- ]paced|unlock the power|game[- ]changer|elevate your|seamless(ly)?|tapestry)\b/i;
+const CTA_VERBS =
+  /\b(follow|save|share|comment|subscribe|connect|click|tap|try|shop|duet|stitch|tell|send|sign up|join|book|download|steal)\b/i;
+
+const MAX_RUNTIME_SECONDS: Record<Script["platform"], number> = {
+  tiktok: 60,
+  reels: 60,
+  shorts: 60,
+  x: 140,
+  linkedin: 180,
+  youtube: 600,
+};
+
+export const SCRIPT_CRITERIA: Criterion<Script>[] = [
+  {
+    id: "platform-hook",
+    label: "Platform-appropriate hook",
+    critical: true,
+    constraint: "Open with a hook under 20 words that is specific, not generic clickbait.",
+    check: (script) =>
+      result(
+        wordCount(script.hook) <= 20 && !CLICKBAIT.test(script.hook),
+        "Hook is too long or reads as clickbait."
+      ),
+  },
+  {
+    id: "visual-direction",
+    label: "Includes visual direction",
+    constraint: "Add visual direction (framing, scene, transitions) to most beats.",
+    check: (script) => {
+      const directed = script.beats.filter((b) => b.visualDirection.trim()).length;
+      return result(
+        directed * 2 >= script.beats.length,
+        `${directed}/${script.beats.length} beats have visual direction.`
+      );
+    },
+  },
+  {
+    id: "length-and-pacing",
+    label: "Respects length and pacing",
+    constraint: "Keep the runtime within the platform's norms.",
+    check: (script) => {
+      const seconds = scriptDurationSeconds(script);
+      return result(
+        seconds >= 5 && seconds <= MAX_RUNTIME_SECONDS[script.platform],
+        `Runtime ${seconds}s is outside ${script.platform} norms.`
+      );
+    },
+  },
+  {
+    id: "clear-cta",
+    label: "Clear CTA tied to the objective",
+    critical: true,
+    constraint: "End with one clear CTA (save, follow, comment…) that serves the brief's objective.",
+    check: (script) => result(CTA_VERBS.test(script.cta), "CTA has no clear action."),
+  },
+  {
+    id: "variations",
+    label: "Includes hook or ending variations",
+    constraint: "Provide alternative hooks or endings for testing.",
+    check: (script) =>
+      result(
+        script.variants.hooks.length + script.variants.endings.length > 0,
+        "No hook or ending variations."
+      ),
+  },
+  {
+    id: "natural-voice",
+    label: "Natural voice, no AI-ish phrasing",
+    constraint: "Avoid jargon and AI-sounding phrases; write like a creator talks.",
+    check: (script) => {
+      const text = [script.hook, ...script.beats.map((b) => b.voiceover), script.cta].join(" ");
+      const match = text.match(AI_PHRASES);
+      return result(!match, match ? `Contains "${match[0]}".` : undefined);
+    },
+  },
+];
+
+/**
+ * Scores an output against its criteria. Critical criteria weigh double.
+ */
+export function evaluate<T>(
+  kind: QualityKind,
+  criteria: readonly Criterion<T>[],
+  output: T,
+  threshold = DEFAULT_QUALITY_THRESHOLD
+): QualityReport {
+  const results: QualityCriterionResult[] = criteria.map((criterion) => {
+    const { pass, detail } = criterion.check(output);
+    return {
+      id: criterion.id,
+      label: criterion.label,
+      pass,
+      critical: Boolean(criterion.critical),
+      ...(detail ? { detail } : {}),
+    };
+  });
+
+  const weight = (r: QualityCriterionResult) => (r.critical ? 2 : 1);
+  const total = results.reduce((sum, r) => sum + weight(r), 0);
+  const passed = results.reduce((sum, r) => sum + (r.pass ? weight(r) : 0), 0);
+  const confidence = total ? Number((passed / total).toFixed(2)) : 0;
+  const platinum = confidence >= threshold && results.every((r) => r.pass || !r.critical);
+
+  return {
+    kind,
+    criteria: results,
+    confidence,
+    platinum,
+    lowConfidence: !platinum,
+    attempts: 1,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+export const evaluateTrend = (trend: Trend, threshold?: number) =>
+  evaluate("trend", TREND_CRITERIA, trend, threshold);
+
+export const evaluateAngles = (angles: Angle[], threshold?: number) =>
+  evaluate("angles", ANGLE_CRITERIA, angles, threshold);
+
+export const evaluateBrief = (brief: Brief, threshold?: number) =>
+  evaluate("brief", BRIEF_CRITERIA, brief, threshold);
+
+export const evaluateScript = (script: Script, threshold?: number) =>
+  evaluate("script", SCRIPT_CRITERIA, script, threshold);
@@ -0,0 +1,554 @@
+// src/lib/schema/engine.ts
+import { z } from "zod";
+
+/**
+ * Canonical engine objects.
+ *
+ * This is the single source of truth for Trend / Angle / Brief.
+ * TypeScript types are inferred from these schemas (see src/types/engine.ts),
+ * and every API route validates its payloads against them at runtime.
+ */
+
+/**
+ * Platinum+ rubric result (see PlatinumPlus-Output-Criteria.md and
+ * src/lib/quality). Attached to generator output so the UI can show
+ * per-criterion pass/fail next to it.
+ */
+export const QualityCriterionResultSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  pass: z.boolean(),
+  critical: z.boolean().default(false),
+  detail: z.string().optional(),
+});
+
+export const QualityReportSchema = z.object({
+  kind: z.enum(["trend", "angles", "brief", "script"]),
+  criteria: z.array(QualityCriterionResultSchema),
+  confidence: z.number().min(0).max(1),
+  platinum: z.boolean(), // above threshold with every critical criterion passing
+  lowConfidence: z.boolean(),
+  attempts: z.number().int().min(1).default(1),
+  evaluatedAt: z.string(),
+});
+
+/**
+ * Brand Guardian result (see src/lib/guardian). Each flag points at a
+ * span inside one text field of the output, says why, and offers a
+ * safer rewrite of that field.
+ */
+export const GuardianFlagSchema = z.object({
+  id: z.string(),
+  source: z.enum(["lexicon", "claim", "guardrail", "risk"]),
+  rule: z.string(), // lexicon topic / claim pattern id, or the guardrail text
+  field: z.string(), // e.g. "beats[2].voiceover"
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  text: z.string(),
+  reason: z.string(),
+  severity: z.enum(["low", "medium", "high"]),
+  suggestion: z.string(),
+});
+
+export const GuardianReportSchema = z.object({
+  flagged: z.boolean(),
+  flags: z.array(GuardianFlagSchema),
+  checkedAt: z.string(),
+});
+
+/**
+ * A human decision to ship despite flags. Only covers the flag ids it
+ * lists; a rescan that raises new flags blocks approval again.
+ */
+export const GuardianOverrideSchema = z.object({
+  by: z.string().min(1), // display name, kept as it was at the time
+  userId: z.string().optional(), // unset on overrides from before accounts
+  reason: z.string().min(1),
+  flagIds: z.array(z.string()),
+  at: z.string(),
+});
+
+/**
+ * Brand Memory: one client's voice and context (see src/lib/brands).
+ * The active profile is injected into angle, brief and script generation,
+ * and its forbidden words are enforced by the Brand Guardian.
+ */
+export const GlossaryEntrySchema = z.object({
+  term: z.string().min(1),
+  definition: z.string().default(""),
+});
+
+export const AudienceClusterSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+});
+
+/**
+ * House style for exported briefs (see src/lib/briefs/export.ts).
+ */
+export const BriefTemplateSchema = z.enum(["studio", "editorial", "minimal"]);
+
+export const BrandProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  tone: z.array(z.string()).default([]),
+  glossary: z.array(GlossaryEntrySchema).default([]),
+  preferredWords: z.array(z.string()).default([]),
+  forbiddenWords: z.array(z.string().min(1)).default([]),
+  audienceClusters: z.array(AudienceClusterSchema).default([]),
+  competitors: z.array(z.string()).default([]),
+  culturalPositioning: z.string().default(""),
+  briefTemplate: BriefTemplateSchema.default("studio"), // exported brief style
+  accentColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Expected a #rrggbb colour")
+    .optional(),
+  workspaceId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const TrendStageSchema = z.enum([
+  "early",
+  "growing",
+  "peaking",
+  "saturated",
+]);
+
+export const LevelSchema = z.enum(["low", "medium", "high"]);
+
+export const TrendSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  summary: z.string(),
+  mechanic: z.string(),
+  signalStrengthStage: TrendStageSchema,
+  signalStrengthScore: z.number().min(0).max(100),
+  momentumScore: z.number().min(0).max(100).optional(), // velocity + acceleration only
+  platformFit: z.array(z.string()),
+  brandFitNotes: z.string().optional(),
+  riskNotes: z.string().optional(),
+  sourceSignalId: z.string().optional(), // link to the TrendSignal it was interpreted from
+  formatLabel: z.string().optional(),
+  category: z.string().optional(),
+  quality: QualityReportSchema.optional(),
+});
+
+export const AngleSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  hook: z.string(),
+  format: z.string(),
+  platform: z.string(),
+  coreSequence: z.array(z.string()).default([]), // beats
+  brandFitRationale: z.string().optional(),
+  difficulty: LevelSchema.optional(),
+  riskLevel: LevelSchema.optional(),
+  seriesPotentialScore: z.number().min(0).max(100).optional(),
+  audience: z.string().optional(),
+  outcome: z.string().optional(),
+  notes: z.string().optional(),
+  maxSimilarity: z.number().min(0).max(1).optional(), // closest sibling in its set
+  guardian: GuardianReportSchema.optional(),
+});
+
+/**
+ * How different the angles in one set are from each other.
+ * `score` is 0–100 (100 = nothing shared); `pairs` lists the sibling
+ * pairs at or above `threshold`, before near-duplicates were dropped.
+ */
+export const AngleOverlapSchema = z.object({
+  a: z.string().min(1), // angle ids
+  b: z.string().min(1),
+  similarity: z.number().min(0).max(1),
+});
+
+export const AngleDiversitySchema = z.object({
+  score: z.number().min(0).max(100),
+  threshold: z.number().min(0).max(1),
+  pairs: z.array(AngleOverlapSchema).default([]),
+  dropped: z.array(z.string()).default([]), // labels of removed near-duplicates
+});
+
+/**
+ * Approval stages, in pipeline order. Status only moves through the
+ * workflow (src/lib/workflow), which records who moved it and when.
+ */
+export const BriefStatusSchema = z.enum([
+  "Draft",
+  "In review",
+  "Changes requested",
+  "Approved",
+  "Archived",
+]);
+
+// "Active" predates the approval workflow and anyone could set it, so it
+// carries no sign-off; only the workflow makes a brief Approved
+const upgradeBriefStatus = (value: unknown) => (value === "Active" ? "In review" : value);
+
+export const BriefSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  trend: TrendSchema,
+  angle: AngleSchema.optional(),
+  brandId: z.string().optional(),
+  status: z.preprocess(upgradeBriefStatus, BriefStatusSchema.default("Draft")),
+  summary: z.string().optional(),
+  objective: z.string().default(""),
+  primaryAudience: z.string().default(""),
+  coreMessage: z.string().default(""),
+  toneAndVoice: z.array(z.string()).default([]),
+  contentRequirements: z.array(z.string()).default([]),
+  creativeMandatories: z.array(z.string()).default([]),
+  guardrails: z.array(z.string()).default([]),
+  successMetrics: z.array(z.string()).default([]),
+  exampleConcepts: z.array(z.string()).default([]),
+  quality: QualityReportSchema.optional(),
+  guardian: GuardianReportSchema.optional(),
+  workspaceId: z.string().optional(),
+  createdBy: z.string().optional(), // user id
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * One saved state of a brief. Every create / edit / restore that changes
+ * the brief appends a version; versions are never edited.
+ */
+export const BriefVersionSchema = z.object({
+  id: z.string().min(1), // `${briefId}@v${version}`
+  briefId: z.string().min(1),
+  version: z.number().int().min(1),
+  brief: BriefSchema,
+  restoredFrom: z.number().int().min(1).optional(),
+  createdAt: z.string(),
+});
+
+export const PlatformModeSchema = z.enum([
+  "tiktok",
+  "reels",
+  "shorts",
+  "x",
+  "linkedin",
+  "youtube",
+]);
+
+/**
+ * A script beat: one shot / line of the video, in order.
+ */
+export const ScriptBeatSchema = z.object({
+  voiceover: z.string().default(""),
+  onScreenText: z.string().default(""),
+  visualDirection: z.string().default(""),
+  estimatedSeconds: z.number().min(0).max(600),
+});
+
+/**
+ * Alternative hooks / endings for A/B testing.
+ * `maxSimilarity` is the closest match against the original and the other
+ * variants (0 = nothing shared, 1 = identical); see src/lib/similarity.
+ */
+export const VariantTechniqueSchema = z.enum([
+  "curiosity-gap",
+  "pattern-break",
+  "pov",
+  "stat-drop",
+]);
+
+export const ScriptVariantSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["hook", "ending"]),
+  technique: VariantTechniqueSchema,
+  text: z.string().min(1),
+  maxSimilarity: z.number().min(0).max(1).default(0),
+});
+
+export const ScriptVariantsSchema = z.object({
+  hooks: z.array(ScriptVariantSchema).default([]),
+  endings: z.array(ScriptVariantSchema).default([]),
+});
+
+/**
+ * The hook + ending pairing that actually went out. Ids point into
+ * `variants`; a missing id means the original hook / CTA was used.
+ */
+export const ShippedPairingSchema = z.object({
+  hookVariantId: z.string().optional(),
+  endingVariantId: z.string().optional(),
+  shippedAt: z.string(),
+});
+
+/**
+ * Same pipeline as briefs; approving also needs a clear Brand Guardian.
+ */
+export const ScriptStatusSchema = z.enum([
+  "draft",
+  "in-review",
+  "changes-requested",
+  "approved",
+  "archived",
+]);
+
+export const ScriptSchema = z.object({
+  id: z.string().min(1),
+  briefId: z.string().min(1),
+  brandId: z.string().optional(),
+  platform: PlatformModeSchema,
+  title: z.string().min(1),
+  hook: z.string().min(1),
+  coreMessage: z.string().default(""), // shared across every platform version
+  beats: z.array(ScriptBeatSchema).min(1),
+  cta: z.string(),
+  captions: z.array(z.string()).default([]),
+  hashtags: z.array(z.string()).default([]),
+  notes: z.array(z.string()).default([]), // for the creator / editor
+  variants: ScriptVariantsSchema.default({ hooks: [], endings: [] }),
+  shipped: ShippedPairingSchema.optional(),
+  quality: QualityReportSchema.optional(),
+  guardian: GuardianReportSchema.optional(),
+  guardianOverride: GuardianOverrideSchema.optional(),
+  status: ScriptStatusSchema.default("draft"),
+  approvedAt: z.string().optional(),
+  workspaceId: z.string().optional(),
+  createdBy: z.string().optional(), // user id
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+/**
+ * Content calendar: one scheduled post, linked to the brief it came from
+ * and, once written, the script. `dueDate` is a plain calendar day
+ * (YYYY-MM-DD), not a timestamp, so it means the same day everywhere.
+ */
+export const CalendarEntryStatusSchema = z.enum([
+  "planned",
+  "in-production",
+  "ready",
+  "published",
+]);
+
+export const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), "Invalid date");
+
+/**
+ * Computed on read from the linked brief's trend snapshot; never stored.
+ * `expectedAt` is when the trend is projected to saturate.
+ */
+export const SaturationCheckSchema = z.object({
+  expectedAt: IsoDateSchema,
+  afterSaturation: z.boolean(),
+  message: z.string().optional(),
+});
+
+export const CalendarEntrySchema = z.object({
+  id: z.string().min(1),
+  briefId: z.string().min(1),
+  scriptId: z.string().optional(),
+  title: z.string().min(1),
+  owner: z.string().default(""),
+  dueDate: IsoDateSchema,
+  platform: PlatformModeSchema,
+  format: z.string().default(""),
+  status: CalendarEntryStatusSchema.default("planned"),
+  notes: z.string().default(""),
+  saturation: SaturationCheckSchema.optional(),
+  workspaceId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Saved library: a snapshot of a trend, angle, brief or script, filed into
+ * named collections and tagged. The snapshot is what was saved, so later
+ * edits to the original don't change the library copy.
+ */
+export const SavedItemKindSchema = z.enum(["trend", "angle", "brief", "script"]);
+
+export const SavedCollectionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  description: z.string().default(""),
+  workspaceId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const SavedItemMetaSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  tags: z.array(z.string()).default([]),
+  collectionIds: z.array(z.string()).default([]),
+  note: z.string().default(""),
+  workspaceId: z.string().optional(),
+  createdBy: z.string().optional(), // user id
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const SavedItemSchema = z.discriminatedUnion("kind", [
+  SavedItemMetaSchema.extend({ kind: z.literal("trend"), item: TrendSchema }),
+  SavedItemMetaSchema.extend({
+    kind: z.literal("angle"),
+    item: AngleSchema,
+    trend: TrendSchema.optional(), // the trend the angle was written for
+  }),
+  SavedItemMetaSchema.extend({ kind: z.literal("brief"), item: BriefSchema }),
+  SavedItemMetaSchema.extend({ kind: z.literal("script"), item: ScriptSchema }),
+]);
+
+/**
+ * API key. Only the SHA-256 hash of the secret is stored; the secret is
+ * shown once, at issue. `prefix` (the first characters of the secret)
+ * is what lists and usage show to tell keys apart. Revoked keys are kept
+ * so their usage history still has a name.
+ */
+export const ApiKeyRateLimitSchema = z.object({
+  capacity: z.number().int().min(1), // burst size
+  refillPerMinute: z.number().min(0.1), // sustained rate
+});
+
+export const ApiKeySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  prefix: z.string().min(1),
+  hash: z.string().regex(/^[0-9a-f]{64}$/),
+  rateLimit: ApiKeyRateLimitSchema,
+  workspaceId: z.string().optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  revokedAt: z.string().optional(),
+});
+
+/**
+ * One generation request. `keyId` is unset for calls from the app's own
+ * pages; token counts and latency are summed over every model call the
+ * request made (retries and variant passes included).
+ */
+export const UsageRecordSchema = z.object({
+  id: z.string().min(1),
+  keyId: z.string().optional(),
+  workspaceId: z.string().optional(),
+  route: z.string().min(1),
+  provider: z.enum(["openai", "local", "mock"]),
+  model: z.string(),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  latencyMs: z.number().min(0),
+  createdAt: z.string(),
+});
+
+/**
+ * User account. Local accounts have a `passwordHash` (scrypt, see
+ * src/lib/auth/passwords.ts); SSO accounts carry their identity-provider
+ * subject in `oidc`. An account can have both: signing in with SSO links
+ * to an existing account with the same verified email.
+ */
+export const UserSchema = z.object({
+  id: z.string().min(1),
+  email: z.email(), // stored lower-cased
+  name: z.string().default(""),
+  passwordHash: z.string().optional(),
+  oidc: z.object({ issuer: z.string().min(1), subject: z.string().min(1) }).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  lastSignInAt: z.string().optional(),
+});
+
+/**
+ * Signed-in session. The cookie holds a random token; only its SHA-256
+ * hash is stored (as the id), so the session file can't be replayed.
+ */
+export const SessionSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{64}$/),
+  userId: z.string().min(1),
+  method: z.enum(["password", "oidc"]),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+/**
+ * Workspace: one client (or team) with its own brands, briefs, scripts,
+ * calendar, library and API keys. Those records carry `workspaceId`;
+ * records from before workspaces existed have none until the first
+ * workspace claims them (see src/lib/workspaces/migrate.ts).
+ *
+ * Roles, lowest first: viewers read, editors also create, edit, generate
+ * and approve, owners also manage members and invites.
+ */
+export const WorkspaceRoleSchema = z.enum(["viewer", "editor", "owner"]);
+
+// Viewers only read, so a rule can't hand them sign-off; rules saved
+// before this was enforced are read as needing an editor
+const upgradeApproverRole = (value: unknown) => (value === "viewer" ? "editor" : value);
+
+/**
+ * Sign-off needed to move a brief or script into a stage: this many
+ * different members with at least this role. Stages without a rule
+ * need one editor.
+ */
+export const ApprovalRuleSchema = z.object({
+  approvals: z.number().int().min(1).max(10).default(1),
+  role: z.preprocess(upgradeApproverRole, z.enum(["editor", "owner"]).default("editor")),
+});
+
+export const ApprovalPolicySchema = z.object({
+  brief: z.partialRecord(BriefStatusSchema, ApprovalRuleSchema).default({}),
+  script: z.partialRecord(ScriptStatusSchema, ApprovalRuleSchema).default({}),
+});
+
+export const WorkspaceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  createdBy: z.string().min(1), // user id
+  // Secret for the iCal feed URL; calendar apps can't send a session
+  calendarFeedToken: z.string().optional(),
+  approvalPolicy: ApprovalPolicySchema.optional(), // defaults in src/lib/workflow
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const WorkspaceMemberSchema = z.object({
+  id: z.string().min(1), // `${workspaceId}:${userId}`
+  workspaceId: z.string().min(1),
+  userId: z.string().min(1),
+  role: WorkspaceRoleSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Invitation to join with a role. Like sessions, only the SHA-256 hash
+ * of the link's token is stored (as the id). Accepting needs a signed-in
+ * user with the invited email.
+ */
+export const WorkspaceInviteSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{64}$/),
+  workspaceId: z.string().min(1),
+  email: z.email(), // stored lower-cased
+  role: WorkspaceRoleSchema,
+  invitedBy: z.string().min(1), // user id
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  acceptedAt: z.string().optional(),
+});
+
+/**
+ * Approval history, append-only. A `sign-off` is one approver agreeing to
+ * a move that needs more than one; the `transition` is the move itself.
+ */
+export const WorkflowSubjectSchema = z.enum(["brief", "script"]);
+
+export const WorkflowEventSchema = z.object({
+  id: z.string().min(1),
+  workspaceId: z.string().optional(),
+  subject: WorkflowSubjectSchema,
+  subjectId: z.string().min(1),
+  kind: z.enum(["transition", "sign-off"]),
+  from: z.string().min(1),
+  to: z.string().min(1),
+  by: z.string().min(1), // user id
+  note: z.string().optional(),
+  at: z.string(),
+});
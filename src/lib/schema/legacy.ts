@@ -0,0 +1,170 @@
+// src/lib/schema/legacy.ts
+
+/**
+ * Upgraders for older payload shapes.
+ *
+ * Before the canonical schema there were two Trend/Angle/Brief models
+ * (the engine one and the old BriefContext one), plus the ad-hoc
+ * `{ title, state, momentum }` trend that /api/generateBrief read.
+ * Clients still sending those shapes get upgraded here, before
+ * validation, so they keep working.
+ *
+ * Upgraders only ever fill in missing canonical fields; anything already
+ * in canonical form passes through untouched.
+ */
+
+type Loose = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Loose {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function list(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === "string" && Boolean(v.trim()));
+  }
+  const single = str(value);
+  return single ? [single] : undefined;
+}
+
+export function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "untitled"
+  );
+}
+
+const LEGACY_STATUS_TO_STAGE: Record<string, string> = {
+  emerging: "growing",
+  peaking: "peaking",
+  stable: "saturated",
+  declining: "saturated",
+};
+
+const LEGACY_STAGE_SCORE: Record<string, number> = {
+  early: 30,
+  growing: 60,
+  peaking: 80,
+  saturated: 40,
+};
+
+const LEGACY_BRIEF_STATUS: Record<string, string> = {
+  draft: "Draft",
+  "in review": "In review",
+  "changes requested": "Changes requested",
+  "ai-generated": "Draft",
+  // Approval only comes from the workflow, never from a status sent in
+  active: "In review",
+  approved: "In review",
+  archived: "Archived",
+};
+
+/**
+ * Old BriefContext Trend: { status, description, formatLabel, momentumLabel }
+ * Old generateBrief trend: { title, summary, format, state, momentum }
+ * A bare string is treated as the trend name.
+ */
+export function upgradeLegacyTrend(input: unknown): unknown {
+  if (typeof input === "string" && input.trim()) {
+    input = { name: input };
+  }
+  if (!isRecord(input)) return input;
+
+  const name = str(input.name) ?? str(input.title) ?? str(input.label);
+  const legacyStatus = (str(input.status) ?? str(input.state) ?? "").toLowerCase();
+  const stage =
+    str(input.signalStrengthStage) ??
+    LEGACY_STATUS_TO_STAGE[legacyStatus] ??
+    (legacyStatus in LEGACY_STAGE_SCORE ? legacyStatus : "early");
+  const summary = str(input.summary) ?? str(input.description) ?? "";
+
+  return {
+    ...input,
+    id: str(input.id) ?? (name ? `trend-${slugify(name)}` : input.id),
+    name: name ?? input.name,
+    summary,
+    mechanic: str(input.mechanic) ?? str(input.description) ?? summary,
+    signalStrengthStage: stage,
+    signalStrengthScore:
+      typeof input.signalStrengthScore === "number"
+        ? input.signalStrengthScore
+        : LEGACY_STAGE_SCORE[stage] ?? 50,
+    platformFit: list(input.platformFit) ?? [],
+    formatLabel: str(input.formatLabel) ?? str(input.format),
+  };
+}
+
+/**
+ * Old BriefContext Angle had no coreSequence; AI angles sometimes return
+ * `beats` instead.
+ */
+export function upgradeLegacyAngle(input: unknown): unknown {
+  if (!isRecord(input)) return input;
+
+  const label = str(input.label) ?? str(input.title);
+
+  return {
+    ...input,
+    id: str(input.id) ?? (label ? `angle-${slugify(label)}` : input.id),
+    label: label ?? input.label,
+    hook: str(input.hook) ?? "",
+    format: str(input.format) ?? "Short-form video",
+    platform: str(input.platform) ?? "TikTok",
+    coreSequence: list(input.coreSequence) ?? list(input.beats) ?? [],
+  };
+}
+
+/**
+ * Old BriefContext Brief: { summary, audienceHint, outcomeHint, status: "Draft" }
+ * Old AI brief: { insight, creativeDirection, hooks, cta, deliverables }
+ * Mock briefs: { trend: "name", status: "In review" }
+ */
+export function upgradeLegacyBrief(input: unknown): unknown {
+  if (!isRecord(input)) return input;
+
+  const now = new Date().toISOString();
+  const trend = upgradeLegacyTrend(input.trend);
+  const trendName = isRecord(trend) ? str(trend.name) : undefined;
+  const title = str(input.title) ?? trendName;
+  const rawStatus = (str(input.status) ?? "draft").toLowerCase();
+
+  const pickHint = (value: unknown) => {
+    const hint = str(value);
+    return hint && hint !== "TBD" ? hint : undefined;
+  };
+
+  return {
+    ...input,
+    id: str(input.id) ?? (title ? `brief-${slugify(title)}` : input.id),
+    title: title ?? input.title,
+    trend,
+    angle: input.angle === undefined ? undefined : upgradeLegacyAngle(input.angle),
+    status: LEGACY_BRIEF_STATUS[rawStatus] ?? "Draft",
+    objective: str(input.objective) ?? pickHint(input.outcomeHint) ?? "",
+    primaryAudience:
+      str(input.primaryAudience) ??
+      pickHint(input.audienceHint) ??
+      str(input.audience) ??
+      "",
+    coreMessage: str(input.coreMessage) ?? str(input.insight) ?? "",
+    toneAndVoice:
+      list(input.toneAndVoice) ?? list(input.brandVoice) ?? list(input.creativeDirection) ?? [],
+    contentRequirements:
+      list(input.contentRequirements) ?? list(input.deliverables) ?? [],
+    creativeMandatories:
+      list(input.creativeMandatories) ??
+      (str(input.cta) ? [`CTA: ${input.cta}`] : []),
+    guardrails: list(input.guardrails) ?? [],
+    successMetrics: list(input.successMetrics) ?? [],
+    exampleConcepts: list(input.exampleConcepts) ?? list(input.hooks) ?? [],
+    createdAt: str(input.createdAt) ?? now,
+    updatedAt: str(input.updatedAt) ?? now,
+  };
+}
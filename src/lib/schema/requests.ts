@@ -0,0 +1,460 @@
+// src/lib/schema/requests.ts
+import { z } from "zod";
+import {
+  AngleSchema,
+  ApiKeyRateLimitSchema,
+  ApprovalPolicySchema,
+  BrandProfileSchema,
+  BriefSchema,
+  BriefStatusSchema,
+  BriefTemplateSchema,
+  CalendarEntrySchema,
+  CalendarEntryStatusSchema,
+  IsoDateSchema,
+  PlatformModeSchema,
+  SavedCollectionSchema,
+  SavedItemKindSchema,
+  ScriptSchema,
+  ScriptStatusSchema,
+  TrendSchema,
+  TrendStageSchema,
+  WorkspaceRoleSchema,
+} from "./engine";
+import {
+  upgradeLegacyAngle,
+  upgradeLegacyBrief,
+  upgradeLegacyTrend,
+} from "./legacy";
+
+/**
+ * Request bodies for the generator routes.
+ * Each embedded engine object is upgraded from older shapes before it is
+ * validated, so existing clients keep working.
+ */
+
+export const IncomingTrendSchema = z.preprocess(upgradeLegacyTrend, TrendSchema);
+export const IncomingAngleSchema = z.preprocess(upgradeLegacyAngle, AngleSchema);
+export const IncomingBriefSchema = z.preprocess(upgradeLegacyBrief, BriefSchema);
+
+/**
+ * Optional per-request model choice, accepted by every generator route.
+ * Unset fields fall back to the environment (see src/lib/llm).
+ */
+export const LLMSelectionSchema = z.object({
+  provider: z.enum(["openai", "local", "mock"]).optional(),
+  model: z.string().min(1).optional(),
+  seed: z.union([z.string(), z.number()]).optional(),
+});
+
+/**
+ * Brand Memory profile to inject into generation. Script routes fall
+ * back to the brief's own brandId.
+ */
+export const BrandOptionSchema = z.object({
+  brandId: z.string().min(1).optional(),
+});
+
+/**
+ * Optional hook / ending variant counts for A/B testing.
+ */
+export const VariantsOptionSchema = z.object({
+  hooks: z.number().int().min(0).max(5).default(3),
+  endings: z.number().int().min(0).max(5).default(2),
+});
+
+/**
+ * POST /api/generateBrief
+ */
+export const GenerateBriefRequestSchema = LLMSelectionSchema.extend({
+  ...BrandOptionSchema.shape,
+  trend: IncomingTrendSchema,
+  angle: IncomingAngleSchema.optional(),
+});
+
+/**
+ * POST /api/generateScript
+ */
+export const ScriptEnginePlatformSchema = z.enum([
+  "TikTok",
+  "Instagram Reels",
+  "YouTube Shorts",
+]);
+
+export const GenerateScriptRequestSchema = LLMSelectionSchema.extend({
+  ...BrandOptionSchema.shape,
+  brief: IncomingBriefSchema,
+  platform: ScriptEnginePlatformSchema.default("TikTok"),
+  angles: z.number().int().min(1).max(5).default(1),
+  variants: VariantsOptionSchema.optional(),
+});
+
+/**
+ * POST /api/generateTrendAngles
+ *
+ * Older clients sent `{ trendTitle, momentum, format, category }`
+ * instead of a trend object.
+ */
+export const GenerateAnglesRequestSchema = z.preprocess(
+  (input) => {
+    if (!input || typeof input !== "object" || "trend" in input) return input;
+    const legacy = input as Record<string, unknown>;
+    return {
+      ...legacy,
+      trend: {
+        name: legacy.trendTitle,
+        status: legacy.momentum,
+        format: legacy.format,
+        category: legacy.category,
+      },
+    };
+  },
+  LLMSelectionSchema.extend({
+    ...BrandOptionSchema.shape,
+    trend: IncomingTrendSchema,
+  })
+);
+
+/**
+ * POST /api/scripts/generate
+ */
+export const ScriptGenerateRequestSchema = LLMSelectionSchema.extend({
+  ...BrandOptionSchema.shape,
+  brief: IncomingBriefSchema,
+  platformMode: PlatformModeSchema.default("tiktok"),
+  variants: VariantsOptionSchema.optional(),
+});
+
+/**
+ * POST /api/scripts/adapt
+ * Defaults to every PlatformMode.
+ */
+export const ScriptAdaptRequestSchema = LLMSelectionSchema.extend({
+  ...BrandOptionSchema.shape,
+  brief: IncomingBriefSchema,
+  platformModes: z
+    .array(PlatformModeSchema)
+    .min(1)
+    .default([...PlatformModeSchema.options]),
+});
+
+/**
+ * POST /api/scripts/[id]/variants
+ */
+export const ScriptVariantsRequestSchema = LLMSelectionSchema.extend({
+  ...VariantsOptionSchema.shape,
+  brief: IncomingBriefSchema.optional(), // defaults to the stored brief
+});
+
+/**
+ * POST /api/scripts/[id]/ship
+ * Omit an id to record that the original hook / CTA went out.
+ */
+export const ScriptShipRequestSchema = z.object({
+  hookVariantId: z.string().min(1).optional(),
+  endingVariantId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/scripts/[id]/guardian-override
+ */
+export const GuardianOverrideRequestSchema = z.object({
+  reason: z.string().trim().min(1),
+});
+
+/**
+ * POST /api/brands — id and timestamps are assigned server-side unless given.
+ */
+export const BrandCreateRequestSchema = BrandProfileSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  id: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/guardian/scan
+ */
+export const GuardianScanRequestSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("angle"),
+    angle: IncomingAngleSchema,
+    trend: IncomingTrendSchema.optional(),
+    guardrails: z.array(z.string()).default([]),
+  }),
+  z.object({ kind: z.literal("brief"), brief: IncomingBriefSchema }),
+  z.object({
+    kind: z.literal("script"),
+    script: ScriptSchema,
+    brief: IncomingBriefSchema.optional(),
+  }),
+]);
+
+/**
+ * PATCH /api/briefs/[id]
+ * Any subset of canonical Brief fields; the merged result is validated
+ * against BriefSchema in the repository.
+ */
+export const BriefPatchRequestSchema = z
+  .record(z.string(), z.unknown())
+  .refine((patch) => Object.keys(patch).length > 0, {
+    message: "Patch must contain at least one field",
+  });
+
+/**
+ * /api/briefs/[id]/versions/[version] — path segment and `compare` query
+ * param, both version numbers.
+ */
+export const BriefVersionParamsSchema = z.object({
+  version: z.coerce.number().int().min(1),
+  compare: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * GET /api/briefs/[id]/export — `template` overrides the brand's;
+ * `download=1` sends it as an attachment instead of inline.
+ */
+export const BriefExportQuerySchema = z.object({
+  format: z.enum(["markdown", "html", "json"]).default("html"),
+  template: BriefTemplateSchema.optional(),
+  download: z
+    .enum(["1", "0", "true", "false"])
+    .optional()
+    .transform((value) => value === "1" || value === "true"),
+});
+
+/**
+ * PATCH /api/scripts/[id] — same rules as briefs.
+ */
+export const ScriptPatchRequestSchema = BriefPatchRequestSchema;
+
+/**
+ * GET /api/scripts/[id]/export — `download=1` sends an attachment.
+ */
+export const ScriptExportQuerySchema = z.object({
+  format: z.enum(["srt", "vtt", "fountain", "csv"]),
+  download: BriefExportQuerySchema.shape.download,
+});
+
+/**
+ * PATCH /api/brands/[id] — same rules as briefs.
+ */
+export const BrandPatchRequestSchema = BriefPatchRequestSchema;
+
+/**
+ * GET /api/trends — query string, so numbers arrive as strings.
+ * `from` / `to` / `limit` are passed through to the signal adapters.
+ */
+export const TrendSortSchema = z.enum(["strength", "momentum"]);
+
+export const TrendQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  stage: TrendStageSchema.optional(),
+  category: z.string().trim().min(1).optional(),
+  platform: z.string().trim().min(1).optional(),
+  sort: TrendSortSchema.default("strength"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * POST /api/calendar — id and timestamps are assigned server-side unless
+ * given; the saturation check is always computed, never accepted.
+ */
+export const CalendarEntryCreateRequestSchema = CalendarEntrySchema.omit({
+  id: true,
+  saturation: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  id: z.string().min(1).optional(),
+});
+
+/**
+ * PATCH /api/calendar/[id] — same rules as briefs; dragging an entry to a
+ * new day is just `{ dueDate }`.
+ */
+export const CalendarEntryPatchRequestSchema = BriefPatchRequestSchema;
+
+/**
+ * GET /api/calendar — inclusive YYYY-MM-DD range plus optional filters.
+ */
+export const CalendarQuerySchema = z.object({
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+  briefId: z.string().optional(),
+  owner: z.string().optional(),
+  platform: PlatformModeSchema.optional(),
+  status: CalendarEntryStatusSchema.optional(),
+});
+
+/**
+ * POST /api/library — what to save, plus optional filing. The title
+ * defaults to the item's own name; the id and timestamps are server-side.
+ */
+const SavedItemFilingSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  collectionIds: z.array(z.string().min(1)).default([]),
+  note: z.string().default(""),
+});
+
+export const SavedItemCreateRequestSchema = z.discriminatedUnion("kind", [
+  SavedItemFilingSchema.extend({ kind: z.literal("trend"), item: IncomingTrendSchema }),
+  SavedItemFilingSchema.extend({
+    kind: z.literal("angle"),
+    item: IncomingAngleSchema,
+    trend: IncomingTrendSchema.optional(),
+  }),
+  SavedItemFilingSchema.extend({ kind: z.literal("brief"), item: IncomingBriefSchema }),
+  SavedItemFilingSchema.extend({ kind: z.literal("script"), item: ScriptSchema }),
+]);
+
+/**
+ * PATCH /api/library/[id] — filing only; the saved snapshot is read-only.
+ */
+export const SavedItemPatchRequestSchema = SavedItemFilingSchema.partial()
+  .strict()
+  .refine((patch) => Object.keys(patch).length > 0, {
+    message: "Patch must contain at least one field",
+  });
+
+/**
+ * GET /api/library — every word of `q` must prefix-match the title, tags,
+ * note or the saved item's text.
+ */
+export const LibraryQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  kind: SavedItemKindSchema.optional(),
+  tag: z.string().trim().min(1).optional(),
+  collectionId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/library/collections
+ */
+export const SavedCollectionCreateRequestSchema = SavedCollectionSchema.pick({
+  name: true,
+  description: true,
+});
+
+/**
+ * PATCH /api/library/collections/[id]
+ */
+export const SavedCollectionPatchRequestSchema = SavedCollectionCreateRequestSchema.partial()
+  .strict()
+  .refine((patch) => Object.keys(patch).length > 0, {
+    message: "Patch must contain at least one field",
+  });
+
+/**
+ * POST /api/library/[id]/reuse — a saved brief needs a `trendId` to
+ * retarget; a saved script needs a new `platform`, a different `briefId`,
+ * or both.
+ */
+export const ReuseRequestSchema = z
+  .object({
+    trendId: z.string().min(1).optional(),
+    platform: PlatformModeSchema.optional(),
+    briefId: z.string().min(1).optional(),
+  })
+  .refine((target) => Object.keys(target).length > 0, {
+    message: "Pick a trend, platform or brief to target",
+  });
+
+/**
+ * POST /api/keys — the default limit allows a burst of 10 requests and
+ * 6 a minute after that.
+ */
+export const ApiKeyCreateRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  rateLimit: ApiKeyRateLimitSchema.default({ capacity: 10, refillPerMinute: 6 }),
+});
+
+/**
+ * GET /api/usage — inclusive YYYY-MM-DD range, optionally one key.
+ */
+export const UsageQuerySchema = z.object({
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+  keyId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/auth/signup
+ */
+export const SignupRequestSchema = z.object({
+  email: z.email(),
+  password: z.string().min(8, "Use at least 8 characters").max(200),
+  name: z.string().trim().max(120).default(""),
+});
+
+/**
+ * POST /api/auth/login — no length rules here, so a wrong password
+ * can't be told apart from a malformed one.
+ */
+export const LoginRequestSchema = z.object({
+  email: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+/**
+ * POST /api/workspaces
+ */
+export const WorkspaceRequestSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+});
+
+/**
+ * PATCH /api/workspaces/[id] — a new name, a new approval policy or both.
+ */
+export const WorkspacePatchRequestSchema = z
+  .object({
+    name: WorkspaceRequestSchema.shape.name.optional(),
+    approvalPolicy: ApprovalPolicySchema.optional(),
+  })
+  .refine((patch) => patch.name !== undefined || patch.approvalPolicy !== undefined, {
+    message: "Patch must contain a name or an approval policy",
+  });
+
+/**
+ * PATCH /api/workspaces/[id]/members/[userId]
+ */
+export const MemberRolePatchSchema = z.object({
+  role: WorkspaceRoleSchema,
+});
+
+/**
+ * POST /api/workspaces/[id]/invites
+ */
+export const InviteCreateRequestSchema = z.object({
+  email: z.email(),
+  role: WorkspaceRoleSchema.default("editor"),
+});
+
+/**
+ * POST /api/invites/accept — the token from the invite link.
+ */
+export const InviteAcceptRequestSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * POST /api/briefs/[id]/workflow — the stage to move to, with an
+ * optional note for the history.
+ */
+export const BriefTransitionRequestSchema = z.object({
+  to: BriefStatusSchema,
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/scripts/[id]/workflow — same as briefs.
+ */
+export const ScriptTransitionRequestSchema = z.object({
+  to: ScriptStatusSchema,
+  note: BriefTransitionRequestSchema.shape.note,
+});
@@ -0,0 +1,165 @@
+// src/lib/schema/v1.ts
+import { z } from "zod";
+import {
+  AngleDiversitySchema,
+  AngleSchema,
+  BriefSchema,
+  BriefStatusSchema,
+  PlatformModeSchema,
+  QualityReportSchema,
+  ScriptSchema,
+  TrendSchema,
+} from "./engine";
+import {
+  BrandOptionSchema,
+  LLMSelectionSchema,
+  TrendQuerySchema,
+  VariantsOptionSchema,
+} from "./requests";
+
+/**
+ * The public /v1 contract: request bodies, query strings and response
+ * envelopes. The OpenAPI document at /v1/openapi.json is generated from
+ * these schemas (see src/lib/api/openapi.ts), so they are the contract.
+ *
+ * Unlike the internal routes, /v1 takes canonical engine shapes only —
+ * no legacy upgrades — which keeps every schema here representable as
+ * JSON Schema.
+ */
+
+// ---------- Envelopes ----------
+
+export const ApiErrorCodeSchema = z.enum([
+  "invalid_json",
+  "unauthorized",
+  "validation_failed",
+  "not_found",
+  "conflict",
+  "rate_limited",
+  "generation_failed",
+  "internal_error",
+]);
+
+export const ApiErrorSchema = z.object({
+  error: z.object({
+    code: ApiErrorCodeSchema,
+    message: z.string(),
+    issues: z
+      .array(z.object({ path: z.string(), message: z.string() }))
+      .optional()
+      .describe("Failing field paths, for validation_failed"),
+  }),
+});
+
+export const PaginationSchema = z.object({
+  page: z.number().int().min(1),
+  pageSize: z.number().int().min(1),
+  total: z.number().int().min(0).describe("Matches before pagination"),
+  pageCount: z.number().int().min(1),
+});
+
+/**
+ * `{ data }` for single results.
+ */
+export function dataEnvelope<T extends z.ZodType>(schema: T) {
+  return z.object({ data: schema });
+}
+
+/**
+ * `{ data: [...], pagination }` for every list endpoint.
+ */
+export function listEnvelope<T extends z.ZodType>(schema: T) {
+  return z.object({ data: z.array(schema), pagination: PaginationSchema });
+}
+
+// ---------- Query strings and path params ----------
+
+export const PageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const IdParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+/**
+ * GET /v1/trends/current — the internal trend query without the signal
+ * adapter knobs.
+ */
+export const V1TrendQuerySchema = TrendQuerySchema.pick({
+  q: true,
+  stage: true,
+  category: true,
+  platform: true,
+  sort: true,
+  page: true,
+  pageSize: true,
+});
+
+/**
+ * GET /v1/briefs
+ */
+export const V1BriefListQuerySchema = PageQuerySchema.extend({
+  status: BriefStatusSchema.optional(),
+  trendId: z.string().min(1).optional(),
+});
+
+/**
+ * GET /v1/scripts
+ */
+export const V1ScriptListQuerySchema = PageQuerySchema.extend({
+  briefId: z.string().min(1).optional(),
+});
+
+// ---------- Request bodies ----------
+
+const V1GenerationOptionsSchema = LLMSelectionSchema.extend(BrandOptionSchema.shape);
+
+/**
+ * POST /v1/angles/generate
+ */
+export const V1GenerateAnglesRequestSchema = V1GenerationOptionsSchema.extend({
+  trend: TrendSchema,
+});
+
+/**
+ * POST /v1/briefs/create — the brief is generated and stored.
+ */
+export const V1CreateBriefRequestSchema = V1GenerationOptionsSchema.extend({
+  trend: TrendSchema,
+  angle: AngleSchema.optional(),
+});
+
+/**
+ * POST /v1/scripts/generate
+ */
+export const V1GenerateScriptRequestSchema = V1GenerationOptionsSchema.extend({
+  brief: BriefSchema,
+  platformMode: PlatformModeSchema.default("tiktok"),
+  variants: VariantsOptionSchema.optional(),
+});
+
+/**
+ * POST /v1/platform/adapt — defaults to every PlatformMode.
+ */
+export const V1AdaptRequestSchema = V1GenerationOptionsSchema.extend({
+  brief: BriefSchema,
+  platformModes: z
+    .array(PlatformModeSchema)
+    .min(1)
+    .default([...PlatformModeSchema.options]),
+});
+
+// ---------- Results ----------
+
+export const V1AnglesResultSchema = z.object({
+  angles: z.array(AngleSchema),
+  diversity: AngleDiversitySchema,
+  quality: QualityReportSchema,
+});
+
+export const V1AdaptResultSchema = z.object({
+  coreMessage: z.string(),
+  scripts: z.array(ScriptSchema),
+});
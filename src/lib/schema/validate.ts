@@ -0,0 +1,80 @@
+// src/lib/schema/validate.ts
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+
+/**
+ * Runtime validation at API boundaries.
+ *
+ * Bad payloads get a 422 that names every failing field path, e.g.
+ * `{ error, issues: [{ path: "brief.trend.name", message: "..." }] }`.
+ */
+
+export type FieldIssue = {
+  path: string;
+  message: string;
+};
+
+export type ParseResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; response: NextResponse };
+
+export function formatIssuePath(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((out, key) => {
+    if (typeof key === "number") return `${out}[${key}]`;
+    return out ? `${out}.${String(key)}` : String(key);
+  }, "");
+}
+
+export function issuesFromZodError(error: z.ZodError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    path: formatIssuePath(issue.path) || "(root)",
+    message: issue.message,
+  }));
+}
+
+export function validationErrorResponse(
+  error: z.ZodError,
+  message = "Invalid request body"
+): NextResponse {
+  return NextResponse.json(
+    { error: message, issues: issuesFromZodError(error) },
+    { status: 422 }
+  );
+}
+
+/**
+ * Validates an already-parsed value (e.g. model output) against a schema.
+ */
+export function validate<S extends z.ZodType>(
+  schema: S,
+  value: unknown,
+  message?: string
+): ParseResult<z.infer<S>> {
+  const result = schema.safeParse(value);
+  if (result.success) return { ok: true, data: result.data };
+  return { ok: false, response: validationErrorResponse(result.error, message) };
+}
+
+/**
+ * Reads a JSON request body and validates it.
+ * Malformed JSON is a 400; well-formed but invalid JSON is a 422.
+ */
+export async function parseJsonBody<S extends z.ZodType>(
+  req: Request,
+  schema: S
+): Promise<ParseResult<z.infer<S>>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Request body must be valid JSON." },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return validate(schema, body);
+}
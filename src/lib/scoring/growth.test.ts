@@ -0,0 +1,171 @@
+// src/lib/scoring/growth.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SignalEvent } from "@/types/signals";
+import {
+  bucketEngagement,
+  DAY_MS,
+  DEFAULT_STAGE_THRESHOLDS,
+  resolveStageThresholds,
+  scoreSeries,
+  stageForMetrics,
+} from "./growth";
+
+/**
+ * Synthetic series, one value per day, so every stage badge can be
+ * traced back to a shape anyone can picture.
+ */
+const RISING = [1, 2, 4, 8, 16, 32, 64, 128];
+const FLAT = [10, 10, 10, 10, 10, 10, 10, 10];
+const DECAYING = [...RISING].reverse();
+const SPARSE = [0, 0, 0, 0, 0, 0, 0, 5];
+
+const START = Date.parse("2026-01-01T00:00:00Z");
+
+function event(dayOffset: number, engagement: SignalEvent["engagement"]): SignalEvent {
+  return {
+    id: `evt-${dayOffset}-${JSON.stringify(engagement)}`,
+    source: "tiktok",
+    timestamp: new Date(START + dayOffset * DAY_MS).toISOString(),
+    engagement,
+    content_features: {},
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("bucketEngagement", () => {
+  it("returns an empty series without usable timestamps", () => {
+    expect(bucketEngagement([])).toEqual([]);
+    expect(bucketEngagement([{ ...event(0, { views: 5 }), timestamp: "not a date" }])).toEqual(
+      []
+    );
+  });
+
+  it("sums weighted engagement per day and keeps empty days as zero", () => {
+    const series = bucketEngagement([
+      event(0, { views: 100 }),
+      event(0, { shares: 2 }),
+      event(3, { saves: 1, likes: 999 }),
+    ]);
+    // views ×1, shares ×25, saves ×15; likes don't count
+    expect(series).toEqual([150, 0, 0, 15]);
+  });
+
+  it("honours custom weights, bucket width and window", () => {
+    const events = [event(0, { views: 10 }), event(1, { views: 20 }), event(5, { views: 40 })];
+
+    expect(
+      bucketEngagement(events, {
+        bucketMs: 2 * DAY_MS,
+        from: START,
+        to: START + 3 * DAY_MS,
+        weights: { views: 2, shares: 0, saves: 0 },
+      })
+    ).toEqual([60, 0]);
+  });
+});
+
+describe("scoreSeries", () => {
+  it("is neutral for empty and single-bucket series", () => {
+    expect(scoreSeries([])).toEqual({
+      velocity_score: 0,
+      acceleration_score: 0,
+      recurrence_score: 0,
+    });
+    expect(scoreSeries([7])).toEqual({
+      velocity_score: 50,
+      acceleration_score: 50,
+      recurrence_score: 100,
+    });
+  });
+
+  it("scores a rising series as fast and speeding up", () => {
+    expect(scoreSeries(RISING)).toEqual({
+      velocity_score: 100,
+      acceleration_score: 67,
+      recurrence_score: 100,
+    });
+  });
+
+  it("centres a flat series on 50", () => {
+    expect(scoreSeries(FLAT)).toEqual({
+      velocity_score: 50,
+      acceleration_score: 50,
+      recurrence_score: 100,
+    });
+  });
+
+  it("scores a decaying series as shrinking", () => {
+    // The log-decline eases off as it nears zero, so acceleration reads
+    // above 50 even though velocity bottoms out
+    expect(scoreSeries(DECAYING)).toEqual({
+      velocity_score: 0,
+      acceleration_score: 67,
+      recurrence_score: 100,
+    });
+  });
+
+  it("counts gaps against recurrence in a sparse series", () => {
+    expect(scoreSeries(SPARSE).recurrence_score).toBe(13);
+  });
+
+  it("is deterministic", () => {
+    expect(scoreSeries(RISING)).toEqual(scoreSeries([...RISING]));
+  });
+});
+
+describe("stageForMetrics", () => {
+  it("maps the synthetic series onto the four stages", () => {
+    expect(stageForMetrics(scoreSeries(SPARSE))).toBe("early");
+    expect(stageForMetrics(scoreSeries(RISING))).toBe("growing");
+    expect(stageForMetrics(scoreSeries(FLAT))).toBe("peaking");
+    expect(stageForMetrics(scoreSeries(DECAYING))).toBe("saturated");
+  });
+
+  it("calls a young, fast pattern growing even while it slows", () => {
+    expect(
+      stageForMetrics({ velocity_score: 70, acceleration_score: 30, recurrence_score: 40 })
+    ).toBe("growing");
+    expect(
+      stageForMetrics({ velocity_score: 55, acceleration_score: 30, recurrence_score: 40 })
+    ).toBe("early");
+  });
+
+  it("applies threshold overrides", () => {
+    const flat = scoreSeries(FLAT);
+    expect(stageForMetrics(flat, { saturatedVelocity: 50 })).toBe("saturated");
+    expect(stageForMetrics(scoreSeries(SPARSE), { minRecurrence: 5 })).toBe("growing");
+  });
+});
+
+describe("TREND_STAGE_THRESHOLDS", () => {
+  it("falls back to the defaults when unset", () => {
+    vi.stubEnv("TREND_STAGE_THRESHOLDS", "");
+    expect(resolveStageThresholds()).toEqual(DEFAULT_STAGE_THRESHOLDS);
+  });
+
+  it("overlays the defaults, with explicit overrides winning", () => {
+    vi.stubEnv(
+      "TREND_STAGE_THRESHOLDS",
+      JSON.stringify({ minRecurrence: 5, growingVelocity: 70 })
+    );
+
+    expect(resolveStageThresholds({ growingVelocity: 65 })).toEqual({
+      ...DEFAULT_STAGE_THRESHOLDS,
+      minRecurrence: 5,
+      growingVelocity: 65,
+    });
+    expect(stageForMetrics(scoreSeries(SPARSE))).toBe("growing");
+  });
+
+  it("ignores invalid JSON with a warning", () => {
+    vi.stubEnv("TREND_STAGE_THRESHOLDS", "{not json");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(resolveStageThresholds()).toEqual(DEFAULT_STAGE_THRESHOLDS);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
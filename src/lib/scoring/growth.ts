@@ -0,0 +1,240 @@
+// src/lib/scoring/growth.ts
+import type { TrendStage } from "@/types/engine";
+import type { GrowthMetrics, SignalEvent } from "@/types/signals";
+
+/**
+ * Moment Velocity Model.
+ *
+ * Turns time-bucketed SignalEvent engagement into the spec's
+ * growth_metrics block, then picks a signal strength stage from those
+ * scores. Everything here is pure and deterministic: same events in,
+ * same scores out.
+ *
+ * All three scores are 0–100. Velocity and acceleration are centred on
+ * 50 (= flat / steady), so anything above 50 is growing / speeding up.
+ */
+
+export type EngagementWeights = {
+  views: number;
+  shares: number;
+  saves: number;
+};
+
+export type BucketOptions = {
+  bucketMs?: number;
+  from?: number; // epoch ms; defaults to earliest event
+  to?: number; // epoch ms; defaults to latest event
+  weights?: EngagementWeights;
+};
+
+export type StageThresholds = {
+  /** Below this recurrence a pattern is too sparse to call anything but early. */
+  minRecurrence: number;
+  /** Velocity at or above this counts as real growth. */
+  growingVelocity: number;
+  /** Acceleration at or above this means growth is holding or speeding up. */
+  growingAcceleration: number;
+  /** Recurrence at or above this means the pattern is established. */
+  establishedRecurrence: number;
+  /** Established patterns at or below this velocity have stopped growing. */
+  saturatedVelocity: number;
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shares and saves are far stronger intent signals than a passive view.
+ */
+export const DEFAULT_ENGAGEMENT_WEIGHTS: EngagementWeights = {
+  views: 1,
+  shares: 25,
+  saves: 15,
+};
+
+export const DEFAULT_STAGE_THRESHOLDS: StageThresholds = {
+  minRecurrence: 20,
+  growingVelocity: 60,
+  growingAcceleration: 45,
+  establishedRecurrence: 60,
+  saturatedVelocity: 45,
+};
+
+/**
+ * Defaults, overlaid with TREND_STAGE_THRESHOLDS (JSON) from the environment
+ * so strategists can tune stage calls per deployment without a code change.
+ */
+export function resolveStageThresholds(
+  overrides: Partial<StageThresholds> = {}
+): StageThresholds {
+  let fromEnv: Partial<StageThresholds> = {};
+  if (process.env.TREND_STAGE_THRESHOLDS) {
+    try {
+      fromEnv = JSON.parse(process.env.TREND_STAGE_THRESHOLDS);
+    } catch {
+      console.warn("[scoring] Ignoring invalid TREND_STAGE_THRESHOLDS JSON");
+    }
+  }
+  return { ...DEFAULT_STAGE_THRESHOLDS, ...fromEnv, ...overrides };
+}
+
+const VELOCITY_SCALE = 25; // points per doubling (log2) of engagement
+const ACCELERATION_SCALE = 100; // points per unit change in log-slope
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Least-squares slope of a series against its index.
+ */
+function slope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let num = 0;
+  let den = 0;
+  values.forEach((y, x) => {
+    num += (x - xMean) * (y - yMean);
+    den += (x - xMean) ** 2;
+  });
+  return den ? num / den : 0;
+}
+
+export function weightedEngagement(
+  event: SignalEvent,
+  weights: EngagementWeights = DEFAULT_ENGAGEMENT_WEIGHTS
+): number {
+  const { views = 0, shares = 0, saves = 0 } = event.engagement;
+  return views * weights.views + shares * weights.shares + saves * weights.saves;
+}
+
+/**
+ * Sums weighted engagement into fixed-width time buckets.
+ * Empty buckets stay in the series as 0 so gaps count against recurrence.
+ */
+export function bucketEngagement(
+  events: SignalEvent[],
+  options: BucketOptions = {}
+): number[] {
+  const times = events
+    .map((e) => Date.parse(e.timestamp))
+    .filter((t) => !Number.isNaN(t));
+  if (!times.length) return [];
+
+  const bucketMs = options.bucketMs ?? DAY_MS;
+  const from = options.from ?? Math.min(...times);
+  const to = options.to ?? Math.max(...times);
+  const count = Math.max(1, Math.floor((to - from) / bucketMs) + 1);
+  const series = new Array<number>(count).fill(0);
+
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    if (Number.isNaN(time) || time < from || time > to) continue;
+    const index = Math.min(count - 1, Math.floor((time - from) / bucketMs));
+    series[index] += weightedEngagement(event, options.weights);
+  }
+
+  return series;
+}
+
+/**
+ * growth_metrics for an already-bucketed engagement series.
+ *
+ * - velocity: recent half vs earlier half, on a log2 scale
+ * - acceleration: change in log-growth slope between the two halves
+ * - recurrence: share of buckets where the pattern showed up at all
+ */
+export function scoreSeries(series: number[]): GrowthMetrics {
+  if (!series.length) {
+    return { velocity_score: 0, acceleration_score: 0, recurrence_score: 0 };
+  }
+
+  const active = series.filter((v) => v > 0).length;
+  const recurrence = (active / series.length) * 100;
+
+  if (series.length < 2) {
+    return {
+      velocity_score: 50,
+      acceleration_score: 50,
+      recurrence_score: clampScore(recurrence),
+    };
+  }
+
+  const half = Math.floor(series.length / 2);
+  const earlier = series.slice(0, half);
+  const recent = series.slice(half);
+
+  const velocity =
+    50 + VELOCITY_SCALE * Math.log2((mean(recent) + 1) / (mean(earlier) + 1));
+
+  const logSeries = series.map((v) => Math.log1p(v));
+  const acceleration =
+    50 +
+    ACCELERATION_SCALE *
+      (slope(logSeries.slice(half)) - slope(logSeries.slice(0, half)));
+
+  return {
+    velocity_score: clampScore(velocity),
+    acceleration_score: clampScore(acceleration),
+    recurrence_score: clampScore(recurrence),
+  };
+}
+
+export function scoreSignalEvents(
+  events: SignalEvent[],
+  options: BucketOptions = {}
+): GrowthMetrics {
+  return scoreSeries(bucketEngagement(events, options));
+}
+
+/**
+ * early → growing → peaking → saturated, from growth_metrics alone.
+ */
+export function stageForMetrics(
+  metrics: GrowthMetrics,
+  overrides: Partial<StageThresholds> = {}
+): TrendStage {
+  const t = resolveStageThresholds(overrides);
+  const { velocity_score, acceleration_score, recurrence_score } = metrics;
+
+  if (recurrence_score < t.minRecurrence) return "early";
+
+  const established = recurrence_score >= t.establishedRecurrence;
+
+  if (established && velocity_score <= t.saturatedVelocity) return "saturated";
+
+  if (
+    velocity_score >= t.growingVelocity &&
+    acceleration_score >= t.growingAcceleration
+  ) {
+    return "growing";
+  }
+
+  if (established) return "peaking";
+
+  return velocity_score >= t.growingVelocity ? "growing" : "early";
+}
+
+/**
+ * Single 0–100 number for sorting and the Trend badge.
+ */
+export function signalStrengthScore(metrics: GrowthMetrics): number {
+  return clampScore(
+    metrics.velocity_score * 0.5 +
+      metrics.acceleration_score * 0.2 +
+      metrics.recurrence_score * 0.3
+  );
+}
+
+/**
+ * How fast a trend is moving right now, ignoring how established it is.
+ * Used to sort "hot right now" ahead of "big but flat".
+ */
+export function momentumScore(metrics: GrowthMetrics): number {
+  return clampScore(metrics.velocity_score * 0.6 + metrics.acceleration_score * 0.4);
+}
@@ -0,0 +1,79 @@
+// src/lib/scripts/diff.ts
+import type { Script } from "@/types/engine";
+import { formatTimecode, scriptDurationSeconds } from "./render";
+
+/**
+ * What changed between two versions of the same script
+ * (typically the same brief adapted to two platforms).
+ */
+
+export type ScriptChange = {
+  field:
+    | "hook"
+    | "coreMessage"
+    | "cta"
+    | "runtime"
+    | "beats"
+    | "pacing"
+    | "onScreenText"
+    | "hashtags";
+  label: string;
+  from: string;
+  to: string;
+};
+
+function averageBeatSeconds(script: Script): number {
+  return script.beats.length ? scriptDurationSeconds(script) / script.beats.length : 0;
+}
+
+function textOverlayCount(script: Script): number {
+  return script.beats.filter((beat) => beat.onScreenText.trim()).length;
+}
+
+/**
+ * Field-level diff; only fields that actually differ are returned.
+ */
+export function diffScripts(base: Script, other: Script): ScriptChange[] {
+  const candidates: ScriptChange[] = [
+    { field: "hook", label: "Hook", from: base.hook, to: other.hook },
+    {
+      field: "coreMessage",
+      label: "Core message",
+      from: base.coreMessage,
+      to: other.coreMessage,
+    },
+    {
+      field: "runtime",
+      label: "Runtime",
+      from: formatTimecode(scriptDurationSeconds(base)),
+      to: formatTimecode(scriptDurationSeconds(other)),
+    },
+    {
+      field: "beats",
+      label: "Beats",
+      from: String(base.beats.length),
+      to: String(other.beats.length),
+    },
+    {
+      field: "pacing",
+      label: "Avg. seconds per beat",
+      from: averageBeatSeconds(base).toFixed(1),
+      to: averageBeatSeconds(other).toFixed(1),
+    },
+    {
+      field: "onScreenText",
+      label: "Beats with on-screen text",
+      from: String(textOverlayCount(base)),
+      to: String(textOverlayCount(other)),
+    },
+    { field: "cta", label: "CTA", from: base.cta, to: other.cta },
+    {
+      field: "hashtags",
+      label: "Hashtags",
+      from: base.hashtags.join(" "),
+      to: other.hashtags.join(" "),
+    },
+  ];
+
+  return candidates.filter((change) => change.from !== change.to);
+}
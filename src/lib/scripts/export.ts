@@ -0,0 +1,188 @@
+// src/lib/scripts/export.ts
+import type { Brief, Script } from "@/types/engine";
+import { beatStartTimes, formatTimecode } from "./render";
+
+/**
+ * Production exports, built from the structured Script (never from the
+ * markdown view): SRT / WebVTT captions, Fountain screenplay text and a
+ * shot-list CSV. Pure, so the Scripts page can export unsaved scripts
+ * in the browser and the API can export stored ones.
+ */
+
+export type ScriptExportFormat = "srt" | "vtt" | "fountain" | "csv";
+
+export const SCRIPT_EXPORTS: Record<
+  ScriptExportFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  srt: { label: "SRT captions", extension: "srt", contentType: "application/x-subrip" },
+  vtt: { label: "WebVTT captions", extension: "vtt", contentType: "text/vtt" },
+  fountain: { label: "Fountain", extension: "fountain", contentType: "text/plain" },
+  csv: { label: "Shot list CSV", extension: "csv", contentType: "text/csv" },
+};
+
+// Broadcast convention: two lines of at most 42 characters per cue
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+
+export type CaptionCue = {
+  start: number; // seconds
+  end: number;
+  lines: string[];
+};
+
+function wrapWords(words: readonly string[], width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    if (line && `${line} ${word}`.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * One or more cues per beat: the voiceover (or, for silent beats, the
+ * on-screen text) wrapped into two-line cues, each getting a share of the
+ * beat's duration proportional to its length.
+ */
+export function captionCues(script: Script): CaptionCue[] {
+  const starts = beatStartTimes(script);
+  const cues: CaptionCue[] = [];
+
+  script.beats.forEach((beat, index) => {
+    const text = (beat.voiceover || beat.onScreenText).trim();
+    if (!text || beat.estimatedSeconds <= 0) return;
+
+    const lines = wrapWords(text.split(/\s+/), MAX_LINE_CHARS);
+    const chunks: string[][] = [];
+    for (let i = 0; i < lines.length; i += MAX_CUE_LINES) {
+      chunks.push(lines.slice(i, i + MAX_CUE_LINES));
+    }
+
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.join(" ").length, 0);
+    let cursor = starts[index];
+    for (const chunk of chunks) {
+      const share = (chunk.join(" ").length / totalChars) * beat.estimatedSeconds;
+      cues.push({ start: cursor, end: cursor + share, lines: chunk });
+      cursor += share;
+    }
+  });
+
+  return cues;
+}
+
+/**
+ * "00:00:03,500" (SRT) or "00:00:03.500" (VTT).
+ */
+function cueTimestamp(seconds: number, separator: "," | "."): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(
+    Math.floor(ms / 1000) % 60
+  )}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function renderSrt(script: Script): string {
+  return captionCues(script)
+    .map((cue, i) =>
+      [
+        String(i + 1),
+        `${cueTimestamp(cue.start, ",")} --> ${cueTimestamp(cue.end, ",")}`,
+        ...cue.lines,
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+export function renderVtt(script: Script): string {
+  const cues = captionCues(script).map((cue) =>
+    [`${cueTimestamp(cue.start, ".")} --> ${cueTimestamp(cue.end, ".")}`, ...cue.lines].join("\n")
+  );
+  return ["WEBVTT", ...cues].join("\n\n").concat("\n");
+}
+
+/**
+ * Fountain (fountain.io): a forced scene heading per beat with its
+ * timing, visual direction as action, on-screen text as a SUPER, and the
+ * voiceover as V.O. dialogue. Notes become [[notes]].
+ */
+export function renderFountain(script: Script, brief?: Brief | null): string {
+  const starts = beatStartTimes(script);
+  const titlePage = [
+    `Title: ${script.title}`,
+    brief ? `Credit: Written for ${brief.title}` : "",
+    `Draft date: ${(script.updatedAt ?? script.createdAt).slice(0, 10)}`,
+  ].filter(Boolean);
+
+  const body: string[] = [`[[Hook: ${script.hook}]]`];
+
+  script.beats.forEach((beat, index) => {
+    const range = `${formatTimecode(starts[index])}-${formatTimecode(
+      starts[index] + beat.estimatedSeconds
+    )}`;
+    body.push(`.BEAT ${index + 1} - ${range}`);
+    if (beat.visualDirection) body.push(beat.visualDirection);
+    if (beat.onScreenText) body.push(`SUPER: "${beat.onScreenText}"`);
+    if (beat.voiceover) body.push(`CREATOR (V.O.)\n${beat.voiceover}`);
+  });
+
+  body.push(`[[CTA: ${script.cta}]]`);
+  for (const note of script.notes) body.push(`[[${note}]]`);
+  body.push("> END <");
+
+  // Title page keys end at the first blank line; elements are separated by one
+  return `${titlePage.join("\n")}\n\n${body.join("\n\n")}\n`;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderShotListCsv(script: Script): string {
+  const starts = beatStartTimes(script);
+  const rows: (string | number)[][] = [
+    ["Beat", "Start", "End", "Seconds", "Visual", "On-screen text", "Voiceover"],
+    ...script.beats.map((beat, index) => [
+      index + 1,
+      formatTimecode(starts[index]),
+      formatTimecode(starts[index] + beat.estimatedSeconds),
+      beat.estimatedSeconds,
+      beat.visualDirection,
+      beat.onScreenText,
+      beat.voiceover,
+    ]),
+  ];
+
+  // RFC 4180: CRLF line endings
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function renderScriptExport(
+  script: Script,
+  format: ScriptExportFormat,
+  brief?: Brief | null
+): string {
+  switch (format) {
+    case "srt":
+      return renderSrt(script);
+    case "vtt":
+      return renderVtt(script);
+    case "fountain":
+      return renderFountain(script, brief);
+    case "csv":
+      return renderShotListCsv(script);
+  }
+}
+
+export function scriptExportFileName(script: Script, format: ScriptExportFormat): string {
+  const slug = script.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "script"}.${SCRIPT_EXPORTS[format].extension}`;
+}
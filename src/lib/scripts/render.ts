@@ -0,0 +1,107 @@
+// src/lib/scripts/render.ts
+import type { Brief, Script, ScriptVariant } from "@/types/engine";
+
+/**
+ * Script renderers. The structured Script is the source of truth;
+ * markdown is just one view of it (copy/paste, docs, exports).
+ */
+
+export function scriptDurationSeconds(script: Script): number {
+  return script.beats.reduce((total, beat) => total + beat.estimatedSeconds, 0);
+}
+
+/**
+ * "0:07" style timestamp for a number of seconds.
+ */
+export function formatTimecode(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Start time of each beat, in seconds from the top of the video.
+ */
+export function beatStartTimes(script: Script): number[] {
+  let elapsed = 0;
+  return script.beats.map((beat) => {
+    const start = elapsed;
+    elapsed += beat.estimatedSeconds;
+    return start;
+  });
+}
+
+/**
+ * Markdown view of a script. Pass the brief to include the context header
+ * (trend, objective, audience) the old markdown output carried.
+ */
+export function renderScriptMarkdown(script: Script, brief?: Brief | null): string {
+  const starts = beatStartTimes(script);
+  const lines: string[] = [`# ${script.title}`, ""];
+
+  if (brief) {
+    lines.push(`Trend focus: ${brief.trend.name}`);
+    if (brief.objective) lines.push(`Objective: ${brief.objective}`);
+    if (brief.primaryAudience) lines.push(`Target: ${brief.primaryAudience}`);
+    lines.push("");
+  }
+
+  lines.push(
+    `**Hook:** ${script.hook}`,
+    "",
+    `Runtime: ~${formatTimecode(scriptDurationSeconds(script))}`,
+    "",
+    "----",
+    "",
+    "📜 **Script (voice + on-screen cues)**",
+    ""
+  );
+
+  script.beats.forEach((beat, index) => {
+    const range = `${formatTimecode(starts[index])}–${formatTimecode(
+      starts[index] + beat.estimatedSeconds
+    )}`;
+    lines.push(`### Beat ${index + 1} (${range})`);
+    if (beat.visualDirection) lines.push(`[Visual: ${beat.visualDirection}]`);
+    if (beat.onScreenText) lines.push(`[On-screen text: “${beat.onScreenText}”]`);
+    if (beat.voiceover) lines.push(`VO: "${beat.voiceover}"`);
+    lines.push("");
+  });
+
+  lines.push(`**CTA:** ${script.cta}`, "");
+
+  if (script.captions.length) {
+    lines.push("**Captions**", "", ...script.captions.map((c) => `- ${c}`), "");
+  }
+
+  if (script.hashtags.length) {
+    lines.push(`**Hashtags:** ${script.hashtags.join(" ")}`, "");
+  }
+
+  const { hooks, endings } = script.variants;
+  if (hooks.length || endings.length) {
+    const shipped = script.shipped;
+    const line = (v: ScriptVariant, shippedId?: string) =>
+      `- (${v.technique}) ${v.text}${shipped && shippedId === v.id ? " ✅ shipped" : ""}`;
+
+    lines.push("**A/B variants**", "");
+    if (hooks.length) {
+      lines.push("Hooks:", ...hooks.map((v) => line(v, shipped?.hookVariantId)), "");
+    }
+    if (endings.length) {
+      lines.push("Endings:", ...endings.map((v) => line(v, shipped?.endingVariantId)), "");
+    }
+  }
+
+  if (script.notes.length) {
+    lines.push(
+      "----",
+      "",
+      "🎯 **Quick notes for creator / editor**",
+      "",
+      ...script.notes.map((n) => `- ${n}`),
+      ""
+    );
+  }
+
+  return lines.join("\n").trimEnd();
+}
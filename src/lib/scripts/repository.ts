@@ -0,0 +1,249 @@
+// src/lib/scripts/repository.ts
+import type { GuardianFlag, Script, ScriptStatus, ShippedPairing } from "@/types/engine";
+import { BrandNotFoundError, resolveBrand } from "@/lib/brands/repository";
+import { brandLexicon } from "@/lib/brands/context";
+import { getBrief } from "@/lib/briefs/repository";
+import { loadLexicon } from "@/lib/guardian/lexicon";
+import { scanScript, unresolvedGuardianFlags } from "@/lib/guardian/scan";
+import { ScriptSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { deleteWorkflowEvents, recordTransition } from "@/lib/workflow/repository";
+
+/**
+ * Server-side script storage.
+ * Routes talk to this module, never to the collection directly.
+ *
+ * The Brand Guardian report is always computed here, never taken from
+ * the client, and a flagged script can't move to "approved" until a
+ * human override covers every flag.
+ *
+ * Status belongs to the approval workflow (src/lib/workflow), which
+ * moves it through setScriptStatus.
+ */
+
+const scripts = createJsonCollection<Script>("scripts", ScriptSchema);
+
+/**
+ * The script points at a brief or brand that doesn't exist in its
+ * workspace.
+ */
+export class ScriptLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptLinkError";
+  }
+}
+
+export class GuardianBlockedError extends Error {
+  constructor(public flags: GuardianFlag[]) {
+    super(
+      `Script has ${flags.length} unresolved Brand Guardian flag(s); a human override is required before approval`
+    );
+    this.name = "GuardianBlockedError";
+  }
+}
+
+// Fields that change what the script says, so they trigger a rescan and
+// reopen an approved script
+const CONTENT_FIELDS = ["hook", "beats", "cta", "captions", "hashtags", "variants"] as const;
+
+// Only the guardian and workflow flows may write these
+const PROTECTED_FIELDS = ["guardian", "guardianOverride", "status", "approvedAt"];
+
+export type ScriptFilters = {
+  workspaceId?: string;
+  briefId?: string;
+};
+
+/**
+ * The workspace's brand, or null when it has been deleted since (or was
+ * never in the workspace).
+ */
+async function workspaceBrand(id: string | undefined, workspaceId: string | undefined) {
+  if (!workspaceId) return null;
+  try {
+    return await resolveBrand(id, workspaceId);
+  } catch (error) {
+    if (error instanceof BrandNotFoundError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Scans against the stored brief's guardrails and, when the script or
+ * its brief belongs to a brand, that brand's forbidden words. Only the
+ * script's own workspace is consulted.
+ */
+async function scannerFor(script: Script) {
+  const [found, lexicon] = await Promise.all([getBrief(script.briefId), loadLexicon()]);
+  const brief = found && found.workspaceId === script.workspaceId ? found : null;
+  const brand = await workspaceBrand(script.brandId ?? brief?.brandId, script.workspaceId);
+  return (next: Script) => scanScript(next, brief, brandLexicon(lexicon, brand));
+}
+
+export async function listScripts(filters: ScriptFilters = {}): Promise<Script[]> {
+  const all = await scripts.list();
+  return all
+    .filter((script) => !filters.workspaceId || script.workspaceId === filters.workspaceId)
+    .filter((script) => !filters.briefId || script.briefId === filters.briefId)
+    .sort((a, b) =>
+      (b.updatedAt ?? b.createdAt).localeCompare(a.updatedAt ?? a.createdAt)
+    );
+}
+
+export function getScript(id: string): Promise<Script | null> {
+  return scripts.get(id);
+}
+
+/**
+ * New scripts always start as drafts with a fresh server-side scan.
+ * Throws ScriptLinkError unless the brief (and brand, if set) belong to
+ * the script's workspace.
+ */
+export async function createScript(script: Script): Promise<Script> {
+  const brief = await getBrief(script.briefId);
+  if (!brief || brief.workspaceId !== script.workspaceId) {
+    throw new ScriptLinkError(`Brief "${script.briefId}" not found`);
+  }
+  if (script.brandId && !(await workspaceBrand(script.brandId, script.workspaceId))) {
+    throw new ScriptLinkError(`Brand "${script.brandId}" not found`);
+  }
+
+  const scan = await scannerFor(script);
+  const draft: Script = {
+    ...script,
+    status: "draft",
+    approvedAt: undefined,
+    guardianOverride: undefined,
+  };
+  return scripts.insert({ ...draft, guardian: scan(draft) });
+}
+
+/**
+ * Merges a patch into the stored script and re-validates the result.
+ * `id`, `briefId`, `workspaceId`, `createdBy` and `createdAt` are immutable;
+ * `updatedAt` is always bumped.
+ * Content changes are rescanned, and any content change to an approved
+ * script sends it back to "changes-requested", recorded in the workflow
+ * history as `by`'s move. Throws the ZodError if the merged script is
+ * invalid.
+ */
+export async function updateScript(
+  id: string,
+  patch: Record<string, unknown>,
+  options: { by: string }
+): Promise<Script | null> {
+  const safePatch = Object.fromEntries(
+    Object.entries(patch).filter(([key]) => !PROTECTED_FIELDS.includes(key))
+  );
+
+  const stored = await scripts.get(id);
+  if (!stored) return null;
+  const scan = CONTENT_FIELDS.some((field) => field in safePatch)
+    ? await scannerFor(stored)
+    : null;
+
+  let reopened = false;
+  const updated = await scripts.update(id, (current) => {
+    const now = new Date().toISOString();
+    const next = ScriptSchema.parse({
+      ...current,
+      ...safePatch,
+      id: current.id,
+      briefId: current.briefId,
+      workspaceId: current.workspaceId,
+      createdBy: current.createdBy,
+      createdAt: current.createdAt,
+      updatedAt: now,
+    });
+
+    if (scan) next.guardian = scan(next);
+
+    // What was approved is no longer what would ship
+    reopened =
+      current.status === "approved" &&
+      CONTENT_FIELDS.some(
+        (field) => JSON.stringify(current[field]) !== JSON.stringify(next[field])
+      );
+    if (reopened) {
+      next.status = "changes-requested";
+      next.approvedAt = undefined;
+    }
+
+    return next;
+  });
+
+  if (updated && reopened) {
+    await recordTransition({
+      subject: "script",
+      subjectId: id,
+      workspaceId: updated.workspaceId,
+      from: "approved",
+      to: updated.status,
+      by: options.by,
+      note: "Edited after approval",
+    });
+  }
+  return updated;
+}
+
+/**
+ * Only the workflow calls this. Approving a script the Brand Guardian
+ * still blocks throws GuardianBlockedError.
+ */
+export async function setScriptStatus(id: string, status: ScriptStatus): Promise<Script | null> {
+  const stored = await scripts.get(id);
+  if (!stored) return null;
+
+  if (status === "approved") {
+    const blocked = unresolvedGuardianFlags(stored);
+    if (blocked.length) throw new GuardianBlockedError(blocked);
+  }
+
+  const now = new Date().toISOString();
+  return scripts.update(id, (current) => ({
+    ...current,
+    status,
+    approvedAt: status === "approved" ? now : undefined,
+    updatedAt: now,
+  }));
+}
+
+/**
+ * Records a human decision to accept the current flags.
+ */
+export function overrideGuardian(
+  id: string,
+  override: { by: string; userId: string; reason: string }
+): Promise<Script | null> {
+  return scripts.update(id, (current) => ({
+    ...current,
+    guardianOverride: {
+      ...override,
+      flagIds: (current.guardian?.flags ?? []).map((flag) => flag.id),
+      at: new Date().toISOString(),
+    },
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Records which hook / ending pairing went out, keeping it with the script.
+ */
+export function markShipped(
+  id: string,
+  pairing: Omit<ShippedPairing, "shippedAt">,
+  by: string
+): Promise<Script | null> {
+  return updateScript(
+    id,
+    { shipped: { ...pairing, shippedAt: new Date().toISOString() } },
+    { by }
+  );
+}
+
+export async function deleteScript(id: string): Promise<boolean> {
+  const deleted = await scripts.remove(id);
+  if (deleted) await deleteWorkflowEvents("script", id);
+  return deleted;
+}
@@ -0,0 +1,231 @@
+// src/lib/signals/adapters/localFile.ts
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type {
+  FetchParams,
+  SignalAdapter,
+  SignalEvent,
+  SignalSource,
+} from "@/types/signals";
+import { aggregateSignalEvents } from "../aggregate";
+
+/**
+ * Local file adapter.
+ *
+ * Reads JSON and CSV exports from a directory so the whole
+ * INGEST → INTERPRET path can run offline.
+ *
+ * JSON files hold either an array of SignalEvents or `{ events: [...] }`.
+ * CSV files use one flat row per event; list columns (hashtags, tags,
+ * topics) are pipe-separated, e.g. `street_pov|handheld`.
+ */
+
+type LocalExportRow = Record<string, unknown>;
+
+type LocalFileAdapterOptions = {
+  directory?: string;
+};
+
+const SOURCES: SignalSource[] = [
+  "tiktok",
+  "instagram",
+  "youtube",
+  "x",
+  "search",
+  "other",
+];
+
+export const DEFAULT_SIGNALS_DIR = "data/signals";
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF.
+ */
+export function parseCsv(text: string): LocalExportRow[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim()));
+  if (!header) return [];
+
+  return body.map((cells) =>
+    Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ""]))
+  );
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function asList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    const list = value.map(asString).filter((v): v is string => Boolean(v));
+    return list.length ? list : undefined;
+  }
+  if (typeof value === "string" && value.trim()) {
+    return value
+      .split("|")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  return undefined;
+}
+
+function asRecord(value: unknown): LocalExportRow {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as LocalExportRow)
+    : {};
+}
+
+/**
+ * Accepts both the nested spec shape (JSON) and flat CSV columns.
+ */
+function rowToSignalEvent(row: LocalExportRow, index: number): SignalEvent | null {
+  const timestamp = asString(row.timestamp);
+  if (!timestamp || Number.isNaN(Date.parse(timestamp))) return null;
+
+  const engagement = { ...row, ...asRecord(row.engagement) };
+  const features = { ...row, ...asRecord(row.content_features) };
+  const source = asString(row.source) as SignalSource | undefined;
+
+  return {
+    id: asString(row.id) ?? `local-${index}`,
+    source: source && SOURCES.includes(source) ? source : "other",
+    timestamp: new Date(timestamp).toISOString(),
+    url: asString(row.url),
+    author_handle: asString(row.author_handle),
+    author_followers: asNumber(row.author_followers),
+    engagement: {
+      views: asNumber(engagement.views),
+      likes: asNumber(engagement.likes),
+      comments: asNumber(engagement.comments),
+      shares: asNumber(engagement.shares),
+      saves: asNumber(engagement.saves),
+    },
+    content_features: {
+      text_snippet: asString(features.text_snippet),
+      audio_id: asString(features.audio_id),
+      visual_style_tags: asList(features.visual_style_tags),
+      format_tags: asList(features.format_tags),
+      duration_seconds: asNumber(features.duration_seconds),
+    },
+    hashtags: asList(row.hashtags),
+    topics: asList(row.topics),
+    geo_region: asString(row.geo_region),
+    language: asString(row.language),
+  };
+}
+
+async function readExportFile(filePath: string): Promise<LocalExportRow[]> {
+  const text = await readFile(filePath, "utf8");
+
+  if (filePath.endsWith(".csv")) {
+    return parseCsv(text);
+  }
+
+  const parsed = JSON.parse(text) as unknown;
+  const rows = Array.isArray(parsed) ? parsed : asRecord(parsed).events;
+  return Array.isArray(rows) ? rows.map(asRecord) : [];
+}
+
+function withinWindow(row: LocalExportRow, params: FetchParams): boolean {
+  const time = Date.parse(asString(row.timestamp) ?? "");
+  if (Number.isNaN(time)) return false;
+  if (params.from && time < Date.parse(params.from)) return false;
+  if (params.to && time > Date.parse(params.to)) return false;
+  return true;
+}
+
+export function createLocalFileAdapter(
+  options: LocalFileAdapterOptions = {}
+): SignalAdapter<LocalExportRow[]> {
+  const directory = path.resolve(
+    process.cwd(),
+    options.directory || process.env.SIGNALS_DIR || DEFAULT_SIGNALS_DIR
+  );
+
+  return {
+    name: "local-file",
+
+    async fetchRawData(params) {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch {
+        console.warn("[local-file adapter] No signal directory at", directory);
+        return [];
+      }
+
+      const rows: LocalExportRow[] = [];
+      for (const file of files.sort()) {
+        if (!/\.(json|csv)$/i.test(file)) continue;
+        try {
+          rows.push(...(await readExportFile(path.join(directory, file))));
+        } catch (error) {
+          console.error(`[local-file adapter] Skipping ${file}:`, error);
+        }
+      }
+
+      const inWindow = rows.filter((row) => withinWindow(row, params));
+      return params.limit ? inWindow.slice(0, params.limit) : inWindow;
+    },
+
+    toSignalEvents(raw) {
+      return raw
+        .map(rowToSignalEvent)
+        .filter((event): event is SignalEvent => event !== null);
+    },
+
+    aggregate(events) {
+      return aggregateSignalEvents(events, "signal");
+    },
+  };
+}
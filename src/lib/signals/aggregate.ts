@@ -0,0 +1,116 @@
+// src/lib/signals/aggregate.ts
+import type { SignalEvent, TrendSignal } from "@/types/signals";
+import { scoreSignalEvents, type BucketOptions } from "@/lib/scoring/growth";
+
+const DOMINANT_LIMIT = 3;
+
+/**
+ * Which pattern an event belongs to.
+ * Visual style is the strongest on-screen signal, then format, then audio.
+ */
+export function clusterKeyForEvent(event: SignalEvent): string {
+  const features = event.content_features;
+  return (
+    features.visual_style_tags?.[0] ||
+    features.format_tags?.[0] ||
+    (features.audio_id ? `audio_${features.audio_id}` : "") ||
+    "uncategorised"
+  );
+}
+
+function topValues(values: string[], limit = DOMINANT_LIMIT): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+function shareOf(values: string[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const value of values) {
+    out[value] = (out[value] ?? 0) + 1;
+  }
+  for (const key of Object.keys(out)) {
+    out[key] = Math.round((out[key] / values.length) * 100) / 100;
+  }
+  return out;
+}
+
+/**
+ * Groups events into TrendSignal candidates, one per cluster key.
+ * Shared by every adapter so all sources aggregate the same way.
+ *
+ * Growth is scored against the window of the whole batch, not each
+ * cluster's own first/last post, so a pattern that only appeared
+ * yesterday reads as sparse rather than ever-present.
+ */
+export function aggregateSignalEvents(
+  events: SignalEvent[],
+  idPrefix = "signal",
+  scoring: Omit<BucketOptions, "from" | "to"> = {}
+): TrendSignal[] {
+  const clusters = new Map<string, SignalEvent[]>();
+  const allTimes: number[] = [];
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    if (Number.isNaN(time)) continue;
+    allTimes.push(time);
+    const key = clusterKeyForEvent(event);
+    const list = clusters.get(key) ?? [];
+    list.push(event);
+    clusters.set(key, list);
+  }
+
+  const windowFrom = Math.min(...allTimes);
+  const windowTo = Math.max(...allTimes);
+
+  return [...clusters.entries()].map(([key, clusterEvents]) => {
+    const times = clusterEvents.map((e) => Date.parse(e.timestamp));
+    const from = Math.min(...times);
+    const to = Math.max(...times);
+
+    const sum = (pick: (e: SignalEvent) => number | undefined) =>
+      clusterEvents.reduce((total, e) => total + (pick(e) ?? 0), 0);
+
+    const regions = clusterEvents
+      .map((e) => e.geo_region)
+      .filter((r): r is string => Boolean(r));
+
+    return {
+      id: `${idPrefix}-${key}`,
+      label: key,
+      source_mix: shareOf(clusterEvents.map((e) => e.source)),
+      time_window: {
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+      },
+      volume: clusterEvents.length,
+      engagement_totals: {
+        views: sum((e) => e.engagement.views),
+        likes: sum((e) => e.engagement.likes),
+        shares: sum((e) => e.engagement.shares),
+        comments: sum((e) => e.engagement.comments),
+      },
+      growth_metrics: scoreSignalEvents(clusterEvents, {
+        ...scoring,
+        from: windowFrom,
+        to: windowTo,
+      }),
+      feature_clusters: {
+        dominant_visual_styles: topValues(
+          clusterEvents.flatMap((e) => e.content_features.visual_style_tags ?? [])
+        ),
+        dominant_formats: topValues(
+          clusterEvents.flatMap((e) => e.content_features.format_tags ?? [])
+        ),
+        dominant_hashtags: topValues(clusterEvents.flatMap((e) => e.hashtags ?? [])),
+        dominant_topics: topValues(clusterEvents.flatMap((e) => e.topics ?? [])),
+      },
+      geo_distribution: regions.length ? shareOf(regions) : undefined,
+    };
+  });
+}
@@ -0,0 +1,91 @@
+// src/lib/signals/interpret.ts
+import type { Trend } from "@/types/engine";
+import type { TrendSignal } from "@/types/signals";
+import {
+  momentumScore,
+  signalStrengthScore,
+  stageForMetrics,
+  type StageThresholds,
+} from "@/lib/scoring/growth";
+
+const ACRONYMS = new Set(["pov", "ugc", "asmr", "grwm", "diy", "ai"]);
+
+const SOURCE_PLATFORM_LABELS: Record<string, string> = {
+  tiktok: "TikTok",
+  instagram: "Reels",
+  youtube: "Shorts",
+  x: "X",
+  search: "Search",
+  other: "Other",
+};
+
+/**
+ * "street_pov_micro_vlogs" → "Street POV micro vlogs"
+ */
+export function humaniseTag(tag: string): string {
+  const words = tag
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map((w) => (ACRONYMS.has(w.toLowerCase()) ? w.toUpperCase() : w.toLowerCase()));
+  if (!words.length) return tag;
+  const [first, ...rest] = words;
+  return [first[0].toUpperCase() + first.slice(1), ...rest].join(" ");
+}
+
+function listPhrase(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/**
+ * INTERPRET step: TrendSignal → product-level Trend.
+ * Naming and copy are derived from the signal's dominant features so the
+ * output stays deterministic for the same input data.
+ */
+export function trendFromSignal(
+  signal: TrendSignal,
+  thresholds: Partial<StageThresholds> = {}
+): Trend {
+  const { feature_clusters: features, growth_metrics: growth } = signal;
+
+  const platformFit = Object.entries(signal.source_mix)
+    .sort((a, b) => b[1] - a[1])
+    .map(([source]) => SOURCE_PLATFORM_LABELS[source] ?? source);
+
+  const styles = features.dominant_visual_styles.map(humaniseTag);
+  const formats = features.dominant_formats.map(humaniseTag);
+  const days = Math.max(
+    1,
+    Math.round(
+      (Date.parse(signal.time_window.to) - Date.parse(signal.time_window.from)) /
+        (24 * 60 * 60 * 1000)
+    ) + 1
+  );
+
+  const where = platformFit.length ? `, mostly on ${listPhrase(platformFit)}` : "";
+  const summary =
+    `${signal.volume} posts over ${days} day${days === 1 ? "" : "s"}${where}, ` +
+    `with ${signal.engagement_totals.views.toLocaleString("en-US")} total views.`;
+
+  const mechanic = formats.length
+    ? `Creators post ${(styles[0] ?? "native").toLowerCase()} clips built on ${listPhrase(
+        formats.map((f) => f.toLowerCase())
+      )}.`
+    : `Creators post ${(styles[0] ?? "native").toLowerCase()} clips.`;
+
+  return {
+    id: signal.id.replace(/^signal-/, "trend-"),
+    name: humaniseTag(signal.label),
+    summary,
+    mechanic,
+    signalStrengthStage: stageForMetrics(growth, thresholds),
+    signalStrengthScore: signalStrengthScore(growth),
+    momentumScore: momentumScore(growth),
+    platformFit,
+    brandFitNotes: features.dominant_topics.length
+      ? `Strongest around ${listPhrase(features.dominant_topics.map(humaniseTag))}.`
+      : undefined,
+    riskNotes: signal.audience_notes,
+    sourceSignalId: signal.id,
+  };
+}
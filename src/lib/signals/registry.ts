@@ -0,0 +1,70 @@
+// src/lib/signals/registry.ts
+import type { Trend } from "@/types/engine";
+import type { FetchParams, SignalAdapter, TrendSignal } from "@/types/signals";
+import { resolveQualityThreshold } from "@/lib/quality/gate";
+import { evaluateTrend } from "@/lib/quality/rubric";
+import type { StageThresholds } from "@/lib/scoring/growth";
+import { createLocalFileAdapter } from "./adapters/localFile";
+import { trendFromSignal } from "./interpret";
+
+/**
+ * Signal adapter registry.
+ *
+ * Adapters register once at module load; the engine runs every registered
+ * adapter through fetch → normalise → aggregate and merges the results.
+ * One failing upstream never takes the whole radar down.
+ */
+
+const adapters = new Map<string, SignalAdapter>();
+
+export function registerSignalAdapter(adapter: SignalAdapter) {
+  adapters.set(adapter.name, adapter);
+}
+
+export function unregisterSignalAdapter(name: string) {
+  adapters.delete(name);
+}
+
+export function getSignalAdapters(): SignalAdapter[] {
+  return [...adapters.values()];
+}
+
+export async function collectTrendSignals(
+  params: FetchParams = {}
+): Promise<TrendSignal[]> {
+  const results = await Promise.all(
+    getSignalAdapters().map(async (adapter) => {
+      try {
+        const raw = await adapter.fetchRawData(params);
+        const events = adapter.toSignalEvents(raw);
+        return adapter.aggregate(events);
+      } catch (error) {
+        console.error(`[signals] Adapter "${adapter.name}" failed:`, error);
+        return [];
+      }
+    })
+  );
+
+  return results.flat();
+}
+
+/**
+ * Full INGEST → INTERPRET pass, strongest trends first.
+ * Stage thresholds can be tuned per call; defaults live in scoring/growth.
+ */
+export async function loadTrends(
+  params: FetchParams = {},
+  thresholds: Partial<StageThresholds> = {}
+): Promise<Trend[]> {
+  const signals = await collectTrendSignals(params);
+  const threshold = resolveQualityThreshold();
+
+  return signals
+    .map((signal) => trendFromSignal(signal, thresholds))
+    // Trends come from data, not a model, so there is nothing to
+    // regenerate; the rubric result is attached for labelling only.
+    .map((trend) => ({ ...trend, quality: evaluateTrend(trend, threshold) }))
+    .sort((a, b) => b.signalStrengthScore - a.signalStrengthScore);
+}
+
+registerSignalAdapter(createLocalFileAdapter());
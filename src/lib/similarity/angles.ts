@@ -0,0 +1,120 @@
+// src/lib/similarity/angles.ts
+import type { Angle, AngleDiversity, AngleOverlap } from "@/types/engine";
+import { textSimilarity } from "./text";
+
+/**
+ * Angle-vs-angle similarity for distinctness checks.
+ *
+ * Compares hook, label and beats separately and blends them, so two
+ * angles with different wording but the same beat structure (four
+ * flavours of one POV idea) still score as close. Fields empty on both
+ * sides are left out rather than counted as identical.
+ */
+
+/**
+ * Sibling angles at or above this similarity count as near-duplicates.
+ */
+export const ANGLE_SIMILARITY_LIMIT = 0.45;
+
+const FIELD_WEIGHTS: { field: (angle: Angle) => string; weight: number }[] = [
+  { field: (angle) => angle.hook, weight: 0.4 },
+  { field: (angle) => angle.label, weight: 0.3 },
+  { field: (angle) => angle.coreSequence.join(" "), weight: 0.3 },
+];
+
+export function angleSimilarity(a: Angle, b: Angle): number {
+  let total = 0;
+  let weights = 0;
+
+  for (const { field, weight } of FIELD_WEIGHTS) {
+    const textA = field(a).trim();
+    const textB = field(b).trim();
+    if (!textA && !textB) continue;
+    total += weight * textSimilarity(textA, textB);
+    weights += weight;
+  }
+
+  return weights ? total / weights : 1;
+}
+
+/**
+ * Every sibling pair at or above `threshold`, closest first.
+ */
+export function angleOverlaps(
+  angles: readonly Angle[],
+  threshold = ANGLE_SIMILARITY_LIMIT
+): AngleOverlap[] {
+  const overlaps: AngleOverlap[] = [];
+
+  for (let i = 0; i < angles.length; i++) {
+    for (let j = i + 1; j < angles.length; j++) {
+      const similarity = angleSimilarity(angles[i], angles[j]);
+      if (similarity >= threshold) {
+        overlaps.push({
+          a: angles[i].id,
+          b: angles[j].id,
+          similarity: Number(similarity.toFixed(2)),
+        });
+      }
+    }
+  }
+
+  return overlaps.sort((x, y) => y.similarity - x.similarity);
+}
+
+/**
+ * 0–100, from the mean closest-sibling similarity; a single angle is
+ * trivially diverse.
+ */
+export function diversityScore(angles: readonly Angle[]): number {
+  if (angles.length < 2) return 100;
+
+  const closest = angles.map((angle, i) =>
+    angles.reduce(
+      (max, other, j) => (i === j ? max : Math.max(max, angleSimilarity(angle, other))),
+      0
+    )
+  );
+  const mean = closest.reduce((sum, value) => sum + value, 0) / closest.length;
+  return Math.round((1 - mean) * 100);
+}
+
+/**
+ * Keep angles in order, dropping any too close to one already kept.
+ * Kept angles carry `maxSimilarity` against the rest of the final set.
+ */
+export function enforceAngleDistinctness(
+  angles: readonly Angle[],
+  threshold = ANGLE_SIMILARITY_LIMIT
+): { angles: Angle[]; diversity: AngleDiversity } {
+  const kept: Angle[] = [];
+  const dropped: string[] = [];
+
+  for (const angle of angles) {
+    const closest = kept.reduce((max, k) => Math.max(max, angleSimilarity(angle, k)), 0);
+    if (closest >= threshold) {
+      dropped.push(angle.label);
+    } else {
+      kept.push(angle);
+    }
+  }
+
+  const scored = kept.map((angle) => ({
+    ...angle,
+    maxSimilarity: Number(
+      kept
+        .reduce((max, other) => (other === angle ? max : Math.max(max, angleSimilarity(angle, other))), 0)
+        .toFixed(2)
+    ),
+  }));
+
+  return {
+    angles: scored,
+    diversity: {
+      score: diversityScore(kept),
+      threshold,
+      pairs: angleOverlaps(angles, threshold),
+      dropped,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// src/lib/similarity/text.ts
+
+/**
+ * Local, dependency-free text similarity.
+ *
+ * Word shingles (overlapping n-word windows) catch reworded copies that
+ * keep the same phrasing; plain token overlap catches shuffled ones.
+ * Scores are 0 (nothing shared) to 1 (identical).
+ */
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from",
+  "in", "into", "is", "it", "its", "of", "on", "or", "so", "that", "the",
+  "this", "to", "was", "with", "you", "your",
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOP_WORDS.has(token));
+}
+
+export function shingles(tokens: readonly string[], size = 2): Set<string> {
+  if (tokens.length < size) return new Set(tokens.length ? [tokens.join(" ")] : []);
+  const result = new Set<string>();
+  for (let i = 0; i <= tokens.length - size; i++) {
+    result.add(tokens.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+export function jaccard<T>(a: ReadonlySet<T>, b: ReadonlySet<T>): number {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  return Math.max(
+    jaccard(shingles(tokensA), shingles(tokensB)),
+    jaccard(new Set(tokensA), new Set(tokensB))
+  );
+}
+
+/**
+ * Highest similarity between `text` and any of `others`.
+ */
+export function maxSimilarity(text: string, others: readonly string[]): number {
+  return others.reduce((max, other) => Math.max(max, textSimilarity(text, other)), 0);
+}
@@ -0,0 +1,72 @@
+// src/lib/store/jsonStore.test.ts
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createJsonCollection, DuplicateRecordError } from "./jsonStore";
+
+const ItemSchema = z.object({ id: z.string(), count: z.number() });
+type Item = z.infer<typeof ItemSchema>;
+
+const VALID = { id: "a", count: 1 };
+const INVALID = { id: "b", count: "many" };
+
+let dir: string;
+
+async function seed(records: unknown[]) {
+  await writeFile(path.join(dir, "items.json"), JSON.stringify({ records }), "utf8");
+}
+
+async function onDisk(): Promise<unknown[]> {
+  return JSON.parse(await readFile(path.join(dir, "items.json"), "utf8")).records;
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "appatize-store-"));
+  vi.stubEnv("APPATIZE_DATA_DIR", dir);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("createJsonCollection with a schema", () => {
+  it("hides records that fail validation from reads", async () => {
+    await seed([VALID, INVALID]);
+    const items = createJsonCollection<Item>("items", ItemSchema);
+
+    expect(await items.list()).toEqual([VALID]);
+    expect(await items.get("b")).toBeNull();
+  });
+
+  it("writes invalid records back untouched", async () => {
+    await seed([VALID, INVALID]);
+    const items = createJsonCollection<Item>("items", ItemSchema);
+
+    await items.update("a", (current) => ({ ...current, count: 2 }));
+    await items.insert({ id: "c", count: 3 });
+
+    expect(await onDisk()).toEqual([{ id: "a", count: 2 }, { id: "c", count: 3 }, INVALID]);
+  });
+
+  it("won't reuse the id of an invalid record", async () => {
+    await seed([INVALID]);
+    const items = createJsonCollection<Item>("items", ItemSchema);
+
+    await expect(items.insert({ id: "b", count: 1 })).rejects.toBeInstanceOf(
+      DuplicateRecordError
+    );
+  });
+
+  it("removes an invalid record by id", async () => {
+    await seed([VALID, INVALID]);
+    const items = createJsonCollection<Item>("items", ItemSchema);
+
+    expect(await items.remove("b")).toBe(true);
+    expect(await onDisk()).toEqual([VALID]);
+  });
+});
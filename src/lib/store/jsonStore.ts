@@ -0,0 +1,159 @@
+// src/lib/store/jsonStore.ts
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { z } from "zod";
+
+/**
+ * File-backed collection store.
+ *
+ * Each collection is one JSON file under APPATIZE_DATA_DIR (default
+ * `.data/`). Reads always hit disk so every request sees the latest
+ * state; writes are serialised per collection and land atomically
+ * (temp file + rename), so a crash mid-write never corrupts the file.
+ *
+ * Good enough for a single-node deployment. Anything that needs
+ * concurrent writers should swap this for a real database behind the
+ * same Collection interface.
+ */
+
+export type StoredRecord = { id: string };
+
+export interface Collection<T extends StoredRecord> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(record: T): Promise<T>;
+  update(id: string, updater: (current: T) => T): Promise<T | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+export class DuplicateRecordError extends Error {
+  constructor(collection: string, id: string) {
+    super(`${collection} "${id}" already exists`);
+    this.name = "DuplicateRecordError";
+  }
+}
+
+export const DEFAULT_DATA_DIR = ".data";
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function dataDir(): string {
+  return path.resolve(process.cwd(), process.env.APPATIZE_DATA_DIR || DEFAULT_DATA_DIR);
+}
+
+export function createJsonCollection<T extends StoredRecord>(
+  name: string,
+  schema?: z.ZodType<T>
+): Collection<T> {
+  const filePath = () => path.join(dataDir(), `${name}.json`);
+
+  /**
+   * The file's records, split into those that match the schema and the
+   * raw ones that don't. Invalid records are kept aside, never dropped:
+   * they go back to disk on every write until someone repairs them.
+   */
+  async function readFileRecords(): Promise<{ records: T[]; invalid: unknown[] }> {
+    let text: string;
+    try {
+      text = await readFile(filePath(), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return { records: [], invalid: [] };
+      throw error;
+    }
+
+    const parsed = JSON.parse(text) as { records?: unknown[] };
+    const raw = Array.isArray(parsed.records) ? parsed.records : [];
+    if (!schema) return { records: raw as T[], invalid: [] };
+
+    const records: T[] = [];
+    const invalid: unknown[] = [];
+    for (const record of raw) {
+      const result = schema.safeParse(record);
+      if (result.success) {
+        records.push(result.data);
+      } else {
+        console.warn(`[store:${name}] Ignoring invalid record`, result.error.issues);
+        invalid.push(record);
+      }
+    }
+    return { records, invalid };
+  }
+
+  async function readAll(): Promise<T[]> {
+    return (await readFileRecords()).records;
+  }
+
+  async function writeAll(records: T[], invalid: unknown[]) {
+    const target = filePath();
+    const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(tmp, JSON.stringify({ records: [...records, ...invalid] }, null, 2), "utf8");
+    await rename(tmp, target);
+  }
+
+  /**
+   * Runs read-modify-write cycles one at a time for this collection.
+   */
+  function mutate<R>(fn: (records: T[], invalid: unknown[]) => Promise<R> | R): Promise<R> {
+    const previous = writeQueues.get(name) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const { records, invalid } = await readFileRecords();
+        return fn(records, invalid);
+      });
+    writeQueues.set(name, next);
+    return next;
+  }
+
+  return {
+    list: readAll,
+
+    async get(id) {
+      return (await readAll()).find((record) => record.id === id) ?? null;
+    },
+
+    insert(record) {
+      return mutate(async (records, invalid) => {
+        if (
+          records.some((r) => r.id === record.id) ||
+          invalid.some((r) => rawId(r) === record.id)
+        ) {
+          throw new DuplicateRecordError(name, record.id);
+        }
+        await writeAll([...records, record], invalid);
+        return record;
+      });
+    },
+
+    update(id, updater) {
+      return mutate(async (records, invalid) => {
+        const index = records.findIndex((r) => r.id === id);
+        if (index === -1) return null;
+        const updated = { ...updater(records[index]), id };
+        const next = [...records];
+        next[index] = updated;
+        await writeAll(next, invalid);
+        return updated;
+      });
+    },
+
+    remove(id) {
+      return mutate(async (records, invalid) => {
+        const next = records.filter((r) => r.id !== id);
+        const nextInvalid = invalid.filter((r) => rawId(r) !== id);
+        if (next.length === records.length && nextInvalid.length === invalid.length) {
+          return false;
+        }
+        await writeAll(next, nextInvalid);
+        return true;
+      });
+    },
+  };
+}
+
+function rawId(record: unknown): unknown {
+  return typeof record === "object" && record !== null
+    ? (record as Partial<StoredRecord>).id
+    : undefined;
+}
@@ -0,0 +1,52 @@
+// src/lib/stream/client.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { readEventStream, StreamInterruptedError, type StreamEvent } from "./client";
+
+/**
+ * A response whose body sends `frames` and then stays open, so the test
+ * can tell whether the reader let go of it.
+ */
+function openStream(frames: string) {
+  const cancel = vi.fn();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(frames));
+    },
+    cancel,
+  });
+  return { response: new Response(body), cancel };
+}
+
+describe("readEventStream", () => {
+  it("hands each frame to onEvent with its JSON parsed", async () => {
+    const events: StreamEvent[] = [];
+    const body = 'event: preview\ndata: {"hook":"Hi"}\n\n: heartbeat\n\nevent: done\ndata: 1\n\n';
+
+    await readEventStream(new Response(body), (event) => events.push(event));
+
+    expect(events).toEqual([
+      { event: "preview", data: { hook: "Hi" } },
+      { event: "done", data: 1 },
+    ]);
+  });
+
+  it("turns a malformed frame into an interruption and releases the body", async () => {
+    const { response, cancel } = openStream("event: preview\ndata: {not json\n\n");
+
+    await expect(readEventStream(response, () => undefined)).rejects.toBeInstanceOf(
+      StreamInterruptedError
+    );
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("releases the body when onEvent throws", async () => {
+    const { response, cancel } = openStream('event: error\ndata: {"error":"boom"}\n\n');
+
+    await expect(
+      readEventStream(response, () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(cancel).toHaveBeenCalled();
+  });
+});
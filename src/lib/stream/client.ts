@@ -0,0 +1,168 @@
+// src/lib/stream/client.ts
+
+/**
+ * Browser side of the generator event streams (see ./server.ts).
+ *
+ * Reads `event:` / `data:` frames off a fetch response and hands each one
+ * to `onEvent` with its JSON parsed. A connection that goes silent for
+ * longer than `idleMs` (no events and no heartbeat) is treated as dropped
+ * rather than left spinning.
+ */
+
+export type StreamEvent = { event: string; data: unknown };
+
+/**
+ * The connection broke or stalled before the stream finished; worth one
+ * retry. User cancels are not wrapped — they surface as AbortError.
+ */
+export class StreamInterruptedError extends Error {
+  constructor(message = "The connection dropped while generating.") {
+    super(message);
+    this.name = "StreamInterruptedError";
+  }
+}
+
+export const DEFAULT_IDLE_MS = 45_000;
+
+function parseFrame(frame: string): StreamEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith(":")) continue; // heartbeat
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+
+  if (!data.length) return null;
+  try {
+    return { event, data: JSON.parse(data.join("\n")) };
+  } catch {
+    // A truncated or garbled frame means the stream can't be trusted
+    throw new StreamInterruptedError("The connection sent an unreadable event.");
+  }
+}
+
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void,
+  options: { signal?: AbortSignal; idleMs?: number } = {}
+): Promise<void> {
+  if (!response.body) throw new StreamInterruptedError("The response had no body.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+  let buffer = "";
+  let finished = false;
+
+  try {
+    for (;;) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new StreamInterruptedError()), idleMs);
+      });
+
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await Promise.race([reader.read(), idle]);
+      } catch (error) {
+        if (options.signal?.aborted) throw options.signal.reason;
+        if (error instanceof StreamInterruptedError) throw error;
+        throw new StreamInterruptedError();
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (chunk.done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, "\n");
+
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() ?? "";
+      for (const frame of frames) {
+        const parsed = parseFrame(frame);
+        if (parsed) onEvent(parsed);
+      }
+    }
+  } finally {
+    // A drop, a bad frame or a throwing onEvent all leave the body unread
+    if (!finished) reader.cancel().catch(() => undefined);
+  }
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  if (data && typeof data === "object" && "error" in data) {
+    const { error } = data as { error?: unknown };
+    if (typeof error === "string" && error) return error;
+  }
+  return fallback;
+}
+
+/**
+ * POSTs `body` to a streaming route and resolves with the `done` event's
+ * data. Every other event goes to `onEvent`. A dropped or stalled
+ * connection is retried from the start (up to `retries` times, with
+ * `onRetry` called first so the UI can reset its partial render); an
+ * `error` event, an HTTP error or running out of retries rejects.
+ */
+export async function fetchEventStream<T>(
+  url: string,
+  body: unknown,
+  onEvent: (event: StreamEvent) => void,
+  options: {
+    signal?: AbortSignal;
+    retries?: number;
+    idleMs?: number;
+    onRetry?: (attempt: number) => void;
+  } = {}
+): Promise<T> {
+  const retries = options.retries ?? 1;
+
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) options.onRetry?.(attempt);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+          },
+          body: JSON.stringify(body),
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        throw new StreamInterruptedError(); // offline / DNS / reset
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(errorMessage(data, `API error: ${response.status}`));
+      }
+
+      let result: { data: T } | null = null;
+      await readEventStream(
+        response,
+        (event) => {
+          if (event.event === "done") result = { data: event.data as T };
+          else if (event.event === "error") {
+            throw new Error(errorMessage(event.data, "Generation failed."));
+          } else onEvent(event);
+        },
+        { signal: options.signal, idleMs: options.idleMs }
+      );
+
+      // Server closed without finishing: treat like a dropped connection
+      if (!result) throw new StreamInterruptedError();
+      return (result as { data: T }).data;
+    } catch (error) {
+      if (!(error instanceof StreamInterruptedError) || attempt >= retries) throw error;
+    }
+  }
+}
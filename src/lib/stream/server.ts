@@ -0,0 +1,76 @@
+// src/lib/stream/server.ts
+
+/**
+ * Server-sent events for the generator routes.
+ *
+ * Routes stream when the client sends `Accept: text/event-stream` and
+ * answer with plain JSON otherwise, so existing callers keep working.
+ * Each event is `event: <name>` + one JSON `data:` line. A comment
+ * heartbeat keeps proxies from closing a quiet connection while the model
+ * thinks; the client uses it to tell "slow" from "dead".
+ */
+
+export const HEARTBEAT_MS = 15_000;
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+export function wantsEventStream(req: Request): boolean {
+  return req.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+/**
+ * Runs `produce` and streams whatever it sends. The signal aborts when
+ * the client disconnects or cancels, and should be passed down to the
+ * model call. Errors are turned into an `error` event by `onError`;
+ * nothing is sent after an abort.
+ */
+export function eventStreamResponse(
+  req: Request,
+  produce: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  onError: (error: unknown) => unknown
+): Response {
+  const abort = new AbortController();
+  const onClientAbort = () => abort.abort(req.signal.reason);
+  req.signal.addEventListener("abort", onClientAbort, { once: true });
+
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(chunk));
+      };
+      const send: SendEvent = (event, data) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      try {
+        await produce(send, abort.signal);
+      } catch (error) {
+        if (!abort.signal.aborted) send("error", onError(error));
+      } finally {
+        clearInterval(heartbeat);
+        req.signal.removeEventListener("abort", onClientAbort);
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+    },
+    cancel(reason) {
+      clearInterval(heartbeat);
+      abort.abort(reason);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,103 @@
+// src/lib/trends/query.ts
+import type { Trend, TrendStage } from "@/types/engine";
+import { tokenize } from "@/lib/similarity/text";
+
+/**
+ * Search, filter, sort and paginate an interpreted trend list.
+ *
+ * Pure and in-memory: trends are rebuilt from the signal adapters on
+ * every request, so there is no index to keep in sync.
+ */
+
+export type TrendSort = "strength" | "momentum";
+
+export type TrendQuery = {
+  q?: string; // every word must prefix-match name, summary or mechanic
+  stage?: TrendStage;
+  category?: string;
+  platform?: string; // matched against platformFit
+  sort?: TrendSort;
+  page?: number; // 1-based
+  pageSize?: number;
+};
+
+/**
+ * Values present in the whole (unfiltered) list, for filter dropdowns.
+ */
+export type TrendFacets = {
+  categories: string[];
+  platforms: string[];
+};
+
+export type TrendPage = {
+  trends: Trend[];
+  total: number; // matches before pagination
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  facets: TrendFacets;
+};
+
+export const DEFAULT_TREND_PAGE_SIZE = 20;
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesSearch(trend: Trend, words: readonly string[]): boolean {
+  if (!words.length) return true;
+  const haystack = tokenize(`${trend.name} ${trend.summary} ${trend.mechanic}`);
+  return words.every((word) => haystack.some((token) => token.startsWith(word)));
+}
+
+function momentumOf(trend: Trend): number {
+  return trend.momentumScore ?? trend.signalStrengthScore;
+}
+
+const COMPARATORS: Record<TrendSort, (a: Trend, b: Trend) => number> = {
+  strength: (a, b) =>
+    b.signalStrengthScore - a.signalStrengthScore || momentumOf(b) - momentumOf(a),
+  momentum: (a, b) =>
+    momentumOf(b) - momentumOf(a) || b.signalStrengthScore - a.signalStrengthScore,
+};
+
+function sortedUnique(values: Iterable<string>): string[] {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const key = value.toLowerCase();
+    if (value.trim() && !seen.has(key)) seen.set(key, value);
+  }
+  return [...seen.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function trendFacets(trends: readonly Trend[]): TrendFacets {
+  return {
+    categories: sortedUnique(trends.flatMap((t) => (t.category ? [t.category] : []))),
+    platforms: sortedUnique(trends.flatMap((t) => t.platformFit)),
+  };
+}
+
+export function queryTrends(trends: readonly Trend[], query: TrendQuery = {}): TrendPage {
+  const words = tokenize(query.q ?? "");
+  const { stage, category, platform } = query;
+
+  const matches = trends
+    .filter((trend) => !stage || trend.signalStrengthStage === stage)
+    .filter((trend) => !category || (trend.category && sameText(trend.category, category)))
+    .filter((trend) => !platform || trend.platformFit.some((p) => sameText(p, platform)))
+    .filter((trend) => matchesSearch(trend, words))
+    .sort(COMPARATORS[query.sort ?? "strength"]);
+
+  const pageSize = Math.max(1, query.pageSize ?? DEFAULT_TREND_PAGE_SIZE);
+  const pageCount = Math.max(1, Math.ceil(matches.length / pageSize));
+  const page = Math.min(Math.max(1, query.page ?? 1), pageCount);
+
+  return {
+    trends: matches.slice((page - 1) * pageSize, page * pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+    pageCount,
+    facets: trendFacets(trends),
+  };
+}
@@ -0,0 +1,86 @@
+// src/lib/workflow/move.ts
+import { NextResponse } from "next/server";
+import type { ApprovalPolicy, Brief, BriefStatus, Script, ScriptStatus } from "@/types/engine";
+import { setBriefStatus } from "@/lib/briefs/repository";
+import { unresolvedGuardianFlags } from "@/lib/guardian/scan";
+import { GuardianBlockedError, setScriptStatus } from "@/lib/scripts/repository";
+import {
+  ApproverRoleError,
+  requestTransition,
+  TransitionNotAllowedError,
+  type WorkflowActor,
+} from "./repository";
+
+/**
+ * Moving a brief or script through the approval pipeline on behalf of a
+ * workspace member. Kept apart from ./repository so the brief and script
+ * repositories can clean up history without importing each other.
+ */
+
+export function moveBrief(
+  brief: Brief,
+  to: BriefStatus,
+  actor: WorkflowActor,
+  policy?: ApprovalPolicy,
+  note?: string
+) {
+  return requestTransition({
+    subject: "brief",
+    subjectId: brief.id,
+    workspaceId: brief.workspaceId,
+    from: brief.status,
+    to,
+    actor,
+    policy,
+    note,
+    apply: () => setBriefStatus(brief.id, to),
+  });
+}
+
+/**
+ * A script the Brand Guardian blocks can't collect approval sign-offs
+ * either, so GuardianBlockedError is thrown before anything is recorded.
+ */
+export async function moveScript(
+  script: Script,
+  to: ScriptStatus,
+  actor: WorkflowActor,
+  policy?: ApprovalPolicy,
+  note?: string
+) {
+  if (to === "approved") {
+    const blocked = unresolvedGuardianFlags(script);
+    if (blocked.length) throw new GuardianBlockedError(blocked);
+  }
+
+  return requestTransition({
+    subject: "script",
+    subjectId: script.id,
+    workspaceId: script.workspaceId,
+    from: script.status,
+    to,
+    actor,
+    policy,
+    note,
+    apply: () => setScriptStatus(script.id, to),
+  });
+}
+
+/**
+ * The response for an error thrown by a move, or null if it isn't one.
+ */
+export function workflowErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof TransitionNotAllowedError) {
+    return NextResponse.json(
+      { error: error.message, allowed: error.allowed },
+      { status: 409 }
+    );
+  }
+  if (error instanceof ApproverRoleError) {
+    return NextResponse.json({ error: error.message, rule: error.rule }, { status: 403 });
+  }
+  if (error instanceof GuardianBlockedError) {
+    return NextResponse.json({ error: error.message, flags: error.flags }, { status: 409 });
+  }
+  return null;
+}
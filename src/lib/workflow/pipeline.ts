@@ -0,0 +1,90 @@
+// src/lib/workflow/pipeline.ts
+import type {
+  ApprovalPolicy,
+  ApprovalRule,
+  BriefStatus,
+  ScriptStatus,
+  WorkflowSubject,
+} from "@/types/engine";
+
+/**
+ * The approval pipeline: which stage can follow which, and who has to
+ * sign off. Pure, so pages can offer only the moves that will work.
+ *
+ *   draft → in review → changes requested ⇄ in review → approved → archived
+ *
+ * Anything live can be archived, and archived work reopens as a draft.
+ * Workspaces tune the sign-off per stage (ApprovalPolicy); the moves
+ * themselves are fixed here.
+ */
+
+export type WorkflowStage = BriefStatus | ScriptStatus;
+
+export const BRIEF_TRANSITIONS: Record<BriefStatus, BriefStatus[]> = {
+  Draft: ["In review", "Archived"],
+  "In review": ["Approved", "Changes requested", "Draft", "Archived"],
+  "Changes requested": ["In review", "Draft", "Archived"],
+  Approved: ["Changes requested", "Archived"],
+  Archived: ["Draft"],
+};
+
+export const SCRIPT_TRANSITIONS: Record<ScriptStatus, ScriptStatus[]> = {
+  draft: ["in-review", "archived"],
+  "in-review": ["approved", "changes-requested", "draft", "archived"],
+  "changes-requested": ["in-review", "draft", "archived"],
+  approved: ["changes-requested", "archived"],
+  archived: ["draft"],
+};
+
+export const BRIEF_STAGES = Object.keys(BRIEF_TRANSITIONS) as BriefStatus[];
+export const SCRIPT_STAGES = Object.keys(SCRIPT_TRANSITIONS) as ScriptStatus[];
+
+const SCRIPT_STAGE_LABELS: Record<ScriptStatus, string> = {
+  draft: "Draft",
+  "in-review": "In review",
+  "changes-requested": "Changes requested",
+  approved: "Approved",
+  archived: "Archived",
+};
+
+const DEFAULT_RULE: ApprovalRule = { approvals: 1, role: "editor" };
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  brief: { Approved: { approvals: 1, role: "editor" } },
+  script: { approved: { approvals: 1, role: "editor" } },
+};
+
+export function stagesFor(subject: WorkflowSubject): WorkflowStage[] {
+  return subject === "brief" ? BRIEF_STAGES : SCRIPT_STAGES;
+}
+
+export function stageLabel(subject: WorkflowSubject, stage: WorkflowStage): string {
+  return subject === "brief" ? stage : SCRIPT_STAGE_LABELS[stage as ScriptStatus] ?? stage;
+}
+
+export function nextStages(subject: WorkflowSubject, from: WorkflowStage): WorkflowStage[] {
+  const transitions: Record<string, WorkflowStage[]> =
+    subject === "brief" ? BRIEF_TRANSITIONS : SCRIPT_TRANSITIONS;
+  return transitions[from] ?? [];
+}
+
+export function canTransition(
+  subject: WorkflowSubject,
+  from: WorkflowStage,
+  to: WorkflowStage
+): boolean {
+  return nextStages(subject, from).includes(to);
+}
+
+/**
+ * The workspace's rule for moving into `stage`, else the default one.
+ */
+export function approvalRule(
+  policy: ApprovalPolicy | undefined,
+  subject: WorkflowSubject,
+  stage: WorkflowStage
+): ApprovalRule {
+  const rules: Partial<Record<string, ApprovalRule>> =
+    policy?.[subject] ?? DEFAULT_APPROVAL_POLICY[subject];
+  return rules[stage] ?? DEFAULT_RULE;
+}
@@ -0,0 +1,164 @@
+// src/lib/workflow/repository.ts
+import { randomBytes } from "crypto";
+import type {
+  ApprovalPolicy,
+  ApprovalRule,
+  WorkflowEvent,
+  WorkflowSubject,
+  WorkspaceRole,
+} from "@/types/engine";
+import { WorkflowEventSchema } from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { hasRole } from "@/lib/workspaces/access";
+import { approvalRule, canTransition, nextStages, type WorkflowStage } from "./pipeline";
+
+/**
+ * Approval history and the transition rules that write it.
+ * Routes go through ./move, which applies the status change itself.
+ */
+
+const events = createJsonCollection<WorkflowEvent>("workflow-events", WorkflowEventSchema);
+
+export type WorkflowActor = { userId: string; role: WorkspaceRole };
+
+export type SignOffProgress = { count: number; required: number; by: string[] };
+
+export class TransitionNotAllowedError extends Error {
+  constructor(
+    public from: WorkflowStage,
+    public to: WorkflowStage,
+    public allowed: WorkflowStage[]
+  ) {
+    super(`Can't move from "${from}" to "${to}"`);
+    this.name = "TransitionNotAllowedError";
+  }
+}
+
+/**
+ * The actor's role is below what the stage's approval rule asks for.
+ */
+export class ApproverRoleError extends Error {
+  constructor(public to: WorkflowStage, public rule: ApprovalRule) {
+    super(`Moving to "${to}" needs the ${rule.role} role`);
+    this.name = "ApproverRoleError";
+  }
+}
+
+/**
+ * Oldest first.
+ */
+export async function listWorkflowEvents(
+  subject: WorkflowSubject,
+  subjectId: string
+): Promise<WorkflowEvent[]> {
+  const all = await events.list();
+  return all
+    .filter((event) => event.subject === subject && event.subjectId === subjectId)
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export async function deleteWorkflowEvents(
+  subject: WorkflowSubject,
+  subjectId: string
+): Promise<void> {
+  for (const event of await listWorkflowEvents(subject, subjectId)) {
+    await events.remove(event.id);
+  }
+}
+
+/**
+ * Who has signed off on `from → to` since the subject last changed
+ * stage; older sign-offs don't carry over.
+ */
+export function signOffsSince(history: WorkflowEvent[], from: string, to: string): string[] {
+  const lastMove = history.findLastIndex((event) => event.kind === "transition");
+  const since = history.slice(lastMove + 1);
+  return [
+    ...new Set(
+      since
+        .filter((event) => event.kind === "sign-off" && event.from === from && event.to === to)
+        .map((event) => event.by)
+    ),
+  ];
+}
+
+function appendEvent(event: Omit<WorkflowEvent, "id" | "at">): Promise<WorkflowEvent> {
+  return events.insert({
+    ...event,
+    id: `wf-${Date.now()}-${randomBytes(4).toString("hex")}`,
+    at: new Date().toISOString(),
+  });
+}
+
+/**
+ * A move made on a member's behalf rather than asked for, such as an edit
+ * sending approved work back for changes. The edit itself was allowed,
+ * so no policy applies; it is only written to the history.
+ */
+export function recordTransition(
+  event: Omit<WorkflowEvent, "id" | "at" | "kind">
+): Promise<WorkflowEvent> {
+  return appendEvent({ ...event, kind: "transition" });
+}
+
+/**
+ * One member asking to move a brief or script along. Throws
+ * TransitionNotAllowedError or ApproverRoleError. When the stage needs
+ * more sign-offs than it has, the request is recorded as a sign-off and
+ * nothing moves; the last one needed runs `apply` and records the move.
+ */
+export async function requestTransition<T>(input: {
+  subject: WorkflowSubject;
+  subjectId: string;
+  workspaceId?: string;
+  from: WorkflowStage;
+  to: WorkflowStage;
+  actor: WorkflowActor;
+  policy?: ApprovalPolicy;
+  note?: string;
+  apply: () => Promise<T | null>;
+}): Promise<{ record: T | null; moved: boolean; signOffs: SignOffProgress }> {
+  const { subject, subjectId, workspaceId, from, to, actor, note } = input;
+
+  if (!canTransition(subject, from, to)) {
+    throw new TransitionNotAllowedError(from, to, nextStages(subject, from));
+  }
+  const rule = approvalRule(input.policy, subject, to);
+  if (!hasRole(actor.role, rule.role)) throw new ApproverRoleError(to, rule);
+
+  const earlier = signOffsSince(await listWorkflowEvents(subject, subjectId), from, to);
+  const by = [...new Set([...earlier, actor.userId])];
+  const signOffs = { count: by.length, required: rule.approvals, by };
+  const base = { workspaceId, subject, subjectId, from, to, by: actor.userId, note };
+
+  if (by.length < rule.approvals) {
+    // Asking twice doesn't count twice
+    if (!earlier.includes(actor.userId)) await appendEvent({ ...base, kind: "sign-off" });
+    return { record: null, moved: false, signOffs };
+  }
+
+  const record = await input.apply();
+  if (record) await appendEvent({ ...base, kind: "transition" });
+  return { record, moved: Boolean(record), signOffs };
+}
+
+export type WorkflowOption = { to: WorkflowStage; rule: ApprovalRule; signOffs: string[] };
+
+/**
+ * Where a brief or script can go next, what each move needs and who has
+ * already signed off, plus the full history.
+ */
+export async function workflowState(
+  subject: WorkflowSubject,
+  subjectId: string,
+  status: WorkflowStage,
+  policy?: ApprovalPolicy
+): Promise<{ status: WorkflowStage; next: WorkflowOption[]; events: WorkflowEvent[] }> {
+  const history = await listWorkflowEvents(subject, subjectId);
+  const next = nextStages(subject, status).map((to) => ({
+    to,
+    rule: approvalRule(policy, subject, to),
+    signOffs: signOffsSince(history, status, to),
+  }));
+  return { status, next, events: history };
+}
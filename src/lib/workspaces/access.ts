@@ -0,0 +1,20 @@
+// src/lib/workspaces/access.ts
+import type { WorkspaceRole } from "@/types/engine";
+
+/**
+ * Role ranking and the active-workspace cookie. No server imports, so
+ * pages can use it to hide what the signed-in role can't do.
+ */
+
+/** The workspace the browser is working in; routes fall back to the first. */
+export const WORKSPACE_COOKIE = "appatize_workspace";
+
+const RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export function hasRole(role: WorkspaceRole | null | undefined, minimum: WorkspaceRole): boolean {
+  return !!role && RANK[role] >= RANK[minimum];
+}
+
+export function roleLabel(role: WorkspaceRole): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
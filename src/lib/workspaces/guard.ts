@@ -0,0 +1,80 @@
+// src/lib/workspaces/guard.ts
+import { NextResponse } from "next/server";
+import type { Session, User, Workspace, WorkspaceRole } from "@/types/engine";
+import { cookieValue, requireSession } from "@/lib/auth/guard";
+import { hasRole, WORKSPACE_COOKIE } from "./access";
+import { ensureMembership, getMembership, type Membership } from "./repository";
+
+/**
+ * Workspace checks for route handlers. Data routes work in the caller's
+ * active workspace (the WORKSPACE_COOKIE the app sets, else their first)
+ * and need at least a role: viewer to read, editor to change or
+ * generate, owner to manage members.
+ */
+
+export type WorkspaceCheck =
+  | { ok: true; user: User; session: Session; workspace: Workspace; role: WorkspaceRole }
+  | { ok: false; response: NextResponse };
+
+/**
+ * The workspace the request works in. Never null: a user without any
+ * workspace gets a personal one.
+ */
+export async function activeMembership(req: Request, user: User): Promise<Membership> {
+  const memberships = await ensureMembership(user);
+  const selected = cookieValue(req, WORKSPACE_COOKIE);
+  return memberships.find((m) => m.workspace.id === selected) ?? memberships[0];
+}
+
+export function roleDeniedMessage(membership: Membership, minimum: WorkspaceRole): string {
+  return `This needs the ${minimum} role in "${membership.workspace.name}"; you are a ${membership.role}`;
+}
+
+/**
+ * `workspaceId` pins the workspace (routes under /api/workspaces/[id]);
+ * without it the active workspace is used.
+ */
+export async function requireWorkspace(
+  req: Request,
+  minimum: WorkspaceRole,
+  workspaceId?: string
+): Promise<WorkspaceCheck> {
+  const auth = await requireSession(req);
+  if (!auth.ok) return auth;
+
+  const membership = workspaceId
+    ? await getMembership(workspaceId, auth.user.id)
+    : await activeMembership(req, auth.user);
+  if (!membership) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `Workspace "${workspaceId}" not found` },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (!hasRole(membership.role, minimum)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: roleDeniedMessage(membership, minimum) },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, user: auth.user, session: auth.session, ...membership };
+}
+
+/**
+ * The record if it belongs to the workspace, else null, so routes answer
+ * 404 for other workspaces' records exactly as for missing ones.
+ */
+export function inWorkspace<T extends { workspaceId?: string }>(
+  record: T | null,
+  workspaceId: string
+): T | null {
+  return record && record.workspaceId === workspaceId ? record : null;
+}
@@ -0,0 +1,34 @@
+// src/lib/workspaces/migrate.ts
+import { createJsonCollection, type StoredRecord } from "@/lib/store/jsonStore";
+
+/**
+ * Data from before workspaces existed has no `workspaceId`. The first
+ * workspace created claims all of it, so a single-team install keeps
+ * everything it had.
+ */
+
+type ScopedRecord = StoredRecord & { workspaceId?: string };
+
+const SCOPED_COLLECTIONS = [
+  "brands",
+  "briefs",
+  "scripts",
+  "calendar",
+  "library",
+  "library-collections",
+  "api-keys",
+  "usage",
+];
+
+export async function claimUnscopedRecords(workspaceId: string): Promise<number> {
+  let claimed = 0;
+  for (const name of SCOPED_COLLECTIONS) {
+    const collection = createJsonCollection<ScopedRecord>(name);
+    for (const record of await collection.list()) {
+      if (record.workspaceId) continue;
+      await collection.update(record.id, (current) => ({ ...current, workspaceId }));
+      claimed += 1;
+    }
+  }
+  return claimed;
+}
@@ -0,0 +1,314 @@
+// src/lib/workspaces/repository.ts
+import { createHash, randomBytes } from "crypto";
+import type {
+  ApprovalPolicy,
+  MemberWithUser,
+  PublicWorkspace,
+  User,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+} from "@/types/engine";
+import { getUser, normalizeEmail, publicUser } from "@/lib/auth/users";
+import {
+  WorkspaceInviteSchema,
+  WorkspaceMemberSchema,
+  WorkspaceSchema,
+} from "@/lib/schema/engine";
+import { createJsonCollection } from "@/lib/store/jsonStore";
+import { hasRole } from "./access";
+import { claimUnscopedRecords } from "./migrate";
+
+/**
+ * Workspaces, their members and pending invites.
+ * Routes talk to this module, never to the collections directly.
+ *
+ * A workspace always keeps at least one owner: the last owner can't be
+ * demoted or removed.
+ */
+
+const workspaces = createJsonCollection<Workspace>("workspaces", WorkspaceSchema);
+const members = createJsonCollection<WorkspaceMember>("workspace-members", WorkspaceMemberSchema);
+const invites = createJsonCollection<WorkspaceInvite>("workspace-invites", WorkspaceInviteSchema);
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type Membership = { workspace: Workspace; role: WorkspaceRole };
+
+export class LastOwnerError extends Error {
+  constructor() {
+    super("A workspace needs at least one owner");
+    this.name = "LastOwnerError";
+  }
+}
+
+/**
+ * The invite can't be accepted: unknown, used, expired or meant for
+ * another email.
+ */
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InviteError";
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "workspace";
+}
+
+function memberId(workspaceId: string, userId: string): string {
+  return `${workspaceId}:${userId}`;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function publicWorkspace(workspace: Workspace): PublicWorkspace {
+  const { id, name, approvalPolicy, createdBy, createdAt, updatedAt } = workspace;
+  return { id, name, approvalPolicy, createdBy, createdAt, updatedAt };
+}
+
+export function getWorkspace(id: string): Promise<Workspace | null> {
+  return workspaces.get(id);
+}
+
+/**
+ * Every workspace the user belongs to, by name.
+ */
+export async function listMemberships(userId: string): Promise<Membership[]> {
+  const mine = (await members.list()).filter((member) => member.userId === userId);
+  const all = new Map((await workspaces.list()).map((workspace) => [workspace.id, workspace]));
+
+  return mine
+    .flatMap((member) => {
+      const workspace = all.get(member.workspaceId);
+      return workspace ? [{ workspace, role: member.role }] : [];
+    })
+    .sort((a, b) => a.workspace.name.localeCompare(b.workspace.name));
+}
+
+export async function getMembership(
+  workspaceId: string,
+  userId: string
+): Promise<Membership | null> {
+  const [workspace, member] = await Promise.all([
+    workspaces.get(workspaceId),
+    members.get(memberId(workspaceId, userId)),
+  ]);
+  return workspace && member ? { workspace, role: member.role } : null;
+}
+
+async function addMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  const now = new Date().toISOString();
+  return members.insert({
+    id: memberId(workspaceId, userId),
+    workspaceId,
+    userId,
+    role,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * The creator becomes its owner. The very first workspace also claims
+ * everything stored before workspaces existed.
+ */
+export async function createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+  const isFirst = (await workspaces.list()).length === 0;
+  const now = new Date().toISOString();
+
+  const workspace = await workspaces.insert({
+    id: `ws-${slugify(name)}-${randomBytes(4).toString("hex")}`,
+    name: name.trim(),
+    createdBy: ownerId,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await addMember(workspace.id, ownerId, "owner");
+  if (isFirst) await claimUnscopedRecords(workspace.id);
+  return workspace;
+}
+
+/**
+ * Users always have somewhere to work: someone with no workspace gets a
+ * personal one.
+ */
+export async function ensureMembership(user: User): Promise<Membership[]> {
+  const existing = await listMemberships(user.id);
+  if (existing.length) return existing;
+
+  const label = user.name || user.email.split("@")[0];
+  await createWorkspace(`${label}'s workspace`, user.id);
+  return listMemberships(user.id);
+}
+
+export function updateWorkspace(
+  id: string,
+  patch: { name?: string; approvalPolicy?: ApprovalPolicy }
+): Promise<Workspace | null> {
+  return workspaces.update(id, (current) => ({
+    ...current,
+    name: patch.name?.trim() ?? current.name,
+    approvalPolicy: patch.approvalPolicy ?? current.approvalPolicy,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * The token in the workspace's iCal feed URL, created on first use and
+ * replaced whenever a member leaves (see removeMember).
+ */
+export async function calendarFeedToken(workspaceId: string): Promise<string | null> {
+  const workspace = await workspaces.update(workspaceId, (current) =>
+    current.calendarFeedToken
+      ? current
+      : { ...current, calendarFeedToken: randomBytes(24).toString("base64url") }
+  );
+  return workspace?.calendarFeedToken ?? null;
+}
+
+export async function findWorkspaceByFeedToken(token: string): Promise<Workspace | null> {
+  const all = await workspaces.list();
+  return all.find((workspace) => workspace.calendarFeedToken === token) ?? null;
+}
+
+export async function listMembers(workspaceId: string): Promise<MemberWithUser[]> {
+  const inWorkspace = (await members.list()).filter(
+    (member) => member.workspaceId === workspaceId
+  );
+  const withUsers = await Promise.all(
+    inWorkspace.map(async (member) => {
+      const user = await getUser(member.userId);
+      return { ...member, user: user ? publicUser(user) : null };
+    })
+  );
+  return withUsers.sort((a, b) =>
+    (a.user?.email ?? a.userId).localeCompare(b.user?.email ?? b.userId)
+  );
+}
+
+async function assertOtherOwner(workspaceId: string, userId: string) {
+  const owners = (await members.list()).filter(
+    (member) => member.workspaceId === workspaceId && member.role === "owner"
+  );
+  if (owners.every((owner) => owner.userId === userId)) throw new LastOwnerError();
+}
+
+/**
+ * Null when the user isn't a member. Throws LastOwnerError rather than
+ * demote the only owner.
+ */
+export async function setMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember | null> {
+  const member = await members.get(memberId(workspaceId, userId));
+  if (!member) return null;
+  if (member.role === "owner" && role !== "owner") await assertOtherOwner(workspaceId, userId);
+
+  return members.update(member.id, (current) => ({
+    ...current,
+    role,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Also retires the iCal feed token: the old member may still hold the
+ * feed URL, so everyone left has to copy the new one.
+ */
+export async function removeMember(workspaceId: string, userId: string): Promise<boolean> {
+  const member = await members.get(memberId(workspaceId, userId));
+  if (!member) return false;
+  if (member.role === "owner") await assertOtherOwner(workspaceId, userId);
+
+  const removed = await members.remove(member.id);
+  if (removed) {
+    await workspaces.update(workspaceId, (current) => ({
+      ...current,
+      calendarFeedToken: undefined,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+  return removed;
+}
+
+/**
+ * Returns the invite and the token for its link; the token is not
+ * recoverable afterwards.
+ */
+export async function createInvite(input: {
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string;
+}): Promise<{ invite: WorkspaceInvite; token: string }> {
+  const token = randomBytes(24).toString("base64url");
+  const now = Date.now();
+  const invite = await invites.insert({
+    id: hashToken(token),
+    workspaceId: input.workspaceId,
+    email: normalizeEmail(input.email),
+    role: input.role,
+    invitedBy: input.invitedBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INVITE_TTL_MS).toISOString(),
+  });
+  return { invite, token };
+}
+
+/**
+ * Open invites: not accepted, not expired. Newest first.
+ */
+export async function listInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  const now = new Date().toISOString();
+  return (await invites.list())
+    .filter((invite) => invite.workspaceId === workspaceId)
+    .filter((invite) => !invite.acceptedAt && invite.expiresAt > now)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeInvite(workspaceId: string, inviteId: string): Promise<boolean> {
+  const invite = await invites.get(inviteId);
+  if (!invite || invite.workspaceId !== workspaceId) return false;
+  return invites.remove(inviteId);
+}
+
+/**
+ * Joins the user to the invite's workspace. An existing member keeps
+ * the higher of their role and the invited one.
+ */
+export async function acceptInvite(token: string, user: User): Promise<Membership> {
+  const invite = await invites.get(hashToken(token));
+  if (!invite) throw new InviteError("This invite link is not valid");
+  if (invite.acceptedAt) throw new InviteError("This invite has already been used");
+  if (invite.expiresAt <= new Date().toISOString()) throw new InviteError("This invite has expired");
+  if (invite.email !== normalizeEmail(user.email)) {
+    throw new InviteError(`This invite is for ${invite.email}; sign in with that email to accept it`);
+  }
+
+  const workspace = await workspaces.get(invite.workspaceId);
+  if (!workspace) throw new InviteError("The workspace no longer exists");
+
+  const current = await members.get(memberId(workspace.id, user.id));
+  if (!current) {
+    await addMember(workspace.id, user.id, invite.role);
+  } else if (!hasRole(current.role, invite.role)) {
+    await setMemberRole(workspace.id, user.id, invite.role);
+  }
+
+  await invites.update(invite.id, (stored) => ({
+    ...stored,
+    acceptedAt: new Date().toISOString(),
+  }));
+  return (await getMembership(workspace.id, user.id)) as Membership;
+}
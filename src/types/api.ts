@@ -0,0 +1,15 @@
+// src/types/api.ts
+import type { z } from "zod";
+import type {
+  ApiErrorCodeSchema,
+  ApiErrorSchema,
+  PaginationSchema,
+} from "@/lib/schema/v1";
+
+/**
+ * Public /v1 API envelope types, inferred from src/lib/schema/v1.ts.
+ */
+
+export type ApiErrorCode = z.infer<typeof ApiErrorCodeSchema>;
+export type ApiErrorBody = z.infer<typeof ApiErrorSchema>;
+export type Pagination = z.infer<typeof PaginationSchema>;
@@ -1,42 +1,117 @@
 // src/types/engine.ts
+import type { z } from "zod";
+import type {
+  AngleDiversitySchema,
+  AngleOverlapSchema,
+  AngleSchema,
+  ApiKeyRateLimitSchema,
+  ApiKeySchema,
+  ApprovalPolicySchema,
+  ApprovalRuleSchema,
+  AudienceClusterSchema,
+  BrandProfileSchema,
+  BriefSchema,
+  BriefStatusSchema,
+  BriefTemplateSchema,
+  BriefVersionSchema,
+  CalendarEntrySchema,
+  CalendarEntryStatusSchema,
+  GlossaryEntrySchema,
+  GuardianFlagSchema,
+  GuardianOverrideSchema,
+  GuardianReportSchema,
+  PlatformModeSchema,
+  QualityCriterionResultSchema,
+  QualityReportSchema,
+  SaturationCheckSchema,
+  SavedCollectionSchema,
+  SavedItemKindSchema,
+  SavedItemSchema,
+  SessionSchema,
+  ScriptBeatSchema,
+  ScriptSchema,
+  ScriptStatusSchema,
+  ScriptVariantSchema,
+  ScriptVariantsSchema,
+  ShippedPairingSchema,
+  VariantTechniqueSchema,
+  TrendSchema,
+  UsageRecordSchema,
+  UserSchema,
+  WorkflowEventSchema,
+  WorkflowSubjectSchema,
+  WorkspaceInviteSchema,
+  WorkspaceMemberSchema,
+  WorkspaceRoleSchema,
+  WorkspaceSchema,
+} from "@/lib/schema/engine";
 
-export type Trend = {
-  id: string;
-  name: string;
-  summary: string;
-  mechanic: string;
-  signalStrengthStage: "early" | "growing" | "peaking" | "saturated";
-  signalStrengthScore: number;
-  platformFit: string[];
-  brandFitNotes?: string;
-  riskNotes?: string;
-};
-
-export type Angle = {
-  id: string;
-  label: string;
-  hook: string;
-  format: string;
-  platform: string;
-  coreSequence: string[]; // beats
-  brandFitRationale?: string;
-  difficulty?: "low" | "medium" | "high";
-  riskLevel?: "low" | "medium" | "high";
-  seriesPotentialScore?: number;
-};
-
-export type Brief = {
-  id: string;
-  title: string;
-  trend: Trend;
-  angle: Angle;
-  objective: string;
-  primaryAudience: string;
-  coreMessage: string;
-  toneAndVoice: string[];
-  contentRequirements: string[];
-  creativeMandatories: string[];
-  guardrails: string[];
-  successMetrics: string[];
-  exampleConcepts: string[];
-};
+/**
+ * Engine types, inferred from the canonical schemas in
+ * src/lib/schema/engine.ts. Edit the schema, not these aliases.
+ */
+
+export type Trend = z.infer<typeof TrendSchema>;
+export type TrendStage = Trend["signalStrengthStage"];
+
+export type Angle = z.infer<typeof AngleSchema>;
+export type AngleOverlap = z.infer<typeof AngleOverlapSchema>;
+export type AngleDiversity = z.infer<typeof AngleDiversitySchema>;
+
+export type BriefStatus = z.infer<typeof BriefStatusSchema>;
+export type Brief = z.infer<typeof BriefSchema>;
+export type BriefVersion = z.infer<typeof BriefVersionSchema>;
+
+export type PlatformMode = z.infer<typeof PlatformModeSchema>;
+
+export type ScriptBeat = z.infer<typeof ScriptBeatSchema>;
+export type Script = z.infer<typeof ScriptSchema>;
+
+export type VariantTechnique = z.infer<typeof VariantTechniqueSchema>;
+export type ScriptVariant = z.infer<typeof ScriptVariantSchema>;
+export type ScriptVariants = z.infer<typeof ScriptVariantsSchema>;
+export type ShippedPairing = z.infer<typeof ShippedPairingSchema>;
+
+export type QualityCriterionResult = z.infer<typeof QualityCriterionResultSchema>;
+export type QualityReport = z.infer<typeof QualityReportSchema>;
+
+export type GuardianFlag = z.infer<typeof GuardianFlagSchema>;
+export type GuardianReport = z.infer<typeof GuardianReportSchema>;
+export type GuardianOverride = z.infer<typeof GuardianOverrideSchema>;
+
+export type ScriptStatus = z.infer<typeof ScriptStatusSchema>;
+
+export type GlossaryEntry = z.infer<typeof GlossaryEntrySchema>;
+export type AudienceCluster = z.infer<typeof AudienceClusterSchema>;
+export type BrandProfile = z.infer<typeof BrandProfileSchema>;
+export type BriefTemplate = z.infer<typeof BriefTemplateSchema>;
+
+export type CalendarEntryStatus = z.infer<typeof CalendarEntryStatusSchema>;
+export type CalendarEntry = z.infer<typeof CalendarEntrySchema>;
+export type SaturationCheck = z.infer<typeof SaturationCheckSchema>;
+
+export type SavedItemKind = z.infer<typeof SavedItemKindSchema>;
+export type SavedCollection = z.infer<typeof SavedCollectionSchema>;
+export type SavedItem = z.infer<typeof SavedItemSchema>;
+
+export type ApiKeyRateLimit = z.infer<typeof ApiKeyRateLimitSchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type PublicApiKey = Omit<ApiKey, "hash">;
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
+export type User = z.infer<typeof UserSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
+export type Session = z.infer<typeof SessionSchema>;
+
+export type WorkspaceRole = z.infer<typeof WorkspaceRoleSchema>;
+export type Workspace = z.infer<typeof WorkspaceSchema>;
+export type PublicWorkspace = Omit<Workspace, "calendarFeedToken">;
+export type WorkspaceWithRole = PublicWorkspace & { role: WorkspaceRole };
+export type WorkspaceMember = z.infer<typeof WorkspaceMemberSchema>;
+export type MemberWithUser = WorkspaceMember & { user: PublicUser | null };
+export type WorkspaceInvite = z.infer<typeof WorkspaceInviteSchema>;
+export type ApprovalRule = z.infer<typeof ApprovalRuleSchema>;
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+
+export type WorkflowSubject = z.infer<typeof WorkflowSubjectSchema>;
+export type WorkflowEvent = z.infer<typeof WorkflowEventSchema>;
@@ -0,0 +1,98 @@
+// src/types/signals.ts
+
+/**
+ * Signal intake types (INGEST step).
+ *
+ * Field names follow Signal-Data-Interface-Spec.md verbatim (snake_case),
+ * so raw exports and adapter payloads can be mapped 1:1 without renaming.
+ */
+
+export type SignalSource =
+  | "tiktok"
+  | "instagram"
+  | "youtube"
+  | "x"
+  | "search"
+  | "other";
+
+export type SignalEngagement = {
+  views?: number;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  saves?: number;
+};
+
+export type SignalContentFeatures = {
+  text_snippet?: string;
+  audio_id?: string;
+  visual_style_tags?: string[];
+  format_tags?: string[];
+  duration_seconds?: number;
+};
+
+/**
+ * A single observation from any source.
+ */
+export type SignalEvent = {
+  id: string;
+  source: SignalSource;
+  timestamp: string; // ISO date string
+  url?: string;
+  author_handle?: string;
+  author_followers?: number;
+  engagement: SignalEngagement;
+  content_features: SignalContentFeatures;
+  hashtags?: string[];
+  topics?: string[];
+  geo_region?: string;
+  language?: string;
+};
+
+export type GrowthMetrics = {
+  velocity_score: number; // 0–100
+  acceleration_score: number;
+  recurrence_score: number;
+};
+
+/**
+ * An aggregated signal pattern over time.
+ */
+export type TrendSignal = {
+  id: string;
+  label: string; // internal name; user-friendly naming happens in INTERPRET
+  source_mix: Record<string, number>;
+  time_window: { from: string; to: string };
+  volume: number;
+  engagement_totals: {
+    views: number;
+    likes: number;
+    shares: number;
+    comments: number;
+  };
+  growth_metrics: GrowthMetrics;
+  feature_clusters: {
+    dominant_visual_styles: string[];
+    dominant_formats: string[];
+    dominant_hashtags: string[];
+    dominant_topics: string[];
+  };
+  geo_distribution?: Record<string, number>;
+  audience_notes?: string;
+};
+
+export type FetchParams = {
+  from?: string; // ISO date string, inclusive
+  to?: string; // ISO date string, inclusive
+  limit?: number; // max events per adapter
+};
+
+/**
+ * Every upstream (API, scraper, export, internal DB) plugs in through this.
+ */
+export interface SignalAdapter<Raw = unknown> {
+  name: string;
+  fetchRawData(params: FetchParams): Promise<Raw>;
+  toSignalEvents(raw: Raw): SignalEvent[];
+  aggregate(events: SignalEvent[]): TrendSignal[];
+}